@@ -6,15 +6,64 @@
 
 // Core LLM interface and types
 export * from './src/llm.ts';
+export * from './src/budget.ts';
+export * from './src/ensemble.ts';
+export * from './src/confidence.ts';
+export * from './src/conversation.ts';
+export * from './src/template.ts';
+export {
+	consoleLogger,
+	type HttpRetryEvent,
+	type LLMErrorEvent,
+	type LLMRequestEvent,
+	type LLMResponseEvent,
+	type LLMRetryEvent,
+	type Logger,
+	noopLogger,
+	type ObservabilityHooks,
+	setLogger,
+	setObservabilityHooks,
+	setTracer,
+	type SpanAttributeValue,
+	type ToolInvokeEvent,
+	type Tracer,
+	type TraceSpan,
+} from './src/observability.ts';
 export { BatchResponse } from './src/response.ts';
 export {
+	BATCH_PRICE_FACTOR,
+	type CacheOptions,
 	calculateCost,
+	clearProviderPool,
+	type CompatibleSchema,
+	DenoKvCache,
+	FileSystemCache,
+	findSchemaIssues,
+	getBatchPricing,
 	getModelInfo,
 	getModelPricing,
 	getProvider,
 	getProviderForModel,
+	GoogleProvider,
+	type GoogleProviderOptions,
+	MemoryCache,
 	type ModelInfo,
 	type ModelPricing,
+	type ProviderFactory,
+	type ProviderFactoryOptions,
+	type ProviderMatcher,
+	type RateLimit,
+	registerProvider,
+	ReplayMissError,
+	type ReplayMode,
+	type ReplayOptions,
+	ReplayProvider,
+	type ResponseCache,
+	type SchemaDialect,
+	type SchemaIssue,
+	setCacheOptions,
+	setReplayOptions,
+	toCompatibleSchema,
 } from './src/providers/index.ts';
 
 // Tools
@@ -2,9 +2,9 @@ import { z } from '@zod/zod';
 
 import { mapParallel } from '../helpers/async.ts';
 import { askLLMSafe } from '../llm.ts';
+import { definePrompt } from '../template.ts';
 
-import type { List, Table, Form } from './parseHtml.ts';
-
+import type { Form, List, Table } from './parseHtml.ts';
 
 const ListClassificationSchema = z.object({
 	type: z.enum([
@@ -17,10 +17,10 @@ const ListClassificationSchema = z.object({
 		'Steps',
 		'Benefits',
 		'Specifications',
-		'Other'
+		'Other',
 	]).describe('Category that best describes the purpose and content of this list.'),
 	confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level in this classification.'),
-	reason: z.string().describe('Brief explanation (single phrase) of why this classification was assigned.')
+	reason: z.string().describe('Brief explanation (single phrase) of why this classification was assigned.'),
 }).describe('Classification of a list element.');
 
 const TableClassificationSchema = z.object({
@@ -33,10 +33,10 @@ const TableClassificationSchema = z.object({
 		'FAQ',
 		'Pros/Cons',
 		'Timeline',
-		'Other'
+		'Other',
 	]).describe('Category that best describes the purpose and content of this table.'),
 	confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level in this classification.'),
-	reason: z.string().describe('Brief explanation (single phrase) of why this classification was assigned.')
+	reason: z.string().describe('Brief explanation (single phrase) of why this classification was assigned.'),
 }).describe('Classification of a table element.');
 
 const FormClassificationSchema = z.object({
@@ -50,17 +50,16 @@ const FormClassificationSchema = z.object({
 		'Configuration',
 		'Quote Request',
 		'Registration',
-		'Other'
+		'Other',
 	]).describe('Category that best describes the purpose and function of this form.'),
 	confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level in this classification.'),
-	reason: z.string().describe('Brief explanation (single phrase) of why this classification was assigned.')
+	reason: z.string().describe('Brief explanation (single phrase) of why this classification was assigned.'),
 }).describe('Classification of a form element.');
 
 type ListClassification = z.infer<typeof ListClassificationSchema>;
 type TableClassification = z.infer<typeof TableClassificationSchema>;
 type FormClassification = z.infer<typeof FormClassificationSchema>;
 
-
 interface ElementTypeMap {
 	list: { element: List; schema: typeof ListClassificationSchema; classification: ListClassification };
 	table: { element: Table; schema: typeof TableClassificationSchema; classification: TableClassification };
@@ -70,25 +69,27 @@ interface ElementTypeMap {
 const schemaMap = {
 	list: ListClassificationSchema,
 	table: TableClassificationSchema,
-	form: FormClassificationSchema
+	form: FormClassificationSchema,
 } as const;
 
-const ELEM_CAT_PROMPT = `
+const ELEM_CAT_PROMPT = definePrompt(
+	'classifyElements',
+	`
 Classify the following {elementType} element based on its content and structure.
 
 {content}
 
 Analyze the content and provide a classification with the appropriate type, confidence level, and reasoning.
-`.trim();
+`.trim(),
+	['elementType', 'content'],
+);
 
 async function classifySingleElement<T extends keyof ElementTypeMap>(
 	element: ElementTypeMap[T]['element'],
 	elementType: T,
-	model: string
+	model: string,
 ): Promise<ElementTypeMap[T]['classification']> {
-	const prompt = ELEM_CAT_PROMPT
-		.replace('{elementType}', elementType)
-		.replace('{content}', JSON.stringify(element, null, 2));
+	const prompt = ELEM_CAT_PROMPT.render({ elementType, content: JSON.stringify(element, null, 2) });
 	const schema = schemaMap[elementType] as z.ZodType<ElementTypeMap[T]['classification']>;
 	const { parsed } = await askLLMSafe({ prompt, model, schema });
 	if (!parsed) {
@@ -101,19 +102,16 @@ export async function classifyElements<T extends keyof ElementTypeMap>(
 	elements: Array<ElementTypeMap[T]['element']>,
 	elementType: T,
 	model: string = 'gpt-4.1-mini',
-	maxConcurrency: number = 100
+	maxConcurrency: number = 100,
 ): Promise<Array<ElementTypeMap[T]['element'] & { classification: ElementTypeMap[T]['classification'] }>> {
 	const classifications = await mapParallel(
 		elements,
 		maxConcurrency,
-		element => classifySingleElement(element, elementType, model)
+		(element) => classifySingleElement(element, elementType, model),
 	);
 
 	return elements.map((element, index) => ({
 		...element,
-		classification: classifications[index]
+		classification: classifications[index],
 	}));
 }
-
-
-
@@ -1,15 +1,19 @@
 import { z } from '@zod/zod';
 
-import { askLLMSafe, type ProviderParams } from '../llm.ts';
+import { askLLMSafe, type ImagePart, type Message, type ProviderParams } from '../llm.ts';
 
 import { type ScrapeResponse } from '../apis/hasdata/scrape.ts';
-import { type TopicLabel, createLabelSchema } from '../tools/topics.ts';
+import { createLabelSchema, type TopicLabel } from '../tools/topics.ts';
 import { type StructuredAnalysis, type StructuredContent, type StructuredStats } from './analyse.ts';
 import { flattenHeadingStructure } from './parseHtml.ts';
 import { Defuddle } from 'npm:defuddle/node';
 import TurndownService from 'npm:turndown';
+import { log } from '../observability.ts';
+import { definePrompt } from '../template.ts';
 
-const CONTEXT_TEMPLATE = `
+const CONTEXT_TEMPLATE = definePrompt(
+	'pageContext',
+	`
 The below 3 subsections contain information extracted from a web page, specifically:
 
     - statistics about the content (number of words, headings, links, images, etc.),
@@ -29,7 +33,9 @@ Use this information to answer questions about the content of the web page.
 ## Web Page Content Markdown
 
 {markdown}
-`.trim();
+`.trim(),
+	['stats', 'elements', 'markdown'],
+);
 
 /**
  * Configuration for which elements to include in the context.
@@ -80,7 +86,7 @@ const DEFAULT_ELEMENTS_OPTIONS: Required<ElementsOptions> = {
 	includeQuestions: true,
 	maxQuestions: 10,
 	includeSchemas: true,
-	includeMeta: true
+	includeMeta: true,
 };
 
 /**
@@ -88,7 +94,7 @@ const DEFAULT_ELEMENTS_OPTIONS: Required<ElementsOptions> = {
  */
 function filterElements(
 	content: StructuredContent,
-	options: ElementsOptions
+	options: ElementsOptions,
 ): Partial<StructuredContent> {
 	const opts = { ...DEFAULT_ELEMENTS_OPTIONS, ...options };
 	const filtered: Partial<StructuredContent> = {};
@@ -114,13 +120,13 @@ function filterElements(
 	}
 
 	if (opts.includeLists && content.lists.length > 0) {
-		filtered.lists = content.lists.map(list => {
+		filtered.lists = content.lists.map((list) => {
 			if (opts.maxListItems > 0 && list.items.length > opts.maxListItems) {
 				return {
 					...list,
 					items: list.items.slice(0, opts.maxListItems),
 					_truncated: true,
-					_totalItems: list.items.length
+					_totalItems: list.items.length,
 				};
 			}
 			return list;
@@ -129,11 +135,11 @@ function filterElements(
 
 	if (opts.includeTables && content.tables.length > 0) {
 		if (opts.tableHeadersOnly) {
-			filtered.tables = content.tables.map(table => ({
+			filtered.tables = content.tables.map((table) => ({
 				table: table.table.length > 0 ? [table.table[0]] : [],
 				contextHeading: table.contextHeading,
 				_rowCount: Math.max(0, table.table.length - 1),
-				_headerOnly: true
+				_headerOnly: true,
 			})) as StructuredContent['tables'];
 		} else {
 			filtered.tables = content.tables;
@@ -141,9 +147,7 @@ function filterElements(
 	}
 
 	if (opts.includeLinks && content.links.length > 0) {
-		filtered.links = opts.maxLinks > 0
-			? content.links.slice(0, opts.maxLinks)
-			: content.links;
+		filtered.links = opts.maxLinks > 0 ? content.links.slice(0, opts.maxLinks) : content.links;
 	}
 
 	if (opts.includeForms && content.forms.length > 0) {
@@ -151,9 +155,7 @@ function filterElements(
 	}
 
 	if (opts.includeQuestions && content.questions.length > 0) {
-		filtered.questions = opts.maxQuestions > 0
-			? content.questions.slice(0, opts.maxQuestions)
-			: content.questions;
+		filtered.questions = opts.maxQuestions > 0 ? content.questions.slice(0, opts.maxQuestions) : content.questions;
 	}
 
 	return filtered;
@@ -174,17 +176,16 @@ function filterStats(stats: StructuredStats): Partial<StructuredStats> {
 		numExternalLinks: stats.numExternalLinks,
 		numQuestions: stats.numQuestions,
 		numForms: stats.numForms,
-		numWords: stats.numWords
+		numWords: stats.numWords,
 	};
 }
 
-
 /**
  * Convert a ScrapeResponse to cleaned markdown.
  */
 async function responseToMd(
 	response: ScrapeResponse,
-	useDefault: boolean = false
+	useDefault: boolean = false,
 ): Promise<string> {
 	if (useDefault) {
 		return response.markdown || '';
@@ -207,7 +208,7 @@ async function responseToMd(
 export async function responseToContext(
 	response: ScrapeResponse,
 	structuredAnalysis: StructuredAnalysis,
-	options: ContextOptions
+	options: ContextOptions,
 ): Promise<string> {
 	let markdown = await responseToMd(response, options.markdown.useDefault);
 	if (options.markdown.maxLength && markdown.length > options.markdown.maxLength) {
@@ -223,12 +224,7 @@ export async function responseToContext(
 	const filteredElements = filterElements(structuredAnalysis.content, elementsOptions);
 	const elementsSection = JSON.stringify(filteredElements, null, 2);
 
-	const context = CONTEXT_TEMPLATE
-		.replace('{stats}', statsSection)
-		.replace('{elements}', elementsSection)
-		.replace('{markdown}', markdown || '');
-
-	return context;
+	return CONTEXT_TEMPLATE.render({ stats: statsSection, elements: elementsSection, markdown: markdown || '' });
 }
 
 /**
@@ -238,7 +234,7 @@ export async function responseToContext(
 export const CLASSIFICATION_PRESET: ContextOptions = {
 	markdown: {
 		useDefault: false,
-		maxLength: 4000
+		maxLength: 4000,
 	},
 	elements: {
 		includeHeadings: true,
@@ -253,9 +249,9 @@ export const CLASSIFICATION_PRESET: ContextOptions = {
 		includeQuestions: true,
 		maxQuestions: 5,
 		includeSchemas: true,
-		includeMeta: true
+		includeMeta: true,
 	},
-	includeStats: true
+	includeStats: true,
 };
 
 /**
@@ -265,7 +261,7 @@ export const CLASSIFICATION_PRESET: ContextOptions = {
 export const SEO_ANALYSIS_PRESET: ContextOptions = {
 	markdown: {
 		useDefault: false,
-		maxLength: 8000
+		maxLength: 8000,
 	},
 	elements: {
 		includeHeadings: true,
@@ -281,50 +277,49 @@ export const SEO_ANALYSIS_PRESET: ContextOptions = {
 		includeQuestions: true,
 		maxQuestions: 15,
 		includeSchemas: true,
-		includeMeta: true
+		includeMeta: true,
 	},
-	includeStats: true
+	includeStats: true,
 };
 
-
-
-
 const PAGE_TAXONOMY = [
 	{
 		'topic': 'Content',
-		'subtopics': ['Article', 'Blog Post', 'News', 'Guide', 'Thought Leadership']
+		'subtopics': ['Article', 'Blog Post', 'News', 'Guide', 'Thought Leadership'],
 	},
 	{
 		'topic': 'Instructional',
-		'subtopics': ['How-to', 'Tutorial', 'Setup Guide', 'Recipe']
+		'subtopics': ['How-to', 'Tutorial', 'Setup Guide', 'Recipe'],
 	},
 	{
 		'topic': 'List / Comparison',
-		'subtopics': ['Listicle', 'Ranking', 'Best X', 'Comparison', 'Alternatives']
+		'subtopics': ['Listicle', 'Ranking', 'Best X', 'Comparison', 'Alternatives'],
 	},
 	{
 		'topic': 'Commercial',
-		'subtopics': ['Product Page', 'Feature Page', 'Solution Page', 'Pricing Page', 'Service Page', 'Category Page']
+		'subtopics': ['Product Page', 'Feature Page', 'Solution Page', 'Pricing Page', 'Service Page', 'Category Page'],
 	},
 	{
 		'topic': 'Interactive',
-		'subtopics': ['Calculator', 'Quiz', 'Assessment', 'Configurator', 'Tool']
+		'subtopics': ['Calculator', 'Quiz', 'Assessment', 'Configurator', 'Tool'],
 	},
 	{
 		'topic': 'Hub / Aggregator',
-		'subtopics': ['Topic Hub', 'Resource Page', 'Documentation Index', 'Help Center']
+		'subtopics': ['Topic Hub', 'Resource Page', 'Documentation Index', 'Help Center'],
 	},
 	{
 		'topic': 'Community / UGC',
-		'subtopics': ['Forum Thread', 'Q&A Page', 'Reviews', 'Comments']
+		'subtopics': ['Forum Thread', 'Q&A Page', 'Reviews', 'Comments'],
 	},
 	{
 		'topic': 'Corporate / Trust',
-		'subtopics': ['About Page', 'Contact Page', 'Careers Page', 'Legal / Policy Page', 'Company Info']
-	}
+		'subtopics': ['About Page', 'Contact Page', 'Careers Page', 'Legal / Policy Page', 'Company Info'],
+	},
 ];
 
-const LABEL_PROMPT = `
+const LABEL_PROMPT = definePrompt(
+	'classifyPage',
+	`
 You are an expert SEO content analyst. Based on the provided web page context below, categorize the page
 using the following two-level taxonomy:
 
@@ -333,27 +328,35 @@ using the following two-level taxonomy:
 # Web Page Context
 
 {context}
-`.trim();
+`.trim(),
+	['taxonomy', 'context'],
+);
 
+/**
+ * Classify a page using the page taxonomy.
+ * An optional screenshot of the page is attached to the prompt as additional context.
+ */
 export async function classifyPage(
 	pageContext: string,
 	model: string = 'gpt-5.1',
-	modelParams: ProviderParams = { reasoning: { effort: 'none' } }
+	modelParams: ProviderParams = { reasoning: { effort: 'none' } },
+	screenshot?: ImagePart,
 ): Promise<TopicLabel | null> {
-
 	if (pageContext == null || pageContext.trim() === '') {
 		return null;
 	}
 
-	const prompt = LABEL_PROMPT
-		.replace('{taxonomy}', JSON.stringify(PAGE_TAXONOMY, null, 2))
-		.replace('{context}', pageContext);
+	const text = LABEL_PROMPT.render({ taxonomy: JSON.stringify(PAGE_TAXONOMY, null, 2), context: pageContext });
+
+	const prompt: string | Message[] = screenshot
+		? [{ role: 'user', content: [{ type: 'text', text }, screenshot] }]
+		: text;
 
 	const taxonomy = Array.isArray(PAGE_TAXONOMY) ? { topics: PAGE_TAXONOMY } : PAGE_TAXONOMY;
 	const labelSchema = createLabelSchema(taxonomy);
 	const schema = labelSchema.safeExtend({
-		summary: z.string().describe('A brief summary of the page\'s content.'),
-		reasoning: z.string().describe('The model reasoning for the assigned labels.')
+		summary: z.string().describe("A brief summary of the page's content."),
+		reasoning: z.string().describe('The model reasoning for the assigned labels.'),
 	});
 
 	try {
@@ -363,12 +366,14 @@ export async function classifyPage(
 		}
 		return parsed;
 	} catch (error) {
-		console.warn(`Failed to assign topic for text "${pageContext.substring(0, 50)}...":`, error);
+		log.warn(`Failed to assign topic for text "${pageContext.substring(0, 50)}...":`, error);
 		return null;
 	}
 }
 
-const PAGE_PROMPT = `
+const PAGE_PROMPT = definePrompt(
+	'classifyPageFreestyle',
+	`
 You are an expert content analyst. Based on the provided web page context, answer the following question in detail:
 
 - what is the main type of the article (e.g., blog post, news article, product page, informational page, listicle, etc.)?
@@ -378,22 +383,26 @@ You are an expert content analyst. Based on the provided web page context, answe
 
 # Web Page Context
 {context}
-`;
+`,
+	['context'],
+);
 
 const AISummarySchema = z.object({
-	type: z.string().describe('The main type of the article (e.g., blog post, news article, product page, informational page, listicle, etc.)'),
+	type: z.string().describe(
+		'The main type of the article (e.g., blog post, news article, product page, informational page, listicle, etc.)',
+	),
 	topic: z.string().describe('The main topic of the article as a short label'),
 	subtopics: z.array(z.string()).describe('A list of short labels for the subtopics covered in the article'),
-	summary: z.string().describe('A summary of the article in 3-5 sentences')
+	summary: z.string().describe('A summary of the article in 3-5 sentences'),
 });
 
 type AIPageSummary = z.infer<typeof AISummarySchema>;
 
 export async function classifyPageFreestyle(
 	context: string,
-	model: string = 'gpt-4.1'
+	model: string = 'gpt-4.1',
 ): Promise<AIPageSummary | null> {
-	const prompt = PAGE_PROMPT.replace('{context}', context);
+	const prompt = PAGE_PROMPT.render({ context });
 	const answer = await askLLMSafe({ prompt, model, schema: AISummarySchema });
 	return answer.parsed;
-}
\ No newline at end of file
+}
@@ -11,15 +11,16 @@
  *  - E.g:
  *    - http://suggestqueries.google.com/complete/search?output=toolbar&q=coches+electricos
  *    - http://suggestqueries.google.com/complete/search?output=toolbar&hl=en&q=best+electric+cars
- *
-*/
-import { withRetries, type RetryConfig, RETRY_DEFAULTS, sleep } from '../helpers/async.ts';
+ */
+import { RETRY_DEFAULTS, type RetryConfig, sleep, withRetries } from '../helpers/async.ts';
 
 interface AutocompleteOptions {
 	query: string;
 	language?: string;
 	countryCode?: string;
 	retryConfig?: RetryConfig;
+	signal?: AbortSignal;
+	timeoutMs?: number; // timeout of each attempt, in milliseconds
 }
 
 /**
@@ -30,13 +31,14 @@ export async function autocomplete({
 	query,
 	language,
 	countryCode,
-	retryConfig = RETRY_DEFAULTS
+	retryConfig = RETRY_DEFAULTS,
+	signal,
+	timeoutMs,
 }: AutocompleteOptions): Promise<Array<string>> {
-
 	const baseUrl = 'https://suggestqueries.google.com/complete/search';
 	const params = new URLSearchParams({
 		client: 'chrome',
-		q: query.trim()
+		q: query.trim(),
 	});
 
 	if (language) {
@@ -51,14 +53,16 @@ export async function autocomplete({
 
 	try {
 		const response = await withRetries(
-			async () => fetch(url, {
-				method: 'GET',
-				headers: {
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
-				},
-				signal: (globalThis as Record<string, unknown>).abortSignal as AbortSignal | undefined
-			}),
-			retryConfig
+			async (attemptSignal) =>
+				fetch(url, {
+					method: 'GET',
+					headers: {
+						'User-Agent':
+							'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+					},
+					signal: attemptSignal,
+				}),
+			{ ...retryConfig, signal, timeoutMs },
 		);
 
 		if (!response.ok) {
@@ -91,6 +95,8 @@ interface RecurseAutocompleteOptions {
 	retryConfig?: RetryConfig;
 	delayBetweenCalls?: number; // in milliseconds
 	maxDepth?: number;
+	signal?: AbortSignal;
+	timeoutMs?: number; // timeout of each attempt, in milliseconds
 }
 
 interface AutocompleteRecord {
@@ -108,20 +114,20 @@ export async function recurseAutocomplete({
 	countryCode,
 	retryConfig,
 	delayBetweenCalls = 3000,
-	maxDepth = 1
+	maxDepth = 1,
+	signal,
+	timeoutMs,
 }: RecurseAutocompleteOptions): Promise<Array<AutocompleteRecord>> {
-
 	const results: Array<AutocompleteRecord> = [];
 	const processedQueries = new Set<string>();
 
-	const abortSignal = (globalThis as Record<string, unknown>).abortSignal as AbortSignal | undefined;
-	if (abortSignal?.aborted) {
+	if (signal?.aborted) {
 		throw new Error('Operation aborted');
 	}
 
 	async function fetchRecursive(
 		currentQuery: string,
-		currentDepth: number
+		currentDepth: number,
 	): Promise<void> {
 		const normalizedQuery = currentQuery.trim().toLowerCase();
 
@@ -140,14 +146,16 @@ export async function recurseAutocomplete({
 				query: currentQuery,
 				language,
 				countryCode,
-				retryConfig
+				retryConfig,
+				signal,
+				timeoutMs,
 			});
 
 			for (const suggestion of suggestions) {
 				results.push({
 					sourceQuery: currentQuery,
 					suggestion,
-					depth: currentDepth
+					depth: currentDepth,
 				});
 			}
 
@@ -157,12 +165,15 @@ export async function recurseAutocomplete({
 
 				if (nextDepth < maxDepth) {
 					if (i > 0) {
-						await sleep(delayBetweenCalls, abortSignal);
+						await sleep(delayBetweenCalls, signal);
 					}
 					await fetchRecursive(suggestion, nextDepth);
 				}
 			}
-		} catch {
+		} catch (error) {
+			if (signal?.aborted) {
+				throw error;
+			}
 			// Silently skip failed queries to allow the recursion to continue
 		}
 	}
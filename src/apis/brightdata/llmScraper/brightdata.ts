@@ -1,4 +1,3 @@
-/* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 /**
  * Brightdata LLM Scraper Provider.
  *
@@ -10,7 +9,8 @@
 
 import { type RetryConfig, sleep, withRetries } from '../../../helpers/async.ts';
 import type { ModelResult } from '../../../schemas/models.schema.ts';
-import { parseSources, cleanAnswer, getAbortSignal, type ProviderFunctions } from './scrape.ts';
+import { cleanAnswer, parseSources, type ProviderFunctions } from './scrape.ts';
+import { log } from '../../../observability.ts';
 
 // ============================================================================
 // Types
@@ -119,6 +119,8 @@ export function createBrightdataProvider(
 		prompt: string,
 		useSearch: boolean,
 		countryISOCode: string | null,
+		signal?: AbortSignal,
+		timeoutMs?: number,
 	): Promise<string | null> {
 		const apiKey = getApiKey();
 		const url = `${config.apiBase}/datasets/v3/trigger?dataset_id=${config.datasetId}&include_errors=true`;
@@ -138,7 +140,7 @@ export function createBrightdataProvider(
 
 		try {
 			const response = await withRetries(
-				() =>
+				(attemptSignal) =>
 					fetch(url, {
 						method: 'POST',
 						headers: {
@@ -146,41 +148,40 @@ export function createBrightdataProvider(
 							'Content-Type': 'application/json',
 						},
 						body: JSON.stringify(body),
-						signal: getAbortSignal(),
+						signal: attemptSignal,
 					}),
-				TRIGGER_RETRY,
+				{ ...TRIGGER_RETRY, signal, timeoutMs },
 			);
 
 			if (!response.ok) {
-				console.error(`[${config.providerName}] Trigger error: ${response.status}`);
+				log.error(`[${config.providerName}] Trigger error: ${response.status}`);
 				return null;
 			}
 
 			const data = await response.json();
 			return data?.snapshot_id || null;
 		} catch (error) {
-			console.error(`[${config.providerName}] Trigger failed:`, error);
+			log.error(`[${config.providerName}] Trigger failed:`, error);
 			return null;
 		}
 	}
 
-	async function monitorJob(snapshotId: string): Promise<boolean> {
+	async function monitorJob(snapshotId: string, signal?: AbortSignal, timeoutMs?: number): Promise<boolean> {
 		const apiKey = getApiKey();
 		const url = `${config.apiBase}/datasets/v3/progress/${snapshotId}`;
 		const startTime = Date.now();
-		const abortSignal = getAbortSignal();
 
 		while (Date.now() - startTime < MAX_WAIT_MS) {
-			if (abortSignal?.aborted) return false;
+			if (signal?.aborted) return false;
 
 			try {
 				const response = await withRetries(
-					() =>
+					(attemptSignal) =>
 						fetch(url, {
 							headers: { 'Authorization': `Bearer ${apiKey}` },
-							signal: abortSignal,
+							signal: attemptSignal,
 						}),
-					MONITOR_RETRY,
+					{ ...MONITOR_RETRY, signal, timeoutMs },
 				);
 
 				if (!response.ok) {
@@ -191,39 +192,43 @@ export function createBrightdataProvider(
 					if (status.status === 'failed' || status.status === 'error') return false;
 				}
 			} catch (error) {
-				console.error(`[${config.providerName}] Monitor error:`, error);
+				log.error(`[${config.providerName}] Monitor error:`, error);
 			}
 
-			await sleep(POLL_INTERVAL_MS, abortSignal);
+			await sleep(POLL_INTERVAL_MS, signal);
 		}
 
-		console.error(`[${config.providerName}] Monitor timeout after ${MAX_WAIT_MS / 1000}s`);
+		log.error(`[${config.providerName}] Monitor timeout after ${MAX_WAIT_MS / 1000}s`);
 		return false;
 	}
 
-	async function downloadJob(snapshotId: string): Promise<Array<BrightdataLLMResponse> | null> {
+	async function downloadJob(
+		snapshotId: string,
+		signal?: AbortSignal,
+		timeoutMs?: number,
+	): Promise<Array<BrightdataLLMResponse> | null> {
 		const apiKey = getApiKey();
 		const url = `${config.apiBase}/datasets/v3/snapshot/${snapshotId}?format=json`;
 
 		try {
 			const response = await withRetries(
-				() =>
+				(attemptSignal) =>
 					fetch(url, {
 						headers: { 'Authorization': `Bearer ${apiKey}` },
-						signal: getAbortSignal(),
+						signal: attemptSignal,
 					}),
-				DOWNLOAD_RETRY,
+				{ ...DOWNLOAD_RETRY, signal, timeoutMs },
 			);
 
 			if (!response.ok) {
-				console.error(`[${config.providerName}] Download error: ${response.status}`);
+				log.error(`[${config.providerName}] Download error: ${response.status}`);
 				return null;
 			}
 
 			const data = await response.json();
 			return Array.isArray(data) ? data : null;
 		} catch (error) {
-			console.error(`[${config.providerName}] Download failed:`, error);
+			log.error(`[${config.providerName}] Download failed:`, error);
 			return null;
 		}
 	}
@@ -77,9 +77,7 @@ function getLLMScraper(target: ScraperTarget = 'chatgpt'): LLMScraper {
 	let provider;
 	if (target === 'generic') {
 		// Generic instance: only used for download/monitor, no target-specific config needed
-		provider = providerName === 'brightdata'
-			? createBrightdataProvider()
-			: createOxylabsProvider();
+		provider = providerName === 'brightdata' ? createBrightdataProvider() : createOxylabsProvider();
 	} else {
 		const targetOptions = getTargetOptions(target);
 		provider = providerName === 'brightdata'
@@ -114,8 +112,12 @@ export async function triggerGPTBatch(options: BatchOptions): Promise<Array<stri
 	return getLLMScraper('chatgpt').triggerLLMBatch(options);
 }
 
-export async function downloadGPTSnapshots(jobIds: Array<string | null>): Promise<Array<ModelResult>> {
-	return downloadSnapshots(jobIds);
+export async function downloadGPTSnapshots(
+	jobIds: Array<string | null>,
+	signal?: AbortSignal,
+	timeoutMs?: number,
+): Promise<Array<ModelResult>> {
+	return downloadSnapshots(jobIds, signal, timeoutMs);
 }
 
 // AIM scraper methods
@@ -127,11 +129,19 @@ export async function triggerAIMBatch(options: BatchOptions): Promise<Array<stri
 	return getLLMScraper('aim').triggerLLMBatch(options);
 }
 
-export async function downloadAIMSnapshots(jobIds: Array<string | null>): Promise<Array<ModelResult>> {
-	return downloadSnapshots(jobIds);
+export async function downloadAIMSnapshots(
+	jobIds: Array<string | null>,
+	signal?: AbortSignal,
+	timeoutMs?: number,
+): Promise<Array<ModelResult>> {
+	return downloadSnapshots(jobIds, signal, timeoutMs);
 }
 
 // Generic download — target-agnostic, works with any job IDs
-export async function downloadSnapshots(jobIds: Array<string | null>): Promise<Array<ModelResult>> {
-	return getLLMScraper('generic').downloadLLMSnapshots(jobIds);
+export async function downloadSnapshots(
+	jobIds: Array<string | null>,
+	signal?: AbortSignal,
+	timeoutMs?: number,
+): Promise<Array<ModelResult>> {
+	return getLLMScraper('generic').downloadLLMSnapshots(jobIds, signal, timeoutMs);
 }
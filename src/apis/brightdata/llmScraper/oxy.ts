@@ -1,4 +1,3 @@
-/* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 /**
  * Oxylabs LLM Scraper Provider.
  *
@@ -8,10 +7,11 @@
  * 3. Download: GET /v1/queries/{id}/results
  */
 
-import { type RetryConfig, sleep, withRetries } from '../../../helpers/async.ts';
+import { type RetryConfig, sleep, withRetries, withTimeout } from '../../../helpers/async.ts';
 
 import type { ModelResult } from '../../../schemas/models.schema.ts';
-import { parseSources, cleanAnswer, getAbortSignal, type ProviderFunctions } from './scrape.ts';
+import { cleanAnswer, parseSources, type ProviderFunctions } from './scrape.ts';
+import { log } from '../../../observability.ts';
 
 // ============================================================================
 // Types
@@ -95,6 +95,8 @@ export function createOxylabsProvider(overrides: Partial<OxylabsProviderConfig>
 		prompt: string,
 		_useSearch: boolean,
 		countryISOCode: string | null,
+		signal?: AbortSignal,
+		timeoutMs?: number,
 	): Promise<string | null> {
 		const authHeader = getAuthHeader();
 		const url = `${config.apiBase}/queries`;
@@ -119,7 +121,7 @@ export function createOxylabsProvider(overrides: Partial<OxylabsProviderConfig>
 
 		try {
 			const response = await withRetries(
-				() =>
+				(attemptSignal) =>
 					fetch(url, {
 						method: 'POST',
 						headers: {
@@ -127,42 +129,41 @@ export function createOxylabsProvider(overrides: Partial<OxylabsProviderConfig>
 							'Content-Type': 'application/json',
 						},
 						body: JSON.stringify(body),
-						signal: getAbortSignal(),
+						signal: attemptSignal,
 					}),
-				RETRY_CONFIG,
+				{ ...RETRY_CONFIG, signal, timeoutMs },
 			);
 
 			if (!response.ok) {
-				console.error(`[${config.providerName}] Trigger error: ${response.status}`);
+				log.error(`[${config.providerName}] Trigger error: ${response.status}`);
 				return null;
 			}
 
 			const data = await response.json();
 			return data?.id || null;
 		} catch (error) {
-			console.error(`[${config.providerName}] Trigger failed:`, error);
+			log.error(`[${config.providerName}] Trigger failed:`, error);
 			return null;
 		}
 	}
 
-	async function monitorJob(jobId: string): Promise<boolean> {
+	async function monitorJob(jobId: string, signal?: AbortSignal, timeoutMs?: number): Promise<boolean> {
 		const authHeader = getAuthHeader();
 		const url = `${config.apiBase}/queries/${jobId}`;
 		const startTime = Date.now();
-		const abortSignal = getAbortSignal();
 
 		while (Date.now() - startTime < MAX_WAIT_MS) {
-			if (abortSignal?.aborted) return false;
+			if (signal?.aborted) return false;
 
 			try {
 				const response = await fetch(url, {
 					headers: { 'Authorization': authHeader },
-					signal: abortSignal,
+					signal: withTimeout(signal, timeoutMs).signal,
 				});
 
 				// 204 = job not completed yet, continue polling
 				if (response.status === 204) {
-					await sleep(POLL_INTERVAL_MS, abortSignal);
+					await sleep(POLL_INTERVAL_MS, signal);
 					continue;
 				}
 
@@ -172,38 +173,42 @@ export function createOxylabsProvider(overrides: Partial<OxylabsProviderConfig>
 					if (status.status === 'faulted' || status.status === 'failed') return false;
 				}
 			} catch (error) {
-				console.error(`[${config.providerName}] Monitor error:`, error);
+				log.error(`[${config.providerName}] Monitor error:`, error);
 			}
 
-			await sleep(POLL_INTERVAL_MS, abortSignal);
+			await sleep(POLL_INTERVAL_MS, signal);
 		}
 
-		console.error(`[${config.providerName}] Monitor timeout after ${MAX_WAIT_MS / 1000}s`);
+		log.error(`[${config.providerName}] Monitor timeout after ${MAX_WAIT_MS / 1000}s`);
 		return false;
 	}
 
-	async function downloadJob(jobId: string): Promise<OxylabsLLMResponse | null> {
+	async function downloadJob(
+		jobId: string,
+		signal?: AbortSignal,
+		timeoutMs?: number,
+	): Promise<OxylabsLLMResponse | null> {
 		const authHeader = getAuthHeader();
 		const url = `${config.apiBase}/queries/${jobId}/results`;
 
 		try {
 			const response = await withRetries(
-				() =>
+				(attemptSignal) =>
 					fetch(url, {
 						headers: { 'Authorization': authHeader },
-						signal: getAbortSignal(),
+						signal: attemptSignal,
 					}),
-				RETRY_CONFIG,
+				{ ...RETRY_CONFIG, signal, timeoutMs },
 			);
 
 			if (!response.ok) {
-				console.error(`[${config.providerName}] Download error: ${response.status}`);
+				log.error(`[${config.providerName}] Download error: ${response.status}`);
 				return null;
 			}
 
 			return await response.json();
 		} catch (error) {
-			console.error(`[${config.providerName}] Download failed:`, error);
+			log.error(`[${config.providerName}] Download failed:`, error);
 			return null;
 		}
 	}
@@ -1,4 +1,3 @@
-/* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 /**
  * LLM Scraper - Core types and orchestration logic.
  *
@@ -10,6 +9,7 @@ import { mapParallel } from '../../../helpers/async.ts';
 import type { ModelResult } from '../../../schemas/models.schema.ts';
 import type { Source } from '../../../schemas/sources.schema.ts';
 import { extractDomain } from '../../../helpers/urls.ts';
+import { log } from '../../../observability.ts';
 
 // ============================================================================
 // Types
@@ -19,15 +19,25 @@ export interface BatchOptions {
 	prompts: Array<string>;
 	useSearch?: boolean;
 	countryISOCode?: string | null;
+	/** Abort triggering, monitoring and downloading of jobs */
+	signal?: AbortSignal;
+	/** Timeout of each request attempt in milliseconds */
+	timeoutMs?: number;
 }
 
 export interface ProviderFunctions {
 	name: string;
 	maxConcurrency: number;
 	maxPromptsPerRequest: number;
-	triggerJob: (prompt: string, useSearch: boolean, countryISOCode: string | null) => Promise<string | null>;
-	monitorJob: (jobId: string) => Promise<boolean>;
-	downloadJob: (jobId: string) => Promise<unknown>;
+	triggerJob: (
+		prompt: string,
+		useSearch: boolean,
+		countryISOCode: string | null,
+		signal?: AbortSignal,
+		timeoutMs?: number,
+	) => Promise<string | null>;
+	monitorJob: (jobId: string, signal?: AbortSignal, timeoutMs?: number) => Promise<boolean>;
+	downloadJob: (jobId: string, signal?: AbortSignal, timeoutMs?: number) => Promise<unknown>;
 	transformResponse: (raw: unknown) => ModelResult | null;
 }
 
@@ -36,17 +46,17 @@ export interface LLMScraper {
 	maxPromptsPerRequest: number;
 	scrapeLLMBatch: (options: BatchOptions) => Promise<Array<ModelResult>>;
 	triggerLLMBatch: (options: BatchOptions) => Promise<Array<string | null>>;
-	downloadLLMSnapshots: (jobIds: Array<string | null>) => Promise<Array<ModelResult>>;
+	downloadLLMSnapshots: (
+		jobIds: Array<string | null>,
+		signal?: AbortSignal,
+		timeoutMs?: number,
+	) => Promise<Array<ModelResult>>;
 }
 
 // ============================================================================
 // Shared Utilities
 // ============================================================================
 
-export function getAbortSignal(): AbortSignal | undefined {
-	return (globalThis as Record<string, unknown>).abortSignal as AbortSignal | undefined;
-}
-
 export function cleanAnswer(answer: string): string {
 	return answer
 		.replace(/!\[([^\]]*)\]\([^)]+\)/g, '')
@@ -184,7 +194,7 @@ export function parseSources(
  */
 export function emptyModelResult(providerName: string, errorMessage?: string, context?: unknown): ModelResult {
 	if (errorMessage) {
-		console.error(`[${providerName}] ${errorMessage}`, context ?? '');
+		log.error(`[${providerName}] ${errorMessage}`, context ?? '');
 	}
 	return {
 		prompt: '',
@@ -213,33 +223,42 @@ export function createLLMScraper(provider: ProviderFunctions): LLMScraper {
 		prompts,
 		useSearch = false,
 		countryISOCode = null,
+		signal,
+		timeoutMs,
 	}: BatchOptions): Promise<Array<string | null>> {
 		const jobIds = await mapParallel(
 			prompts,
 			maxConcurrency,
-			(prompt) => triggerJob(prompt, useSearch, countryISOCode),
+			(prompt) => triggerJob(prompt, useSearch, countryISOCode, signal, timeoutMs),
+			{ signal },
 		);
 
-		console.log(`[${name}] Triggered ${jobIds.length} jobs for ${prompts.length} prompts`);
+		log.info(`[${name}] Triggered ${jobIds.length} jobs for ${prompts.length} prompts`);
 		return jobIds;
 	}
 
-	async function downloadLLMSnapshots(jobIds: Array<string | null>): Promise<Array<ModelResult>> {
+	async function downloadLLMSnapshots(
+		jobIds: Array<string | null>,
+		signal?: AbortSignal,
+		timeoutMs?: number,
+	): Promise<Array<ModelResult>> {
 		const results: Array<ModelResult> = [];
 
 		for (const jobId of jobIds) {
+			signal?.throwIfAborted();
+
 			if (!jobId) {
 				results.push(emptyModelResult(name, 'No job ID provided'));
 				continue;
 			}
 
-			const isReady = await monitorJob(jobId);
+			const isReady = await monitorJob(jobId, signal, timeoutMs);
 			if (!isReady) {
 				results.push(emptyModelResult(name, 'Job not ready or failed', jobId));
 				continue;
 			}
 
-			const raw = await downloadJob(jobId);
+			const raw = await downloadJob(jobId, signal, timeoutMs);
 			if (!raw) {
 				results.push(emptyModelResult(name, 'Failed to download job', jobId));
 				continue;
@@ -254,7 +273,7 @@ export function createLLMScraper(provider: ProviderFunctions): LLMScraper {
 
 	async function scrapeLLMBatch(options: BatchOptions): Promise<Array<ModelResult>> {
 		const jobIds = await triggerLLMBatch(options);
-		return downloadLLMSnapshots(jobIds);
+		return downloadLLMSnapshots(jobIds, options.signal, options.timeoutMs);
 	}
 
 	return {
@@ -8,6 +8,8 @@
 // GOOGLE_ADS_LINKED_CUSTOMER_ID (execute within linked account context).
 
 import { JWT, type JWTInput } from 'google-auth-library';
+import { withTimeout } from '../../helpers/async.ts';
+import { log } from '../../observability.ts';
 
 interface GoogleAdsCredentials {
 	developerToken: string;
@@ -63,19 +65,25 @@ function getCredentialsFromEnv(): GoogleAdsCredentials {
 		serviceAccountJson,
 		customerId: normalizeCustomerId(customerId),
 		loginCustomerId: loginCustomerId ? normalizeCustomerId(loginCustomerId) : undefined,
-		linkedCustomerId: linkedCustomerId ? normalizeCustomerId(linkedCustomerId) : undefined
+		linkedCustomerId: linkedCustomerId ? normalizeCustomerId(linkedCustomerId) : undefined,
 	};
 }
 
 let cachedClient: {
-	client: (apiMethod: string, params: Record<string, unknown>) => Promise<unknown>;
+	client: (
+		apiMethod: string,
+		params: Record<string, unknown>,
+		signal?: AbortSignal,
+		timeoutMs?: number,
+	) => Promise<unknown>;
 	expiration: number;
 } | null = null;
 
 export async function createGoogleAdsClient() {
-	if (cachedClient
-		&& cachedClient.expiration
-		&& cachedClient.expiration > Date.now() + 60000
+	if (
+		cachedClient &&
+		cachedClient.expiration &&
+		cachedClient.expiration > Date.now() + 60000
 	) {
 		return cachedClient.client;
 	}
@@ -85,32 +93,35 @@ export async function createGoogleAdsClient() {
 	const authClient = new JWT({
 		email: credentials.serviceAccountJson.client_email,
 		key: credentials.serviceAccountJson.private_key,
-		scopes: ['https://www.googleapis.com/auth/adwords']
+		scopes: ['https://www.googleapis.com/auth/adwords'],
 	});
 	const { access_token, expiry_date: expiration } = await authClient.authorize();
 
-	const client = async (apiMethod: string, params: Record<string, any>) => {
+	const client = async (apiMethod: string, params: Record<string, any>, signal?: AbortSignal, timeoutMs?: number) => {
 		let retries = MAX_RETRIES;
 		while (retries > 0) {
-			const response = await fetch(`https://googleads.googleapis.com/v21/customers/${credentials.customerId}:${apiMethod}`, {
-				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${access_token}`,
-					'Content-Type': 'application/json',
-					'developer-token': credentials.developerToken,
-					'customer_id': credentials.customerId,
-					'login-customer-id': credentials.loginCustomerId ?? ''
+			const response = await fetch(
+				`https://googleads.googleapis.com/v21/customers/${credentials.customerId}:${apiMethod}`,
+				{
+					method: 'POST',
+					headers: {
+						'Authorization': `Bearer ${access_token}`,
+						'Content-Type': 'application/json',
+						'developer-token': credentials.developerToken,
+						'customer_id': credentials.customerId,
+						'login-customer-id': credentials.loginCustomerId ?? '',
+					},
+					body: JSON.stringify(params),
+					signal: withTimeout(signal, timeoutMs).signal,
 				},
-				body: JSON.stringify(params),
-				signal: (globalThis as any).abortSignal // Pass through abort signal if available
-			});
+			);
 
 			if (!response.ok) {
 				if (response.status === 429) {
 					// Rate limit exceeded, retry after a delay
 					const delay = ((MAX_RETRIES + 1) - retries) * 500; // Exponential backoff
-					console.log('Rate limit exceeded, retrying after', delay, 'ms');
-					await new Promise(res => setTimeout(res, delay));
+					log.info('Rate limit exceeded, retrying after', delay, 'ms');
+					await new Promise((res) => setTimeout(res, delay));
 					retries--;
 					continue;
 				}
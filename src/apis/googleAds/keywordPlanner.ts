@@ -27,19 +27,38 @@ Useful documentation:
 **/
 
 import type {
-	GenerateKeywordHistoricalMetricsRequest, GenerateKeywordIdeasRequest,
-	GenerateKeywordHistoricalMetricsResponse, GenerateKeywordIdeaResponse, KeywordServiceResponse,
-	KeywordIdeaResult, KeywordResult, KeywordMetrics, MonthlySearchVolume,
-	KeywordPlanKeywordAnnotation, KeywordPlanNetwork, MonthOfYear,
-	KeywordPlanCompetitionLevel
+	GenerateKeywordHistoricalMetricsRequest,
+	GenerateKeywordHistoricalMetricsResponse,
+	GenerateKeywordIdeaResponse,
+	GenerateKeywordIdeasRequest,
+	KeywordIdeaResult,
+	KeywordMetrics,
+	KeywordPlanCompetitionLevel,
+	KeywordPlanKeywordAnnotation,
+	KeywordPlanNetwork,
+	KeywordResult,
+	KeywordServiceResponse,
+	MonthlySearchVolume,
+	MonthOfYear,
 } from './apiTypes.ts';
 import { createGoogleAdsClient } from './client.ts';
 import { COUNTRY_RESOURCE_MAP } from './countryResourceMap.ts';
 import { LANGUAGE_RESOURCE_MAP } from './languageResourceMap.ts';
+import { log } from '../../observability.ts';
 
 const MONTH_NUMBER_TO_NAME: Array<Exclude<MonthOfYear, 'UNSPECIFIED' | 'UNKNOWN'>> = [
-	'JANUARY', 'FEBRUARY', 'MARCH', 'APRIL', 'MAY', 'JUNE',
-	'JULY', 'AUGUST', 'SEPTEMBER', 'OCTOBER', 'NOVEMBER', 'DECEMBER'
+	'JANUARY',
+	'FEBRUARY',
+	'MARCH',
+	'APRIL',
+	'MAY',
+	'JUNE',
+	'JULY',
+	'AUGUST',
+	'SEPTEMBER',
+	'OCTOBER',
+	'NOVEMBER',
+	'DECEMBER',
 ];
 
 const MONTH_TO_NUMBER: Record<
@@ -57,7 +76,7 @@ const MONTH_TO_NUMBER: Record<
 	SEPTEMBER: 8,
 	OCTOBER: 9,
 	NOVEMBER: 10,
-	DECEMBER: 11
+	DECEMBER: 11,
 };
 
 interface YearMonth {
@@ -77,6 +96,10 @@ export interface GoogleKeywordConfig {
 	metricsEnd?: string;
 	/** When true, includes seedKeywords in output records. Defaults to false. */
 	includeSeedKeywords?: boolean;
+	/** Abort the request to the Google Ads API */
+	signal?: AbortSignal;
+	/** Timeout of each request to the Google Ads API in milliseconds */
+	timeoutMs?: number;
 }
 
 interface NormalizedConfig {
@@ -143,7 +166,7 @@ function parseYearMonth(value: string): YearMonth {
 }
 
 function monthEnumToMonthNumber(
-	input: MonthlySearchVolume['month'] | null | undefined
+	input: MonthlySearchVolume['month'] | null | undefined,
 ): number | null {
 	if (input == null || input === 'UNSPECIFIED' || input === 'UNKNOWN') {
 		return null;
@@ -161,27 +184,25 @@ function normalizeConfig(input: GoogleKeywordConfig): NormalizedConfig {
 
 	let ideas = Boolean(input.ideas);
 	if (!ideas && !trimmedKeywords?.length && url) {
-		console.warn(
-			'Idea generation is disabled, no keywords are provided, but a URL is set. Enabling idea generation automatically.'
+		log.warn(
+			'Idea generation is disabled, no keywords are provided, but a URL is set. Enabling idea generation automatically.',
 		);
 		ideas = true;
 	}
 
 	let keywords = trimmedKeywords;
 	if (ideas && keywords && !wholeSite && keywords.length > 20) {
-		console.warn(
-			'Google only supports up to 20 seed keywords for idea generation. The first 20 will be used.'
+		log.warn(
+			'Google only supports up to 20 seed keywords for idea generation. The first 20 will be used.',
 		);
 		keywords = keywords.slice(0, 20);
 	}
 
 	const languageRaw = input.language?.trim() || 'EN'; // If not set the API defaults to 'EN' on their end...;
-	const language =
-		languageRaw && !languageRaw.includes('/') ? languageRaw.toLowerCase() : languageRaw || undefined;
+	const language = languageRaw && !languageRaw.includes('/') ? languageRaw.toLowerCase() : languageRaw || undefined;
 
 	const countryRaw = input.countryISOCode?.trim();
-	const countryISOCode =
-		countryRaw && !countryRaw.includes('/') ? countryRaw.toUpperCase() : countryRaw || undefined;
+	const countryISOCode = countryRaw && !countryRaw.includes('/') ? countryRaw.toUpperCase() : countryRaw || undefined;
 
 	let metricsRange: { start: YearMonth; end: YearMonth } | undefined;
 	if (input.metricsStart || input.metricsEnd) {
@@ -204,7 +225,7 @@ function normalizeConfig(input: GoogleKeywordConfig): NormalizedConfig {
 		maxIdeas: input.maxIdeas ?? 100,
 		language,
 		countryISOCode,
-		metricsRange
+		metricsRange,
 	};
 }
 
@@ -256,7 +277,7 @@ function microsToUnit(value: unknown, zerosToNull: boolean): number | null {
 }
 
 function extractMonthlyVolumes(
-	volumes: ReadonlyArray<MonthlySearchVolume> | null | undefined
+	volumes: ReadonlyArray<MonthlySearchVolume> | null | undefined,
 ): { dates: Array<string>; values: Array<number> } | null {
 	if (!volumes || volumes.length === 0) {
 		return null;
@@ -290,7 +311,7 @@ function extractMonthlyVolumes(
 
 	return {
 		dates: parsedVolumes.map((item) => item.date),
-		values: parsedVolumes.map((item) => item.value)
+		values: parsedVolumes.map((item) => item.value),
 	};
 }
 
@@ -362,7 +383,7 @@ function addTrendFields(record: KeywordRecord): void {
 
 function lookupResource(
 	table: Readonly<Record<string, string>>,
-	rawValue: string
+	rawValue: string,
 ): string | null {
 	const value = rawValue.trim();
 	if (!value) {
@@ -370,9 +391,9 @@ function lookupResource(
 	}
 	return (
 		table[value] ??
-		table[value.toLowerCase()] ??
-		table[value.toUpperCase()] ??
-		null
+			table[value.toLowerCase()] ??
+			table[value.toUpperCase()] ??
+			null
 	);
 }
 
@@ -387,7 +408,7 @@ function languageResourceFromInput(language?: string): string | null {
 	const resource = lookupResource(LANGUAGE_RESOURCE_MAP, language);
 	if (!resource) {
 		throw new Error(
-			`Invalid language code "${language}" (not found in bundled Google Ads language table).`
+			`Invalid language code "${language}" (not found in bundled Google Ads language table).`,
 		);
 	}
 	return resource;
@@ -404,32 +425,36 @@ function geoTargetResourceFromInput(country?: string): string | null {
 	const resource = lookupResource(COUNTRY_RESOURCE_MAP, country);
 	if (!resource) {
 		throw new Error(
-			`Invalid country code "${country}" (not found in bundled Google Ads geo table).`
+			`Invalid country code "${country}" (not found in bundled Google Ads geo table).`,
 		);
 	}
 	return resource;
 }
 
-async function fetchKeywords(cfg: NormalizedConfig): Promise<KeywordServiceResponse> {
+async function fetchKeywords(
+	cfg: NormalizedConfig,
+	signal?: AbortSignal,
+	timeoutMs?: number,
+): Promise<KeywordServiceResponse> {
 	const googleAdsClient = await createGoogleAdsClient();
 
 	const languageResource = languageResourceFromInput(cfg.language);
 	const geoResource = geoTargetResourceFromInput(cfg.countryISOCode);
 
 	const baseHistoricalOptions: GenerateKeywordIdeasRequest['historicalMetricsOptions'] = {
-		include_average_cpc: true
+		include_average_cpc: true,
 	};
 
 	if (cfg.metricsRange) {
 		baseHistoricalOptions.year_month_range = {
 			start: {
 				year: cfg.metricsRange.start.year,
-				month: cfg.metricsRange.start.month
+				month: cfg.metricsRange.start.month,
 			},
 			end: {
 				year: cfg.metricsRange.end.year,
-				month: cfg.metricsRange.end.month
-			}
+				month: cfg.metricsRange.end.month,
+			},
 		};
 	}
 
@@ -442,7 +467,7 @@ async function fetchKeywords(cfg: NormalizedConfig): Promise<KeywordServiceRespo
 			pageSize: cfg.maxIdeas,
 			keywordPlanNetwork: keywordPlanNetwork,
 			keywordAnnotation: [keywordAnnotationConcept],
-			historicalMetricsOptions: baseHistoricalOptions
+			historicalMetricsOptions: baseHistoricalOptions,
 		};
 
 		if (languageResource) {
@@ -454,7 +479,7 @@ async function fetchKeywords(cfg: NormalizedConfig): Promise<KeywordServiceRespo
 		if (cfg.url && cfg.wholeSite) {
 			request.siteSeed = { site: cfg.url };
 			if (cfg.keywords?.length) {
-				console.warn('Seed keywords are ignored when requesting whole-site keyword ideas.');
+				log.warn('Seed keywords are ignored when requesting whole-site keyword ideas.');
 			}
 		} else if (cfg.url && !cfg.keywords?.length) {
 			request.urlSeed = { url: cfg.url };
@@ -464,11 +489,13 @@ async function fetchKeywords(cfg: NormalizedConfig): Promise<KeywordServiceRespo
 			request.keywordSeed = { keywords: cfg.keywords };
 		} else {
 			throw new Error(
-				"Either 'keywords' or 'url' must be provided when 'ideas' is true. Provide seed keywords or a URL."
+				"Either 'keywords' or 'url' must be provided when 'ideas' is true. Provide seed keywords or a URL.",
 			);
 		}
 
-		return googleAdsClient('generateKeywordIdeas', request) as Promise<GenerateKeywordIdeaResponse>;
+		return googleAdsClient('generateKeywordIdeas', request, signal, timeoutMs) as Promise<
+			GenerateKeywordIdeaResponse
+		>;
 	}
 
 	if (!cfg.keywords?.length) {
@@ -479,7 +506,7 @@ async function fetchKeywords(cfg: NormalizedConfig): Promise<KeywordServiceRespo
 		keywords: cfg.keywords,
 		includeAdultKeywords: true,
 		keywordPlanNetwork: keywordPlanNetwork,
-		historicalMetricsOptions: baseHistoricalOptions
+		historicalMetricsOptions: baseHistoricalOptions,
 	};
 
 	if (languageResource) {
@@ -489,7 +516,9 @@ async function fetchKeywords(cfg: NormalizedConfig): Promise<KeywordServiceRespo
 		request.geoTargetConstants = [geoResource];
 	}
 
-	return googleAdsClient('generateKeywordHistoricalMetrics', request) as Promise<GenerateKeywordHistoricalMetricsResponse>;
+	return googleAdsClient('generateKeywordHistoricalMetrics', request, signal, timeoutMs) as Promise<
+		GenerateKeywordHistoricalMetricsResponse
+	>;
 }
 
 function isKeywordIdeaResult(result: KeywordResult): result is KeywordIdeaResult {
@@ -534,7 +563,7 @@ function extractConcepts(result: KeywordResult): { concepts?: Array<string>; con
 
 	return {
 		concepts: conceptNames.size > 0 ? Array.from(conceptNames) : undefined,
-		conceptGroups: conceptGroups.size > 0 ? Array.from(conceptGroups) : undefined
+		conceptGroups: conceptGroups.size > 0 ? Array.from(conceptGroups) : undefined,
 	};
 }
 
@@ -542,7 +571,7 @@ function processKeywords(
 	response: KeywordServiceResponse,
 	collectVolumes = true,
 	zerosToNull = true,
-	seedKeywords?: Array<string>
+	seedKeywords?: Array<string>,
 ): Array<KeywordRecord> {
 	const results = response.results ?? [];
 
@@ -575,7 +604,7 @@ function processKeywords(
 
 			const averageCpc = microsToUnit(
 				metrics.averageCpcMicros,
-				zerosToNull
+				zerosToNull,
 			);
 			if (averageCpc != null) {
 				record.averageCpc = averageCpc;
@@ -583,7 +612,7 @@ function processKeywords(
 
 			const lowTopBid = microsToUnit(
 				metrics.lowTopOfPageBidMicros,
-				zerosToNull
+				zerosToNull,
 			);
 			if (lowTopBid != null) {
 				record.lowTopOfPageBid = lowTopBid;
@@ -591,7 +620,7 @@ function processKeywords(
 
 			const highTopBid = microsToUnit(
 				metrics.highTopOfPageBidMicros,
-				zerosToNull
+				zerosToNull,
 			);
 			if (highTopBid != null) {
 				record.highTopOfPageBid = highTopBid;
@@ -634,9 +663,9 @@ function processKeywords(
 
 export async function keywords(cfg: GoogleKeywordConfig): Promise<Array<KeywordRecord>> {
 	const normalizedCfg = normalizeConfig(cfg);
-	const response = await fetchKeywords(normalizedCfg);
+	const response = await fetchKeywords(normalizedCfg, cfg.signal, cfg.timeoutMs);
 	const seedKeywordsArg = cfg.includeSeedKeywords === true ? normalizedCfg.keywords : undefined;
 	const processed = processKeywords(response, true, true, seedKeywordsArg);
-	console.info(`Fetched ${processed.length} keyword records.`);
+	log.info(`Fetched ${processed.length} keyword records.`);
 	return processed;
 }
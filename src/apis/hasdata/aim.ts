@@ -1,20 +1,16 @@
-/* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 import { mapParallel } from '../../helpers/async.ts';
 
-import type {
-	AIOParsed
-} from './helpers.ts';
-import {
-	fetchHasDataWithRetry,
-	HASDATA_CONCURRENCY,
-	parseAIM
-} from './helpers.ts';
+import type { AIOParsed } from './helpers.ts';
+import { fetchHasDataWithRetry, HASDATA_CONCURRENCY, HASDATA_RETRY_CONFIG, parseAIM } from './helpers.ts';
+import { log } from '../../observability.ts';
 
 export async function fetchAIM(
 	prompt: string,
 	country: string | null = null,
 	language: string | null = null,
-	location: string | null = null
+	location: string | null = null,
+	signal?: AbortSignal,
+	timeoutMs?: number,
 ): Promise<AIOParsed> {
 	const aimEndpoint = 'https://api.hasdata.com/scrape/google/ai-mode';
 
@@ -35,12 +31,14 @@ export async function fetchAIM(
 	}
 
 	try {
-		const response = await fetchHasDataWithRetry(url.toString());
+		const response = await fetchHasDataWithRetry(url.toString(), { ...HASDATA_RETRY_CONFIG, signal, timeoutMs });
 		const content = await response.json();
 		return parseAIM(content);
-	}
-	catch (error) {
-		console.error('HasData AI Mode API error:', error);
+	} catch (error) {
+		if (signal?.aborted) {
+			throw error;
+		}
+		log.error('HasData AI Mode API error:', error);
 		return { answer: '', sources: [] };
 	}
 }
@@ -50,11 +48,14 @@ export async function fetchAIMBatch(
 	country: string | null = null,
 	language: string | null = null,
 	location: string | null = null,
-	maxConcurrency: number = HASDATA_CONCURRENCY
+	maxConcurrency: number = HASDATA_CONCURRENCY,
+	signal?: AbortSignal,
+	timeoutMs?: number,
 ): Promise<Array<AIOParsed>> {
 	return mapParallel(
 		prompts,
 		maxConcurrency,
-		async (prompt) => fetchAIM(prompt, country, language, location)
+		async (prompt) => fetchAIM(prompt, country, language, location, signal, timeoutMs),
+		{ signal },
 	);
 }
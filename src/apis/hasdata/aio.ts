@@ -1,22 +1,29 @@
-/* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 import { mapParallel } from '../../helpers/async.ts';
 
 import { type AIOParsed, HASDATA_CONCURRENCY } from './helpers.ts';
 import { fetchSerp } from './serp.ts';
+import { log } from '../../observability.ts';
 
 export async function fetchAIO(
 	prompt: string,
 	country: string | null = null,
 	language: string | null = null,
+	signal?: AbortSignal,
+	timeoutMs?: number,
 ): Promise<AIOParsed> {
 	try {
 		const serp = await fetchSerp(prompt, {
 			country: country || undefined,
 			language: language || undefined,
+			signal,
+			timeoutMs,
 		});
 		return serp.aiOverview || { answer: '', sources: [] };
 	} catch (error) {
-		console.error('HasData API error:', error);
+		if (signal?.aborted) {
+			throw error;
+		}
+		log.error('HasData API error:', error);
 		return { answer: '', sources: [] };
 	}
 }
@@ -26,10 +33,13 @@ export async function fetchAIOBatch(
 	country: string | null = null,
 	language: string | null = null,
 	maxConcurrency: number = HASDATA_CONCURRENCY,
+	signal?: AbortSignal,
+	timeoutMs?: number,
 ): Promise<Array<AIOParsed>> {
 	return mapParallel(
 		prompts,
 		maxConcurrency,
-		async (prompt) => fetchAIO(prompt, country, language),
+		async (prompt) => fetchAIO(prompt, country, language, signal, timeoutMs),
+		{ signal },
 	);
 }
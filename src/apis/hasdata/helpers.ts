@@ -1,7 +1,8 @@
-import { withRetries, type RetryConfig } from '../../helpers/async.ts';
+import { type RetryConfig, withRetries } from '../../helpers/async.ts';
 
 import type { Source } from '../../schemas/sources.schema.ts';
 import { extractDomain } from '../../helpers/urls.ts';
+import { log } from '../../observability.ts';
 
 export const HASDATA_CONCURRENCY = 29;
 
@@ -10,7 +11,7 @@ export const HASDATA_RETRY_CONFIG: RetryConfig = {
 	initialDelay: 1000,
 	maxDelay: 8000,
 	backoffMultiplier: 2,
-	statusCodes: [429, 500]
+	statusCodes: [429, 500],
 };
 
 export function getHasDataApiKey(): string {
@@ -21,20 +22,25 @@ export function getHasDataApiKey(): string {
 	return apiKey;
 }
 
+/**
+ * Fetch a HasData URL with retries. Pass `signal` in the retry config to abort the request,
+ * and `timeoutMs` to time out each attempt.
+ */
 export async function fetchHasDataWithRetry(
 	url: string,
-	retryConfig: RetryConfig = HASDATA_RETRY_CONFIG
+	retryConfig: RetryConfig = HASDATA_RETRY_CONFIG,
 ): Promise<Response> {
 	const headers: Record<string, string> = {
-		'x-api-key': getHasDataApiKey()
+		'x-api-key': getHasDataApiKey(),
 	};
 
 	const response = await withRetries(
-		async () => fetch(url, {
-			headers,
-			signal: (globalThis as Record<string, unknown>).abortSignal as AbortSignal | undefined
-		}),
-		retryConfig
+		async (signal) =>
+			fetch(url, {
+				headers,
+				signal,
+			}),
+		retryConfig,
 	);
 
 	if (!response.ok) {
@@ -51,7 +57,7 @@ export async function fetchHasDataWithRetry(
 			errorMessage = `HasData API error: ${status} ${response.statusText}`;
 		}
 
-		console.error(errorMessage);
+		log.error(errorMessage);
 		throw new Error(errorMessage);
 	}
 
@@ -139,7 +145,7 @@ function cleanText(text: string): string {
 	text = removeCSSChunks(text);
 	text = text.replace(/\u00a0/g, ' ');
 	text = text.replace(/[ \t]+/g, ' ');
-	const lines = text.split('\n').map(line => line.trim());
+	const lines = text.split('\n').map((line) => line.trim());
 	const cleaned: Array<string> = [];
 	for (const line of lines) {
 		if (line || (cleaned.length > 0 && cleaned[cleaned.length - 1])) {
@@ -158,7 +164,7 @@ function* iterListItems(items: Array<ListItem>, indent: number = 0): Generator<s
 		if (title && snippet && title.endsWith(':')) {
 			line = `${title} ${snippet}`.trim();
 		} else {
-			line = [title, snippet].filter(p => p).join(' ').trim();
+			line = [title, snippet].filter((p) => p).join(' ').trim();
 		}
 		if (line) {
 			yield prefix + cleanText(line);
@@ -189,11 +195,11 @@ function formatTable(block: TextBlock): string {
 		return '';
 	}
 	const out: Array<string> = [];
-	const header = rows[0].map(cell => removeCSSChunks(cell));
+	const header = rows[0].map((cell) => removeCSSChunks(cell));
 	out.push('| ' + header.join(' | ') + ' |');
 	out.push('| ' + header.map(() => '---').join(' | ') + ' |');
 	for (let i = 1; i < rows.length; i++) {
-		const cleanedRow = rows[i].map(cell => removeCSSChunks(cell));
+		const cleanedRow = rows[i].map((cell) => removeCSSChunks(cell));
 		out.push('| ' + cleanedRow.join(' | ') + ' |');
 	}
 	return out.join('\n');
@@ -215,7 +221,7 @@ function formatPlainTable(block: TextBlock): string {
 		return '';
 	}
 	return rows
-		.map((row) => row.map(cell => removeCSSChunks(cell)).join(' | '))
+		.map((row) => row.map((cell) => removeCSSChunks(cell)).join(' | '))
 		.join('\n');
 }
 
@@ -227,14 +233,14 @@ function formatCitationMarkers(refIndexes: Array<number>): string {
 	if (refIndexes.length === 0) {
 		return '';
 	}
-	return ' ' + refIndexes.map(i => `[${i + 1}]`).join('');
+	return ' ' + refIndexes.map((i) => `[${i + 1}]`).join('');
 }
 
 function parseAIResult(
 	data: AIOverview,
 	{
-		allowNestedOverview = true
-	}: ParseOptions = {}
+		allowNestedOverview = true,
+	}: ParseOptions = {},
 ): AIOParsed {
 	const textBlocks = data.textBlocks || (allowNestedOverview ? data.aiOverview?.textBlocks : []) || [];
 
@@ -249,7 +255,7 @@ function parseAIResult(
 		const snippet = cleanText(r.snippet || '') || undefined;
 		if (link && r.index != null) {
 			// Deduplicate by URL
-			const existingIdx = sources.findIndex(s => s.url === link);
+			const existingIdx = sources.findIndex((s) => s.url === link);
 			if (existingIdx >= 0) {
 				refIndexToSourceIndex.set(r.index, existingIdx);
 				if (!sources[existingIdx].title && title) {
@@ -264,7 +270,7 @@ function parseAIResult(
 					title,
 					snippet,
 					url: link,
-					domain: extractDomain(link)
+					domain: extractDomain(link),
 				});
 			}
 		}
@@ -278,13 +284,13 @@ function parseAIResult(
 		paragraph: (b) => cleanText(b.snippet || ''),
 		list: (b) => Array.from(iterPlainListItems(b.list || [])).join('\n'),
 		table: formatPlainTable,
-		code: formatPlainCode
+		code: formatPlainCode,
 	};
 	const markdownHandlers: Record<string, (block: TextBlock) => string> = {
 		paragraph: (b) => cleanText(b.snippet || ''),
 		list: (b) => Array.from(iterListItems(b.list || [])).join('\n'),
 		table: formatTable,
-		code: formatCode
+		code: formatCode,
 	};
 
 	for (const block of textBlocks) {
@@ -318,7 +324,7 @@ function parseAIResult(
 			if (refIndexes.length > 0) {
 				// Map ref indexes to 1-based source indexes for display
 				const sourceIndexes = refIndexes
-					.map(ri => refIndexToSourceIndex.get(ri))
+					.map((ri) => refIndexToSourceIndex.get(ri))
 					.filter((si): si is number => si != null);
 				const uniqueSourceIndexes = sourceIndexes.filter((v, i, a) => a.indexOf(v) === i);
 
@@ -363,12 +369,12 @@ function parseAIResult(
 	let answerMarkdown = cleanText(dedupedAnswerMarkdown.join('\n\n'));
 
 	if (answer.length > 16000) {
-		console.warn('Warning: AI answer truncated to 16000 characters');
+		log.warn('Warning: AI answer truncated to 16000 characters');
 		answer = answer.slice(0, 16000);
 	}
 
 	if (answerMarkdown.length > 16000) {
-		console.warn('Warning: AI markdown answer truncated to 16000 characters');
+		log.warn('Warning: AI markdown answer truncated to 16000 characters');
 		answerMarkdown = answerMarkdown.slice(0, 16000);
 	}
 
@@ -377,12 +383,12 @@ function parseAIResult(
 
 export function parseAIO(aio: AIOverview): AIOParsed {
 	return parseAIResult(aio, {
-		allowNestedOverview: true
+		allowNestedOverview: true,
 	});
 }
 
 export function parseAIM(aim: AIMode): AIOParsed {
 	return parseAIResult(aim, {
-		allowNestedOverview: false
+		allowNestedOverview: false,
 	});
 }
@@ -1,7 +1,5 @@
-/* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
-
-import { mapParallel, withRetries, type RetryConfig } from '../../helpers/async.ts';
-
+import { mapParallel, type RetryConfig, sleep, withRetries } from '../../helpers/async.ts';
+import { log } from '../../observability.ts';
 
 const HASDATA_CONCURRENCY = 29;
 
@@ -10,7 +8,7 @@ const HASDATA_RETRY_CONFIG: RetryConfig = {
 	initialDelay: 1000,
 	maxDelay: 8000,
 	backoffMultiplier: 2,
-	statusCodes: [429, 500]
+	statusCodes: [429, 500],
 };
 
 type ProxyType = 'datacenter' | 'residential';
@@ -39,6 +37,10 @@ export interface ScrapeOptions {
 	jsRendering?: boolean;
 	jsScenario?: Array<JSScenarioAction>;
 	headers?: Record<string, string>;
+	/** Abort in-flight requests (not sent to HasData) */
+	signal?: AbortSignal;
+	/** Timeout of each request attempt in milliseconds (not sent to HasData) */
+	timeoutMs?: number;
 }
 
 export interface ScrapeResponse {
@@ -61,12 +63,12 @@ export interface BatchJobStatus {
 		status: string;
 		requestsCount: number;
 		responsesCount: number;
-	}
+	};
 }
 
 /**
  * In batch jobs, results are only links to json files containing the actual scrape results.
-*/
+ */
 
 export interface BatchResultItem {
 	query: Record<string, unknown>;
@@ -101,7 +103,7 @@ function cleanMarkdown(markdown: string, excludeImages: boolean = true): string
 	markdown = markdown.replace(/\u00a0/g, ' ');
 	markdown = markdown.replace(/[ \t]+/g, ' ');
 
-	const lines = markdown.split('\n').map(line => line.trim());
+	const lines = markdown.split('\n').map((line) => line.trim());
 	const cleaned: Array<string> = [];
 
 	for (const line of lines) {
@@ -116,14 +118,11 @@ function cleanMarkdown(markdown: string, excludeImages: boolean = true): string
 async function fetchWithRetry(
 	url: string,
 	options: RequestInit,
-	retryConfig: RetryConfig = HASDATA_RETRY_CONFIG
+	retryConfig: RetryConfig = HASDATA_RETRY_CONFIG,
 ): Promise<Response> {
 	const response = await withRetries(
-		async () => fetch(url, {
-			...options,
-			signal: (globalThis as Record<string, unknown>).abortSignal as AbortSignal | undefined
-		}),
-		retryConfig
+		async (signal) => fetch(url, { ...options, signal }),
+		{ ...retryConfig, signal: options.signal ?? undefined },
 	);
 
 	if (!response.ok) {
@@ -158,7 +157,7 @@ async function fetchWithRetry(
 			errorMessage = `HasData API error: ${status} ${response.statusText}`;
 		}
 
-		console.error(errorMessage);
+		log.error(errorMessage);
 		throw new Error(errorMessage);
 	}
 
@@ -166,7 +165,6 @@ async function fetchWithRetry(
 }
 
 function configureRequestBody(body: Record<string, unknown>, options: ScrapeOptions): Record<string, unknown> {
-
 	const formats: Array<string> = [...options.formats];
 	if (!formats.includes('json')) {
 		formats.push('json');
@@ -242,10 +240,12 @@ export async function scrapeWeb(url: string, options: ScrapeOptions): Promise<Sc
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
-					'x-api-key': apiKey
+					'x-api-key': apiKey,
 				},
-				body: JSON.stringify(requestBody)
-			}
+				body: JSON.stringify(requestBody),
+				signal: options.signal,
+			},
+			{ ...HASDATA_RETRY_CONFIG, timeoutMs: options.timeoutMs },
 		);
 
 		const responseJson = await response.json();
@@ -265,31 +265,35 @@ export async function scrapeWeb(url: string, options: ScrapeOptions): Promise<Sc
 		}
 		return result;
 	} catch (error) {
-		console.error('HasData Web Scraping API error:', error);
-		return {};  // Return an empty object on error
+		if (options.signal?.aborted) {
+			throw error;
+		}
+		log.error('HasData Web Scraping API error:', error);
+		return {}; // Return an empty object on error
 	}
 }
 
 export async function scrapeWebBatch(
 	urls: Array<string>,
 	options: ScrapeOptions,
-	maxConcurrency: number = HASDATA_CONCURRENCY
+	maxConcurrency: number = HASDATA_CONCURRENCY,
 ): Promise<Array<ScrapeResponse>> {
 	return mapParallel(
 		urls,
 		maxConcurrency,
 		async (url: string) => {
 			return await scrapeWeb(url, options);
-		}
+		},
+		{ signal: options.signal },
 	);
 }
 
 /** Submit a batch scrape job to HasData API.
  * IMPORTANT: results are not returned in original order! You need to match them by jobId and query.url.
-*/
+ */
 export async function submitBatchScrapeJob(
 	urls: Array<string>,
-	options: ScrapeOptions
+	options: ScrapeOptions,
 ): Promise<BatchJobResponse> {
 	const apiKey = getApiKey();
 	const endpoint = 'https://api.hasdata.com/scrape/batch/web/';
@@ -309,20 +313,26 @@ export async function submitBatchScrapeJob(
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
-					'x-api-key': apiKey
+					'x-api-key': apiKey,
 				},
-				body: JSON.stringify(requestBody)
-			}
+				body: JSON.stringify(requestBody),
+				signal: options.signal,
+			},
+			{ ...HASDATA_RETRY_CONFIG, timeoutMs: options.timeoutMs },
 		);
 
 		return await response.json() as BatchJobResponse;
 	} catch (error) {
-		console.error('HasData Batch Scrape submission error:', error);
+		log.error('HasData Batch Scrape submission error:', error);
 		throw error;
 	}
 }
 
-export async function getBatchJobStatus(jobId: string): Promise<BatchJobStatus> {
+export async function getBatchJobStatus(
+	jobId: string,
+	signal?: AbortSignal,
+	timeoutMs?: number,
+): Promise<BatchJobStatus> {
 	const apiKey = getApiKey();
 	const endpoint = `https://api.hasdata.com/scrape/batch/web/${jobId}`;
 
@@ -332,15 +342,17 @@ export async function getBatchJobStatus(jobId: string): Promise<BatchJobStatus>
 			{
 				method: 'GET',
 				headers: {
-					'x-api-key': apiKey
-				}
-			}
+					'x-api-key': apiKey,
+				},
+				signal,
+			},
+			{ ...HASDATA_RETRY_CONFIG, timeoutMs },
 		);
 
 		const status = await response.json() as BatchJobStatus;
 		return status;
 	} catch (error) {
-		console.error('HasData Batch Job status error:', error);
+		log.error('HasData Batch Job status error:', error);
 		throw error;
 	}
 }
@@ -348,12 +360,14 @@ export async function getBatchJobStatus(jobId: string): Promise<BatchJobStatus>
 export async function waitForBatchCompletion(
 	jobId: string,
 	pollInterval: number = 5000,
-	maxWaitTime: number = 300000
+	maxWaitTime: number = 300000,
+	signal?: AbortSignal,
+	timeoutMs?: number,
 ): Promise<BatchJobStatus> {
 	const startTime = Date.now();
 
 	while (true) {
-		const status = await getBatchJobStatus(jobId);
+		const status = await getBatchJobStatus(jobId, signal, timeoutMs);
 		const endStates = ['done', 'stopped', 'finished', 'failed'];
 
 		if (endStates.includes(status.data.status)) {
@@ -361,7 +375,7 @@ export async function waitForBatchCompletion(
 		} else {
 			const total = status.data.requestsCount;
 			const completed = status.data.responsesCount;
-			console.log(`Batch job ${jobId} in progress: ${completed}/${total} completed.`);
+			log.info(`Batch job ${jobId} in progress: ${completed}/${total} completed.`);
 		}
 
 		const elapsed = Date.now() - startTime;
@@ -369,20 +383,22 @@ export async function waitForBatchCompletion(
 			throw new Error(`Batch job ${jobId} did not complete within ${maxWaitTime}ms`);
 		}
 
-		await new Promise(resolve => setTimeout(resolve, pollInterval));
+		await sleep(pollInterval, signal);
 	}
 }
 
 export async function getBatchJobPage(
 	jobId: string,
 	page: number = 0,
-	limit: number = 100
+	limit: number = 100,
+	signal?: AbortSignal,
+	timeoutMs?: number,
 ): Promise<BatchResults> {
 	const apiKey = getApiKey();
 	const url = new URL(`https://api.hasdata.com/scrape/batch/web/${jobId}/results`);
 	url.searchParams.set('page', page.toString());
 	url.searchParams.set('limit', limit.toString());
-	console.log(`Fetching batch job results from: ${url.toString()}`);
+	log.info(`Fetching batch job results from: ${url.toString()}`);
 
 	try {
 		const response = await fetchWithRetry(
@@ -390,14 +406,16 @@ export async function getBatchJobPage(
 			{
 				method: 'GET',
 				headers: {
-					'x-api-key': apiKey
-				}
-			}
+					'x-api-key': apiKey,
+				},
+				signal,
+			},
+			{ ...HASDATA_RETRY_CONFIG, timeoutMs },
 		);
 
 		return await response.json() as BatchResults;
 	} catch (error) {
-		console.error('HasData Batch Job results error:', error);
+		log.error('HasData Batch Job results error:', error);
 		throw error;
 	}
 }
@@ -407,12 +425,12 @@ export async function runBatchScrape(
 	options: ScrapeOptions,
 	pageSize: number = 100,
 	pollInterval: number = 5000,
-	maxWaitTime: number = 300000
+	maxWaitTime: number = 300000,
 ): Promise<Array<ScrapeResponse>> {
 	const { jobId } = await submitBatchScrapeJob(urls, options);
-	const status = await waitForBatchCompletion(jobId, pollInterval, maxWaitTime);
+	const status = await waitForBatchCompletion(jobId, pollInterval, maxWaitTime, options.signal, options.timeoutMs);
 	if (status.data.status === 'done') {
-		console.log(`Batch job ${jobId} finished successfully.`);
+		log.info(`Batch job ${jobId} finished successfully.`);
 	} else {
 		throw new Error(`Batch job failed with status:\n${JSON.stringify(status, null, 2)}`);
 	}
@@ -422,8 +440,8 @@ export async function runBatchScrape(
 	let hasMore = true;
 
 	while (hasMore) {
-		const pageResults = await getBatchJobPage(jobId, currentPage, pageSize);
-		console.log(`Fetched page ${pageResults.page} with ${pageResults.results.length} results.`);
+		const pageResults = await getBatchJobPage(jobId, currentPage, pageSize, options.signal, options.timeoutMs);
+		log.info(`Fetched page ${pageResults.page} with ${pageResults.results.length} results.`);
 
 		const scrapeResponses = await mapParallel(
 			pageResults.results,
@@ -431,10 +449,14 @@ export async function runBatchScrape(
 			async (item: BatchResultItem) => {
 				if (item.result.status === 'ok' && item.result.json) {
 					try {
-						const response = await fetchWithRetry(item.result.json, { method: 'GET' });
+						const response = await fetchWithRetry(
+							item.result.json,
+							{ method: 'GET', signal: options.signal },
+							{ ...HASDATA_RETRY_CONFIG, timeoutMs: options.timeoutMs },
+						);
 						const fullResponse = await response.json();
 						const scrapeResponse: ScrapeResponse = {
-							url: item.query.url as string
+							url: item.query.url as string,
 						};
 
 						if (options.formats.includes('markdown') && fullResponse.markdown) {
@@ -452,12 +474,15 @@ export async function runBatchScrape(
 
 						return scrapeResponse;
 					} catch (error) {
-						console.error(`Failed to fetch result for ${item.query.url}:`, error);
+						if (options.signal?.aborted) {
+							throw error;
+						}
+						log.error(`Failed to fetch result for ${item.query.url}:`, error);
 						return {};
 					}
 				}
 				return {};
-			}
+			},
 		);
 
 		aggregatedResults.push(...scrapeResponses);
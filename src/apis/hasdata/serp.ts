@@ -1,7 +1,14 @@
 /* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 import { mapParallel } from '../../helpers/async.ts';
 
-import { type AIOParsed, type AIOverview, fetchHasDataWithRetry, HASDATA_CONCURRENCY, parseAIO } from './helpers.ts';
+import {
+	type AIOParsed,
+	type AIOverview,
+	fetchHasDataWithRetry,
+	HASDATA_CONCURRENCY,
+	HASDATA_RETRY_CONFIG,
+	parseAIO,
+} from './helpers.ts';
 
 type SerpSearchType = 'all' | 'images' | 'videos' | 'news' | 'shopping' | 'local';
 
@@ -32,6 +39,8 @@ export interface SerpRequestOptions {
 	entityId?: string; // HasData param: kgmid
 	encodedLocation?: string; // HasData param: uule
 	searchId?: string; // HasData param: si
+	signal?: AbortSignal; // Aborts the request (not sent to HasData)
+	timeoutMs?: number; // Timeout of each attempt in milliseconds (not sent to HasData)
 }
 
 interface SerpInlineSiteLink {
@@ -331,13 +340,14 @@ function applySerpParams(url: URL, options: SerpRequestOptions): void {
 	appendOptionalParam(url, 'si', options.searchId);
 }
 
-async function fetchSerpInternal(url: string): Promise<SerpResponse> {
-	const response = await fetchHasDataWithRetry(url);
+async function fetchSerpInternal(url: string, signal?: AbortSignal, timeoutMs?: number): Promise<SerpResponse> {
+	const retryConfig = { ...HASDATA_RETRY_CONFIG, signal, timeoutMs };
+	const response = await fetchHasDataWithRetry(url, retryConfig);
 	const content = (await response.json()) as SerpResponse;
 	let aio = content.aiOverview as AIOverview | { pageToken?: string; hasdataLink?: string } | undefined;
 
 	if (aio && aio.pageToken && aio.hasdataLink) {
-		const aioResponse = await fetchHasDataWithRetry(aio.hasdataLink);
+		const aioResponse = await fetchHasDataWithRetry(aio.hasdataLink, retryConfig);
 		aio = await aioResponse.json();
 	}
 
@@ -353,7 +363,7 @@ export async function fetchSerp(query: string, options: SerpRequestOptions): Pro
 	url.searchParams.set('q', query);
 	applySerpParams(url, options);
 
-	return fetchSerpInternal(url.toString());
+	return fetchSerpInternal(url.toString(), options.signal, options.timeoutMs);
 }
 
 export async function fetchSerpBatch(
@@ -369,7 +379,8 @@ export async function fetchSerpBatch(
 		maxConcurrency,
 		async (query: string) => {
 			url.searchParams.set('q', query);
-			return await fetchSerpInternal(url.toString());
+			return await fetchSerpInternal(url.toString(), options.signal, options.timeoutMs);
 		},
+		{ signal: options.signal },
 	);
 }
@@ -0,0 +1,259 @@
+/**
+ * Context-window aware prompt budgeting.
+ *
+ * Before calling the provider, tools estimate the prompt's size and, if it
+ * exceeds the model's context window (minus room for the response), shrink
+ * their input and report what was cut.
+ */
+
+import { getModelInfo } from './providers/pricing.ts';
+import { contentToText } from './providers/content.ts';
+import type { Message, PromptBudgetReport, PromptCuts, ProviderParams } from './providers/types.ts';
+
+/**
+ * How record inputs are shrunk to fit the budget.
+ * - 'truncate': shorten the longest field values, halving the allowed length until the prompt fits
+ *   (down to MIN_TRUNCATED_CHARS), then drop records from the end.
+ * - 'drop': remove whole fields, largest first (keeping at least one), then drop records from the end.
+ * - 'none': send the prompt as is.
+ * Text inputs are always truncated at the end, unless the strategy is 'none'.
+ */
+export type BudgetStrategy = 'truncate' | 'drop' | 'none';
+
+/**
+ * An input shrunk to fit the budget, and what was cut from it.
+ */
+export interface FittedInput<T> {
+	input: T;
+	cuts: PromptCuts;
+}
+
+/** Output tokens reserved when the request doesn't set a maximum */
+export const DEFAULT_OUTPUT_RESERVE = 4096;
+
+/** Values are never truncated below this many characters */
+export const MIN_TRUNCATED_CHARS = 100;
+
+/** Fraction of the context window left unused to absorb estimation errors */
+const SAFETY_MARGIN = 0.1;
+
+/** Parameters limiting the response length, by provider */
+const MAX_OUTPUT_PARAMS = ['max_output_tokens', 'max_completion_tokens', 'max_tokens', 'maxOutputTokens'];
+
+const TRUNCATION_MARKER = '…';
+
+/**
+ * Estimate the number of tokens of a text without a tokenizer.
+ * Assumes ~4 characters per token for alphabetic scripts and one token per CJK character.
+ */
+export function estimateTokens(text: string): number {
+	const wide = text.match(/[⺀-鿿가-힯豈-﫿]/g)?.length ?? 0;
+	return Math.ceil((text.length - wide) / 4) + wide;
+}
+
+/**
+ * Estimate the number of tokens of a prompt. Only text content is counted.
+ */
+export function estimatePromptTokens(prompt: string | Message[]): number {
+	if (typeof prompt === 'string') {
+		return estimateTokens(prompt);
+	}
+	return prompt.reduce((sum, message) => sum + estimateTokens(contentToText(message.content)), 0);
+}
+
+/**
+ * Tokens available for the prompt of a request to the given models: the smallest context
+ * window among them, minus the reserved output tokens and a safety margin.
+ * Returns null if no context window is known.
+ *
+ * @param contextLimit - Context window to use instead of the bundled model info.
+ */
+export function getPromptBudget(models: Array<string>, params?: ProviderParams, contextLimit?: number): number | null {
+	let budget: number | null = null;
+
+	for (const model of models) {
+		const info = getModelInfo(model);
+		const limit = contextLimit ?? info?.contextLimit;
+		if (limit == null) {
+			continue;
+		}
+
+		const maxOutput = MAX_OUTPUT_PARAMS.map((key) => params?.[key]).find((value) => typeof value === 'number');
+		const reserve = (maxOutput as number | undefined) ??
+			Math.min(info?.outputLimit ?? DEFAULT_OUTPUT_RESERVE, DEFAULT_OUTPUT_RESERVE);
+		const available = Math.max(Math.floor((limit - reserve) * (1 - SAFETY_MARGIN)), 0);
+
+		budget = budget == null ? available : Math.min(budget, available);
+	}
+
+	return budget;
+}
+
+function noCuts(): PromptCuts {
+	return { truncatedFields: [], droppedFields: [], droppedRecords: 0, truncatedText: false };
+}
+
+function truncate(text: string, maxChars: number): string {
+	return text.length > maxChars ? text.slice(0, maxChars) + TRUNCATION_MARKER : text;
+}
+
+/**
+ * Keep the largest number of leading records that fits (at least one).
+ */
+function dropTrailingRecords<R>(records: Array<R>, fits: (records: Array<R>) => boolean): Array<R> {
+	let low = 1;
+	let high = records.length;
+
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (fits(records.slice(0, middle))) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	return records.slice(0, low);
+}
+
+/**
+ * Shrink records until the prompt built from them fits, following the given strategy.
+ *
+ * @param fits - Whether the prompt built from the candidate records fits the budget.
+ */
+export function fitRecords(
+	records: Array<Record<string, unknown>>,
+	fits: (records: Array<Record<string, unknown>>) => boolean,
+	strategy: BudgetStrategy = 'truncate',
+): FittedInput<Array<Record<string, unknown>>> {
+	const cuts = noCuts();
+	if (strategy === 'none' || fits(records)) {
+		return { input: records, cuts };
+	}
+
+	let current = records;
+
+	if (strategy === 'truncate') {
+		const longest = Math.max(
+			0,
+			...records.flatMap((record) => Object.values(record).map((v) => (typeof v === 'string' ? v.length : 0))),
+		);
+
+		let maxChars = Math.floor(longest / 2);
+		let applied: number | null = null;
+		while (maxChars >= MIN_TRUNCATED_CHARS) {
+			applied = maxChars;
+			current = records.map((record) =>
+				Object.fromEntries(
+					Object.entries(record).map(([key, value]) => [
+						key,
+						typeof value === 'string' ? truncate(value, maxChars) : value,
+					]),
+				)
+			);
+			if (fits(current)) {
+				break;
+			}
+			maxChars = Math.floor(maxChars / 2);
+		}
+
+		if (applied != null) {
+			const fields = new Set(records.flatMap((record) => Object.keys(record)));
+			cuts.truncatedFields = [...fields].filter((field) =>
+				records.some((record) => typeof record[field] === 'string' && record[field].length > applied)
+			);
+		}
+	} else {
+		const sizes = new Map<string, number>();
+		for (const record of records) {
+			for (const [key, value] of Object.entries(record)) {
+				sizes.set(key, (sizes.get(key) ?? 0) + (JSON.stringify(value) ?? '').length);
+			}
+		}
+
+		const bySize = [...sizes.entries()].sort((a, b) => b[1] - a[1]).map(([field]) => field);
+		for (const field of bySize.slice(0, -1)) {
+			cuts.droppedFields.push(field);
+			current = current.map(({ [field]: _, ...rest }) => rest);
+			if (fits(current)) {
+				break;
+			}
+		}
+	}
+
+	if (current.length > 1 && !fits(current)) {
+		const kept = dropTrailingRecords(current, fits);
+		cuts.droppedRecords = current.length - kept.length;
+		current = kept;
+	}
+
+	return { input: current, cuts };
+}
+
+/**
+ * Shorten a text at the end until the prompt built from it fits.
+ *
+ * @param fits - Whether the prompt built from the candidate text fits the budget.
+ */
+export function fitText(text: string, fits: (text: string) => boolean): FittedInput<string> {
+	const cuts = noCuts();
+	if (fits(text)) {
+		return { input: text, cuts };
+	}
+
+	let low = 0;
+	let high = text.length;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (fits(truncate(text, middle))) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	cuts.truncatedText = true;
+	return { input: truncate(text, low), cuts };
+}
+
+/**
+ * Build the prompt for an input, shrinking the input first if the prompt exceeds the budget.
+ *
+ * @param render - Builds the prompt from an input.
+ * @param shrink - Shrinks an input until the prompt fits. Returns null if the input can't be shrunk.
+ * @param budgetTokens - Tokens available for the prompt, or null to skip budgeting.
+ * @returns The prompt, and a report if the input was cut.
+ */
+export function budgetPrompt<T>(
+	input: T,
+	render: (input: T) => string | Message[],
+	shrink: (input: T, fits: (candidate: T) => boolean) => FittedInput<T> | null,
+	budgetTokens: number | null,
+): { prompt: string | Message[]; budget?: PromptBudgetReport } {
+	const prompt = render(input);
+	if (budgetTokens == null) {
+		return { prompt };
+	}
+
+	const estimatedTokens = estimatePromptTokens(prompt);
+	if (estimatedTokens <= budgetTokens) {
+		return { prompt };
+	}
+
+	const fitted = shrink(input, (candidate) => estimatePromptTokens(render(candidate)) <= budgetTokens);
+	if (fitted == null) {
+		return { prompt };
+	}
+
+	const fittedPrompt = render(fitted.input);
+
+	return {
+		prompt: fittedPrompt,
+		budget: {
+			budgetTokens,
+			estimatedTokens,
+			fittedTokens: estimatePromptTokens(fittedPrompt),
+			...fitted.cuts,
+		},
+	};
+}
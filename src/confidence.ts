@@ -0,0 +1,119 @@
+/**
+ * Confidence of single-call results.
+ *
+ * Where the provider returns token logprobs (OpenAI, OpenAI-compatible servers), the
+ * probability of each possible label is read off the tokens the model chose between.
+ * Elsewhere tools fall back to asking the model for its confidence (verbalized confidence),
+ * which is cheaper to get but less calibrated.
+ */
+
+import type { TokenLogprob } from './providers/types.ts';
+
+/**
+ * How tools estimate and act on the confidence of their results.
+ */
+export interface ConfidenceOptions {
+	/** Estimate the confidence of each result (implied by abstainBelow) */
+	confidence?: boolean;
+	/** Return uncertainLabel instead of results with a confidence below this threshold (0 to 1) */
+	abstainBelow?: number;
+	/** Result returned when abstaining (default: DEFAULT_UNCERTAIN_LABEL) */
+	uncertainLabel?: string;
+}
+
+/**
+ * The confidence in a result, and the probability of each possible result if known.
+ */
+export interface ConfidenceAssessment {
+	/** Between 0 and 1 */
+	confidence: number;
+	distribution?: Record<string, number>;
+}
+
+/** Result of tools abstaining from uncertain results, unless configured otherwise */
+export const DEFAULT_UNCERTAIN_LABEL = 'uncertain';
+
+/** Alternatives per token requested to estimate label distributions */
+export const LABEL_TOP_LOGPROBS = 10;
+
+/**
+ * The probability of each label of a string field in a JSON response, from the response's
+ * token logprobs. Labels are matched against the first token of the field's value and its
+ * top alternatives. Labels sharing that token split its probability, except the chosen label,
+ * which keeps the share of its remaining tokens' probability. Probabilities are normalized
+ * over the labels, and labels the model didn't consider get 0.
+ *
+ * Returns null if the field can't be found in the tokens, or no alternative matches a label.
+ */
+export function labelDistribution(
+	tokens: Array<TokenLogprob>,
+	labels: Array<string>,
+	field = 'label',
+): Record<string, number> | null {
+	const text = tokens.map((t) => t.token).join('');
+	const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+	if (!match) {
+		return null;
+	}
+
+	const valueStart = match.index + match[0].length;
+	const valueEnd = text.indexOf('"', valueStart);
+	const chosen = valueEnd >= 0 ? text.slice(valueStart, valueEnd) : null;
+
+	// Token in which the value starts, and the text of the token preceding the value
+	let offset = 0;
+	let first = 0;
+	while (first < tokens.length && offset + tokens[first].token.length <= valueStart) {
+		offset += tokens[first].token.length;
+		first++;
+	}
+	if (first === tokens.length) {
+		return null;
+	}
+	const prefix = text.slice(offset, valueStart);
+
+	// Probability the chosen label's remaining tokens were generated as they were
+	let remaining = 1;
+	let end = offset + tokens[first].token.length;
+	for (let i = first + 1; i < tokens.length && valueEnd >= 0 && end < valueEnd; i++) {
+		remaining *= Math.exp(tokens[i].logprob);
+		end += tokens[i].token.length;
+	}
+
+	const { token, logprob, topLogprobs } = tokens[first];
+	const alternatives = new Map<string, number>(topLogprobs.map((top) => [top.token, top.logprob]));
+	alternatives.set(token, logprob);
+
+	const mass: Record<string, number> = Object.fromEntries(labels.map((label) => [label, 0]));
+	for (const [alternative, lp] of alternatives) {
+		if (!alternative.startsWith(prefix)) {
+			continue;
+		}
+		const start = alternative.slice(prefix.length);
+		const matches = labels.filter((label) => {
+			const quoted = `${label}"`;
+			return start.length > 0 && (quoted.startsWith(start) || start.startsWith(quoted));
+		});
+		if (matches.length === 0) {
+			continue;
+		}
+
+		const p = Math.exp(lp);
+		if (alternative === token && chosen != null && matches.includes(chosen) && matches.length > 1) {
+			mass[chosen] += p * remaining;
+			for (const label of matches.filter((label) => label !== chosen)) {
+				mass[label] += (p * (1 - remaining)) / (matches.length - 1);
+			}
+		} else {
+			for (const label of matches) {
+				mass[label] += p / matches.length;
+			}
+		}
+	}
+
+	const total = Object.values(mass).reduce((sum, p) => sum + p, 0);
+	if (total === 0) {
+		return null;
+	}
+	return Object.fromEntries(Object.entries(mass).map(([label, p]) => [label, p / total]));
+}
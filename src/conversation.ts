@@ -0,0 +1,346 @@
+/**
+ * Stateful conversations.
+ *
+ * A Conversation keeps the history of a multi-turn exchange with a model, so follow-up
+ * questions (possibly with other output schemas) see the earlier turns. Old turns are
+ * dropped or summarized to stay within the model's context window, and usage and cost
+ * add up across turns. Conversations convert to plain data, to be stored and resumed later.
+ */
+
+import type { z } from '@zod/zod';
+import { askLLMSafe, type LLMResponse, type Message, type MessageContent, type ProviderParams } from './llm.ts';
+import { calculateCost, type ModelPricing } from './providers/index.ts';
+import { contentToText } from './providers/content.ts';
+import { estimatePromptTokens, getPromptBudget } from './budget.ts';
+import { sumCosts, sumTokenUsage, type TokenUsage, type UsageCost } from './response.ts';
+import type { RetryPolicy } from './retry.ts';
+import { dedent } from './helpers/utils.ts';
+import { log } from './observability.ts';
+import { definePrompt } from './template.ts';
+
+/**
+ * How a conversation makes room when its history outgrows the context window:
+ * - 'trim': drop the oldest turns
+ * - 'summarize': replace the oldest turns by a summary, written by the model
+ */
+export type HistoryStrategy = 'trim' | 'summarize';
+
+/**
+ * Configuration of a conversation.
+ */
+export interface ConversationOptions {
+	/** The model to use (e.g., 'gpt-4.1-mini') */
+	model: string;
+	/** Models to try in order when a call fails on the previous one (see AskLLMParams) */
+	fallbackModels?: Array<string>;
+	/** Base URL of an OpenAI-compatible server */
+	baseURL?: string;
+	/** Provider-specific parameters */
+	params?: ProviderParams;
+	/** System prompt of a new conversation (resumed conversations keep theirs) */
+	system?: string;
+	/** Maximum retry attempts per call (default: 3) */
+	maxRetries?: number;
+	/** Which errors to retry and how long to wait (default: DEFAULT_RETRY_POLICY) */
+	retryPolicy?: RetryPolicy;
+	/** Timeout of each request to the provider in milliseconds */
+	timeoutMs?: number;
+	/** Use the response cache if one is configured (default: true) */
+	cache?: boolean;
+	/** Custom pricing of the model, for models without bundled pricing */
+	pricing?: ModelPricing;
+	/** Context window in tokens, for models without bundled model info */
+	contextLimit?: number;
+	/** How to make room when the history outgrows the context window (default: 'trim') */
+	historyStrategy?: HistoryStrategy;
+	/** Model summarizing old turns with the 'summarize' strategy (default: model) */
+	summaryModel?: string;
+	/** Error handling mode of ask(): 'throw' or 'return' (default: 'throw') */
+	onError?: 'throw' | 'return';
+}
+
+/**
+ * Options of a single ask().
+ */
+export interface ConversationAskOptions {
+	/** Parameters overriding the conversation's params for this turn */
+	params?: ProviderParams;
+	/** Cancel the call */
+	signal?: AbortSignal;
+}
+
+/**
+ * The state of a conversation. Plain data, so it can be stored (e.g. as JSON) and resumed
+ * later with Conversation.resume(), as long as messages only contain text or URLs.
+ */
+export interface ConversationState {
+	system?: string;
+	/** Turns still in context, oldest first */
+	messages: Array<Message>;
+	/** Summary of the turns dropped from context ('summarize' strategy) */
+	summary?: string;
+	/** Tokens used by all calls so far, including summaries and calls served from the response cache */
+	usage: TokenUsage | null;
+	/** Cost of all calls so far in USD (cache hits are free), or null if any of them is unknown */
+	cost: UsageCost | null;
+	/** Number of calls so far */
+	calls: number;
+}
+
+/** Turns in context and the summary of the dropped ones */
+interface ContextWindow {
+	history: Array<Message>;
+	summary?: string;
+}
+
+const SUMMARY_PROMPT = definePrompt(
+	'conversation.summary',
+	dedent(`
+# Instructions
+
+Summarize the conversation below between a user and an assistant, so the assistant can continue
+it without seeing it. Keep the facts, decisions, requirements and results the rest of the
+conversation may depend on, and leave out pleasantries and repetition.
+
+{previousSummary}
+
+# Conversation
+
+{transcript}
+`),
+	['previousSummary', 'transcript'],
+);
+
+const PREVIOUS_SUMMARY_CLAUSE = definePrompt(
+	'conversation.previousSummary',
+	dedent(`
+Extend the summary of the conversation before it:
+
+{summary}
+`),
+	['summary'],
+);
+
+/**
+ * A multi-turn conversation with a model.
+ *
+ * @example
+ * const chat = new Conversation({ model: 'gpt-4.1-mini', system: 'You are a keyword researcher.' });
+ * const { parsed: ideas } = await chat.ask('Suggest keywords for running shoes', KeywordsResponseSchema);
+ * const { parsed: filtered } = await chat.ask('Drop the branded ones', KeywordsResponseSchema);
+ * await Deno.writeTextFile('chat.json', JSON.stringify(chat.toJSON()));
+ */
+export class Conversation {
+	private readonly options: ConversationOptions;
+	private readonly system?: string;
+	private history: Array<Message>;
+	private summary?: string;
+	private totalUsage: TokenUsage | null;
+	private totalCost: UsageCost | null;
+	private callCount: number;
+
+	constructor(options: ConversationOptions, state?: ConversationState) {
+		this.options = options;
+		this.system = state ? state.system : options.system;
+		this.history = [...(state?.messages ?? [])];
+		this.summary = state?.summary;
+		this.totalUsage = state?.usage ?? null;
+		this.totalCost = state ? state.cost : sumCosts([]);
+		this.callCount = state?.calls ?? 0;
+	}
+
+	/**
+	 * Continue a conversation from its stored state.
+	 */
+	static resume(state: ConversationState, options: Omit<ConversationOptions, 'system'>): Conversation {
+		return new Conversation(options, state);
+	}
+
+	/**
+	 * Send a user message and return the model's answer, parsed with the schema if given.
+	 * Each ask may use a different schema. Failed asks leave the history and summary unchanged,
+	 * even if old turns were trimmed or summarized to make room (the usage of summaries still counts).
+	 */
+	async ask<T = string>(
+		content: MessageContent,
+		schema: z.ZodType<T> | null = null,
+		options: ConversationAskOptions = {},
+	): Promise<LLMResponse<T>> {
+		const {
+			model,
+			fallbackModels,
+			baseURL,
+			params,
+			maxRetries,
+			retryPolicy,
+			timeoutMs,
+			cache,
+			pricing,
+			onError = 'throw',
+		} = this.options;
+		const message: Message = { role: 'user', content };
+
+		const window = await this.makeRoom(message, options.signal);
+
+		const response = await askLLMSafe({
+			prompt: this.context(window, message),
+			model,
+			fallbackModels,
+			baseURL,
+			schema,
+			params: { ...params, ...options.params },
+			maxRetries,
+			retryPolicy,
+			onError: 'return',
+			cache,
+			signal: options.signal,
+			timeoutMs,
+			pricing,
+		});
+		this.account(response);
+
+		if (response.error == null) {
+			const answer = response.text ?? JSON.stringify(response.parsed);
+			this.history = [...window.history, message, { role: 'assistant', content: answer }];
+			this.summary = window.summary;
+		} else if (onError === 'throw') {
+			throw response.error;
+		}
+
+		return response;
+	}
+
+	/**
+	 * The messages sent as context of the next ask: the system prompt (with the summary of
+	 * dropped turns, if any), followed by the turns in context.
+	 */
+	messages(): Array<Message> {
+		return this.context({ history: this.history, summary: this.summary });
+	}
+
+	/**
+	 * Tokens used by all calls so far, including summaries. Tokens include calls served from the
+	 * response cache, but their cost is excluded.
+	 */
+	usage(): TokenUsage | null {
+		return this.totalUsage;
+	}
+
+	/** Cost of all calls so far in USD (cache hits are free), or null if any of them is unknown */
+	cost(): UsageCost | null {
+		return this.totalCost;
+	}
+
+	/** Number of calls so far, including summaries */
+	calls(): number {
+		return this.callCount;
+	}
+
+	/**
+	 * The conversation's state, to resume it later with Conversation.resume().
+	 */
+	toJSON(): ConversationState {
+		return {
+			...(this.system != null ? { system: this.system } : {}),
+			messages: [...this.history],
+			...(this.summary != null ? { summary: this.summary } : {}),
+			usage: this.totalUsage,
+			cost: this.totalCost,
+			calls: this.callCount,
+		};
+	}
+
+	/** The system prompt and turns of a context window, followed by the next message if given */
+	private context({ history, summary }: ContextWindow, next?: Message): Array<Message> {
+		const system = [
+			this.system,
+			summary != null ? `# Summary of the earlier conversation\n\n${summary}` : undefined,
+		].filter((part) => part != null).join('\n\n');
+
+		return [
+			...(system ? [{ role: 'system' as const, content: system }] : []),
+			...history,
+			...(next ? [next] : []),
+		];
+	}
+
+	/**
+	 * The context window for the next message: the history without the oldest turns that don't
+	 * fit the budget of the conversation's models, summarized with the 'summarize' strategy.
+	 * Token counts are estimates. The conversation itself is left unchanged.
+	 */
+	private async makeRoom(next: Message, signal?: AbortSignal): Promise<ContextWindow> {
+		const { model, fallbackModels = [], params, contextLimit, historyStrategy = 'trim' } = this.options;
+		const window: ContextWindow = { history: [...this.history], summary: this.summary };
+		const budget = getPromptBudget([model, ...fallbackModels], params, contextLimit);
+		if (budget == null) {
+			return window;
+		}
+
+		const dropped: Array<Message> = [];
+		while (window.history.length > 0 && estimatePromptTokens(this.context(window, next)) > budget) {
+			// A turn is a user message and the replies up to the next one
+			const end = window.history.findIndex((message, i) => i > 0 && message.role === 'user');
+			dropped.push(...window.history.splice(0, end < 0 ? window.history.length : end));
+		}
+
+		if (dropped.length > 0 && historyStrategy === 'summarize') {
+			window.summary = await this.summarize(dropped, window.summary, signal) ?? window.summary;
+		}
+		return window;
+	}
+
+	/**
+	 * Fold dropped turns into a summary, returning undefined if summarizing fails
+	 * (the turns are then lost).
+	 */
+	private async summarize(
+		dropped: Array<Message>,
+		summary: string | undefined,
+		signal?: AbortSignal,
+	): Promise<string | undefined> {
+		const { model, summaryModel, baseURL, maxRetries, retryPolicy, timeoutMs, cache, pricing } = this.options;
+		const transcript = dropped.map((message) => `${message.role}: ${contentToText(message.content)}`).join('\n\n');
+		const previousSummary = summary != null ? PREVIOUS_SUMMARY_CLAUSE.render({ summary }) : '';
+
+		const response = await askLLMSafe({
+			prompt: SUMMARY_PROMPT.render({ previousSummary, transcript }),
+			model: summaryModel ?? model,
+			baseURL: summaryModel == null ? baseURL : undefined,
+			pricing: summaryModel == null ? pricing : undefined,
+			maxRetries,
+			retryPolicy,
+			onError: 'return',
+			cache,
+			signal,
+			timeoutMs,
+		});
+		this.account(response);
+
+		if (response.error != null || !response.parsed) {
+			log.warn(`Conversation couldn't summarize ${dropped.length} old messages, dropping them`);
+			return undefined;
+		}
+		return response.parsed;
+	}
+
+	/**
+	 * Add a call's usage and cost to the totals, pricing the call on each model tried after a fallback
+	 * with that model. Custom pricing applies to the conversation's model. Cached calls add their
+	 * tokens, like the usage of batches, but cost nothing.
+	 */
+	private account(response: LLMResponse<unknown>): void {
+		const { model, pricing } = this.options;
+		this.callCount++;
+		this.totalUsage = sumTokenUsage([this.totalUsage, response.usage]);
+
+		const calls = response.calls ??
+			[{ model: response.model ?? model, usage: response.usage, cached: response.cached === true }];
+		for (const call of calls) {
+			if (!call.cached && call.usage) {
+				const cost = calculateCost(call.model, call.usage, call.model === model ? pricing : undefined);
+				this.totalCost = sumCosts([this.totalCost, cost]);
+			}
+		}
+	}
+}
@@ -0,0 +1,111 @@
+/**
+ * Self-consistency ensembles.
+ *
+ * Tools in ensemble mode answer each input with several samples, possibly from
+ * different models, and combine their results. How much the samples agree is a
+ * cheap measure of a result's reliability, e.g. to route uncertain rows to review.
+ */
+
+import type { ProviderParams } from './providers/types.ts';
+
+/**
+ * How to sample an ensemble.
+ */
+export interface EnsembleOptions {
+	/** Number of samples per input (default: one per model, or DEFAULT_ENSEMBLE_SAMPLES without models) */
+	samples?: number;
+	/** Models to sample from, in turn (default: the tool's model) */
+	models?: Array<string>;
+	/**
+	 * Parameters overriding the tool's modelParams in samples. Set a temperature above 0
+	 * (e.g. `{ temperature: 1 }`) so samples of a single model can differ.
+	 */
+	modelParams?: ProviderParams;
+}
+
+/**
+ * The result of an ensemble and its confidence.
+ */
+export interface CombinedResult<T> {
+	result: T;
+	/** Between 0 (samples disagree completely) and 1 (all samples agree) */
+	confidence: number;
+	/** Standard deviation of numeric results */
+	stdDev?: number;
+}
+
+/** Samples per input when the ensemble doesn't specify it */
+export const DEFAULT_ENSEMBLE_SAMPLES = 5;
+
+/**
+ * The model of each sample of an ensemble.
+ */
+export function ensembleModels(ensemble: EnsembleOptions, model: string): Array<string> {
+	const models = ensemble.models?.length ? ensemble.models : [model];
+	const samples = ensemble.samples ?? (ensemble.models?.length ? models.length : DEFAULT_ENSEMBLE_SAMPLES);
+
+	if (!Number.isInteger(samples) || samples < 1) {
+		throw new Error(`Ensemble samples must be a positive integer, got ${samples}`);
+	}
+
+	return Array.from({ length: samples }, (_, i) => models[i % models.length]);
+}
+
+/**
+ * The most frequent result, with the share of samples voting for it as confidence.
+ * Ties go to the result voted first.
+ */
+export function majorityVote<T extends string | number | boolean>(results: Array<T>): CombinedResult<T> {
+	const votes = new Map<T, number>();
+	for (const result of results) {
+		votes.set(result, (votes.get(result) ?? 0) + 1);
+	}
+
+	let winner = results[0];
+	for (const [result, count] of votes) {
+		if (count > votes.get(winner)!) {
+			winner = result;
+		}
+	}
+
+	return { result: winner, confidence: votes.get(winner)! / results.length };
+}
+
+/**
+ * The labels assigned by more than half of the samples. Confidence is the mean agreement
+ * on each label any sample assigned (1 if all samples agree on whether to assign it).
+ */
+export function majorityLabels(results: Array<Array<string>>): CombinedResult<Array<string>> {
+	const votes = new Map<string, number>();
+	for (const labels of results) {
+		for (const label of new Set(labels)) {
+			votes.set(label, (votes.get(label) ?? 0) + 1);
+		}
+	}
+
+	const n = results.length;
+	const agreement = [...votes.values()].map((count) => Math.max(count, n - count) / n);
+
+	return {
+		result: [...votes].filter(([, count]) => count > n / 2).map(([label]) => label),
+		confidence: agreement.length > 0 ? agreement.reduce((sum, a) => sum + a, 0) / agreement.length : 1,
+	};
+}
+
+/**
+ * The mean of numeric results and their standard deviation. Confidence is 1 minus the
+ * standard deviation relative to the largest one possible in the range [min, max].
+ *
+ * @param round - Round the mean, for integer scores.
+ */
+export function meanScore(values: Array<number>, min: number, max: number, round = false): CombinedResult<number> {
+	const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+	const stdDev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+	const maxStdDev = (max - min) / 2;
+
+	return {
+		result: round ? Math.round(mean) : mean,
+		confidence: maxStdDev > 0 ? Math.max(0, 1 - stdDev / maxStdDev) : 1,
+		stdDev,
+	};
+}
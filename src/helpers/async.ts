@@ -1,7 +1,9 @@
 /**
- * Async utilities: sleep, retry with backoff, and parallel execution.
+ * Async utilities: sleep, retry with backoff, parallel execution and progress tracking.
  */
 
+import { emit, withSpan } from '../observability.ts';
+
 // ============================================================================
 // Sleep
 // ============================================================================
@@ -37,6 +39,18 @@ export function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
 	});
 }
 
+/**
+ * Combine the caller's signal with a timeout, if any.
+ * The returned `timeout` signal tells timeouts apart from cancellation.
+ */
+export function withTimeout(
+	signal: AbortSignal | undefined,
+	timeoutMs: number | undefined,
+): { signal: AbortSignal | undefined; timeout: AbortSignal | undefined } {
+	const timeout = timeoutMs != null ? AbortSignal.timeout(timeoutMs) : undefined;
+	return { signal: signal && timeout ? AbortSignal.any([signal, timeout]) : signal ?? timeout, timeout };
+}
+
 // ============================================================================
 // Retry with Exponential Backoff
 // ============================================================================
@@ -47,6 +61,10 @@ export interface RetryConfig {
 	maxDelay?: number; // in milliseconds
 	backoffMultiplier?: number;
 	statusCodes?: Array<number>;
+	/** Abort waiting for retries, and the request of the current attempt */
+	signal?: AbortSignal;
+	/** Timeout of each attempt in milliseconds (timed out attempts are retried) */
+	timeoutMs?: number;
 }
 
 export const RETRY_DEFAULTS = {
@@ -54,88 +72,200 @@ export const RETRY_DEFAULTS = {
 	initialDelay: 1000,
 	maxDelay: 30000,
 	backoffMultiplier: 2,
-	statusCodes: [429, 500]
+	statusCodes: [429, 500],
 };
 
 /**
  * Executes a fetch operation with exponential backoff retry logic.
  * Only retries on network errors or specific HTTP status codes (default: 429, 500).
+ * `fn` is passed the signal of the attempt (combining `signal` and `timeoutMs`) for its fetch.
+ * Aborting the signal stops retrying and rejects with the abort reason.
+ * Runs in an 'http.request' span if a tracer is set, and reports retries to the onHttpRetry hook.
  */
 export async function withRetries(
-	fn: () => Promise<Response>,
+	fn: (signal?: AbortSignal) => Promise<Response>,
 	{
 		maxRetries = RETRY_DEFAULTS.maxRetries,
 		initialDelay = RETRY_DEFAULTS.initialDelay,
 		maxDelay = RETRY_DEFAULTS.maxDelay,
 		backoffMultiplier = RETRY_DEFAULTS.backoffMultiplier,
-		statusCodes = RETRY_DEFAULTS.statusCodes
-	}: RetryConfig = {}
+		statusCodes = RETRY_DEFAULTS.statusCodes,
+		signal,
+		timeoutMs,
+	}: RetryConfig = {},
 ): Promise<Response> {
-	let lastError: Error | undefined;
-	let lastResponse: Response | undefined;
-	let delay = initialDelay;
+	signal?.throwIfAborted();
 
-	const abortSignal = (globalThis as Record<string, unknown>).abortSignal as AbortSignal | undefined;
-	if (abortSignal?.aborted) {
-		throw new Error('Operation aborted');
-	}
+	return await withSpan('http.request', {}, async (span) => {
+		let lastError: Error | undefined;
+		let lastResponse: Response | undefined;
+		let delay = initialDelay;
 
-	for (let attempt = 0; attempt <= maxRetries; attempt++) {
-		try {
-			const response = await fn();
+		for (let attempt = 0; attempt <= maxRetries; attempt++) {
+			span?.setAttribute('cuery.attempt', attempt);
 
-			// Return immediately if successful and not in retry status codes
-			if (response.ok && !statusCodes.includes(response.status)) {
-				return response;
-			}
+			try {
+				const response = await fn(withTimeout(signal, timeoutMs).signal);
+				span?.setAttribute('http.response.status_code', response.status);
 
-			// Return on last attempt regardless of status
-			if (attempt === maxRetries) {
-				return response;
-			}
+				// Return immediately if successful and not in retry status codes
+				if (response.ok && !statusCodes.includes(response.status)) {
+					return response;
+				}
+
+				// Return on last attempt regardless of status
+				if (attempt === maxRetries) {
+					return response;
+				}
 
-			lastResponse = response;
+				lastResponse = response;
 
-			await sleep(delay, abortSignal);
-			delay = Math.min(delay * backoffMultiplier, maxDelay);
-		} catch (error) {
-			lastError = error as Error;
+				emit('onHttpRetry', { attempt, status: response.status, delayMs: delay });
+				await sleep(delay, signal);
+				delay = Math.min(delay * backoffMultiplier, maxDelay);
+			} catch (error) {
+				signal?.throwIfAborted();
+				lastError = error as Error;
 
-			if (attempt === maxRetries) {
-				break;
+				if (attempt === maxRetries) {
+					break;
+				}
+
+				emit('onHttpRetry', { attempt, error: lastError, delayMs: delay });
+				await sleep(delay, signal);
+				delay = Math.min(delay * backoffMultiplier, maxDelay);
 			}
+		}
 
-			await sleep(delay, abortSignal);
-			delay = Math.min(delay * backoffMultiplier, maxDelay);
+		if (lastResponse != null) {
+			return lastResponse;
 		}
+
+		throw new Error(
+			`Network request failed after ${maxRetries + 1} attempts: ${lastError?.message || 'Unknown error'}`,
+		);
+	});
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Progress of a batch, reported each time an item finishes.
+ */
+export interface BatchProgress {
+	/** Items finished successfully */
+	completed: number;
+	/** Items finished with an error */
+	failed: number;
+	/** Items started but not finished */
+	inFlight: number;
+	/** Number of items in the batch, or null if unknown (e.g. for iterators) */
+	total: number | null;
+	/** Cost of the finished items so far in USD, or null if no item reported a cost */
+	costUSD: number | null;
+	/** Time since the batch started in milliseconds */
+	elapsedMs: number;
+	/** Estimated time until all items are finished in milliseconds, or null if unknown */
+	etaMs: number | null;
+}
+
+export type ProgressCallback = (progress: BatchProgress) => void;
+
+/**
+ * Counts the items of a batch as they start and finish, reporting its progress to a callback.
+ * The ETA extrapolates the average time per finished item to the remaining items.
+ */
+export class ProgressTracker {
+	private completed = 0;
+	private failed = 0;
+	private inFlight = 0;
+	private costUSD: number | null = null;
+	private readonly startedAt = performance.now();
+
+	constructor(
+		private readonly total: number | null,
+		private readonly onProgress?: ProgressCallback,
+	) {}
+
+	/** Count an item as in flight */
+	start(): void {
+		this.inFlight++;
 	}
 
-	if (lastResponse != null) {
-		return lastResponse;
+	/**
+	 * Count an item as finished, and report the progress.
+	 *
+	 * @param costUSD - Cost of the item, if known.
+	 */
+	finish(failed: boolean, costUSD?: number | null): void {
+		this.inFlight = Math.max(0, this.inFlight - 1);
+		if (failed) {
+			this.failed++;
+		} else {
+			this.completed++;
+		}
+		if (costUSD != null) {
+			this.costUSD = (this.costUSD ?? 0) + costUSD;
+		}
+		this.onProgress?.(this.progress());
 	}
 
-	throw new Error(
-		`Network request failed after ${maxRetries + 1} attempts: ${lastError?.message || 'Unknown error'}`
-	);
+	/** The progress so far */
+	progress(): BatchProgress {
+		const elapsedMs = performance.now() - this.startedAt;
+		const finished = this.completed + this.failed;
+		const etaMs = this.total != null && finished > 0
+			? (elapsedMs / finished) * Math.max(0, this.total - finished)
+			: null;
+
+		return {
+			completed: this.completed,
+			failed: this.failed,
+			inFlight: this.inFlight,
+			total: this.total,
+			costUSD: this.costUSD,
+			elapsedMs,
+			etaMs,
+		};
+	}
 }
 
 // ============================================================================
 // Parallel Execution
 // ============================================================================
 
+export interface MapParallelOptions {
+	/** Stop starting new items when aborted */
+	signal?: AbortSignal;
+	/** Timeout of each item in milliseconds, aborting the signal passed to its callback */
+	timeoutMs?: number;
+	/** Called each time an item finishes; items whose callback throws count as failed */
+	onProgress?: ProgressCallback;
+}
+
 /**
  * Executes an async callback on each item in an iterable with limited concurrency.
  * Results are returned in the same order as the input.
+ *
+ * When the signal is aborted, no new items are started and the promise rejects
+ * with the abort reason once in-flight callbacks have settled. Each callback is
+ * passed the signal of its item (combining `signal` and `timeoutMs`): pass it to
+ * the callback's own requests to abort those as well.
  */
 export async function mapParallel<T, U>(
 	iterable: Array<T> | Set<T> | Iterator<T>,
 	nWorkers: number,
-	callback: (value: T, index: number) => Promise<U>
+	callback: (value: T, index: number, signal?: AbortSignal) => Promise<U>,
+	{ signal, timeoutMs, onProgress }: MapParallelOptions = {},
 ): Promise<Array<U>> {
 	let size: number | null = null;
 
 	if (Array.isArray(iterable)) {
 		size = iterable.length;
+	} else if (iterable instanceof Set) {
+		size = iterable.size;
 	}
 
 	if (!('next' in iterable)) {
@@ -144,17 +274,26 @@ export async function mapParallel<T, U>(
 
 	nWorkers = Math.max(1, Math.min(nWorkers, size || Number.MAX_VALUE));
 
+	const progress = onProgress ? new ProgressTracker(size, onProgress) : null;
 	const result: Array<U> = [];
 	let myIndex = 0;
 	const workerPromises = Array(nWorkers).fill(0).map(async () => {
 		let iterResult: IteratorResult<T>;
-		while (!(iterResult = iterable.next()).done) {
+		while (!signal?.aborted && !(iterResult = iterable.next()).done) {
 			const index = myIndex++;
-			result[index] = await callback(iterResult.value, index);
+			progress?.start();
+			try {
+				result[index] = await callback(iterResult.value, index, withTimeout(signal, timeoutMs).signal);
+			} catch (error) {
+				progress?.finish(true);
+				throw error;
+			}
+			progress?.finish(false);
 		}
 	});
 
 	await Promise.all(workerPromises);
+	signal?.throwIfAborted();
 
 	return result;
 }
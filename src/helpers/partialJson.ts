@@ -0,0 +1,100 @@
+/**
+ * Tolerant parsing of incomplete JSON, as produced by streaming LLM responses.
+ */
+
+/**
+ * Close any open strings, arrays and objects of a JSON prefix.
+ * Returns the repaired text and the positions of structural characters
+ * (outside of strings) that are safe places to cut the text.
+ */
+function repair(text: string): { repaired: string; cutPoints: Array<number> } {
+	const stack: Array<'{' | '['> = [];
+	const cutPoints: Array<number> = [];
+	let inString = false;
+	let escaped = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+			} else if (char === '\\') {
+				escaped = true;
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		switch (char) {
+			case '"':
+				inString = true;
+				break;
+			case '{':
+			case '[':
+				stack.push(char);
+				cutPoints.push(i + 1);
+				break;
+			case '}':
+			case ']':
+				stack.pop();
+				cutPoints.push(i + 1);
+				break;
+			case ',':
+				cutPoints.push(i);
+				break;
+		}
+	}
+
+	let repaired = text;
+
+	if (inString) {
+		// Drop a dangling escape sequence before closing the string
+		repaired = repaired.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '') + '"';
+	}
+
+	repaired = repaired.trimEnd();
+	if (repaired.endsWith(',')) {
+		repaired = repaired.slice(0, -1);
+	} else if (repaired.endsWith(':')) {
+		repaired += 'null';
+	}
+
+	for (let i = stack.length - 1; i >= 0; i--) {
+		repaired += stack[i] === '{' ? '}' : ']';
+	}
+
+	return { repaired, cutPoints };
+}
+
+/**
+ * Parse a possibly incomplete JSON document, returning the most complete value
+ * that can be recovered, or undefined if nothing can be parsed yet.
+ *
+ * Incomplete strings are closed, while incomplete keys, numbers and literals
+ * are dropped until more text arrives.
+ */
+export function parsePartialJSON(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		// Fall through to repair
+	}
+
+	let current = text;
+	let { repaired, cutPoints } = repair(current);
+
+	while (true) {
+		try {
+			return JSON.parse(repaired);
+		} catch {
+			const cut = cutPoints.filter((p) => p < current.length).at(-1);
+			if (cut == null) {
+				return undefined;
+			}
+			current = current.slice(0, cut);
+			({ repaired, cutPoints } = repair(current));
+		}
+	}
+}
@@ -3,37 +3,157 @@
  */
 
 import type { z } from '@zod/zod';
-import { SchemaValidationError } from './providers/errors.ts';
+import { classifyError, LLMError, SchemaValidationError, TimeoutError } from './providers/errors.ts';
 import {
+	calculateCost,
+	type DeepPartial,
 	getProviderForModel,
-	type Message,
+	getRequestTarget,
+	type LLMProvider,
 	type LLMResponse,
+	type LLMStreamEvent,
+	type Message,
+	type ModelCall,
+	type ModelPricing,
 	type ProviderParams,
+	type RequestOptions,
+	type ToolCall,
+	type ToolDefinition,
+	type ToolInvocation,
 } from './providers/index.ts';
+import { CachedProvider, getCacheOptions } from './providers/cache.ts';
+import { getRateLimiter, withRateLimit } from './providers/rateLimit.ts';
+import { decodeStructuredOutput } from './providers/schema.ts';
+import { estimatePromptTokens } from './budget.ts';
+import { sumTokenUsage, type TokenUsage } from './response.ts';
+import { parsePartialJSON } from './helpers/partialJson.ts';
+import { sleep, withTimeout } from './helpers/async.ts';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from './retry.ts';
+import { emit, failSpan, type LLMRequestEvent, log, setUsageAttributes, withSpan } from './observability.ts';
 
 // Re-export core LLM types from providers
-export type { Message, LLMResponse, LLMProvider, ProviderParams, LLMConversation } from './providers/index.ts';
+export type {
+	ContentPart,
+	DeepPartial,
+	EnsembleStats,
+	FilePart,
+	ImagePart,
+	LLMConversation,
+	LLMProvider,
+	LLMResponse,
+	LLMStreamEvent,
+	Message,
+	MessageContent,
+	ModelCall,
+	PromptBudgetReport,
+	PromptCuts,
+	ProviderParams,
+	RequestOptions,
+	TextPart,
+	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+	ToolInvocation,
+} from './providers/index.ts';
 
 // Re-export usage types and cost calculator from response/providers for convenience
-export type { TokenUsage, UsageCost, AggregatedUsage } from './response.ts';
+export type {
+	AggregatedUsage,
+	BatchItemDetails,
+	CostBreakdown,
+	ModelUsage,
+	TokenUsage,
+	UsageCost,
+} from './response.ts';
 export { calculateCost } from './providers/index.ts';
 
+export {
+	AuthenticationError,
+	ContentFilterError,
+	LLMError,
+	type LLMErrorKind,
+	RateLimitError,
+	SchemaValidationError,
+	TimeoutError,
+	UnsupportedSchemaError,
+} from './providers/errors.ts';
+export {
+	type BackoffOptions,
+	backoffPolicy,
+	DEFAULT_RETRY_POLICY,
+	RETRYABLE_ERROR_KINDS,
+	type RetryPolicy,
+} from './retry.ts';
+
+/**
+ * Context passed to function tool handlers.
+ */
+export interface FunctionToolContext {
+	/** Aborted when the LLM call is cancelled */
+	signal?: AbortSignal;
+}
+
+/**
+ * A function the model may call, with the handler that executes it.
+ */
+export interface FunctionTool<A = unknown> extends ToolDefinition {
+	/** Zod schema of the function's arguments (must be an object schema) */
+	parameters: z.ZodType<A>;
+	/** Execute the call. The return value is sent back to the model as JSON. */
+	handler(args: A, context: FunctionToolContext): unknown;
+}
+
+/**
+ * Define a function tool with argument types inferred from its parameter schema.
+ */
+export function defineFunctionTool<A>(tool: FunctionTool<A>): FunctionTool<A> {
+	return tool;
+}
+
 /**
  * Parameters for askLLMSafe.
  */
 export interface AskLLMParams<T = string> {
 	/** The prompt (string or message array) */
 	prompt: string | Message[];
-	/** The model to use (e.g., 'gpt-4.1-mini', 'gemini-2.0-flash') */
+	/** The model to use (e.g., 'gpt-4.1-mini', 'gemini-2.0-flash', 'local/qwen3-8b') */
 	model: string;
+	/**
+	 * Models to try in order when the call fails on the previous one (after retries),
+	 * possibly on other providers. `params` are sent to every model, and `baseURL` only
+	 * applies to the primary one.
+	 */
+	fallbackModels?: Array<string>;
+	/** Base URL of an OpenAI-compatible server (selects the 'openai-compatible' provider) */
+	baseURL?: string;
 	/** Optional Zod schema for structured output */
 	schema?: z.ZodType<T> | null;
 	/** Provider-specific parameters */
 	params?: ProviderParams;
 	/** Maximum retry attempts (default: 3) */
 	maxRetries?: number;
+	/** Which errors to retry and how long to wait (default: DEFAULT_RETRY_POLICY) */
+	retryPolicy?: RetryPolicy;
 	/** Error handling mode: 'throw' or 'return' (default: 'throw') */
 	onError?: 'throw' | 'return';
+	/** Functions the model may call before giving its final answer */
+	tools?: Array<FunctionTool>;
+	/** Maximum number of model calls when using tools (default: 10) */
+	maxSteps?: number;
+	/** Use the response cache if one is configured (default: true) */
+	cache?: boolean;
+	/** Cancel the call, aborting in-flight requests and pending retries */
+	signal?: AbortSignal;
+	/** Timeout of each request to the provider in milliseconds (timed out requests may be retried) */
+	timeoutMs?: number;
+	/**
+	 * Return the log probabilities of the output tokens in `logprobs`, with this many alternatives
+	 * per token. Only supported by some providers and models (OpenAI and OpenAI-compatible servers,
+	 * except reasoning models); ignored otherwise.
+	 */
+	logprobs?: number;
+	/** Custom pricing of the model (not of fallbackModels), for the cost reported to observability hooks */
+	pricing?: ModelPricing;
 }
 
 /**
@@ -46,37 +166,116 @@ function normalizePrompt(prompt: string | Message[]): Message[] {
 	return [{ role: 'user', content: prompt }];
 }
 
+interface CallOptions {
+	maxRetries: number;
+	policy: RetryPolicy;
+	signal?: AbortSignal;
+	timeoutMs?: number;
+	/** Name of the provider reported to hooks and spans (default: the provider's own name) */
+	providerName?: string;
+	logprobs?: number;
+	/** Custom pricing of the model, for the cost reported to hooks and spans */
+	pricing?: ModelPricing;
+}
+
+function abortedError(signal: AbortSignal): LLMError {
+	return new LLMError('aborted', 'LLM call was aborted', { cause: signal.reason });
+}
+
 /**
- * Make a single LLM call with retry logic.
- * Returns LLMResponse with raw TokenUsage (no cost calculation).
+ * Call the provider once, reporting the attempt to the observability hooks and tracer.
  */
-export async function askLLMSafe<T = string>({
-	prompt,
-	model,
-	schema,
-	params,
-	maxRetries = 3,
-	onError = 'throw',
-}: AskLLMParams<T>): Promise<LLMResponse<T>> {
-	const provider = getProviderForModel(model);
-	let messages = normalizePrompt(prompt);
+function observedComplete<T>(
+	provider: LLMProvider,
+	messages: Message[],
+	schema: z.ZodType<T> | null,
+	params: ProviderParams | undefined,
+	tools: Array<ToolDefinition> | undefined,
+	options: RequestOptions,
+	event: LLMRequestEvent,
+	pricing?: ModelPricing,
+): Promise<LLMResponse<T>> {
+	const attributes = {
+		'gen_ai.request.model': event.model,
+		'gen_ai.system': event.provider,
+		'cuery.attempt': event.attempt,
+	};
+
+	return withSpan('llm.complete', attributes, async (span) => {
+		emit('onRequestStart', event);
+		const start = performance.now();
+		const response = await provider.complete(messages, event.model, schema, params, tools, options);
+		const durationMs = performance.now() - start;
+
+		if (response.error != null) {
+			emit('onError', { ...event, durationMs, error: classifyError(response.error), usage: response.usage });
+			setUsageAttributes(span, response.usage, null);
+			failSpan(span, response.error);
+			return response;
+		}
+
+		const cached = response.cached === true;
+		const cost = !cached && response.usage ? calculateCost(event.model, response.usage, pricing) : null;
+		emit('onResponse', { ...event, durationMs, usage: response.usage, cost, cached });
+		setUsageAttributes(span, response.usage, cost);
+		span?.setAttribute('cuery.cached', cached);
+		return response;
+	});
+}
+
+/**
+ * Call the provider, retrying errors the policy considers transient.
+ * A response requesting function calls counts as a success.
+ * The returned usage includes that of failed attempts, which are billed too.
+ */
+async function completeWithRetries<T>(
+	provider: LLMProvider,
+	messages: Message[],
+	model: string,
+	schema: z.ZodType<T> | null,
+	params: ProviderParams | undefined,
+	tools: Array<ToolDefinition> | undefined,
+	{ maxRetries, policy, signal, timeoutMs, providerName = provider.name, logprobs, pricing }: CallOptions,
+): Promise<LLMResponse<T>> {
 	let lastResponse: LLMResponse<T> | null = null;
+	const usages: Array<TokenUsage | null> = [];
+	const requestId = crypto.randomUUID();
 
 	for (let attempt = 0; attempt <= maxRetries; attempt++) {
-		const response = await provider.complete(messages, model, schema ?? null, params);
+		const event: LLMRequestEvent = { requestId, model, provider: providerName, attempt };
+		const request = withTimeout(signal, timeoutMs);
+		const options: RequestOptions = { signal: request.signal, ...(logprobs ? { logprobs } : {}) };
+		const response = await observedComplete(provider, messages, schema, params, tools, options, event, pricing);
+		usages.push(response.usage);
 
-		if (response.error === null && response.parsed !== null) {
-			return response;
+		if (response.error === null && (response.parsed !== null || response.toolCalls?.length)) {
+			if (attempt === 0) {
+				return response;
+			}
+			const { cached: _, ...rest } = response;
+			return { ...rest, usage: sumTokenUsage(usages) };
 		}
 
 		lastResponse = {
 			parsed: null,
 			text: response.text,
-			usage: response.usage,
+			usage: sumTokenUsage(usages),
 			error: response.error ?? new Error('Unknown error'),
 		};
 
-		if (attempt < maxRetries && response.error) {
+		if (signal?.aborted) {
+			return { ...lastResponse, error: abortedError(signal) };
+		}
+		if (request.timeout?.aborted) {
+			lastResponse.error = new TimeoutError(`Request timed out after ${timeoutMs} ms`, { cause: response.error });
+		}
+
+		const error = classifyError(lastResponse.error);
+		if (attempt >= maxRetries || !policy.shouldRetry(error, attempt)) {
+			break;
+		}
+
+		if (response.error) {
 			let errorMessage: string;
 			if (response.error instanceof SchemaValidationError) {
 				errorMessage = `Previous attempt failed with Zod parsing error:\n${response.error.message}.`;
@@ -90,24 +289,397 @@ export async function askLLMSafe<T = string>({
 			} else {
 				errorMessage = `Previous attempt failed with error: ${response.error.message}`;
 			}
-			console.log(
-				`askLLMSafe retrying! Attempt ${attempt + 1} failed with: ${errorMessage}`
+			log.info(`askLLMSafe retrying! Attempt ${attempt + 1} failed with: ${errorMessage}`);
+		}
+
+		const delay = policy.delayMs(error, attempt);
+		emit('onRetry', { ...event, error, delayMs: delay });
+		if (delay > 0) {
+			try {
+				await sleep(delay, signal);
+			} catch {
+				return { ...lastResponse, error: abortedError(signal!) };
+			}
+		}
+	}
+
+	return lastResponse!;
+}
+
+/**
+ * Execute a single function call requested by the model.
+ */
+async function executeToolCall(
+	call: ToolCall,
+	tools: Array<FunctionTool>,
+	context: FunctionToolContext,
+): Promise<ToolInvocation> {
+	const invocation: ToolInvocation = {
+		id: call.id,
+		name: call.name,
+		arguments: call.arguments,
+		result: null,
+		error: null,
+	};
+
+	const tool = tools.find((t) => t.name === call.name);
+	if (!tool) {
+		return { ...invocation, error: `Unknown function '${call.name}'` };
+	}
+
+	const args = tool.parameters.safeParse(call.arguments);
+	if (!args.success) {
+		return { ...invocation, error: `Invalid arguments: ${args.error.message}` };
+	}
+
+	try {
+		return { ...invocation, result: await tool.handler(args.data, context) };
+	} catch (error) {
+		return { ...invocation, error: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+/**
+ * Run the call → execute → respond loop until the model gives a final answer.
+ * Failed function calls are reported back to the model so it can recover.
+ */
+async function runToolLoop<T>(
+	provider: LLMProvider,
+	messages: Message[],
+	model: string,
+	schema: z.ZodType<T> | null,
+	params: ProviderParams | undefined,
+	tools: Array<FunctionTool>,
+	maxSteps: number,
+	call: CallOptions,
+): Promise<LLMResponse<T>> {
+	const definitions: Array<ToolDefinition> = tools.map(({ name, description, parameters }) => ({
+		name,
+		description,
+		parameters,
+	}));
+	const trace: Array<ToolInvocation> = [];
+	const usages: Array<TokenUsage | null> = [];
+	let allCached = true;
+	let conversation = messages;
+
+	for (let step = 0; step < maxSteps; step++) {
+		const response = await completeWithRetries(provider, conversation, model, schema, params, definitions, call);
+		usages.push(response.usage);
+		allCached &&= response.cached === true;
+
+		if (response.error != null || !response.toolCalls?.length) {
+			const { cached: _, ...rest } = response;
+			return { ...rest, usage: sumTokenUsage(usages), toolTrace: trace, ...(allCached ? { cached: true } : {}) };
+		}
+
+		const invocations = await Promise.all(
+			response.toolCalls.map((toolCall) => executeToolCall(toolCall, tools, { signal: call.signal })),
+		);
+		trace.push(...invocations);
+
+		if (call.signal?.aborted) {
+			return {
+				parsed: null,
+				text: null,
+				usage: sumTokenUsage(usages),
+				error: abortedError(call.signal),
+				toolTrace: trace,
+			};
+		}
+
+		conversation = [
+			...conversation,
+			{ role: 'assistant', content: response.text ?? '', toolCalls: response.toolCalls },
+			...invocations.map((inv): Message => ({
+				role: 'tool',
+				content: inv.error != null
+					? JSON.stringify({ error: inv.error })
+					: typeof inv.result === 'string'
+					? inv.result
+					: JSON.stringify(inv.result ?? null),
+				toolCallId: inv.id,
+				toolName: inv.name,
+			})),
+		];
+	}
+
+	return {
+		parsed: null,
+		text: null,
+		usage: sumTokenUsage(usages),
+		error: new Error(`No final answer after ${maxSteps} steps of function calling`),
+		toolTrace: trace,
+	};
+}
+
+/**
+ * Make a single LLM call with retry logic.
+ * With tools, runs the function calling loop and returns the final answer, a trace
+ * of executed calls (toolTrace) and usage aggregated over all steps.
+ * Successful responses are served from and stored in the response cache, if configured.
+ * Requests wait for the rate limits of their provider and model, if set (see setRateLimits).
+ * If the call fails on the primary model, each of `fallbackModels` is tried in turn;
+ * the model that produced the returned response is recorded in its `model` field.
+ * Returns LLMResponse with raw TokenUsage (no cost calculation), totaled over all attempts
+ * and models, with the usage of each model in `calls` after a fallback.
+ */
+export async function askLLMSafe<T = string>({
+	prompt,
+	model,
+	fallbackModels = [],
+	baseURL,
+	schema,
+	params,
+	maxRetries = 3,
+	retryPolicy = DEFAULT_RETRY_POLICY,
+	onError = 'throw',
+	tools,
+	maxSteps = 10,
+	cache = true,
+	signal,
+	timeoutMs,
+	logprobs,
+	pricing,
+}: AskLLMParams<T>): Promise<LLMResponse<T>> {
+	const messages = normalizePrompt(prompt);
+	const cacheOptions = cache ? getCacheOptions() : null;
+	const call: CallOptions = { maxRetries, policy: retryPolicy, signal, timeoutMs, logprobs };
+	const models = [model, ...fallbackModels];
+	const calls: Array<ModelCall> = [];
+
+	let response: LLMResponse<T> | null = null;
+
+	for (const [i, candidate] of models.entries()) {
+		if (response?.error) {
+			log.info(
+				`askLLMSafe falling back to ${candidate} after ${models[i - 1]} failed with: ${response.error.message}`,
+			);
+		}
+
+		// Rate limits apply to the underlying provider, not to responses replayed from a cassette
+		const candidateURL = i === 0 ? baseURL : undefined;
+		let provider = getProviderForModel(
+			candidate,
+			undefined,
+			candidateURL,
+			(inner) => withRateLimit(inner, candidate),
+		);
+		const candidateCall = {
+			...call,
+			providerName: provider.name,
+			// Custom pricing is the primary model's
+			pricing: i === 0 ? pricing : undefined,
+		};
+		if (cacheOptions) {
+			provider = new CachedProvider(provider, cacheOptions, getRequestTarget(candidate, candidateURL));
+		}
+
+		const result = tools?.length
+			? await runToolLoop(provider, messages, candidate, schema ?? null, params, tools, maxSteps, candidateCall)
+			: await completeWithRetries(
+				provider,
+				messages,
+				candidate,
+				schema ?? null,
+				params,
+				undefined,
+				candidateCall,
 			);
+		response = { ...result, model: candidate };
+		calls.push({ model: candidate, usage: result.usage, cached: result.cached === true });
+
+		// Cancellation applies to the whole call, not just the current model
+		if (response.error == null || signal?.aborted) {
+			break;
 		}
 	}
 
-	if (onError === 'return') {
-		return lastResponse!;
+	// Failed calls on the models fallen back from are billed too
+	let final = response!;
+	if (calls.length > 1) {
+		const { cached: _, ...rest } = final;
+		final = { ...rest, usage: sumTokenUsage(calls.map((call) => call.usage)), calls };
+	}
+	if (final.error == null || onError === 'return') {
+		return final;
 	}
 
-	throw lastResponse!.error;
+	throw final.error;
 }
 
 /**
  * Make a single LLM call without retry logic.
  */
 export async function askLLM<T = string>(
-	params: Omit<AskLLMParams<T>, 'maxRetries' | 'onError'>
+	params: Omit<AskLLMParams<T>, 'maxRetries' | 'onError'>,
 ): Promise<LLMResponse<T>> {
 	return askLLMSafe({ ...params, maxRetries: 0, onError: 'throw' });
 }
+
+/**
+ * Parameters for askLLMStream.
+ */
+export type AskLLMStreamParams<T = string> = Omit<
+	AskLLMParams<T>,
+	'maxRetries' | 'retryPolicy' | 'fallbackModels' | 'tools' | 'maxSteps' | 'cache' | 'logprobs'
+>;
+
+/**
+ * Validate the complete text of a streamed response.
+ */
+function parseStreamedText<T>(text: string, usage: TokenUsage | null, schema: z.ZodType<T> | null): LLMResponse<T> {
+	if (schema == null) {
+		return { parsed: text as T, text, usage, error: null };
+	}
+
+	try {
+		return { parsed: schema.parse(decodeStructuredOutput(schema, JSON.parse(text))), text, usage, error: null };
+	} catch (error) {
+		return {
+			parsed: null,
+			text,
+			usage,
+			error: new SchemaValidationError(error instanceof Error ? error.message : String(error), error),
+		};
+	}
+}
+
+/**
+ * Make a single streaming LLM call.
+ *
+ * Yields text deltas as they arrive and, with a schema, the progressively parsed
+ * partial object whenever it changes. The last event is always 'done', carrying the
+ * validated response and usage (unless onError is 'throw' and the call failed).
+ * Streams are not retried. Providers without streaming support emit their
+ * complete response as a single delta. `timeoutMs` applies to the whole stream.
+ * Streams are reported to the observability hooks, but not traced.
+ */
+export async function* askLLMStream<T = string>({
+	prompt,
+	model,
+	baseURL,
+	schema,
+	params,
+	onError = 'throw',
+	signal,
+	timeoutMs,
+	pricing,
+}: AskLLMStreamParams<T>): AsyncGenerator<LLMStreamEvent<T>> {
+	let provider = getProviderForModel(model, undefined, baseURL);
+	// Streams are rate limited below. Providers without streaming (e.g. replayed ones) complete
+	// the request instead, rate limited inside the replay wrapper.
+	const limiter = provider.stream ? getRateLimiter(provider.name, model) : null;
+	if (!provider.stream) {
+		provider = getProviderForModel(model, undefined, baseURL, (inner) => withRateLimit(inner, model));
+	}
+	const messages = normalizePrompt(prompt);
+	const request = withTimeout(signal, timeoutMs);
+	const event: LLMRequestEvent = { requestId: crypto.randomUUID(), model, provider: provider.name, attempt: 0 };
+	const start = performance.now();
+
+	let text = '';
+	let lastPartial: string | undefined;
+	let response: LLMResponse<T>;
+
+	function partialEvent(): LLMStreamEvent<T> | null {
+		const partial = decodeStructuredOutput(schema!, parsePartialJSON(text));
+		const serialized = JSON.stringify(partial);
+		if (partial === undefined || serialized === lastPartial) {
+			return null;
+		}
+		lastPartial = serialized;
+		return { type: 'partial', partial: partial as DeepPartial<T> };
+	}
+
+	const estimatedTokens = limiter ? estimatePromptTokens(messages) : 0;
+	let deltas: AsyncGenerator<string, TokenUsage | null> | undefined;
+	let reported = false;
+
+	/** Release the rate limit and report the outcome, once */
+	function report(outcome: LLMResponse<T>): LLMResponse<T> {
+		if (reported) {
+			return outcome;
+		}
+		reported = true;
+		limiter?.settle(estimatedTokens, outcome.usage);
+
+		if (outcome.error != null && signal?.aborted) {
+			outcome = { ...outcome, error: abortedError(signal) };
+		} else if (outcome.error != null && request.timeout?.aborted) {
+			outcome = { ...outcome, error: new TimeoutError(`Stream timed out after ${timeoutMs} ms`) };
+		}
+
+		const durationMs = performance.now() - start;
+		if (outcome.error != null) {
+			emit('onError', { ...event, durationMs, error: classifyError(outcome.error), usage: outcome.usage });
+		} else {
+			const cost = outcome.usage ? calculateCost(model, outcome.usage, pricing) : null;
+			emit('onResponse', { ...event, durationMs, usage: outcome.usage, cost, cached: false });
+		}
+		return outcome;
+	}
+
+	emit('onRequestStart', event);
+
+	try {
+		try {
+			await limiter?.acquire(estimatedTokens, request.signal);
+
+			if (provider.stream) {
+				deltas = provider.stream(messages, model, schema ?? null, params, { signal: request.signal });
+				let next = await deltas.next();
+
+				while (!next.done) {
+					text += next.value;
+					yield { type: 'delta', text: next.value };
+
+					const event = schema != null ? partialEvent() : null;
+					if (event) {
+						yield event;
+					}
+
+					next = await deltas.next();
+				}
+
+				response = parseStreamedText(text, next.value, schema ?? null);
+			} else {
+				response = await provider.complete(messages, model, schema ?? null, params, undefined, {
+					signal: request.signal,
+				});
+				text = response.text ?? '';
+
+				if (text) {
+					yield { type: 'delta', text };
+				}
+				if (schema != null && response.parsed != null) {
+					yield { type: 'partial', partial: response.parsed as DeepPartial<T> };
+				}
+			}
+		} catch (error) {
+			response = {
+				parsed: null,
+				text: text || null,
+				usage: null,
+				error: classifyError(error),
+			};
+		}
+
+		response = report(response);
+
+		if (response.error != null && onError === 'throw') {
+			throw response.error;
+		}
+
+		yield { type: 'done', response };
+	} finally {
+		// Close the provider's stream and report the call if the consumer stopped early
+		await deltas?.return(null);
+		report({
+			parsed: null,
+			text: text || null,
+			usage: null,
+			error: new LLMError('aborted', 'Stream was closed before it was done'),
+		});
+	}
+}
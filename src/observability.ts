@@ -0,0 +1,277 @@
+/**
+ * Observability: logging, event hooks and tracing.
+ *
+ * Library messages go through a pluggable logger (console by default).
+ * Event hooks report LLM requests, retries, responses and errors, and the results
+ * of tool invocations and HTTP calls (no-op by default). An OpenTelemetry tracer,
+ * or any tracer with the same `startActiveSpan` API, can be set to wrap provider
+ * calls, retried HTTP calls and Tool.invoke in spans.
+ */
+
+import type { LLMError } from './providers/errors.ts';
+import type { TokenUsage, UsageCost } from './response.ts';
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+/**
+ * Receives the library's log messages.
+ */
+export interface Logger {
+	debug(message: string, ...args: Array<unknown>): void;
+	info(message: string, ...args: Array<unknown>): void;
+	warn(message: string, ...args: Array<unknown>): void;
+	error(message: string, ...args: Array<unknown>): void;
+}
+
+/** Logger writing to the console (the default) */
+export const consoleLogger: Logger = {
+	debug: (message, ...args) => console.debug(message, ...args),
+	info: (message, ...args) => console.log(message, ...args),
+	warn: (message, ...args) => console.warn(message, ...args),
+	error: (message, ...args) => console.error(message, ...args),
+};
+
+/** Logger discarding all messages */
+export const noopLogger: Logger = {
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+};
+
+let activeLogger: Logger = consoleLogger;
+
+/**
+ * Set the logger for library messages (or restore the console logger with null).
+ */
+export function setLogger(logger: Logger | null): void {
+	activeLogger = logger ?? consoleLogger;
+}
+
+/**
+ * Logger forwarding to the active logger, for use inside the library.
+ */
+export const log: Logger = {
+	debug: (message, ...args) => activeLogger.debug(message, ...args),
+	info: (message, ...args) => activeLogger.info(message, ...args),
+	warn: (message, ...args) => activeLogger.warn(message, ...args),
+	error: (message, ...args) => activeLogger.error(message, ...args),
+};
+
+// ============================================================================
+// Event Hooks
+// ============================================================================
+
+/**
+ * An attempt of an LLM request.
+ */
+export interface LLMRequestEvent {
+	/** Identifies the attempts of the same call (shared by its retries) */
+	requestId: string;
+	model: string;
+	/** Name of the provider serving the request */
+	provider: string;
+	/** 0-based attempt number */
+	attempt: number;
+}
+
+/**
+ * A failed attempt that will be retried.
+ */
+export interface LLMRetryEvent extends LLMRequestEvent {
+	error: LLMError;
+	/** Delay before the next attempt */
+	delayMs: number;
+}
+
+/**
+ * A successful attempt.
+ */
+export interface LLMResponseEvent extends LLMRequestEvent {
+	durationMs: number;
+	usage: TokenUsage | null;
+	/** Cost at bundled pricing, or null if unknown or served from the cache */
+	cost: UsageCost | null;
+	cached: boolean;
+}
+
+/**
+ * A failed attempt.
+ */
+export interface LLMErrorEvent extends LLMRequestEvent {
+	durationMs: number;
+	error: LLMError;
+	usage: TokenUsage | null;
+}
+
+/**
+ * A finished Tool.invoke call.
+ */
+export interface ToolInvokeEvent {
+	/** Class name of the tool */
+	tool: string;
+	/** Model that served the call (after fallbacks) */
+	model: string;
+	durationMs: number;
+	usage: TokenUsage | null;
+	cost: UsageCost | null;
+	cached: boolean;
+	error: Error | null;
+}
+
+/**
+ * A failed HTTP attempt that will be retried (by withRetries).
+ */
+export interface HttpRetryEvent {
+	/** 0-based attempt number */
+	attempt: number;
+	/** Status of the failed response, if the request didn't throw */
+	status?: number;
+	error?: Error;
+	delayMs: number;
+}
+
+/**
+ * Callbacks receiving observability events. Exceptions thrown by hooks are logged and ignored.
+ */
+export interface ObservabilityHooks {
+	onRequestStart?(event: LLMRequestEvent): void;
+	onRetry?(event: LLMRetryEvent): void;
+	onResponse?(event: LLMResponseEvent): void;
+	onError?(event: LLMErrorEvent): void;
+	onToolInvoke?(event: ToolInvokeEvent): void;
+	onHttpRetry?(event: HttpRetryEvent): void;
+}
+
+let activeHooks: ObservabilityHooks = {};
+
+/**
+ * Set the event hooks (or remove them with null).
+ */
+export function setObservabilityHooks(hooks: ObservabilityHooks | null): void {
+	activeHooks = hooks ?? {};
+}
+
+/**
+ * Call a hook, if set, without letting it break the caller.
+ */
+export function emit<K extends keyof ObservabilityHooks>(
+	hook: K,
+	event: Parameters<NonNullable<ObservabilityHooks[K]>>[0],
+): void {
+	const handler = activeHooks[hook] as ((event: unknown) => void) | undefined;
+	if (!handler) {
+		return;
+	}
+	try {
+		handler.call(activeHooks, event);
+	} catch (error) {
+		log.warn(`Observability hook ${hook} failed:`, error);
+	}
+}
+
+// ============================================================================
+// Tracing
+// ============================================================================
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The subset of an OpenTelemetry span used by the library.
+ */
+export interface TraceSpan {
+	setAttribute(key: string, value: SpanAttributeValue): unknown;
+	recordException(exception: Error): void;
+	/** Status codes follow OpenTelemetry: 0 = UNSET, 1 = OK, 2 = ERROR */
+	setStatus(status: { code: number; message?: string }): unknown;
+	end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry tracer used by the library, e.g. `trace.getTracer('cuery')`.
+ * Spans are started as active spans, so nested calls become child spans.
+ */
+export interface Tracer {
+	startActiveSpan<F extends (span: TraceSpan) => unknown>(
+		name: string,
+		options: { attributes?: Record<string, SpanAttributeValue> },
+		fn: F,
+	): ReturnType<F>;
+}
+
+const SPAN_STATUS_ERROR = 2;
+
+let activeTracer: Tracer | null = null;
+
+/**
+ * Set the tracer wrapping provider calls, retried HTTP calls and tool invocations
+ * in spans (or disable tracing with null).
+ */
+export function setTracer(tracer: Tracer | null): void {
+	activeTracer = tracer;
+}
+
+/**
+ * Run a function in a span, if a tracer is set. The span ends when the function settles,
+ * and is marked as failed if it throws (successful spans keep the unset status).
+ */
+export async function withSpan<T>(
+	name: string,
+	attributes: Record<string, SpanAttributeValue | undefined>,
+	fn: (span: TraceSpan | null) => Promise<T>,
+): Promise<T> {
+	if (!activeTracer) {
+		return fn(null);
+	}
+
+	const defined = Object.fromEntries(
+		Object.entries(attributes).filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined),
+	);
+
+	return await activeTracer.startActiveSpan(name, { attributes: defined }, async (span) => {
+		try {
+			return await fn(span);
+		} catch (error) {
+			failSpan(span, error);
+			throw error;
+		} finally {
+			span.end();
+		}
+	});
+}
+
+/**
+ * Mark a span as failed.
+ */
+export function failSpan(span: TraceSpan | null, error: unknown): void {
+	if (!span) {
+		return;
+	}
+	const exception = error instanceof Error ? error : new Error(String(error));
+	span.recordException(exception);
+	span.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+}
+
+/**
+ * Tag a span with token usage and cost, following the OpenTelemetry GenAI conventions where they exist.
+ */
+export function setUsageAttributes(span: TraceSpan | null, usage: TokenUsage | null, cost: UsageCost | null): void {
+	if (!span) {
+		return;
+	}
+	if (usage) {
+		span.setAttribute('gen_ai.usage.input_tokens', usage.inputTokens);
+		span.setAttribute('gen_ai.usage.output_tokens', usage.outputTokens);
+		if (usage.cachedInputTokens != null) {
+			span.setAttribute('cuery.usage.cached_input_tokens', usage.cachedInputTokens);
+		}
+		if (usage.reasoningTokens != null) {
+			span.setAttribute('cuery.usage.reasoning_tokens', usage.reasoningTokens);
+		}
+	}
+	if (cost) {
+		span.setAttribute('cuery.cost_usd', cost.totalCost);
+	}
+}
@@ -0,0 +1,318 @@
+/**
+ * Anthropic provider implementation (for Claude models).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { z } from '@zod/zod';
+import type { TokenUsage } from '../response.ts';
+import { classifyError, ContentFilterError, LLMError, SchemaValidationError } from './errors.ts';
+import { contentToText, toContentParts, toInlineData } from './content.ts';
+import { getModelInfo } from './pricing.ts';
+import { toCompatibleSchema } from './schema.ts';
+import { toParametersSchema } from './tools.ts';
+import type {
+	ContentPart,
+	LLMProvider,
+	LLMResponse,
+	Message,
+	ProviderParams,
+	RequestOptions,
+	ToolDefinition,
+} from './types.ts';
+
+/** Name of the forced tool used to obtain structured output. */
+const RESPONSE_TOOL_NAME = 'response';
+
+/**
+ * Default for the required `max_tokens` parameter (capped by the model's output limit).
+ * Kept moderate since the SDK rejects non-streaming requests with very large limits.
+ */
+const DEFAULT_MAX_TOKENS = 8192;
+
+/** Decode base64 data to UTF-8 text */
+function decodeText(data: string): string {
+	let binary: string;
+	try {
+		binary = atob(data);
+	} catch (error) {
+		throw new LLMError('invalid_request', 'Text file data is not valid base64', { cause: error });
+	}
+	return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Convert an inline file to the source of an Anthropic document.
+ * Anthropic accepts PDFs and plain text; other text types (e.g. CSV or Markdown) are sent as plain text.
+ */
+function toDocumentSource(inline: { mimeType: string; data: string }): Anthropic.DocumentBlockParam['source'] {
+	if (inline.mimeType === 'application/pdf') {
+		return { type: 'base64', media_type: 'application/pdf', data: inline.data };
+	}
+	if (inline.mimeType.startsWith('text/')) {
+		return { type: 'text', media_type: 'text/plain', data: decodeText(inline.data) };
+	}
+	throw new LLMError(
+		'invalid_request',
+		`Anthropic doesn't support files of type '${inline.mimeType}' (only PDFs and text files)`,
+	);
+}
+
+/**
+ * Convert a content part to an Anthropic content block.
+ * Files are sent as documents (Anthropic supports PDFs and text files).
+ */
+function toContentBlock(part: ContentPart): Anthropic.ContentBlockParam {
+	if (part.type === 'text') {
+		return { type: 'text', text: part.text };
+	}
+
+	const inline = toInlineData(part);
+
+	if (part.type === 'image') {
+		return {
+			type: 'image',
+			source: inline != null
+				? {
+					type: 'base64',
+					media_type: inline.mimeType as Anthropic.Base64ImageSource['media_type'],
+					data: inline.data,
+				}
+				: { type: 'url', url: part.url! },
+		};
+	}
+
+	return {
+		type: 'document',
+		source: inline != null ? toDocumentSource(inline) : { type: 'url', url: part.url! },
+		...(part.filename != null ? { title: part.filename } : {}),
+	};
+}
+
+function toAnthropicContent(message: Message): string | Array<Anthropic.ContentBlockParam> {
+	if (message.role === 'tool') {
+		return [{
+			type: 'tool_result',
+			tool_use_id: message.toolCallId ?? '',
+			content: contentToText(message.content),
+		}];
+	}
+
+	if (message.toolCalls?.length) {
+		return [
+			...toContentParts(message.content)
+				.filter((part) => part.type !== 'text' || part.text !== '')
+				.map(toContentBlock),
+			...message.toolCalls.map((call): Anthropic.ToolUseBlockParam => ({
+				type: 'tool_use',
+				id: call.id,
+				name: call.name,
+				input: call.arguments ?? {},
+			})),
+		];
+	}
+
+	return typeof message.content === 'string' ? message.content : message.content.map(toContentBlock);
+}
+
+function toBlocks(content: string | Array<Anthropic.ContentBlockParam>): Array<Anthropic.ContentBlockParam> {
+	return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Split messages into Anthropic's top-level system prompt and conversation turns.
+ * Consecutive turns with the same role are merged, since the Messages API
+ * expects user and assistant turns to alternate.
+ */
+function convertMessages(messages: Message[]): { system: string | undefined; turns: Anthropic.MessageParam[] } {
+	const systemParts: string[] = [];
+	const turns: Anthropic.MessageParam[] = [];
+
+	for (const msg of messages) {
+		if (msg.role === 'system') {
+			systemParts.push(contentToText(msg.content));
+			continue;
+		}
+
+		// Tool results are sent back in user turns
+		const role = msg.role === 'tool' ? 'user' : msg.role;
+		const content = toAnthropicContent(msg);
+
+		const last = turns.at(-1);
+		if (last && last.role === role) {
+			last.content = typeof last.content === 'string' && typeof content === 'string'
+				? `${last.content}\n\n${content}`
+				: [...toBlocks(last.content), ...toBlocks(content)];
+		} else {
+			turns.push({ role, content });
+		}
+	}
+
+	return {
+		system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+		turns,
+	};
+}
+
+/**
+ * Convert a Zod schema to the input schema of the forced response tool.
+ */
+function toAnthropicInputSchema<T>(schema: z.ZodType<T>): Anthropic.Tool.InputSchema {
+	return toCompatibleSchema(schema, 'anthropic').jsonSchema as Anthropic.Tool.InputSchema;
+}
+
+/**
+ * Build the tool list and tool choice for a request.
+ * With user tools and a schema, the model must call some tool: either a user
+ * function or the response tool to finish.
+ */
+function buildTools<T>(
+	schema: z.ZodType<T> | null,
+	tools: Array<ToolDefinition> | undefined,
+): Pick<Anthropic.MessageCreateParamsNonStreaming, 'tools' | 'tool_choice'> {
+	const functionTools: Array<Anthropic.Tool> = (tools ?? []).map((tool) => ({
+		name: tool.name,
+		description: tool.description,
+		input_schema: toParametersSchema(tool) as Anthropic.Tool.InputSchema,
+	}));
+
+	if (schema == null) {
+		return functionTools.length > 0 ? { tools: functionTools } : {};
+	}
+
+	return {
+		tools: [
+			...functionTools,
+			{
+				name: RESPONSE_TOOL_NAME,
+				description: 'Respond with output matching this schema.',
+				input_schema: toAnthropicInputSchema(schema),
+			},
+		],
+		tool_choice: functionTools.length > 0 ? { type: 'any' } : { type: 'tool', name: RESPONSE_TOOL_NAME },
+	};
+}
+
+/**
+ * Anthropic LLM provider (for Claude models).
+ *
+ * Structured output is obtained by forcing a call to a single tool whose
+ * input schema is the requested Zod schema.
+ */
+export class AnthropicProvider implements LLMProvider {
+	readonly name = 'anthropic';
+	private client: Anthropic;
+
+	constructor(apiKey?: string) {
+		this.client = new Anthropic({
+			apiKey: apiKey ?? Deno.env.get('ANTHROPIC_API_KEY'),
+		});
+	}
+
+	async complete<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
+	): Promise<LLMResponse<T>> {
+		try {
+			const { system, turns } = convertMessages(messages);
+
+			const response = await this.client.messages.create({
+				max_tokens: Math.min(getModelInfo(model)?.outputLimit ?? DEFAULT_MAX_TOKENS, DEFAULT_MAX_TOKENS),
+				...(params as Record<string, unknown>),
+				model,
+				messages: turns,
+				...(system != null ? { system } : {}),
+				...buildTools(schema, tools),
+				stream: false,
+			}, { signal: options?.signal });
+
+			// Claude reports cache reads and writes separately from the uncached input tokens
+			const cacheRead = response.usage.cache_read_input_tokens ?? 0;
+			const cacheWrite = response.usage.cache_creation_input_tokens ?? 0;
+			const inputTokens = response.usage.input_tokens + cacheRead + cacheWrite;
+			const usage: TokenUsage = {
+				inputTokens,
+				outputTokens: response.usage.output_tokens,
+				totalTokens: inputTokens + response.usage.output_tokens,
+				...(cacheRead ? { cachedInputTokens: cacheRead } : {}),
+				...(cacheWrite ? { cacheWriteInputTokens: cacheWrite } : {}),
+			};
+
+			if (response.stop_reason === 'refusal') {
+				return { parsed: null, text: null, usage, error: new ContentFilterError('Claude refused to respond') };
+			}
+
+			const toolCalls = response.content
+				.filter((block): block is Anthropic.ToolUseBlock =>
+					block.type === 'tool_use' && block.name !== RESPONSE_TOOL_NAME
+				)
+				.map((block) => ({ id: block.id, name: block.name, arguments: block.input }));
+
+			if (toolCalls.length > 0) {
+				const text = response.content
+					.filter((block): block is Anthropic.TextBlock => block.type === 'text')
+					.map((block) => block.text)
+					.join('');
+				return { parsed: null, text: text || null, usage, error: null, toolCalls };
+			}
+
+			if (schema != null) {
+				const toolUse = response.content.find(
+					(block): block is Anthropic.ToolUseBlock =>
+						block.type === 'tool_use' && block.name === RESPONSE_TOOL_NAME,
+				);
+				const text = toolUse ? JSON.stringify(toolUse.input) : null;
+
+				if (!toolUse) {
+					return {
+						parsed: null,
+						text,
+						usage,
+						error: new SchemaValidationError(
+							`Model didn't call the '${RESPONSE_TOOL_NAME}' tool (stop reason: ${response.stop_reason})`,
+						),
+					};
+				}
+
+				const result = toCompatibleSchema(schema, 'anthropic').safeParse(toolUse.input);
+				if (!result.success) {
+					return {
+						parsed: null,
+						text,
+						usage,
+						error: new SchemaValidationError(result.error.message, result.error),
+					};
+				}
+
+				return {
+					parsed: result.data,
+					text,
+					usage,
+					error: null,
+				};
+			}
+
+			const text = response.content
+				.filter((block): block is Anthropic.TextBlock => block.type === 'text')
+				.map((block) => block.text)
+				.join('');
+
+			return {
+				parsed: text as T,
+				text,
+				usage,
+				error: null,
+			};
+		} catch (error) {
+			return {
+				parsed: null,
+				text: null,
+				usage: null,
+				error: classifyError(error),
+			};
+		}
+	}
+}
@@ -0,0 +1,233 @@
+/**
+ * Response cache for LLM completions.
+ *
+ * Successful completions are stored under a stable hash of the request
+ * (model, messages, JSON schema, params and tools), so re-running a pipeline
+ * doesn't pay again for identical calls. Storage is pluggable: in-memory,
+ * filesystem and Deno KV backends are provided.
+ */
+
+import type { z } from '@zod/zod';
+import type { TokenUsage } from '../response.ts';
+import { log } from '../observability.ts';
+import { describeRequest, requestKey, type RequestTarget } from './replay.ts';
+import type {
+	LLMProvider,
+	LLMResponse,
+	Message,
+	ProviderParams,
+	RequestOptions,
+	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+} from './types.ts';
+
+/**
+ * A cached completion.
+ */
+export interface CacheEntry {
+	parsed: unknown;
+	text: string | null;
+	/** Usage of the original call */
+	usage: TokenUsage | null;
+	toolCalls?: Array<ToolCall>;
+	logprobs?: Array<TokenLogprob>;
+	/** Expiry time in milliseconds since the epoch, or null if the entry doesn't expire */
+	expiresAt: number | null;
+}
+
+/**
+ * Storage backend of the response cache.
+ * Backends may keep expired entries; expiry is checked when reading.
+ */
+export interface ResponseCache {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * Options for the response cache.
+ */
+export interface CacheOptions {
+	/** Storage backend */
+	store: ResponseCache;
+	/** Time to live of new entries in milliseconds (default: no expiry) */
+	ttlMs?: number;
+}
+
+/**
+ * In-memory cache, scoped to the current process.
+ */
+export class MemoryCache implements ResponseCache {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	get(key: string): Promise<CacheEntry | undefined> {
+		const entry = this.entries.get(key);
+		if (entry?.expiresAt != null && entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return Promise.resolve(undefined);
+		}
+		return Promise.resolve(entry);
+	}
+
+	set(key: string, entry: CacheEntry): Promise<void> {
+		this.entries.set(key, entry);
+		return Promise.resolve();
+	}
+
+	/** Remove all entries */
+	clear(): void {
+		this.entries.clear();
+	}
+}
+
+/**
+ * Filesystem cache storing one JSON file per entry in a directory.
+ * Safe to share between concurrent processes.
+ */
+export class FileSystemCache implements ResponseCache {
+	constructor(readonly directory: string) {}
+
+	private path(key: string): string {
+		return `${this.directory}/${key}.json`;
+	}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		try {
+			return JSON.parse(await Deno.readTextFile(this.path(key))) as CacheEntry;
+		} catch (error) {
+			if (error instanceof Deno.errors.NotFound) {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		await Deno.mkdir(this.directory, { recursive: true });
+
+		// Write to a temporary file first so readers never see a partial entry
+		const tmpPath = `${this.path(key)}.${crypto.randomUUID()}.tmp`;
+		await Deno.writeTextFile(tmpPath, JSON.stringify(entry));
+		await Deno.rename(tmpPath, this.path(key));
+	}
+}
+
+/**
+ * Deno KV cache. Entries expire natively via `expireIn`.
+ * Note that KV values are limited to 64 KiB, so very large responses fail to be cached.
+ */
+export class DenoKvCache implements ResponseCache {
+	/**
+	 * @param kv - An open KV store, e.g. from `await Deno.openKv()` (requires --unstable-kv).
+	 * @param prefix - Key prefix under which entries are stored.
+	 */
+	constructor(private readonly kv: Deno.Kv, private readonly prefix: Deno.KvKey = ['cuery', 'responses']) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const result = await this.kv.get<CacheEntry>([...this.prefix, key]);
+		return result.value ?? undefined;
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		const expireIn = entry.expiresAt != null ? Math.max(entry.expiresAt - Date.now(), 1) : undefined;
+		await this.kv.set([...this.prefix, key], entry, expireIn != null ? { expireIn } : undefined);
+	}
+}
+
+let cacheOptions: CacheOptions | null = null;
+const directoryCaches = new Map<string, FileSystemCache>();
+
+/**
+ * Enable (or disable with null) the response cache for askLLMSafe and tools.
+ * Without explicit options, a filesystem cache is used if the CUERY_CACHE_DIR
+ * environment variable is set.
+ */
+export function setCacheOptions(options: CacheOptions | null): void {
+	cacheOptions = options;
+}
+
+/**
+ * Get the active cache options, or null if caching is disabled.
+ */
+export function getCacheOptions(): CacheOptions | null {
+	if (cacheOptions) {
+		return cacheOptions;
+	}
+
+	const directory = Deno.env.get('CUERY_CACHE_DIR');
+	if (!directory) {
+		return null;
+	}
+
+	let store = directoryCaches.get(directory);
+	if (!store) {
+		store = new FileSystemCache(directory);
+		directoryCaches.set(directory, store);
+	}
+	return { store };
+}
+
+/**
+ * Provider serving completions from a response cache and storing successful ones.
+ * Failed completions are never cached. Errors of the store are logged, not thrown:
+ * failed reads count as misses, and failed writes still return the provider's response.
+ */
+export class CachedProvider implements LLMProvider {
+	readonly name = 'cache';
+
+	/**
+	 * @param target - Provider and server the requests go to, part of their keys.
+	 */
+	constructor(
+		private readonly inner: LLMProvider,
+		private readonly cacheOptions: CacheOptions,
+		private readonly target: RequestTarget = {},
+	) {}
+
+	async complete<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
+	): Promise<LLMResponse<T>> {
+		const key = await requestKey(describeRequest(messages, model, schema, params, tools, options, this.target));
+
+		const entry = await this.cacheOptions.store.get(key).catch((error) => {
+			log.warn('Response cache read failed, calling the provider:', error);
+			return undefined;
+		});
+		if (entry && (entry.expiresAt == null || entry.expiresAt > Date.now())) {
+			return {
+				parsed: entry.parsed as T | null,
+				text: entry.text,
+				usage: entry.usage,
+				error: null,
+				...(entry.toolCalls ? { toolCalls: entry.toolCalls } : {}),
+				...(entry.logprobs ? { logprobs: entry.logprobs } : {}),
+				cached: true,
+			};
+		}
+
+		const response = await this.inner.complete(messages, model, schema, params, tools, options);
+
+		if (response.error == null) {
+			try {
+				await this.cacheOptions.store.set(key, {
+					parsed: response.parsed,
+					text: response.text,
+					usage: response.usage,
+					...(response.toolCalls ? { toolCalls: response.toolCalls } : {}),
+					...(response.logprobs ? { logprobs: response.logprobs } : {}),
+					expiresAt: this.cacheOptions.ttlMs != null ? Date.now() + this.cacheOptions.ttlMs : null,
+				});
+			} catch (error) {
+				log.warn('Response cache write failed, the response is not cached:', error);
+			}
+		}
+
+		return response;
+	}
+}
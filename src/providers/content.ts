@@ -0,0 +1,69 @@
+/**
+ * Helpers for multimodal message content, shared by the provider implementations.
+ */
+
+import { LLMError } from './errors.ts';
+import type { ContentPart, FilePart, ImagePart, MessageContent } from './types.ts';
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s;
+
+/**
+ * Normalize message content to a list of content parts.
+ */
+export function toContentParts(content: MessageContent): Array<ContentPart> {
+	return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Concatenate the text parts of message content, ignoring non-text parts.
+ */
+export function contentToText(content: MessageContent): string {
+	if (typeof content === 'string') {
+		return content;
+	}
+	return content
+		.filter((part) => part.type === 'text')
+		.map((part) => part.text)
+		.join('\n\n');
+}
+
+/**
+ * Check whether message content contains any non-text parts.
+ */
+export function isMultimodal(content: MessageContent): boolean {
+	return typeof content !== 'string' && content.some((part) => part.type !== 'text');
+}
+
+/**
+ * Resolve an image or file part to inline base64 data, if it has any
+ * (either as `data` or as a base64 data URL). Returns null for remote URLs.
+ */
+export function toInlineData(part: ImagePart | FilePart): { mimeType: string; data: string } | null {
+	if (part.data != null) {
+		if (!part.mimeType) {
+			throw new LLMError('invalid_request', `A mimeType is required for base64 ${part.type} content`);
+		}
+		return { mimeType: part.mimeType, data: part.data };
+	}
+
+	const match = part.url?.match(DATA_URL_PATTERN);
+	if (match) {
+		return { mimeType: part.mimeType ?? match[1] ?? 'application/octet-stream', data: match[2] };
+	}
+
+	return null;
+}
+
+/**
+ * Get a URL for an image or file part, building a data URL from base64 data if needed.
+ */
+export function toURL(part: ImagePart | FilePart): string {
+	if (part.url != null) {
+		return part.url;
+	}
+	const inline = toInlineData(part);
+	if (inline == null) {
+		throw new LLMError('invalid_request', `An ${part.type} content part requires either a url or data`);
+	}
+	return `data:${inline.mimeType};base64,${inline.data}`;
+}
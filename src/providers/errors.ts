@@ -1,12 +1,192 @@
 /**
- * Error indicating model output failed schema validation.
+ * Error classes for LLM calls, and classification of provider SDK errors.
  */
-export class SchemaValidationError extends Error {
+
+/**
+ * Category of an LLM error, used to decide whether a call should be retried.
+ */
+export type LLMErrorKind =
+	| 'rate_limit'
+	| 'quota'
+	| 'server'
+	| 'timeout'
+	| 'network'
+	| 'auth'
+	| 'invalid_request'
+	| 'schema_validation'
+	| 'content_filter'
+	| 'aborted'
+	| 'unknown';
+
+/**
+ * Base class of classified LLM errors.
+ */
+export class LLMError extends Error {
 	override readonly cause?: unknown;
+	/** HTTP status code, if the error came from an API response */
+	readonly status?: number;
+	/** Delay requested by the server (Retry-After) in milliseconds */
+	readonly retryAfterMs?: number;
 
-	constructor(message: string, cause?: unknown) {
+	constructor(
+		readonly kind: LLMErrorKind,
+		message: string,
+		options: { cause?: unknown; status?: number; retryAfterMs?: number } = {},
+	) {
 		super(message);
+		this.name = 'LLMError';
+		this.cause = options.cause;
+		this.status = options.status;
+		this.retryAfterMs = options.retryAfterMs;
+	}
+}
+
+/**
+ * The output schema has constructs the provider's structured output mode can't represent.
+ * Raised before sending the request.
+ */
+export class UnsupportedSchemaError extends LLMError {
+	constructor(
+		readonly dialect: string,
+		readonly issues: ReadonlyArray<{ path: string; message: string }>,
+	) {
+		const details = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+		super('invalid_request', `Schema not supported by ${dialect} structured outputs: ${details}`);
+		this.name = 'UnsupportedSchemaError';
+	}
+}
+
+/**
+ * Error indicating model output failed schema validation.
+ */
+export class SchemaValidationError extends LLMError {
+	constructor(message: string, cause?: unknown) {
+		super('schema_validation', message, { cause });
 		this.name = 'SchemaValidationError';
-		this.cause = cause;
 	}
 }
+
+/**
+ * The request was rate limited (HTTP 429).
+ */
+export class RateLimitError extends LLMError {
+	constructor(message: string, options: { cause?: unknown; status?: number; retryAfterMs?: number } = {}) {
+		super('rate_limit', message, options);
+		this.name = 'RateLimitError';
+	}
+}
+
+/**
+ * The API key is missing or invalid, or lacks permission (HTTP 401/403).
+ */
+export class AuthenticationError extends LLMError {
+	constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+		super('auth', message, options);
+		this.name = 'AuthenticationError';
+	}
+}
+
+/**
+ * The request or response was blocked by the provider's safety filters, or the model refused.
+ */
+export class ContentFilterError extends LLMError {
+	constructor(message: string, options: { cause?: unknown } = {}) {
+		super('content_filter', message, options);
+		this.name = 'ContentFilterError';
+	}
+}
+
+/**
+ * The request timed out.
+ */
+export class TimeoutError extends LLMError {
+	constructor(message: string, options: { cause?: unknown; status?: number } = {}) {
+		super('timeout', message, options);
+		this.name = 'TimeoutError';
+	}
+}
+
+/**
+ * Parse a Retry-After value (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+	if (value == null || value.trim() === '') {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(seconds * 1000, 0);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Extract the server-requested retry delay from an SDK error.
+ * Supports the `retry-after-ms` and `retry-after` headers (OpenAI, Anthropic),
+ * and the `retryDelay` of Google's RetryInfo in the error body.
+ */
+function getRetryAfterMs(error: Record<string, unknown>): number | undefined {
+	const headers = error.headers;
+	if (headers instanceof Headers) {
+		const ms = Number(headers.get('retry-after-ms'));
+		if (headers.get('retry-after-ms') != null && Number.isFinite(ms)) {
+			return ms;
+		}
+		const retryAfter = parseRetryAfter(headers.get('retry-after'));
+		if (retryAfter != null) {
+			return retryAfter;
+		}
+	}
+
+	const match = typeof error.message === 'string' ? error.message.match(/"retryDelay":\s*"([\d.]+)s"/) : null;
+	return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * Classify an error thrown by a provider SDK (or fetch) into an LLMError.
+ * Already classified errors are returned unchanged.
+ */
+export function classifyError(error: unknown): LLMError {
+	if (error instanceof LLMError) {
+		return error;
+	}
+
+	const message = error instanceof Error ? error.message : String(error);
+	const record = (error != null && typeof error === 'object' ? error : {}) as Record<string, unknown>;
+	const name = error instanceof Error ? `${error.name} ${error.constructor.name}` : '';
+	const status = typeof record.status === 'number' ? record.status : undefined;
+	const options = { cause: error, status };
+
+	if (name.includes('AbortError') || name.includes('APIUserAbortError')) {
+		return new LLMError('aborted', message, options);
+	}
+	if (name.includes('Timeout') || status === 408) {
+		return new TimeoutError(message, options);
+	}
+
+	if (status === 429) {
+		// OpenAI reports exhausted credits as 429, which no amount of waiting fixes
+		if (record.code === 'insufficient_quota' || /insufficient_quota|exceeded your current quota/i.test(message)) {
+			return new LLMError('quota', message, options);
+		}
+		return new RateLimitError(message, { ...options, retryAfterMs: getRetryAfterMs(record) });
+	}
+	if (status === 401 || status === 403) {
+		return new AuthenticationError(message, options);
+	}
+	if (status != null && status >= 500) {
+		return new LLMError('server', message, { ...options, retryAfterMs: getRetryAfterMs(record) });
+	}
+	if (status != null && status >= 400) {
+		return new LLMError('invalid_request', message, options);
+	}
+
+	if (name.includes('APIConnectionError') || error instanceof TypeError) {
+		return new LLMError('network', message, options);
+	}
+
+	return new LLMError('unknown', message, options);
+}
@@ -1,145 +1,510 @@
 /**
- * Google provider implementation (for Gemini models).
+ * Google provider implementation (for Gemini models), via the Gemini Developer API or Vertex AI.
  */
 
-import { GoogleGenAI } from '@google/genai';
-import { z } from '@zod/zod';
+import {
+	type Content,
+	FinishReason,
+	type GenerateContentResponse,
+	type GenerateContentResponseUsageMetadata,
+	GoogleGenAI,
+	JobState,
+	MediaModality,
+	type Part,
+} from '@google/genai';
+import type { JWTInput } from 'google-auth-library';
+import type { z } from '@zod/zod';
 import type { TokenUsage } from '../response.ts';
-import { SchemaValidationError } from './errors.ts';
-import type { LLMProvider, LLMResponse, Message, ProviderParams } from './types.ts';
+import { classifyError, ContentFilterError, LLMError, SchemaValidationError } from './errors.ts';
+import { contentToText, toContentParts, toInlineData } from './content.ts';
+import { toCompatibleSchema } from './schema.ts';
+import { generateToolCallId, toParametersSchema } from './tools.ts';
+import type {
+	ContentPart,
+	LLMProvider,
+	LLMResponse,
+	Message,
+	ProviderParams,
+	RequestOptions,
+	ToolCall,
+	ToolDefinition,
+} from './types.ts';
+
+/**
+ * Convert a content part to a Gemini part.
+ * Images and files are sent inline when given as data, or by URI otherwise.
+ */
+function toPart(part: ContentPart): Part {
+	if (part.type === 'text') {
+		return { text: part.text };
+	}
+
+	const inline = toInlineData(part);
+	if (inline != null) {
+		return { inlineData: inline };
+	}
+
+	return { fileData: { fileUri: part.url, mimeType: part.mimeType } };
+}
+
+/**
+ * Convert a message to Gemini parts, including function calls and their results.
+ */
+function toParts(msg: Message): Array<Part> {
+	if (msg.role === 'tool') {
+		const output = contentToText(msg.content);
+		let response: unknown;
+		try {
+			response = JSON.parse(output);
+		} catch {
+			response = output;
+		}
+		return [{ functionResponse: { id: msg.toolCallId, name: msg.toolName, response: { output: response } } }];
+	}
+
+	const parts = toContentParts(msg.content)
+		.filter((part) => !msg.toolCalls?.length || part.type !== 'text' || part.text !== '')
+		.map(toPart);
+
+	for (const call of msg.toolCalls ?? []) {
+		parts.push({
+			functionCall: { id: call.id, name: call.name, args: (call.arguments ?? {}) as Record<string, unknown> },
+			...(call.signature != null ? { thoughtSignature: call.signature } : {}),
+		});
+	}
+
+	return parts;
+}
+
+/**
+ * Messages converted to Gemini's request format.
+ */
+interface GeminiPrompt {
+	contents: string | Array<Content>;
+	/** System messages, joined */
+	systemInstruction?: string;
+}
 
 /**
  * Convert messages to Gemini content format.
- * Handles system prompts by prepending them as context.
+ * System messages are returned separately, to be sent as the system instruction.
+ * Consecutive function results are grouped into a single user turn.
  */
-function convertMessages(messages: Message[]): string | Array<{ role: string; parts: Array<{ text: string }> }> {
-	// For simple single message, return as string
-	if (messages.length === 1 && messages[0].role === 'user') {
-		return messages[0].content;
+function convertMessages(messages: Message[]): GeminiPrompt {
+	// For simple single text message, return as string
+	if (messages.length === 1 && messages[0].role === 'user' && typeof messages[0].content === 'string') {
+		return { contents: messages[0].content };
 	}
 
 	// Build system instruction and contents separately
 	const systemParts: string[] = [];
-	const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+	const contents: Array<Content> = [];
+
+	let previousRole: Message['role'] | null = null;
 
 	for (const msg of messages) {
 		if (msg.role === 'system') {
-			systemParts.push(msg.content);
+			systemParts.push(contentToText(msg.content));
+		} else if (msg.role === 'tool' && previousRole === 'tool') {
+			contents.at(-1)?.parts?.push(...toParts(msg));
 		} else {
 			contents.push({
 				role: msg.role === 'assistant' ? 'model' : 'user',
-				parts: [{ text: msg.content }],
+				parts: toParts(msg),
 			});
 		}
+		previousRole = msg.role;
 	}
 
-	// If we have system prompts, prepend to the first user message
-	if (systemParts.length > 0 && contents.length > 0) {
-		const systemContext = systemParts.join('\n\n');
-		const firstContent = contents[0];
-		if (firstContent.role === 'user' && firstContent.parts.length > 0) {
-			firstContent.parts[0].text = `${systemContext}\n\n${firstContent.parts[0].text}`;
-		}
+	return {
+		contents,
+		...(systemParts.length > 0 ? { systemInstruction: systemParts.join('\n\n') } : {}),
+	};
+}
+
+function toTokenUsage(usageMetadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | null {
+	if (!usageMetadata) {
+		return null;
+	}
+
+	// Thinking tokens are billed as output, but not included in candidatesTokenCount
+	const thoughts = usageMetadata.thoughtsTokenCount ?? 0;
+	const cached = usageMetadata.cachedContentTokenCount ?? 0;
+
+	const usage: TokenUsage = {
+		inputTokens: usageMetadata.promptTokenCount ?? 0,
+		outputTokens: (usageMetadata.candidatesTokenCount ?? 0) + thoughts,
+		totalTokens: usageMetadata.totalTokenCount ?? 0,
+		...(cached ? { cachedInputTokens: cached } : {}),
+		...(thoughts ? { reasoningTokens: thoughts } : {}),
+	};
+
+	const imageDetails = usageMetadata.promptTokensDetails?.filter((d) => d.modality === MediaModality.IMAGE);
+	if (imageDetails?.length) {
+		usage.imageInputTokens = imageDetails.reduce((sum, d) => sum + (d.tokenCount ?? 0), 0);
 	}
 
-	return contents;
+	return usage;
 }
 
 /**
- * Convert a Zod schema to a Gemini-compatible response schema.
+ * Build the request config, adding JSON output settings when a schema is given.
  *
- * Gemini `responseSchema` expects an OpenAPI-style schema object and rejects
- * JSON Schema root fields like `$schema`.
+ * Gemini doesn't support a JSON response schema together with function calling,
+ * so with tools the schema is described in the system instruction instead.
+ */
+function buildConfig<T>(
+	systemInstruction: string | undefined,
+	schema: z.ZodType<T> | null,
+	params?: ProviderParams,
+	tools?: Array<ToolDefinition>,
+	options?: RequestOptions,
+): Record<string, unknown> {
+	const config: Record<string, unknown> = {
+		...(params ?? {}),
+		...(systemInstruction != null ? { systemInstruction } : {}),
+		...(options?.signal ? { abortSignal: options.signal } : {}),
+	};
+
+	if (tools?.length) {
+		config.tools = [
+			{
+				functionDeclarations: tools.map((tool) => ({
+					name: tool.name,
+					description: tool.description,
+					parametersJsonSchema: toParametersSchema(tool),
+				})),
+			},
+		];
+
+		if (schema != null) {
+			const schemaInstruction = 'Once you have the final answer, respond only with a JSON object ' +
+				`matching this JSON schema:\n${JSON.stringify(toCompatibleSchema(schema, 'gemini').jsonSchema)}`;
+			config.systemInstruction = [systemInstruction, schemaInstruction].filter(Boolean).join('\n\n');
+		}
+	} else if (schema != null) {
+		config.responseMimeType = 'application/json';
+		config.responseSchema = toCompatibleSchema(schema, 'gemini').jsonSchema;
+	}
+
+	return config;
+}
+
+/**
+ * Extract function calls from a response, keeping thought signatures.
+ */
+function extractToolCalls(parts: Array<Part> | undefined): Array<ToolCall> {
+	return (parts ?? [])
+		.filter((part) => part.functionCall != null)
+		.map((part) => ({
+			id: part.functionCall!.id ?? generateToolCallId(),
+			name: part.functionCall!.name ?? '',
+			arguments: part.functionCall!.args ?? {},
+			...(part.thoughtSignature != null ? { signature: part.thoughtSignature } : {}),
+		}));
+}
+
+/** Finish reasons indicating the response was blocked by safety filters. */
+const BLOCKED_FINISH_REASONS: ReadonlyArray<FinishReason> = [
+	FinishReason.SAFETY,
+	FinishReason.BLOCKLIST,
+	FinishReason.PROHIBITED_CONTENT,
+	FinishReason.SPII,
+	FinishReason.IMAGE_SAFETY,
+	FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+/**
+ * Return an error if the prompt or the response was blocked by safety filters.
+ */
+function checkBlocked(response: GenerateContentResponse): ContentFilterError | null {
+	const blockReason = response.promptFeedback?.blockReason;
+	if (blockReason) {
+		return new ContentFilterError(
+			`Prompt blocked by Gemini (${blockReason})${
+				response.promptFeedback?.blockReasonMessage ? `: ${response.promptFeedback.blockReasonMessage}` : ''
+			}`,
+		);
+	}
+
+	const finishReason = response.candidates?.[0]?.finishReason;
+	if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+		return new ContentFilterError(`Response blocked by Gemini (finish reason: ${finishReason})`);
+	}
+
+	return null;
+}
+
+/**
+ * Parse JSON text, tolerating a surrounding markdown code fence.
+ */
+function parseJSONText(text: string): unknown {
+	const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+	return JSON.parse(fenced ? fenced[1] : text);
+}
+
+/**
+ * Convert a Gemini response to an LLMResponse, validating its text against the schema.
+ */
+function toLLMResponse<T>(
+	response: GenerateContentResponse,
+	text: string,
+	schema: z.ZodType<T> | null,
+): LLMResponse<T> {
+	const usage = toTokenUsage(response.usageMetadata);
+
+	const blocked = checkBlocked(response);
+	if (blocked) {
+		return { parsed: null, text: text || null, usage, error: blocked };
+	}
+
+	const toolCalls = extractToolCalls(response.candidates?.[0]?.content?.parts);
+	if (toolCalls.length > 0) {
+		return { parsed: null, text: text || null, usage, error: null, toolCalls };
+	}
+
+	if (schema != null) {
+		try {
+			const parsed = toCompatibleSchema(schema, 'gemini').parse(parseJSONText(text));
+			return {
+				parsed,
+				text,
+				usage,
+				error: null,
+			};
+		} catch (error) {
+			return {
+				parsed: null,
+				text,
+				usage,
+				error: new SchemaValidationError(
+					error instanceof Error ? error.message : String(error),
+					error,
+				),
+			};
+		}
+	}
+
+	return {
+		parsed: text as T,
+		text,
+		usage,
+		error: null,
+	};
+}
+
+/**
+ * Concatenate the text parts of a response's first candidate, skipping thoughts.
+ * Batch results are plain objects, which lack the SDK's `text` helper.
+ */
+function candidateText(response: GenerateContentResponse): string {
+	return (response.candidates?.[0]?.content?.parts ?? [])
+		.filter((part) => part.text != null && !part.thought)
+		.map((part) => part.text)
+		.join('');
+}
+
+/** States of batch jobs that haven't finished yet */
+const RUNNING_JOB_STATES: ReadonlyArray<JobState> = [
+	JobState.JOB_STATE_UNSPECIFIED,
+	JobState.JOB_STATE_QUEUED,
+	JobState.JOB_STATE_PENDING,
+	JobState.JOB_STATE_RUNNING,
+	JobState.JOB_STATE_CANCELLING,
+	JobState.JOB_STATE_PAUSED,
+];
+
+/**
+ * Options of the Google provider.
  */
-function toGeminiResponseSchema<T>(schema: z.ZodType<T>): Record<string, unknown> {
-	return z.toJSONSchema(schema, { target: 'openapi-3.0' }) as Record<string, unknown>;
+export interface GoogleProviderOptions {
+	/**
+	 * API key. Defaults to GOOGLE_API_KEY or GEMINI_API_KEY for the Gemini Developer API.
+	 * With Vertex AI, an explicit key selects express mode instead of project credentials.
+	 */
+	apiKey?: string;
+	/** Use Vertex AI instead of the Gemini Developer API (default: GOOGLE_GENAI_USE_VERTEXAI) */
+	vertexai?: boolean;
+	/** Google Cloud project (default: GOOGLE_CLOUD_PROJECT, or the service account's project) */
+	project?: string;
+	/** Google Cloud location (default: GOOGLE_CLOUD_LOCATION, or 'global') */
+	location?: string;
+	/**
+	 * Service account credentials for Vertex AI (default: GOOGLE_VERTEX_SERVICE_ACCOUNT_JSON_BASE64).
+	 * Without them, Application Default Credentials are used (GOOGLE_APPLICATION_CREDENTIALS,
+	 * gcloud user credentials or the metadata server).
+	 */
+	credentials?: JWTInput;
+}
+
+function isVertexEnabled(): boolean {
+	return ['true', '1'].includes(Deno.env.get('GOOGLE_GENAI_USE_VERTEXAI')?.toLowerCase() ?? '');
+}
+
+function getServiceAccountFromEnv(): JWTInput | undefined {
+	const encoded = Deno.env.get('GOOGLE_VERTEX_SERVICE_ACCOUNT_JSON_BASE64');
+	return encoded ? JSON.parse(atob(encoded)) as JWTInput : undefined;
+}
+
+function createVertexClient({ apiKey, project, location, credentials }: GoogleProviderOptions): GoogleGenAI {
+	if (apiKey != null) {
+		return new GoogleGenAI({ vertexai: true, apiKey });
+	}
+
+	const serviceAccount = credentials ?? getServiceAccountFromEnv();
+	const resolvedProject = project ?? Deno.env.get('GOOGLE_CLOUD_PROJECT') ?? serviceAccount?.project_id;
+	if (!resolvedProject) {
+		throw new Error('GOOGLE_CLOUD_PROJECT environment variable is required to use Vertex AI');
+	}
+
+	return new GoogleGenAI({
+		vertexai: true,
+		project: resolvedProject,
+		location: location ?? Deno.env.get('GOOGLE_CLOUD_LOCATION') ?? 'global',
+		...(serviceAccount ? { googleAuthOptions: { credentials: serviceAccount } } : {}),
+	});
 }
 
 /**
  * Google LLM provider (for Gemini models).
+ * Uses the Gemini Developer API by default, or Vertex AI when enabled via options or
+ * the GOOGLE_GENAI_USE_VERTEXAI environment variable.
  */
 export class GoogleProvider implements LLMProvider {
 	readonly name = 'google';
 	private client: GoogleGenAI;
+	private readonly vertexai: boolean;
 
-	constructor(apiKey?: string) {
-		const resolvedKey = apiKey ?? Deno.env.get('GOOGLE_API_KEY') ?? Deno.env.get('GEMINI_API_KEY');
+	/**
+	 * @param options - API key, or options selecting the API and its credentials.
+	 */
+	constructor(options: string | GoogleProviderOptions = {}) {
+		const resolved = typeof options === 'string' ? { apiKey: options } : options;
+
+		this.vertexai = resolved.vertexai ?? isVertexEnabled();
+		if (this.vertexai) {
+			this.client = createVertexClient(resolved);
+			return;
+		}
 
-		if (!resolvedKey) {
+		const apiKey = resolved.apiKey ?? Deno.env.get('GOOGLE_API_KEY') ?? Deno.env.get('GEMINI_API_KEY');
+		if (!apiKey) {
 			throw new Error('GOOGLE_API_KEY or GEMINI_API_KEY environment variable is required');
 		}
 
-		this.client = new GoogleGenAI({ apiKey: resolvedKey });
+		this.client = new GoogleGenAI({ apiKey });
 	}
 
 	async complete<T>(
 		messages: Message[],
 		model: string,
 		schema: z.ZodType<T> | null,
-		params?: ProviderParams
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
 	): Promise<LLMResponse<T>> {
 		try {
-			const config: Record<string, unknown> = {
-				...(params ?? {}),
-			};
-
-			if (schema != null) {
-				config.responseMimeType = 'application/json';
-				config.responseSchema = toGeminiResponseSchema(schema);
-			}
-
+			const { contents, systemInstruction } = convertMessages(messages);
 			const response = await this.client.models.generateContent({
 				model,
-				contents: convertMessages(messages),
-				config,
+				contents,
+				config: buildConfig(systemInstruction, schema, params, tools, options),
 			});
 
-			const text = response.text ?? '';
-			const usageMetadata = response.usageMetadata;
-
-			const usage: TokenUsage | null = usageMetadata
-				? {
-						inputTokens: usageMetadata.promptTokenCount ?? 0,
-						outputTokens: usageMetadata.candidatesTokenCount ?? 0,
-						totalTokens: usageMetadata.totalTokenCount ?? 0,
-					}
-				: null;
-
-			if (schema != null) {
-				try {
-					const parsed = schema.parse(JSON.parse(text));
-					return {
-						parsed,
-						text,
-						usage,
-						error: null,
-					};
-				} catch (error) {
-					return {
-						parsed: null,
-						text,
-						usage,
-						error: new SchemaValidationError(
-							error instanceof Error ? error.message : String(error),
-							error
-						),
-					};
-				}
-			}
-
-			return {
-				parsed: text as T,
-				text,
-				usage,
-				error: null,
-			};
+			return toLLMResponse(response, response.text ?? '', schema);
 		} catch (error) {
 			return {
 				parsed: null,
 				text: null,
 				usage: null,
-				error: error instanceof Error ? error : new Error(String(error)),
+				error: classifyError(error),
 			};
 		}
 	}
+
+	async *stream<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		options?: RequestOptions,
+	): AsyncGenerator<string, TokenUsage | null> {
+		const { contents, systemInstruction } = convertMessages(messages);
+		const chunks = await this.client.models.generateContentStream({
+			model,
+			contents,
+			config: buildConfig(systemInstruction, schema, params, undefined, options),
+		});
+
+		let usage: TokenUsage | null = null;
+
+		for await (const chunk of chunks) {
+			const blocked = checkBlocked(chunk);
+			if (blocked) {
+				throw blocked;
+			}
+
+			const text = chunk.text;
+			if (text) {
+				yield text;
+			}
+			// Usage is cumulative; the last chunk carries the final counts
+			usage = toTokenUsage(chunk.usageMetadata) ?? usage;
+		}
+
+		return usage;
+	}
+
+	/**
+	 * Create a batch job with the requests inlined (Gemini Developer API only, up to 20 MB of requests).
+	 */
+	async submitBatch<T>(
+		requests: Array<Message[]>,
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		options?: RequestOptions,
+	): Promise<string> {
+		if (this.vertexai) {
+			throw new LLMError('invalid_request', 'Batches with inlined requests are not supported on Vertex AI');
+		}
+
+		const job = await this.client.batches.create({
+			model,
+			src: requests.map((messages) => {
+				const { contents, systemInstruction } = convertMessages(messages);
+				return { contents, config: buildConfig(systemInstruction, schema, params) };
+			}),
+			config: { abortSignal: options?.signal },
+		});
+
+		if (!job.name) {
+			throw new LLMError('unknown', 'Gemini did not return a batch job name');
+		}
+		return job.name;
+	}
+
+	async getBatchResults<T>(
+		jobId: string,
+		count: number,
+		schema: z.ZodType<T> | null,
+		options?: RequestOptions,
+	): Promise<Array<LLMResponse<T>> | null> {
+		const job = await this.client.batches.get({ name: jobId, config: { abortSignal: options?.signal } });
+		if (job.state == null || RUNNING_JOB_STATES.includes(job.state)) {
+			return null;
+		}
+
+		const responses = job.dest?.inlinedResponses ?? [];
+		const jobError = job.error?.message ?? `No result in batch job ${jobId} (state: ${job.state})`;
+
+		return Array.from({ length: count }, (_, i): LLMResponse<T> => {
+			const item = responses[i];
+			if (item?.response == null) {
+				const message = item?.error?.message ?? jobError;
+				return { parsed: null, text: null, usage: null, error: classifyError(new Error(message)) };
+			}
+			return toLLMResponse(item.response, candidateText(item.response), schema);
+		});
+	}
 }
@@ -2,32 +2,93 @@
  * Provider registry and pricing.
  *
  * This module consolidates all provider-related functionality:
- * - Provider implementations (OpenAI, Google)
+ * - Provider implementations (OpenAI, Google, Anthropic, OpenAI-compatible)
  * - Cost calculation utilities
  */
 
 // Re-export provider registry functions
-export { getProvider, getProviderForModel } from './registry.ts';
+export {
+	clearProviderPool,
+	getProvider,
+	getProviderForModel,
+	getRequestTarget,
+	type ProviderFactory,
+	type ProviderFactoryOptions,
+	type ProviderMatcher,
+	registerProvider,
+	setReplayOptions,
+} from './registry.ts';
 
 // Re-export provider implementations
 export { OpenAIProvider } from './openai.ts';
-export { GoogleProvider } from './google.ts';
-export { SchemaValidationError } from './errors.ts';
+export { GoogleProvider, type GoogleProviderOptions } from './google.ts';
+export { AnthropicProvider } from './anthropic.ts';
+export { LOCAL_MODEL_PREFIX, OpenAICompatibleProvider } from './openaiCompatible.ts';
+export { ReplayMissError, type ReplayMode, type ReplayOptions, ReplayProvider, type RequestTarget } from './replay.ts';
+export {
+	CachedProvider,
+	type CacheEntry,
+	type CacheOptions,
+	DenoKvCache,
+	FileSystemCache,
+	MemoryCache,
+	type ResponseCache,
+	setCacheOptions,
+} from './cache.ts';
+export { getRateLimiter, type RateLimit, RateLimitedProvider, RateLimiter, setRateLimits } from './rateLimit.ts';
+export {
+	AuthenticationError,
+	classifyError,
+	ContentFilterError,
+	LLMError,
+	type LLMErrorKind,
+	RateLimitError,
+	SchemaValidationError,
+	TimeoutError,
+	UnsupportedSchemaError,
+} from './errors.ts';
+export {
+	type CompatibleSchema,
+	decodeStructuredOutput,
+	findSchemaIssues,
+	sanitizeSchemaForOpenAI,
+	type SchemaDialect,
+	type SchemaIssue,
+	toCompatibleSchema,
+} from './schema.ts';
 
 // Re-export pricing utilities
 export {
-	getModelPricing,
-	getModelInfo,
+	BATCH_PRICE_FACTOR,
 	calculateCost,
-	type ModelPricing,
+	getBatchPricing,
+	getModelInfo,
+	getModelPricing,
 	type ModelInfo,
+	type ModelPricing,
 } from './pricing.ts';
 
 // Re-export core LLM types
 export type {
-	Message,
-	LLMResponse,
+	ContentPart,
+	DeepPartial,
+	EnsembleStats,
+	FilePart,
+	ImagePart,
+	LLMConversation,
 	LLMProvider,
+	LLMResponse,
+	LLMStreamEvent,
+	Message,
+	MessageContent,
+	ModelCall,
+	PromptBudgetReport,
+	PromptCuts,
 	ProviderParams,
-	LLMConversation,
+	RequestOptions,
+	TextPart,
+	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+	ToolInvocation,
 } from './types.ts';
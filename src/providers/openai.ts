@@ -3,10 +3,32 @@
  */
 
 import OpenAI from '@openai/openai';
-import { z } from '@zod/zod';
+import type { z } from '@zod/zod';
 import type { TokenUsage } from '../response.ts';
-import { SchemaValidationError } from './errors.ts';
-import type { LLMProvider, LLMResponse, Message, ProviderParams } from './types.ts';
+import {
+	classifyError,
+	ContentFilterError,
+	LLMError,
+	RateLimitError,
+	SchemaValidationError,
+	TimeoutError,
+} from './errors.ts';
+import { contentToText, toInlineData, toURL } from './content.ts';
+import { getModelInfo } from './pricing.ts';
+import { toCompatibleSchema } from './schema.ts';
+import { toParametersSchema } from './tools.ts';
+import type {
+	ContentPart,
+	LLMProvider,
+	LLMResponse,
+	Message,
+	MessageContent,
+	ProviderParams,
+	RequestOptions,
+	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+} from './types.ts';
 
 type AutoParseableTextFormat<ParsedT> = OpenAI.Responses.ResponseFormatTextJSONSchemaConfig & {
 	__output: ParsedT;
@@ -17,46 +39,11 @@ type AutoParseableTextFormat<ParsedT> = OpenAI.Responses.ResponseFormatTextJSONS
 const zodTextFormatCache = new Map<z.ZodTypeAny, AutoParseableTextFormat<unknown>>();
 
 /**
- * Sanitizes a JSON schema for OpenAI compatibility.
- * OpenAI's structured output has strict requirements:
- * - additionalProperties must be false (not empty object or missing)
- * - propertyNames is not permitted
+ * The JSON schema config of a text format, without the client-side parsing helpers.
  */
-function sanitizeSchemaForOpenAI(schema: Record<string, unknown>): Record<string, unknown> {
-	const result: Record<string, unknown> = {};
-
-	for (const [key, value] of Object.entries(schema)) {
-		// Remove unsupported keys
-		if (key === 'propertyNames') {
-			continue;
-		}
-
-		// Handle additionalProperties - set to false for strict mode
-		if (key === 'additionalProperties') {
-			result[key] = false;
-			continue;
-		}
-
-		// Recursively sanitize nested objects
-		if (value && typeof value === 'object' && !Array.isArray(value)) {
-			result[key] = sanitizeSchemaForOpenAI(value as Record<string, unknown>);
-		} else if (Array.isArray(value)) {
-			result[key] = value.map(item =>
-				item && typeof item === 'object' && !Array.isArray(item)
-					? sanitizeSchemaForOpenAI(item as Record<string, unknown>)
-					: item
-			);
-		} else {
-			result[key] = value;
-		}
-	}
-
-	// For object types without additionalProperties, add it as false
-	if (result['type'] === 'object' && !('additionalProperties' in result)) {
-		result['additionalProperties'] = false;
-	}
-
-	return result;
+function toJSONSchemaFormat<T>(schema: z.ZodType<T>): OpenAI.Responses.ResponseFormatTextJSONSchemaConfig {
+	const format = getCachedZodTextFormat(schema, 'response');
+	return { type: format.type, name: format.name, strict: format.strict, schema: format.schema };
 }
 
 function getCachedZodTextFormat<T>(zodObject: z.ZodType<T>, name: string): AutoParseableTextFormat<T> {
@@ -73,22 +60,21 @@ function getCachedZodTextFormat<T>(zodObject: z.ZodType<T>, name: string): AutoP
 }
 
 function zodTextFormat(zodObject: z.ZodType, name: string): AutoParseableTextFormat<z.infer<typeof zodObject>> {
-	const rawSchema = z.toJSONSchema(zodObject, { target: 'draft-7' });
-	const sanitizedSchema = sanitizeSchemaForOpenAI(rawSchema as Record<string, unknown>);
+	const compatible = toCompatibleSchema(zodObject, 'openai');
 
 	return {
 		type: 'json_schema',
 		name,
 		strict: true,
-		schema: sanitizedSchema,
+		schema: compatible.jsonSchema,
 		$brand: 'auto-parseable-response-format',
 		$parseRaw: (content) => {
 			try {
-				return zodObject.parse(JSON.parse(content));
+				return compatible.parse(JSON.parse(content));
 			} catch (error) {
 				return new SchemaValidationError(
 					error instanceof Error ? error.message : String(error),
-					error
+					error,
 				);
 			}
 		},
@@ -96,6 +82,238 @@ function zodTextFormat(zodObject: z.ZodType, name: string): AutoParseableTextFor
 	};
 }
 
+function toTokenUsage(usage: OpenAI.Responses.ResponseUsage | undefined): TokenUsage | null {
+	if (!usage) {
+		return null;
+	}
+
+	const cached = usage.input_tokens_details?.cached_tokens;
+	const reasoning = usage.output_tokens_details?.reasoning_tokens;
+
+	return {
+		inputTokens: usage.input_tokens,
+		outputTokens: usage.output_tokens,
+		totalTokens: usage.total_tokens,
+		...(cached ? { cachedInputTokens: cached } : {}),
+		...(reasoning ? { reasoningTokens: reasoning } : {}),
+	};
+}
+
+function toInputPart(part: ContentPart): OpenAI.Responses.ResponseInputContent {
+	switch (part.type) {
+		case 'text':
+			return { type: 'input_text', text: part.text };
+		case 'image':
+			return { type: 'input_image', image_url: toURL(part), detail: part.detail ?? 'auto' };
+		case 'file': {
+			const inline = toInlineData(part);
+			return inline != null
+				? {
+					type: 'input_file',
+					file_data: `data:${inline.mimeType};base64,${inline.data}`,
+					filename: part.filename ?? 'file',
+				}
+				: { type: 'input_file', file_url: part.url, filename: part.filename };
+		}
+	}
+}
+
+function toInputContent(
+	role: Message['role'],
+	content: MessageContent,
+): string | OpenAI.Responses.ResponseInputMessageContentList {
+	// Assistant turns only accept text
+	if (typeof content === 'string' || role === 'assistant') {
+		return contentToText(content);
+	}
+	return content.map(toInputPart);
+}
+
+function toInput(messages: Message[]): OpenAI.Responses.ResponseInput {
+	return messages.flatMap((m): OpenAI.Responses.ResponseInput => {
+		if (m.role === 'tool') {
+			return [{ type: 'function_call_output', call_id: m.toolCallId ?? '', output: contentToText(m.content) }];
+		}
+
+		const items: OpenAI.Responses.ResponseInput = [];
+		const content = toInputContent(m.role, m.content);
+		if (!m.toolCalls?.length || content.length > 0) {
+			items.push({ role: m.role, content });
+		}
+		for (const call of m.toolCalls ?? []) {
+			items.push({
+				type: 'function_call',
+				call_id: call.id,
+				name: call.name,
+				arguments: JSON.stringify(call.arguments ?? {}),
+			});
+		}
+		return items;
+	});
+}
+
+function toFunctionTools(tools: Array<ToolDefinition>): Array<OpenAI.Responses.FunctionTool> {
+	return tools.map((tool) => ({
+		type: 'function',
+		name: tool.name,
+		description: tool.description,
+		parameters: toParametersSchema(tool),
+		strict: false,
+	}));
+}
+
+function extractToolCalls(output: Array<OpenAI.Responses.ResponseOutputItem>): Array<ToolCall> {
+	return output
+		.filter((item): item is OpenAI.Responses.ResponseFunctionToolCall => item.type === 'function_call')
+		.map((item) => ({
+			id: item.call_id,
+			name: item.name,
+			arguments: item.arguments ? JSON.parse(item.arguments) : {},
+		}));
+}
+
+/**
+ * Return an error if the response was cut by the content filter or the model refused.
+ */
+function checkRefusal(response: OpenAI.Responses.Response): ContentFilterError | null {
+	if (response.incomplete_details?.reason === 'content_filter') {
+		return new ContentFilterError('Response blocked by the OpenAI content filter');
+	}
+
+	for (const item of response.output) {
+		if (item.type !== 'message') {
+			continue;
+		}
+		const refusal = item.content.find((part) => part.type === 'refusal');
+		if (refusal) {
+			return new ContentFilterError(`Model refused to respond: ${refusal.refusal}`);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Request parameters for token logprobs with the given number of alternatives.
+ * Reasoning models don't support logprobs, so nothing is requested for them.
+ */
+function logprobParams(model: string, topLogprobs?: number): Record<string, unknown> {
+	if (!topLogprobs || getModelInfo(model)?.capabilities.reasoning) {
+		return {};
+	}
+	return { include: ['message.output_text.logprobs'], top_logprobs: Math.min(topLogprobs, 20) };
+}
+
+/**
+ * Collect the token logprobs of a response's output messages, if any were returned.
+ */
+function extractLogprobs(output: Array<OpenAI.Responses.ResponseOutputItem>): Array<TokenLogprob> | undefined {
+	const logprobs = output
+		.flatMap((item) => (item.type === 'message' ? item.content : []))
+		.flatMap((part) => (part.type === 'output_text' ? part.logprobs ?? [] : []))
+		.map((lp) => ({
+			token: lp.token,
+			logprob: lp.logprob,
+			topLogprobs: lp.top_logprobs.map((top) => ({ token: top.token, logprob: top.logprob })),
+		}));
+	return logprobs.length > 0 ? logprobs : undefined;
+}
+
+/** Statuses of batch jobs that haven't finished yet */
+const RUNNING_BATCH_STATUSES: ReadonlyArray<OpenAI.Batches.Batch['status']> = [
+	'validating',
+	'in_progress',
+	'finalizing',
+	'cancelling',
+];
+
+/**
+ * A line of a batch job's output or error file.
+ */
+interface BatchOutputLine {
+	custom_id: string;
+	response: { status_code: number; body: OpenAI.Responses.Response } | null;
+	error: { code?: string; message: string } | null;
+}
+
+/**
+ * Concatenate the text of a response's output messages.
+ * Batch results are raw API responses, which lack the SDK's `output_text` helper.
+ */
+function outputText(output: Array<OpenAI.Responses.ResponseOutputItem>): string {
+	return output
+		.flatMap((item) => (item.type === 'message' ? item.content : []))
+		.map((part) => (part.type === 'output_text' ? part.text : ''))
+		.join('');
+}
+
+/**
+ * Convert a line of a batch job's output to a response, validating it against the schema.
+ */
+function parseBatchOutput<T>(line: BatchOutputLine, schema: z.ZodType<T> | null): LLMResponse<T> {
+	const status = line.response?.status_code;
+	const body = line.response?.body;
+
+	if (line.error != null || body == null || (status != null && status >= 400)) {
+		const bodyError = (body as { error?: { message?: string } } | undefined)?.error?.message;
+		const message = line.error?.message ?? bodyError ?? `Batch request failed with status ${status}`;
+		return {
+			parsed: null,
+			text: null,
+			usage: null,
+			error: classifyError(Object.assign(new Error(message), { status })),
+		};
+	}
+
+	const usage = toTokenUsage(body.usage);
+	const text = outputText(body.output);
+
+	const refusal = checkRefusal(body);
+	if (refusal) {
+		return { parsed: null, text: text || null, usage, error: refusal };
+	}
+
+	if (schema == null) {
+		return { parsed: text as T, text, usage, error: null };
+	}
+
+	try {
+		return { parsed: toCompatibleSchema(schema, 'openai').parse(JSON.parse(text)), text, usage, error: null };
+	} catch (error) {
+		return {
+			parsed: null,
+			text,
+			usage,
+			error: new SchemaValidationError(error instanceof Error ? error.message : String(error), error),
+		};
+	}
+}
+
+/**
+ * Classify the error of a failed stream by its code, as SDK errors are classified by HTTP status.
+ * Codes not known to be transient are request errors (e.g. invalid images).
+ */
+function classifyStreamError(code: string | null | undefined, message: string): LLMError {
+	switch (code) {
+		case 'server_error':
+			return new LLMError('server', message);
+		case 'rate_limit_exceeded':
+			return new RateLimitError(message);
+		case 'insufficient_quota':
+			return new LLMError('quota', message);
+		case 'vector_store_timeout':
+			return new TimeoutError(message);
+		case 'bio_policy':
+		case 'image_content_policy_violation':
+			return new ContentFilterError(message);
+		case null:
+		case undefined:
+			return new LLMError('unknown', message);
+		default:
+			return new LLMError('invalid_request', message);
+	}
+}
+
 /**
  * OpenAI LLM provider.
  */
@@ -104,15 +322,8 @@ export class OpenAIProvider implements LLMProvider {
 	private client: OpenAI;
 
 	constructor(apiKey?: string) {
-		const fetchOptions: Record<string, unknown> = {};
-		const abortSignal = (globalThis as Record<string, unknown>).abortSignal;
-		if (abortSignal) {
-			fetchOptions.signal = abortSignal;
-		}
-
 		this.client = new OpenAI({
 			apiKey: apiKey ?? Deno.env.get('OPENAI_API_KEY'),
-			fetchOptions,
 		});
 	}
 
@@ -120,16 +331,15 @@ export class OpenAIProvider implements LLMProvider {
 		messages: Message[],
 		model: string,
 		schema: z.ZodType<T> | null,
-		params?: ProviderParams
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
 	): Promise<LLMResponse<T>> {
 		try {
 			const response = await this.client.responses.parse({
 				...(params as Record<string, unknown>),
 				model,
-				input: messages.map((m) => ({
-					role: m.role,
-					content: m.content,
-				})),
+				input: toInput(messages),
 				...(schema != null
 					? {
 						text: {
@@ -137,22 +347,34 @@ export class OpenAIProvider implements LLMProvider {
 						},
 					}
 					: {}),
-			});
+				...(tools?.length ? { tools: toFunctionTools(tools) } : {}),
+				...logprobParams(model, options?.logprobs),
+			}, { signal: options?.signal });
 
-			const usage: TokenUsage | null = response.usage
-				? {
-					inputTokens: response.usage.input_tokens,
-					outputTokens: response.usage.output_tokens,
-					totalTokens: response.usage.total_tokens,
-				}
-				: null;
+			const usage = toTokenUsage(response.usage);
+			const logprobs = extractLogprobs(response.output);
+
+			const refusal = checkRefusal(response);
+			if (refusal) {
+				return { parsed: null, text: response.output_text || null, usage, error: refusal };
+			}
+
+			const toolCalls = extractToolCalls(response.output);
+			if (toolCalls.length > 0) {
+				return {
+					parsed: null,
+					text: response.output_text || null,
+					usage,
+					error: null,
+					toolCalls,
+				};
+			}
 
 			if (response.output_parsed instanceof Error) {
 				const parseError = response.output_parsed;
-				const error =
-					parseError instanceof SchemaValidationError
-						? parseError
-						: new SchemaValidationError(parseError.message, parseError);
+				const error = parseError instanceof SchemaValidationError
+					? parseError
+					: new SchemaValidationError(parseError.message, parseError);
 				return {
 					parsed: null,
 					text: response.output_text,
@@ -166,14 +388,126 @@ export class OpenAIProvider implements LLMProvider {
 				text: response.output_text,
 				usage,
 				error: null,
+				...(logprobs ? { logprobs } : {}),
 			};
 		} catch (error) {
 			return {
 				parsed: null,
 				text: null,
 				usage: null,
-				error: error instanceof Error ? error : new Error(String(error)),
+				error: classifyError(error),
 			};
 		}
 	}
+
+	async *stream<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		options?: RequestOptions,
+	): AsyncGenerator<string, TokenUsage | null> {
+		const events = await this.client.responses.create({
+			...(params as Record<string, unknown>),
+			model,
+			input: toInput(messages),
+			...(schema != null ? { text: { format: toJSONSchemaFormat(schema) } } : {}),
+			stream: true,
+		}, { signal: options?.signal });
+
+		let usage: TokenUsage | null = null;
+
+		for await (const event of events) {
+			if (event.type === 'response.output_text.delta') {
+				yield event.delta;
+			} else if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+				usage = toTokenUsage(event.response.usage);
+			} else if (event.type === 'response.failed') {
+				const { code, message = 'OpenAI response failed' } = event.response.error ?? {};
+				throw classifyStreamError(code, message);
+			} else if (event.type === 'error') {
+				throw classifyStreamError(event.code, event.message);
+			}
+		}
+
+		return usage;
+	}
+
+	/**
+	 * Upload the requests as a JSONL file and create a Batch API job for the Responses endpoint.
+	 */
+	async submitBatch<T>(
+		requests: Array<Message[]>,
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		options?: RequestOptions,
+	): Promise<string> {
+		const format = schema != null ? toJSONSchemaFormat(schema) : null;
+		const lines = requests.map((messages, i) =>
+			JSON.stringify({
+				custom_id: String(i),
+				method: 'POST',
+				url: '/v1/responses',
+				body: {
+					...params,
+					model,
+					input: toInput(messages),
+					...(format != null ? { text: { format } } : {}),
+				},
+			})
+		);
+
+		const file = await this.client.files.create({
+			file: new File([lines.join('\n')], 'batch.jsonl', { type: 'application/jsonl' }),
+			purpose: 'batch',
+		}, { signal: options?.signal });
+
+		const batch = await this.client.batches.create({
+			input_file_id: file.id,
+			endpoint: '/v1/responses',
+			completion_window: '24h',
+		}, { signal: options?.signal });
+
+		return batch.id;
+	}
+
+	async getBatchResults<T>(
+		jobId: string,
+		count: number,
+		schema: z.ZodType<T> | null,
+		options?: RequestOptions,
+	): Promise<Array<LLMResponse<T>> | null> {
+		const batch = await this.client.batches.retrieve(jobId, { signal: options?.signal });
+		if (RUNNING_BATCH_STATUSES.includes(batch.status)) {
+			return null;
+		}
+
+		const results = Array.from({ length: count }, (): LLMResponse<T> => ({
+			parsed: null,
+			text: null,
+			usage: null,
+			error: new LLMError('unknown', `No result in batch job ${jobId} (status: ${batch.status})`),
+		}));
+
+		for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+			if (!fileId) {
+				continue;
+			}
+
+			const content = await (await this.client.files.content(fileId, { signal: options?.signal })).text();
+			for (const line of content.split('\n')) {
+				if (!line.trim()) {
+					continue;
+				}
+				const output = JSON.parse(line) as BatchOutputLine;
+				const index = Number(output.custom_id);
+				if (Number.isInteger(index) && index >= 0 && index < count) {
+					results[index] = parseBatchOutput(output, schema);
+				}
+			}
+		}
+
+		return results;
+	}
 }
@@ -0,0 +1,271 @@
+/**
+ * OpenAI-compatible provider implementation (for self-hosted models).
+ *
+ * Targets servers that implement the OpenAI Chat Completions protocol,
+ * such as vLLM, llama.cpp and Ollama.
+ */
+
+import OpenAI from '@openai/openai';
+import type { z } from '@zod/zod';
+import type { TokenUsage } from '../response.ts';
+import { classifyError, ContentFilterError, LLMError, SchemaValidationError } from './errors.ts';
+import { contentToText, toInlineData, toURL } from './content.ts';
+import { toCompatibleSchema } from './schema.ts';
+import { generateToolCallId, toParametersSchema } from './tools.ts';
+import type {
+	ContentPart,
+	LLMProvider,
+	LLMResponse,
+	Message,
+	ProviderParams,
+	RequestOptions,
+	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+} from './types.ts';
+
+/**
+ * Model prefix that routes a model to the OpenAI-compatible provider.
+ * The prefix is stripped before the model name is sent to the server.
+ */
+export const LOCAL_MODEL_PREFIX = 'local/';
+
+/**
+ * Remove the routing prefix from a model ID, if present.
+ */
+function stripModelPrefix(model: string): string {
+	return model.toLowerCase().startsWith(LOCAL_MODEL_PREFIX) ? model.slice(LOCAL_MODEL_PREFIX.length) : model;
+}
+
+function toContentPart(part: ContentPart): OpenAI.ChatCompletionContentPart {
+	switch (part.type) {
+		case 'text':
+			return { type: 'text', text: part.text };
+		case 'image':
+			return { type: 'image_url', image_url: { url: toURL(part), detail: part.detail ?? 'auto' } };
+		case 'file': {
+			const inline = toInlineData(part);
+			return {
+				type: 'file',
+				file: {
+					file_data: inline != null ? `data:${inline.mimeType};base64,${inline.data}` : part.url,
+					filename: part.filename ?? 'file',
+				},
+			};
+		}
+	}
+}
+
+/**
+ * Convert messages to Chat Completions format.
+ * Only user messages support non-text parts; other roles are flattened to text.
+ */
+function toChatMessages(messages: Message[]): Array<OpenAI.ChatCompletionMessageParam> {
+	return messages.map((m): OpenAI.ChatCompletionMessageParam => {
+		switch (m.role) {
+			case 'user':
+				return {
+					role: 'user',
+					content: typeof m.content === 'string' ? m.content : m.content.map(toContentPart),
+				};
+			case 'tool':
+				return { role: 'tool', tool_call_id: m.toolCallId ?? '', content: contentToText(m.content) };
+			case 'assistant':
+				return {
+					role: 'assistant',
+					content: contentToText(m.content),
+					...(m.toolCalls?.length
+						? {
+							tool_calls: m.toolCalls.map((call) => ({
+								id: call.id,
+								type: 'function' as const,
+								function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+							})),
+						}
+						: {}),
+				};
+			case 'system':
+				return { role: 'system', content: contentToText(m.content) };
+		}
+	});
+}
+
+function toFunctionTools(tools: Array<ToolDefinition>): Array<OpenAI.ChatCompletionFunctionTool> {
+	return tools.map((tool) => ({
+		type: 'function',
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: toParametersSchema(tool),
+		},
+	}));
+}
+
+function extractToolCalls(message: OpenAI.ChatCompletionMessage | undefined): Array<ToolCall> {
+	return (message?.tool_calls ?? [])
+		.filter((call) => call.type === 'function')
+		.map((call) => ({
+			id: call.id || generateToolCallId(),
+			name: call.function.name,
+			arguments: call.function.arguments ? JSON.parse(call.function.arguments) : {},
+		}));
+}
+
+/**
+ * Convert a choice's token logprobs, if the server returned any.
+ */
+function extractLogprobs(choice: OpenAI.ChatCompletion.Choice | undefined): Array<TokenLogprob> | undefined {
+	const content = choice?.logprobs?.content;
+	if (!content?.length) {
+		return undefined;
+	}
+	return content.map((lp) => ({
+		token: lp.token,
+		logprob: lp.logprob,
+		topLogprobs: lp.top_logprobs.map((top) => ({ token: top.token, logprob: top.logprob })),
+	}));
+}
+
+/**
+ * Build the `response_format` for a Zod schema.
+ */
+function toResponseFormat<T>(schema: z.ZodType<T>): OpenAI.ResponseFormatJSONSchema {
+	return {
+		type: 'json_schema',
+		json_schema: {
+			name: 'response',
+			strict: true,
+			schema: toCompatibleSchema(schema, 'openai').jsonSchema,
+		},
+	};
+}
+
+/**
+ * LLM provider for servers speaking the OpenAI Chat Completions protocol.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly name = 'openai-compatible';
+	private client: OpenAI | null;
+
+	/**
+	 * Without a base URL, requests fail with an 'invalid_request' error (instead of the constructor
+	 * throwing, which would escape askLLMSafe's `onError: 'return'`).
+	 * @param apiKey - Optional API key. Defaults to OPENAI_COMPATIBLE_API_KEY (most local servers ignore it).
+	 * @param baseURL - Server base URL (e.g., 'http://localhost:8000/v1'). Defaults to OPENAI_COMPATIBLE_BASE_URL.
+	 */
+	constructor(apiKey?: string, baseURL?: string) {
+		const resolvedBaseURL = baseURL ?? Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+
+		this.client = resolvedBaseURL
+			? new OpenAI({
+				apiKey: apiKey ?? Deno.env.get('OPENAI_COMPATIBLE_API_KEY') ?? 'not-needed',
+				baseURL: resolvedBaseURL,
+			})
+			: null;
+	}
+
+	async complete<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
+	): Promise<LLMResponse<T>> {
+		if (this.client == null) {
+			return {
+				parsed: null,
+				text: null,
+				usage: null,
+				error: new LLMError(
+					'invalid_request',
+					'A baseURL or the OPENAI_COMPATIBLE_BASE_URL environment variable is required',
+				),
+			};
+		}
+
+		try {
+			const response = await this.client.chat.completions.create({
+				...(params as Record<string, unknown>),
+				model: stripModelPrefix(model),
+				messages: toChatMessages(messages),
+				...(schema != null ? { response_format: toResponseFormat(schema) } : {}),
+				...(tools?.length ? { tools: toFunctionTools(tools) } : {}),
+				...(options?.logprobs ? { logprobs: true, top_logprobs: options.logprobs } : {}),
+				stream: false,
+			}, { signal: options?.signal });
+
+			const cached = response.usage?.prompt_tokens_details?.cached_tokens;
+			const reasoning = response.usage?.completion_tokens_details?.reasoning_tokens;
+			const usage: TokenUsage | null = response.usage
+				? {
+					inputTokens: response.usage.prompt_tokens,
+					outputTokens: response.usage.completion_tokens,
+					totalTokens: response.usage.total_tokens,
+					...(cached ? { cachedInputTokens: cached } : {}),
+					...(reasoning ? { reasoningTokens: reasoning } : {}),
+				}
+				: null;
+
+			const message = response.choices[0]?.message;
+			const text = message?.content ?? '';
+			const logprobs = extractLogprobs(response.choices[0]);
+
+			if (response.choices[0]?.finish_reason === 'content_filter' || message?.refusal) {
+				return {
+					parsed: null,
+					text: text || null,
+					usage,
+					error: new ContentFilterError(
+						message?.refusal
+							? `Model refused to respond: ${message.refusal}`
+							: 'Response blocked by the content filter',
+					),
+				};
+			}
+
+			const toolCalls = extractToolCalls(message);
+			if (toolCalls.length > 0) {
+				return { parsed: null, text: text || null, usage, error: null, toolCalls };
+			}
+
+			if (schema != null) {
+				try {
+					const parsed = toCompatibleSchema(schema, 'openai').parse(JSON.parse(text));
+					return {
+						parsed,
+						text,
+						usage,
+						error: null,
+						...(logprobs ? { logprobs } : {}),
+					};
+				} catch (error) {
+					return {
+						parsed: null,
+						text,
+						usage,
+						error: new SchemaValidationError(
+							error instanceof Error ? error.message : String(error),
+							error,
+						),
+					};
+				}
+			}
+
+			return {
+				parsed: text as T,
+				text,
+				usage,
+				error: null,
+				...(logprobs ? { logprobs } : {}),
+			};
+		} catch (error) {
+			return {
+				parsed: null,
+				text: null,
+				usage: null,
+				error: classifyError(error),
+			};
+		}
+	}
+}
@@ -6,7 +6,7 @@
  */
 
 import modelsData from '../assets/models.json' with { type: 'json' };
-import type { TokenUsage, UsageCost } from '../response.ts';
+import type { CostBreakdown, TokenUsage, UsageCost } from '../response.ts';
 
 /**
  * Pricing information for a model (USD per 1M tokens).
@@ -143,21 +143,62 @@ export function getModelInfo(modelId: string): ModelInfo | null {
 
 /**
  * Calculate cost for token usage.
+ * Cached input and reasoning tokens are priced at the model's cacheRead, cacheWrite and
+ * reasoning rates, falling back to the regular input and output rates when a rate is unknown.
+ * Pass `pricing` to price models missing from the bundled data (e.g., self-hosted models).
  */
-export function calculateCost(modelId: string, usage: TokenUsage): UsageCost | null {
-	const pricing = getModelPricing(modelId);
+export function calculateCost(modelId: string, usage: TokenUsage, pricing?: ModelPricing): UsageCost | null {
+	pricing ??= getModelPricing(modelId) ?? undefined;
 
 	if (!pricing) {
 		return null;
 	}
 
-	const inputCost = (usage.inputTokens / 1_000_000) * pricing.input;
-	const outputCost = (usage.outputTokens / 1_000_000) * pricing.output;
+	const cacheReadTokens = usage.cachedInputTokens ?? 0;
+	const cacheWriteTokens = usage.cacheWriteInputTokens ?? 0;
+	const reasoningTokens = usage.reasoningTokens ?? 0;
+	const price = (tokens: number, rate: number) => (tokens / 1_000_000) * rate;
+
+	const breakdown: CostBreakdown = {
+		input: price(usage.inputTokens - cacheReadTokens - cacheWriteTokens, pricing.input),
+		cacheRead: price(cacheReadTokens, pricing.cacheRead ?? pricing.input),
+		cacheWrite: price(cacheWriteTokens, pricing.cacheWrite ?? pricing.input),
+		output: price(usage.outputTokens - reasoningTokens, pricing.output),
+		reasoning: price(reasoningTokens, pricing.reasoning ?? pricing.output),
+	};
+
+	const inputCost = breakdown.input + breakdown.cacheRead + breakdown.cacheWrite;
+	const outputCost = breakdown.output + breakdown.reasoning;
 
 	return {
 		inputCost,
 		outputCost,
 		totalCost: inputCost + outputCost,
+		breakdown,
 		currency: 'USD',
 	};
 }
+
+/** Price of offline batch requests relative to real-time ones (OpenAI and Gemini batches are half price) */
+export const BATCH_PRICE_FACTOR = 0.5;
+
+/**
+ * Get the pricing of offline batch requests for a model, i.e. its real-time pricing scaled by BATCH_PRICE_FACTOR.
+ * Pass `pricing` to scale custom pricing instead of the bundled data.
+ */
+export function getBatchPricing(modelId: string, pricing?: ModelPricing): ModelPricing | null {
+	const base = pricing ?? getModelPricing(modelId);
+	if (!base) {
+		return null;
+	}
+
+	const scale = (rate: number | undefined) => (rate != null ? rate * BATCH_PRICE_FACTOR : undefined);
+
+	return {
+		input: base.input * BATCH_PRICE_FACTOR,
+		output: base.output * BATCH_PRICE_FACTOR,
+		cacheRead: scale(base.cacheRead),
+		cacheWrite: scale(base.cacheWrite),
+		reasoning: scale(base.reasoning),
+	};
+}
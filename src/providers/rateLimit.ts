@@ -0,0 +1,202 @@
+/**
+ * Process-wide rate limiting of LLM requests.
+ *
+ * Requests per minute (RPM) and tokens per minute (TPM) are enforced with token
+ * buckets, one per provider and model, shared by all calls in the process. Token
+ * counts are estimated from the prompt before sending, and corrected with the
+ * usage reported by the provider afterwards.
+ */
+
+import type { z } from '@zod/zod';
+import type { TokenUsage } from '../response.ts';
+import { estimatePromptTokens } from '../budget.ts';
+import { sleep } from '../helpers/async.ts';
+import { classifyError } from './errors.ts';
+import type { LLMProvider, LLMResponse, Message, ProviderParams, RequestOptions, ToolDefinition } from './types.ts';
+
+/**
+ * Rate limits of a provider or model.
+ */
+export interface RateLimit {
+	/** Maximum requests per minute */
+	requestsPerMinute?: number;
+	/** Maximum tokens (input and output) per minute */
+	tokensPerMinute?: number;
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * A bucket refilling continuously up to its capacity.
+ */
+class TokenBucket {
+	private available: number;
+	private updatedAt = performance.now();
+
+	constructor(readonly capacity: number) {
+		this.available = capacity;
+	}
+
+	private refill(): void {
+		const now = performance.now();
+		this.available = Math.min(this.capacity, this.available + ((now - this.updatedAt) * this.capacity) / MINUTE_MS);
+		this.updatedAt = now;
+	}
+
+	/** Milliseconds until the amount is available (0 if it is now) */
+	delayFor(amount: number): number {
+		this.refill();
+		const missing = Math.min(amount, this.capacity) - this.available;
+		return missing > 0 ? Math.ceil((missing * MINUTE_MS) / this.capacity) : 0;
+	}
+
+	/** Take an amount out of the bucket. May go below zero, delaying later requests. */
+	take(amount: number): void {
+		this.refill();
+		this.available -= amount;
+	}
+}
+
+/**
+ * Resolve when the promise settles, or reject when the signal is aborted.
+ */
+function abortable(promise: Promise<void>, signal?: AbortSignal): Promise<void> {
+	if (!signal) {
+		return promise;
+	}
+	signal.throwIfAborted();
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+/**
+ * Token-bucket limiter for requests and tokens per minute.
+ * Requests are admitted in the order they arrive.
+ */
+export class RateLimiter {
+	private readonly requests: TokenBucket | null;
+	private readonly tokens: TokenBucket | null;
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(readonly limit: RateLimit) {
+		this.requests = limit.requestsPerMinute ? new TokenBucket(limit.requestsPerMinute) : null;
+		this.tokens = limit.tokensPerMinute ? new TokenBucket(limit.tokensPerMinute) : null;
+	}
+
+	/**
+	 * Wait until a request of the estimated size fits the limits, and reserve it.
+	 * Requests larger than the token limit wait for a full bucket.
+	 * Rejects with the abort reason if the signal is aborted while waiting.
+	 */
+	async acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+		const previous = this.queue;
+		let release!: () => void;
+		this.queue = new Promise((resolve) => release = resolve);
+
+		try {
+			await abortable(previous, signal);
+
+			let delay = this.delayFor(estimatedTokens);
+			while (delay > 0) {
+				await sleep(delay, signal);
+				delay = this.delayFor(estimatedTokens);
+			}
+
+			this.requests?.take(1);
+			this.tokens?.take(estimatedTokens);
+		} finally {
+			release();
+		}
+	}
+
+	/**
+	 * Correct a reservation with the usage reported by the provider.
+	 */
+	settle(estimatedTokens: number, usage: TokenUsage | null): void {
+		if (usage != null) {
+			this.tokens?.take(usage.totalTokens - estimatedTokens);
+		}
+	}
+
+	private delayFor(estimatedTokens: number): number {
+		return Math.max(this.requests?.delayFor(1) ?? 0, this.tokens?.delayFor(estimatedTokens) ?? 0);
+	}
+}
+
+let rateLimits: Record<string, RateLimit> = {};
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Set rate limits for askLLMSafe and tools (or remove them all with null).
+ * Keys are provider names ('openai') or a provider and model ('openai/gpt-4.1-mini');
+ * model keys take precedence. Each model has its own budget, shared by all calls in the process.
+ *
+ * @example
+ * setRateLimits({ openai: { requestsPerMinute: 500, tokensPerMinute: 200_000 } });
+ */
+export function setRateLimits(limits: Record<string, RateLimit> | null): void {
+	rateLimits = limits ?? {};
+	limiters.clear();
+}
+
+/**
+ * Get the limiter of a provider and model, or null if no limits apply.
+ */
+export function getRateLimiter(provider: string, model: string): RateLimiter | null {
+	const key = `${provider}/${model}`;
+	const limit = rateLimits[key] ?? rateLimits[provider];
+	if (!limit || (!limit.requestsPerMinute && !limit.tokensPerMinute)) {
+		return null;
+	}
+
+	let limiter = limiters.get(key);
+	if (!limiter) {
+		limiter = new RateLimiter(limit);
+		limiters.set(key, limiter);
+	}
+	return limiter;
+}
+
+/**
+ * Provider waiting for the rate limiter before each request. Named like the provider it wraps.
+ */
+export class RateLimitedProvider implements LLMProvider {
+	constructor(private readonly inner: LLMProvider, private readonly limiter: RateLimiter) {}
+
+	get name(): string {
+		return this.inner.name;
+	}
+
+	async complete<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
+	): Promise<LLMResponse<T>> {
+		const estimatedTokens = estimatePromptTokens(messages);
+
+		try {
+			await this.limiter.acquire(estimatedTokens, options?.signal);
+		} catch (error) {
+			return { parsed: null, text: null, usage: null, error: classifyError(error) };
+		}
+
+		const response = await this.inner.complete(messages, model, schema, params, tools, options);
+		this.limiter.settle(estimatedTokens, response.usage);
+		return response;
+	}
+}
+
+/**
+ * Wrap a provider in a RateLimitedProvider if limits apply to it and the model.
+ */
+export function withRateLimit(provider: LLMProvider, model: string): LLMProvider {
+	const limiter = getRateLimiter(provider.name, model);
+	return limiter ? new RateLimitedProvider(provider, limiter) : provider;
+}
@@ -1,41 +1,253 @@
 /**
- * Provider registry - instantiates LLM providers by name or model ID.
+ * Provider registry - resolves LLM providers by name or model ID.
  */
 
 import type { LLMProvider } from './types.ts';
 import { OpenAIProvider } from './openai.ts';
 import { GoogleProvider } from './google.ts';
+import { AnthropicProvider } from './anthropic.ts';
+import { LOCAL_MODEL_PREFIX, OpenAICompatibleProvider } from './openaiCompatible.ts';
+import { type ReplayMode, type ReplayOptions, ReplayProvider, type RequestTarget } from './replay.ts';
+
+const REPLAY_MODES: ReadonlyArray<ReplayMode> = ['record', 'replay', 'auto'];
+
+let replayOptions: ReplayOptions | null = null;
 
 /**
- * Get a provider by name.
- * Creates a fresh provider instance each time to support different API keys.
- * @param name - Provider name ('openai', 'google')
- * @param apiKey - Optional API key. If not provided, uses environment variable.
+ * Enable (or disable with null) record/replay for all providers returned by the registry.
+ * Without explicit options, the CUERY_CASSETTE and CUERY_REPLAY_MODE environment variables are used.
  */
-export function getProvider(name: string, apiKey?: string): LLMProvider {
-	switch (name) {
-		case 'google':
-			return new GoogleProvider(apiKey);
-		case 'openai':
-		default:
-			return new OpenAIProvider(apiKey);
+export function setReplayOptions(options: ReplayOptions | null): void {
+	replayOptions = options;
+}
+
+function getReplayOptions(): ReplayOptions | null {
+	if (replayOptions) {
+		return replayOptions;
 	}
+
+	const cassettePath = Deno.env.get('CUERY_CASSETTE');
+	if (!cassettePath) {
+		return null;
+	}
+
+	const mode = Deno.env.get('CUERY_REPLAY_MODE') ?? 'auto';
+	if (!REPLAY_MODES.includes(mode as ReplayMode)) {
+		throw new Error(`Invalid CUERY_REPLAY_MODE '${mode}'. Expected one of: ${REPLAY_MODES.join(', ')}`);
+	}
+
+	return { cassettePath, mode: mode as ReplayMode };
 }
 
 /**
- * Get the appropriate provider for a model ID.
- * Infers provider from model name prefix.
- * Creates a fresh provider instance each time to support different API keys.
- * @param modelId - Model identifier (e.g., 'gpt-4.1', 'gemini-2.0-flash')
- * @param apiKey - Optional API key. If not provided, uses environment variable.
+ * Wrap a provider factory in a ReplayProvider if record/replay is enabled.
+ * The factory is only called when a request actually needs the network.
+ */
+function withReplay(
+	factory: () => LLMProvider,
+	target: RequestTarget,
+	wrap?: (provider: LLMProvider) => LLMProvider,
+): LLMProvider {
+	const options = getReplayOptions();
+	const create = wrap ? () => wrap(factory()) : factory;
+	return options ? new ReplayProvider(create, options, target) : create();
+}
+
+/**
+ * Decides whether a registered provider serves a model ID. A string matches model IDs
+ * starting with it (case-insensitive) and is also the name under which the provider
+ * can be requested with getProvider().
+ */
+export type ProviderMatcher = string | RegExp | ((modelId: string) => boolean);
+
+/**
+ * Options passed to a provider factory.
+ */
+export interface ProviderFactoryOptions {
+	/** API key requested by the caller, if any (otherwise read from the environment) */
+	apiKey?: string;
+	/** Server URL requested by the caller, if any */
+	baseURL?: string;
+}
+
+/**
+ * Creates a provider. Instances are pooled per API key and base URL, so a factory
+ * is called once per distinct configuration and its client is shared by all calls.
+ */
+export type ProviderFactory = (options: ProviderFactoryOptions) => LLMProvider;
+
+interface ProviderRegistration {
+	id: number;
+	matcher: ProviderMatcher;
+	factory: ProviderFactory;
+}
+
+let nextRegistrationId = 0;
+const registrations: Array<ProviderRegistration> = [];
+const providerPool = new Map<string, LLMProvider>();
+
+/**
+ * Register a custom provider for the model IDs it matches.
+ * Registered providers take precedence over the built-in ones, and later
+ * registrations over earlier ones.
+ * @returns A function removing the registration again.
+ */
+export function registerProvider(matcher: ProviderMatcher, factory: ProviderFactory): () => void {
+	const registration = { id: nextRegistrationId++, matcher, factory };
+	registrations.push(registration);
+
+	return () => {
+		const index = registrations.indexOf(registration);
+		if (index !== -1) {
+			registrations.splice(index, 1);
+		}
+		for (const key of providerPool.keys()) {
+			if (key.startsWith(`custom:${registration.id}\0`)) {
+				providerPool.delete(key);
+			}
+		}
+	};
+}
+
+/**
+ * Remove all pooled provider instances, e.g. after rotating API keys in the environment.
+ */
+export function clearProviderPool(): void {
+	providerPool.clear();
+}
+
+function matches(matcher: ProviderMatcher, modelId: string): boolean {
+	if (typeof matcher === 'string') {
+		return modelId.toLowerCase().startsWith(matcher.toLowerCase());
+	}
+	if (matcher instanceof RegExp) {
+		return matcher.test(modelId);
+	}
+	return matcher(modelId);
+}
+
+/**
+ * Get the pooled provider for a key, creating it on first use.
  */
-export function getProviderForModel(modelId: string, apiKey?: string): LLMProvider {
+function pooled(key: string, options: ProviderFactoryOptions, factory: ProviderFactory): LLMProvider {
+	const poolKey = [key, options.apiKey ?? '', options.baseURL ?? ''].join('\0');
+
+	let provider = providerPool.get(poolKey);
+	if (!provider) {
+		provider = factory(options);
+		providerPool.set(poolKey, provider);
+	}
+	return provider;
+}
+
+const BUILTIN_FACTORIES: Record<string, ProviderFactory> = {
+	'openai': ({ apiKey }) => new OpenAIProvider(apiKey),
+	'google': ({ apiKey }) => new GoogleProvider(apiKey),
+	'anthropic': ({ apiKey }) => new AnthropicProvider(apiKey),
+	'openai-compatible': ({ apiKey, baseURL }) => new OpenAICompatibleProvider(apiKey, baseURL),
+};
+
+function builtinProvider(name: string, options: ProviderFactoryOptions): LLMProvider {
+	return pooled(name, options, BUILTIN_FACTORIES[name]);
+}
+
+function createProvider(name: string, apiKey?: string, baseURL?: string): LLMProvider {
+	const registration = registrations.findLast(({ matcher }) => matcher === name);
+	if (registration) {
+		return pooled(`custom:${registration.id}`, { apiKey, baseURL }, registration.factory);
+	}
+
+	return builtinProvider(builtinName(name), { apiKey, baseURL });
+}
+
+function builtinName(name: string): string {
+	return name in BUILTIN_FACTORIES ? name : 'openai';
+}
+
+function builtinNameForModel(modelId: string, baseURL?: string): string {
 	const modelLower = modelId.toLowerCase();
 
+	if (baseURL || modelLower.startsWith(LOCAL_MODEL_PREFIX)) {
+		return 'openai-compatible';
+	}
+
 	if (modelLower.startsWith('gemini')) {
-		return new GoogleProvider(apiKey);
+		return 'google';
+	}
+
+	if (modelLower.startsWith('claude')) {
+		return 'anthropic';
 	}
 
 	// Default to OpenAI for gpt-*, o1-*, o3-*, and unknown models
-	return new OpenAIProvider(apiKey);
+	return 'openai';
+}
+
+function createProviderForModel(modelId: string, apiKey?: string, baseURL?: string): LLMProvider {
+	const options = { apiKey, baseURL };
+
+	const registration = registrations.findLast(({ matcher }) => matches(matcher, modelId));
+	if (registration) {
+		return pooled(`custom:${registration.id}`, options, registration.factory);
+	}
+
+	return builtinProvider(builtinNameForModel(modelId, baseURL), options);
+}
+
+/**
+ * The provider and server of requests to a built-in provider or a registered one (named after
+ * its matcher), resolved without creating the provider so replayed requests need no API keys.
+ */
+function requestTarget(name: string, baseURL?: string): RequestTarget {
+	if (name === 'openai-compatible') {
+		baseURL ??= Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+	}
+	return { provider: name, ...(baseURL ? { baseURL } : {}) };
+}
+
+/**
+ * The provider and server of requests to a model, part of the keys of recorded and cached responses.
+ * @param modelId - Model identifier, as passed to getProviderForModel()
+ * @param baseURL - Optional server URL of an OpenAI-compatible endpoint.
+ */
+export function getRequestTarget(modelId: string, baseURL?: string): RequestTarget {
+	const registration = registrations.findLast(({ matcher }) => matches(matcher, modelId));
+	return requestTarget(registration ? String(registration.matcher) : builtinNameForModel(modelId, baseURL), baseURL);
+}
+
+/**
+ * Get a provider by name.
+ * Instances are pooled per (provider, API key, base URL), so concurrent calls share SDK clients
+ * and their HTTP connections. Returns a ReplayProvider wrapper when record/replay is enabled.
+ * @param name - Provider name ('openai', 'google', 'anthropic', 'openai-compatible'),
+ *   or the string matcher of a registered provider.
+ * @param apiKey - Optional API key. If not provided, uses environment variable.
+ * @param baseURL - Optional server URL for the 'openai-compatible' provider.
+ */
+export function getProvider(name: string, apiKey?: string, baseURL?: string): LLMProvider {
+	const registered = registrations.some(({ matcher }) => matcher === name);
+	const target = requestTarget(registered ? name : builtinName(name), baseURL);
+	return withReplay(() => createProvider(name, apiKey, baseURL), target);
+}
+
+/**
+ * Get the appropriate provider for a model ID.
+ * Registered providers are matched first. Otherwise the provider is inferred from the model
+ * name prefix; an explicit `baseURL`, or the 'local/' prefix, selects the OpenAI-compatible
+ * provider for self-hosted models.
+ * Instances are pooled per (provider, API key, base URL), so concurrent calls share SDK clients
+ * and their HTTP connections. Returns a ReplayProvider wrapper when record/replay is enabled.
+ * @param modelId - Model identifier (e.g., 'gpt-4.1', 'gemini-2.0-flash', 'claude-sonnet-4-5', 'local/qwen3-8b')
+ * @param apiKey - Optional API key. If not provided, uses environment variable.
+ * @param baseURL - Optional server URL of an OpenAI-compatible endpoint.
+ * @param wrap - Wrapper of the provider inside the replay wrapper, i.e. only applied to requests
+ *   that need the network (e.g. withRateLimit, so replayed responses aren't throttled).
+ */
+export function getProviderForModel(
+	modelId: string,
+	apiKey?: string,
+	baseURL?: string,
+	wrap?: (provider: LLMProvider) => LLMProvider,
+): LLMProvider {
+	return withReplay(() => createProviderForModel(modelId, apiKey, baseURL), getRequestTarget(modelId, baseURL), wrap);
 }
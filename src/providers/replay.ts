@@ -0,0 +1,336 @@
+/**
+ * Record/replay provider for deterministic offline runs.
+ *
+ * Wraps another provider and stores each completion in a JSON "cassette" file,
+ * keyed by a stable hash of the request. In replay mode responses are served
+ * from the cassette without touching the network.
+ */
+
+import { z } from '@zod/zod';
+import type { TokenUsage } from '../response.ts';
+import { LLMError, type LLMErrorKind, SchemaValidationError } from './errors.ts';
+import { RETRYABLE_ERROR_KINDS } from '../retry.ts';
+import { toParametersSchema } from './tools.ts';
+import type {
+	LLMProvider,
+	LLMResponse,
+	Message,
+	ProviderParams,
+	RequestOptions,
+	TokenLogprob,
+	ToolCall,
+	ToolDefinition,
+} from './types.ts';
+
+/**
+ * - 'record': always call the wrapped provider and (over)write the cassette entry
+ * - 'replay': only serve from the cassette; a missing entry is an error
+ * - 'auto': serve from the cassette when possible, record otherwise
+ */
+export type ReplayMode = 'record' | 'replay' | 'auto';
+
+/**
+ * Options for record/replay.
+ */
+export interface ReplayOptions {
+	/** Path of the cassette JSON file */
+	cassettePath: string;
+	/** Record/replay mode (default: 'auto') */
+	mode?: ReplayMode;
+}
+
+/**
+ * Where a request is sent, part of its key: the same request to another provider or server
+ * may get another response.
+ */
+export interface RequestTarget {
+	/** Name of the provider serving the request */
+	provider?: string;
+	/** URL of the server, if not the provider's default */
+	baseURL?: string;
+}
+
+/**
+ * A recorded request and its response.
+ */
+export interface CassetteEntry {
+	request: {
+		provider?: string;
+		baseURL?: string;
+		model: string;
+		messages: Message[];
+		schema: Record<string, unknown> | null;
+		params: ProviderParams | null;
+		tools?: Array<{ name: string; description?: string; parameters: Record<string, unknown> }>;
+		logprobs?: number;
+	};
+	response: {
+		parsed: unknown;
+		text: string | null;
+		usage: TokenUsage | null;
+		error: { name: string; message: string; kind?: LLMErrorKind } | null;
+		toolCalls?: Array<ToolCall>;
+		logprobs?: Array<TokenLogprob>;
+	};
+}
+
+interface CassetteFile {
+	version: 1;
+	entries: Record<string, CassetteEntry>;
+}
+
+/**
+ * Error raised in replay mode when a request has no recorded response.
+ */
+export class ReplayMissError extends LLMError {
+	constructor(readonly key: string, cassettePath: string) {
+		// Not retryable: the cassette won't change between attempts
+		super('invalid_request', `No recorded response for request ${key} in cassette '${cassettePath}'`);
+		this.name = 'ReplayMissError';
+	}
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal requests hash equally.
+ */
+function stableStringify(value: unknown): string {
+	if (value === undefined) {
+		return 'null';
+	}
+	if (value === null || typeof value !== 'object') {
+		return JSON.stringify(value);
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+
+	const entries = Object.entries(value as Record<string, unknown>)
+		.filter(([, v]) => v !== undefined)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+
+	return `{${entries.join(',')}}`;
+}
+
+/**
+ * Compute the stable cassette key of a request.
+ */
+export async function requestKey(request: CassetteEntry['request']): Promise<string> {
+	const data = new TextEncoder().encode(stableStringify(request));
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * In-memory view of a cassette file. Shared across provider instances by path,
+ * since the registry creates a fresh provider for every call.
+ */
+class Cassette {
+	private entries: Promise<Record<string, CassetteEntry>> | null = null;
+	private pendingWrite: Promise<void> = Promise.resolve();
+
+	constructor(readonly path: string) {}
+
+	private load(): Promise<Record<string, CassetteEntry>> {
+		this.entries ??= Deno.readTextFile(this.path)
+			.then((content) => (JSON.parse(content) as CassetteFile).entries ?? {})
+			.catch((error) => {
+				if (error instanceof Deno.errors.NotFound) {
+					return {};
+				}
+				throw error;
+			});
+		return this.entries;
+	}
+
+	async get(key: string): Promise<CassetteEntry | undefined> {
+		return (await this.load())[key];
+	}
+
+	async set(key: string, entry: CassetteEntry): Promise<void> {
+		const entries = await this.load();
+		entries[key] = entry;
+
+		// Serialize writes so concurrent calls don't interleave partial files
+		this.pendingWrite = this.pendingWrite.catch(() => {}).then(() => {
+			const file: CassetteFile = { version: 1, entries };
+			return Deno.writeTextFile(this.path, JSON.stringify(file, null, '\t'));
+		});
+		await this.pendingWrite;
+	}
+}
+
+const cassettes = new Map<string, Cassette>();
+
+function getCassette(path: string): Cassette {
+	let cassette = cassettes.get(path);
+	if (!cassette) {
+		cassette = new Cassette(path);
+		cassettes.set(path, cassette);
+	}
+	return cassette;
+}
+
+function toJSONSchema<T>(schema: z.ZodType<T> | null): Record<string, unknown> | null {
+	if (schema == null) {
+		return null;
+	}
+	return z.toJSONSchema(schema, { target: 'draft-7', unrepresentable: 'any' }) as Record<string, unknown>;
+}
+
+/**
+ * Serializable description of a completion request, used to compute its key.
+ */
+export function describeRequest<T>(
+	messages: Message[],
+	model: string,
+	schema: z.ZodType<T> | null,
+	params?: ProviderParams,
+	tools?: Array<ToolDefinition>,
+	options?: RequestOptions,
+	target: RequestTarget = {},
+): CassetteEntry['request'] {
+	return {
+		// Like tools, omitted when unknown so keys without them stay valid
+		...(target.provider ? { provider: target.provider } : {}),
+		...(target.baseURL ? { baseURL: target.baseURL } : {}),
+		model,
+		messages,
+		schema: toJSONSchema(schema),
+		params: params ?? null,
+		// Omitted rather than null without tools, so keys of older recordings stay valid
+		tools: tools?.length
+			? tools.map((tool) => ({
+				name: tool.name,
+				description: tool.description,
+				parameters: toParametersSchema(tool),
+			}))
+			: undefined,
+		...(options?.logprobs ? { logprobs: options.logprobs } : {}),
+	};
+}
+
+function restoreError(error: CassetteEntry['response']['error']): Error | null {
+	if (error == null) {
+		return null;
+	}
+	const restored = error.name === 'SchemaValidationError'
+		? new SchemaValidationError(error.message)
+		: error.kind != null
+		? new LLMError(error.kind, error.message)
+		: new Error(error.message);
+	restored.name = error.name;
+	return restored;
+}
+
+/**
+ * Whether a response would be the same if the request were sent again, so it can be recorded:
+ * successes, schema validation errors and fatal errors. Transient errors (kinds retried by
+ * default, and aborts) aren't recorded, so later runs call the provider again.
+ */
+function isRecordable(error: Error | null): boolean {
+	if (error == null || error instanceof SchemaValidationError) {
+		return true;
+	}
+	return error instanceof LLMError && error.kind !== 'aborted' && !RETRYABLE_ERROR_KINDS.includes(error.kind);
+}
+
+/**
+ * Provider that records completions of a wrapped provider to a cassette file and replays them.
+ * Transient errors are passed on without being recorded.
+ */
+export class ReplayProvider implements LLMProvider {
+	readonly name = 'replay';
+	private readonly cassette: Cassette;
+	private readonly mode: ReplayMode;
+	private readonly providerFactory: () => LLMProvider;
+	private inner: LLMProvider | null = null;
+
+	/**
+	 * @param provider - The wrapped provider, or a factory creating it lazily
+	 *   (so replay runs need no API keys).
+	 * @param options - Cassette path and record/replay mode.
+	 * @param target - Provider and server the requests go to, part of their keys.
+	 */
+	constructor(
+		provider: LLMProvider | (() => LLMProvider),
+		options: ReplayOptions,
+		private readonly target: RequestTarget = {},
+	) {
+		this.providerFactory = typeof provider === 'function' ? provider : () => provider;
+		this.cassette = getCassette(options.cassettePath);
+		this.mode = options.mode ?? 'auto';
+	}
+
+	private getInner(): LLMProvider {
+		this.inner ??= this.providerFactory();
+		return this.inner;
+	}
+
+	/**
+	 * The wrapped provider. Offline batch jobs go to it directly: their results are
+	 * collected later and are not recorded.
+	 */
+	unwrap(): LLMProvider {
+		return this.getInner();
+	}
+
+	async complete<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
+	): Promise<LLMResponse<T>> {
+		const request = describeRequest(messages, model, schema, params, tools, options, this.target);
+		const key = await requestKey(request);
+
+		if (this.mode !== 'record') {
+			const entry = await this.cassette.get(key);
+			if (entry) {
+				return {
+					parsed: entry.response.parsed as T | null,
+					text: entry.response.text,
+					usage: entry.response.usage,
+					error: restoreError(entry.response.error),
+					...(entry.response.toolCalls ? { toolCalls: entry.response.toolCalls } : {}),
+					...(entry.response.logprobs ? { logprobs: entry.response.logprobs } : {}),
+				};
+			}
+			if (this.mode === 'replay') {
+				return {
+					parsed: null,
+					text: null,
+					usage: null,
+					error: new ReplayMissError(key, this.cassette.path),
+				};
+			}
+		}
+
+		const response = await this.getInner().complete(messages, model, schema, params, tools, options);
+		if (!isRecordable(response.error)) {
+			return response;
+		}
+
+		await this.cassette.set(key, {
+			request,
+			response: {
+				parsed: response.parsed,
+				text: response.text,
+				usage: response.usage,
+				error: response.error
+					? {
+						name: response.error.name,
+						message: response.error.message,
+						...(response.error instanceof LLMError ? { kind: response.error.kind } : {}),
+					}
+					: null,
+				toolCalls: response.toolCalls,
+				logprobs: response.logprobs,
+			},
+		});
+
+		return response;
+	}
+}
@@ -0,0 +1,405 @@
+/**
+ * Compatibility of Zod schemas with the structured output modes of each provider.
+ *
+ * Providers accept different subsets of JSON Schema:
+ * - OpenAI strict mode requires every property to be listed in `required` and
+ *   objects to have `additionalProperties: false`, so optional fields and records
+ *   (objects with arbitrary keys) can't be expressed directly.
+ * - Gemini expects OpenAPI 3.0 schemas and ignores `additionalProperties`.
+ * - Anthropic accepts plain JSON Schema.
+ *
+ * Schemas are rewritten into a wire schema the provider accepts: optional fields
+ * become nullable (OpenAI), and records become arrays of key/value pairs (OpenAI,
+ * Gemini). Responses are converted back and validated against the original schema.
+ * Constructs without an equivalent are reported before sending the request.
+ */
+
+import { z } from '@zod/zod';
+import { UnsupportedSchemaError } from './errors.ts';
+
+/**
+ * Structured output dialect of a provider.
+ */
+export type SchemaDialect = 'openai' | 'gemini' | 'anthropic';
+
+/**
+ * A construct of a schema that a dialect can't represent.
+ */
+export interface SchemaIssue {
+	/** Location in the schema (e.g. 'items[].date'), empty for the root */
+	path: string;
+	message: string;
+}
+
+/**
+ * A Zod schema adapted to the structured output mode of a provider.
+ */
+export interface CompatibleSchema<T> {
+	readonly dialect: SchemaDialect;
+	/** JSON schema of the wire format, as sent to the provider */
+	readonly jsonSchema: Record<string, unknown>;
+	/** Convert a response from the wire format and validate it against the original schema */
+	safeParse(value: unknown): z.ZodSafeParseResult<T>;
+	/** Like safeParse, but throws the ZodError if validation fails */
+	parse(value: unknown): T;
+}
+
+type Decoder = (value: unknown) => unknown;
+
+/**
+ * Sanitizes a JSON schema for OpenAI compatibility.
+ * OpenAI's structured output has strict requirements:
+ * - additionalProperties must be false (not empty object or missing)
+ * - propertyNames is not permitted
+ */
+export function sanitizeSchemaForOpenAI(schema: Record<string, unknown>): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+
+	for (const [key, value] of Object.entries(schema)) {
+		// Remove unsupported keys
+		if (key === 'propertyNames') {
+			continue;
+		}
+
+		// Handle additionalProperties - set to false for strict mode
+		if (key === 'additionalProperties') {
+			result[key] = false;
+			continue;
+		}
+
+		// Recursively sanitize nested objects
+		if (value && typeof value === 'object' && !Array.isArray(value)) {
+			result[key] = sanitizeSchemaForOpenAI(value as Record<string, unknown>);
+		} else if (Array.isArray(value)) {
+			result[key] = value.map((item) =>
+				item && typeof item === 'object' && !Array.isArray(item)
+					? sanitizeSchemaForOpenAI(item as Record<string, unknown>)
+					: item
+			);
+		} else {
+			result[key] = value;
+		}
+	}
+
+	// For object types without additionalProperties, add it as false
+	if (result['type'] === 'object' && !('additionalProperties' in result)) {
+		result['additionalProperties'] = false;
+	}
+
+	return result;
+}
+
+/** Types that JSON Schema can't represent, in any dialect. */
+const UNREPRESENTABLE: ReadonlyArray<[abstract new (...args: never[]) => z.ZodType, string]> = [
+	[z.ZodDate, 'dates (z.date) are not supported, use z.iso.datetime() instead'],
+	[z.ZodBigInt, 'bigints are not supported, use z.number().int() instead'],
+	[z.ZodMap, 'maps are not supported, use z.record() instead'],
+	[z.ZodSet, 'sets are not supported, use z.array() instead'],
+	[z.ZodSymbol, 'symbols are not supported'],
+	[z.ZodUndefined, 'undefined is not supported, use .optional() instead'],
+	[z.ZodVoid, 'void is not supported'],
+	[z.ZodNaN, 'NaN is not supported'],
+	[z.ZodPromise, 'promises are not supported'],
+	[z.ZodCustom, 'custom schemas are not supported'],
+	[z.ZodTransform, 'transforms without an input schema (e.g. z.preprocess) are not supported'],
+];
+
+function isRecordObject(value: unknown): value is Record<string, unknown> {
+	return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Use the description and other metadata of the original schema for its rewritten version.
+ */
+function withMeta<S extends z.ZodType>(wire: S, original: z.ZodType): S {
+	const meta = z.globalRegistry.get(original);
+	if (meta && wire !== original) {
+		z.globalRegistry.add(wire, meta);
+	}
+	return wire;
+}
+
+/**
+ * The value schema of wrappers that are transparent to the model.
+ */
+function innerOf(schema: z.ZodType): z.ZodType | null {
+	if (
+		schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly || schema instanceof z.ZodNonOptional
+	) {
+		return schema.def.innerType as z.ZodType;
+	}
+	if (schema instanceof z.ZodPipe) {
+		return schema.in as z.ZodType;
+	}
+	return null;
+}
+
+/**
+ * Rewrite a schema into the wire format of a dialect, collecting unsupported constructs.
+ */
+function toWire(schema: z.ZodType, dialect: SchemaDialect, path: string, issues: Array<SchemaIssue>): z.ZodType {
+	const strict = dialect === 'openai';
+	const flattenRecords = dialect !== 'anthropic';
+
+	for (const [type, message] of UNREPRESENTABLE) {
+		if (schema instanceof type) {
+			issues.push({ path, message });
+			return schema;
+		}
+	}
+
+	const inner = innerOf(schema);
+	if (inner != null) {
+		return withMeta(toWire(inner, dialect, path, issues), schema);
+	}
+
+	// Fields the model may omit; defaults are filled in when parsing the original schema
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodPrefault) {
+		const value = toWire(schema.def.innerType as z.ZodType, dialect, path, issues);
+		if (!strict) {
+			return withMeta(value.optional(), schema);
+		}
+		return withMeta(value instanceof z.ZodNullable ? value : value.nullable(), schema);
+	}
+
+	if (schema instanceof z.ZodNullable) {
+		const value = toWire(schema.unwrap() as z.ZodType, dialect, path, issues);
+		return value === schema.unwrap() ? schema : withMeta(value.nullable(), schema);
+	}
+
+	if (schema instanceof z.ZodObject) {
+		let changed = false;
+		const shape = Object.fromEntries(
+			Object.entries(schema.shape as Record<string, z.ZodType>).map(([key, field]) => {
+				const wire = toWire(field, dialect, join(path, key), issues);
+				changed ||= wire !== field;
+				return [key, wire];
+			}),
+		);
+		return changed ? withMeta(schema.clone({ ...schema.def, shape }), schema) : schema;
+	}
+
+	if (schema instanceof z.ZodRecord) {
+		const key = toWire(schema.keyType as z.ZodType, dialect, `${path}{key}`, issues);
+		const value = toWire(schema.valueType as z.ZodType, dialect, `${path}{}`, issues);
+		if (flattenRecords) {
+			return withMeta(z.array(z.object({ key, value })), schema);
+		}
+		return value === schema.valueType
+			? schema
+			: withMeta(schema.clone({ ...schema.def, valueType: value }), schema);
+	}
+
+	if (schema instanceof z.ZodArray) {
+		const element = toWire(schema.element as z.ZodType, dialect, `${path}[]`, issues);
+		return element === schema.element ? schema : withMeta(schema.clone({ ...schema.def, element }), schema);
+	}
+
+	if (schema instanceof z.ZodUnion) {
+		const options = (schema.options as Array<z.ZodType>).map((option) => toWire(option, dialect, path, issues));
+		return options.every((option, i) => option === schema.options[i])
+			? schema
+			: withMeta(schema.clone({ ...schema.def, options }), schema);
+	}
+
+	if (schema instanceof z.ZodIntersection && dialect !== 'anthropic') {
+		issues.push({ path, message: 'intersections are not supported, use .extend() instead' });
+	} else if (schema instanceof z.ZodTuple && dialect === 'gemini') {
+		issues.push({ path, message: 'tuples are not supported, use an object instead' });
+	} else if (schema instanceof z.ZodLazy && dialect === 'gemini') {
+		issues.push({ path, message: 'recursive schemas are not supported' });
+	} else if ((schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) && dialect !== 'anthropic') {
+		issues.push({ path, message: 'values without a type (z.any, z.unknown) are not supported' });
+	}
+
+	return schema;
+}
+
+/**
+ * Build the function converting wire values back to the original format, or null if none is needed.
+ * Values already in the original format pass through, so the decoder doesn't depend on the dialect.
+ */
+function toDecoder(schema: z.ZodType): Decoder | null {
+	const inner = innerOf(schema);
+	if (inner != null) {
+		return toDecoder(inner);
+	}
+
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodPrefault) {
+		const value = schema.def.innerType as z.ZodType;
+		const decode = toDecoder(value);
+		const keepNull = value instanceof z.ZodNullable;
+		return (v) => v === null ? (keepNull ? null : undefined) : decode ? decode(v) : v;
+	}
+
+	if (schema instanceof z.ZodNullable) {
+		const decode = toDecoder(schema.unwrap() as z.ZodType);
+		return decode && ((v) => v === null ? null : decode(v));
+	}
+
+	if (schema instanceof z.ZodObject) {
+		const fields = Object.entries(schema.shape as Record<string, z.ZodType>)
+			.map(([key, field]) => [key, toDecoder(field)] as const)
+			.filter((entry): entry is [string, Decoder] => entry[1] != null);
+		if (fields.length === 0) {
+			return null;
+		}
+
+		return (v) => {
+			if (!isRecordObject(v)) {
+				return v;
+			}
+			const result = { ...v };
+			for (const [key, decode] of fields) {
+				if (key in result) {
+					const decoded = decode(result[key]);
+					if (decoded === undefined) {
+						delete result[key];
+					} else {
+						result[key] = decoded;
+					}
+				}
+			}
+			return result;
+		};
+	}
+
+	if (schema instanceof z.ZodRecord) {
+		const decode = toDecoder(schema.valueType as z.ZodType) ?? ((v: unknown) => v);
+		return (v) => {
+			if (Array.isArray(v)) {
+				// Entries still missing their key (e.g. in partial streams) are left out
+				return Object.fromEntries(
+					v.filter((entry) => isRecordObject(entry) && ['string', 'number'].includes(typeof entry.key))
+						.map((entry) => [entry.key, decode(entry.value)]),
+				);
+			}
+			return isRecordObject(v)
+				? Object.fromEntries(Object.entries(v).map(([k, value]) => [k, decode(value)]))
+				: v;
+		};
+	}
+
+	if (schema instanceof z.ZodArray) {
+		const decode = toDecoder(schema.element as z.ZodType);
+		return decode && ((v) => Array.isArray(v) ? v.map(decode) : v);
+	}
+
+	if (schema instanceof z.ZodUnion) {
+		const options = schema.options as Array<z.ZodType>;
+		const decoders = options.map(toDecoder);
+		if (decoders.every((decode) => decode == null)) {
+			return null;
+		}
+
+		// The first option the decoded value is valid for
+		return (v) => {
+			for (const [i, option] of options.entries()) {
+				const decoded = decoders[i] ? decoders[i](v) : v;
+				if (option.safeParse(decoded).success) {
+					return decoded;
+				}
+			}
+			return v;
+		};
+	}
+
+	return null;
+}
+
+function toJSONSchema(wire: z.ZodType, dialect: SchemaDialect): Record<string, unknown> {
+	if (dialect === 'gemini') {
+		// Gemini rejects JSON Schema root fields like `$schema`
+		return z.toJSONSchema(wire, { target: 'openapi-3.0' }) as Record<string, unknown>;
+	}
+
+	const { $schema: _, ...jsonSchema } = z.toJSONSchema(wire, { target: 'draft-7' }) as Record<string, unknown>;
+	return dialect === 'openai' ? sanitizeSchemaForOpenAI(jsonSchema) : jsonSchema;
+}
+
+const decoders = new WeakMap<z.ZodType, Decoder | null>();
+const compatibleSchemas = new WeakMap<z.ZodType, Map<SchemaDialect, CompatibleSchema<unknown>>>();
+
+function getDecoder(schema: z.ZodType): Decoder | null {
+	if (!decoders.has(schema)) {
+		decoders.set(schema, toDecoder(schema));
+	}
+	return decoders.get(schema)!;
+}
+
+/**
+ * List the constructs of a schema that a dialect can't represent (empty if it's fully supported).
+ */
+export function findSchemaIssues(schema: z.ZodType, dialect: SchemaDialect): Array<SchemaIssue> {
+	const issues: Array<SchemaIssue> = [];
+	toWire(schema, dialect, '', issues);
+	return issues;
+}
+
+/**
+ * Convert a structured response from any provider's wire format to the format of the original schema.
+ * Doesn't validate the value, so it also applies to partial objects of streamed responses.
+ */
+export function decodeStructuredOutput(schema: z.ZodType, value: unknown): unknown {
+	const decode = getDecoder(schema);
+	return decode ? decode(value) : value;
+}
+
+/**
+ * Adapt a Zod schema to the structured output mode of a provider.
+ * Results are cached per schema and dialect.
+ *
+ * @throws {UnsupportedSchemaError} if the schema has constructs the dialect can't represent
+ *
+ * @example
+ * const compatible = toCompatibleSchema(z.object({ scores: z.record(z.string(), z.number()) }), 'openai');
+ * compatible.jsonSchema; // scores as an array of { key, value } objects
+ * compatible.parse({ scores: [{ key: 'a', value: 1 }] }); // { scores: { a: 1 } }
+ */
+export function toCompatibleSchema<T>(schema: z.ZodType<T>, dialect: SchemaDialect): CompatibleSchema<T> {
+	let byDialect = compatibleSchemas.get(schema);
+	const cached = byDialect?.get(dialect);
+	if (cached) {
+		return cached as CompatibleSchema<T>;
+	}
+
+	const issues: Array<SchemaIssue> = [];
+	const wire = toWire(schema, dialect, '', issues);
+	if (issues.length > 0) {
+		throw new UnsupportedSchemaError(dialect, issues);
+	}
+
+	let jsonSchema: Record<string, unknown>;
+	try {
+		jsonSchema = toJSONSchema(wire, dialect);
+	} catch (error) {
+		throw new UnsupportedSchemaError(dialect, [
+			{ path: '', message: error instanceof Error ? error.message : String(error) },
+		]);
+	}
+
+	const safeParse = (value: unknown) => schema.safeParse(decodeStructuredOutput(schema, value));
+	const compatible: CompatibleSchema<T> = {
+		dialect,
+		jsonSchema,
+		safeParse,
+		parse(value) {
+			const result = safeParse(value);
+			if (!result.success) {
+				throw result.error;
+			}
+			return result.data;
+		},
+	};
+
+	if (!byDialect) {
+		byDialect = new Map();
+		compatibleSchemas.set(schema, byDialect);
+	}
+	byDialect.set(dialect, compatible as CompatibleSchema<unknown>);
+	return compatible;
+}
@@ -0,0 +1,24 @@
+/**
+ * Helpers for function calling, shared by the provider implementations.
+ */
+
+import { z } from '@zod/zod';
+import type { ToolDefinition } from './types.ts';
+
+/**
+ * Convert a tool's Zod parameter schema to a plain JSON schema object.
+ */
+export function toParametersSchema(
+	tool: ToolDefinition,
+	target: 'draft-7' | 'openapi-3.0' = 'draft-7',
+): Record<string, unknown> {
+	const { $schema: _, ...schema } = z.toJSONSchema(tool.parameters, { target }) as Record<string, unknown>;
+	return schema;
+}
+
+/**
+ * Generate a call ID for providers that don't return one.
+ */
+export function generateToolCallId(): string {
+	return `call_${crypto.randomUUID().replaceAll('-', '').slice(0, 24)}`;
+}
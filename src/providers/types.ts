@@ -8,12 +8,168 @@
 import type { z } from '@zod/zod';
 import type { TokenUsage } from '../response.ts';
 
+/**
+ * A text content part.
+ */
+export interface TextPart {
+	type: 'text';
+	text: string;
+}
+
+/**
+ * An image content part, given either by URL (http(s) or data URL) or as base64 data.
+ */
+export interface ImagePart {
+	type: 'image';
+	/** Image URL (http(s) or data URL) */
+	url?: string;
+	/** Base64-encoded image data (requires mimeType) */
+	data?: string;
+	/** MIME type, e.g. 'image/png' */
+	mimeType?: string;
+	/** Level of detail requested from the model (OpenAI only, default: 'auto') */
+	detail?: 'low' | 'high' | 'auto';
+}
+
+/**
+ * A file content part (e.g., a PDF), given either by URL or as base64 data.
+ */
+export interface FilePart {
+	type: 'file';
+	/** File URL (http(s) or data URL) */
+	url?: string;
+	/** Base64-encoded file data (requires mimeType) */
+	data?: string;
+	/** MIME type, e.g. 'application/pdf' */
+	mimeType?: string;
+	/** Optional file name shown to the model */
+	filename?: string;
+}
+
+/**
+ * A part of a multimodal message.
+ */
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+/**
+ * Message content: plain text or a list of (multimodal) content parts.
+ */
+export type MessageContent = string | Array<ContentPart>;
+
+/**
+ * A function call requested by the model.
+ */
+export interface ToolCall {
+	/** Call ID used to match the result (generated if the provider doesn't supply one) */
+	id: string;
+	/** Name of the function */
+	name: string;
+	/** Arguments as parsed JSON */
+	arguments: unknown;
+	/** Opaque provider signature that must be sent back with the call (Gemini thought signatures) */
+	signature?: string;
+}
+
+/**
+ * Declaration of a function the model may call.
+ */
+export interface ToolDefinition {
+	name: string;
+	description?: string;
+	/** Zod schema of the function's arguments (must be an object schema) */
+	parameters: z.ZodType;
+}
+
+/**
+ * Record of a function call executed while answering a request.
+ */
+export interface ToolInvocation {
+	id: string;
+	name: string;
+	arguments: unknown;
+	/** Value returned by the handler (null on error) */
+	result: unknown;
+	/** Error message if the call failed (unknown function, invalid arguments or handler error) */
+	error: string | null;
+}
+
+/**
+ * What was cut from an input to fit the prompt into the model's context window.
+ */
+export interface PromptCuts {
+	/** Fields whose values were shortened */
+	truncatedFields: Array<string>;
+	/** Fields removed from all records */
+	droppedFields: Array<string>;
+	/** Number of records removed from the end of the input */
+	droppedRecords: number;
+	/** Whether a text input was shortened */
+	truncatedText: boolean;
+}
+
+/**
+ * Report of the prompt budgeting step, present when the input had to be cut.
+ * Token counts are estimates.
+ */
+export interface PromptBudgetReport extends PromptCuts {
+	/** Tokens available for the prompt */
+	budgetTokens: number;
+	/** Tokens of the prompt before cutting */
+	estimatedTokens: number;
+	/** Tokens of the prompt sent (may still exceed the budget if the input couldn't be cut further) */
+	fittedTokens: number;
+}
+
+/**
+ * Log probability of a generated token, and of the most likely alternatives at its position.
+ */
+export interface TokenLogprob {
+	token: string;
+	logprob: number;
+	/** Most likely tokens at this position (including the generated one), most likely first */
+	topLogprobs: Array<{ token: string; logprob: number }>;
+}
+
+/**
+ * Details of a result combined from several samples (see EnsembleOptions).
+ */
+export interface EnsembleStats {
+	/** Number of samples requested */
+	samples: number;
+	/** Number of samples that produced a result, and were combined */
+	valid: number;
+	/** Standard deviation of numeric results */
+	stdDev?: number;
+	/** The calls of the samples, in order (several for a sample that fell back to other models) */
+	calls: Array<ModelCall>;
+}
+
 /**
  * A message in an LLM conversation.
+ *
+ * Besides regular turns, a conversation may contain assistant messages requesting
+ * function calls (`toolCalls`) and 'tool' messages carrying their results.
  */
 export interface Message {
-	role: 'system' | 'user' | 'assistant';
-	content: string;
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	content: MessageContent;
+	/** Function calls requested by the model (assistant messages only) */
+	toolCalls?: Array<ToolCall>;
+	/** ID of the call this message answers (tool messages only) */
+	toolCallId?: string;
+	/** Name of the function this message answers (tool messages only) */
+	toolName?: string;
+}
+
+/**
+ * A call made on one model to answer an input, e.g. one sample of an ensemble, or a call on a model
+ * tried before falling back to another one.
+ */
+export interface ModelCall {
+	model: string;
+	usage: TokenUsage | null;
+	/** True if served from the response cache */
+	cached: boolean;
 }
 
 /**
@@ -24,13 +180,64 @@ export interface LLMResponse<T> {
 	text: string | null;
 	usage: TokenUsage | null;
 	error: Error | null;
+	/** Function calls requested by the model instead of a final answer */
+	toolCalls?: Array<ToolCall>;
+	/** Function calls executed before the final answer (when tools were provided) */
+	toolTrace?: Array<ToolInvocation>;
+	/** True if served from the response cache, i.e. no tokens were billed for this call */
+	cached?: boolean;
+	/** Model that produced the response (set by askLLMSafe; differs from the requested one after a fallback) */
+	model?: string;
+	/** The call on each model tried, set by askLLMSafe after a fallback (`usage` is their total) */
+	calls?: Array<ModelCall>;
+	/** What was cut from the input to fit the model's context window (set by tools) */
+	budget?: PromptBudgetReport;
+	/** Log probabilities of the output tokens, if requested (RequestOptions.logprobs) and supported */
+	logprobs?: Array<TokenLogprob>;
+	/** Certainty of the result between 0 and 1, for tools estimating it (e.g. with ensembles) */
+	confidence?: number;
+	/** Probability of each possible result, for tools estimating it (e.g. of each label from logprobs) */
+	distribution?: Record<string, number>;
+	/** How the result was combined from several samples (set by tools in ensemble mode) */
+	ensemble?: EnsembleStats;
 }
 
+/**
+ * Recursively optional version of T, describing partially streamed structured output.
+ */
+export type DeepPartial<T> = T extends Array<infer U> ? Array<DeepPartial<U>>
+	: T extends object ? { [K in keyof T]?: DeepPartial<T[K]> }
+	: T;
+
+/**
+ * Event emitted while streaming a completion.
+ * - 'delta': a chunk of raw response text
+ * - 'partial': the structured output parsed so far (only with a schema)
+ * - 'done': the final, validated response including usage
+ */
+export type LLMStreamEvent<T, R = T> =
+	| { type: 'delta'; text: string }
+	| { type: 'partial'; partial: DeepPartial<T> }
+	| { type: 'done'; response: LLMResponse<R> };
+
 /**
  * Provider-specific parameters passed through to the underlying API.
  */
 export type ProviderParams = Record<string, unknown>;
 
+/**
+ * Per-request options of a provider call.
+ */
+export interface RequestOptions {
+	/** Abort the in-flight request */
+	signal?: AbortSignal;
+	/**
+	 * Return the log probabilities of the output tokens, with this many alternatives per token.
+	 * Ignored by providers and models that don't support it.
+	 */
+	logprobs?: number;
+}
+
 /**
  * Interface for LLM providers.
  */
@@ -45,13 +252,59 @@ export interface LLMProvider {
 	 * @param model - The model identifier
 	 * @param schema - Optional Zod schema for structured output
 	 * @param params - Provider-specific parameters
+	 * @param tools - Optional functions the model may call. If it does, the response
+	 *   carries `toolCalls` and no parsed output.
+	 * @param options - Request options such as an abort signal
 	 */
 	complete<T>(
 		messages: Message[],
 		model: string,
 		schema: z.ZodType<T> | null,
-		params?: ProviderParams
+		params?: ProviderParams,
+		tools?: Array<ToolDefinition>,
+		options?: RequestOptions,
 	): Promise<LLMResponse<T>>;
+
+	/**
+	 * Stream a completion request (optional).
+	 * Yields raw text deltas and returns the token usage once the response is complete.
+	 * Parsing and validation of the streamed text is left to the caller.
+	 */
+	stream?<T>(
+		messages: Message[],
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		options?: RequestOptions,
+	): AsyncGenerator<string, TokenUsage | null>;
+
+	/**
+	 * Submit requests to the provider's offline batch API (optional).
+	 * Batch jobs complete asynchronously (within 24 hours) at a discount.
+	 *
+	 * @returns The ID of the batch job.
+	 */
+	submitBatch?<T>(
+		requests: Array<Message[]>,
+		model: string,
+		schema: z.ZodType<T> | null,
+		params?: ProviderParams,
+		options?: RequestOptions,
+	): Promise<string>;
+
+	/**
+	 * Get the results of a batch job (optional), or null while the job is still running.
+	 * Results are in the order of the submitted requests. Requests without a result
+	 * (e.g. because the job failed or expired) carry an error.
+	 *
+	 * @param count - Number of submitted requests.
+	 */
+	getBatchResults?<T>(
+		jobId: string,
+		count: number,
+		schema: z.ZodType<T> | null,
+		options?: RequestOptions,
+	): Promise<Array<LLMResponse<T>> | null>;
 }
 
 /**
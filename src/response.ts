@@ -5,7 +5,9 @@
  * adding usage aggregation capabilities.
  */
 
-import { calculateCost } from './providers/pricing.ts';
+import { calculateCost, getBatchPricing, type ModelPricing } from './providers/pricing.ts';
+import type { ModelCall } from './providers/types.ts';
+import { log } from './observability.ts';
 
 /**
  * Token usage from a single LLM call.
@@ -14,26 +16,146 @@ export interface TokenUsage {
 	inputTokens: number;
 	outputTokens: number;
 	totalTokens: number;
+	/** Input tokens spent on images (included in inputTokens), when reported by the provider */
+	imageInputTokens?: number;
+	/** Input tokens read from the provider's prompt cache (included in inputTokens) */
+	cachedInputTokens?: number;
+	/** Input tokens written to the provider's prompt cache (included in inputTokens) */
+	cacheWriteInputTokens?: number;
+	/** Output tokens spent on reasoning (included in outputTokens) */
+	reasoningTokens?: number;
+}
+
+/** Optional token counts, summed only if reported by at least one call */
+const DETAIL_TOKEN_KEYS = [
+	'imageInputTokens',
+	'cachedInputTokens',
+	'cacheWriteInputTokens',
+	'reasoningTokens',
+] as const;
+
+/**
+ * Sum token usages, ignoring missing entries. Returns null if none are available.
+ */
+export function sumTokenUsage(usages: Array<TokenUsage | null | undefined>): TokenUsage | null {
+	const valid = usages.filter((u): u is TokenUsage => u != null);
+	if (valid.length === 0) {
+		return null;
+	}
+
+	const total: TokenUsage = {
+		inputTokens: valid.reduce((sum, u) => sum + u.inputTokens, 0),
+		outputTokens: valid.reduce((sum, u) => sum + u.outputTokens, 0),
+		totalTokens: valid.reduce((sum, u) => sum + u.totalTokens, 0),
+	};
+
+	for (const key of DETAIL_TOKEN_KEYS) {
+		if (valid.some((u) => u[key] != null)) {
+			total[key] = valid.reduce((sum, u) => sum + (u[key] ?? 0), 0);
+		}
+	}
+
+	return total;
+}
+
+/**
+ * Cost per token category in USD, keyed like ModelPricing.
+ */
+export interface CostBreakdown {
+	/** Uncached input tokens (including image tokens) */
+	input: number;
+	/** Input tokens read from the prompt cache */
+	cacheRead: number;
+	/** Input tokens written to the prompt cache */
+	cacheWrite: number;
+	/** Output tokens, excluding reasoning */
+	output: number;
+	/** Reasoning tokens */
+	reasoning: number;
 }
 
 /**
  * Cost calculation result in USD.
  */
 export interface UsageCost {
+	/** Cost of all input tokens (input, cacheRead and cacheWrite in the breakdown) */
 	inputCost: number;
+	/** Cost of all output tokens (output and reasoning in the breakdown) */
 	outputCost: number;
 	totalCost: number;
+	breakdown: CostBreakdown;
 	currency: 'USD';
 }
 
 /**
- * Aggregated usage across multiple LLM calls.
+ * Usage of the calls served by a single model.
  */
-export interface AggregatedUsage {
+export interface ModelUsage {
 	tokens: TokenUsage;
+	/** Cost of billed calls (cache hits are excluded) */
 	cost: UsageCost | null;
 	callCount: number;
+	/** Number of calls served from the response cache */
+	cacheHits: number;
+}
+
+/**
+ * Aggregated usage across multiple LLM calls.
+ */
+export interface AggregatedUsage extends ModelUsage {
+	/** The requested (primary) model */
 	model: string | null;
+	/** Usage per model that actually served calls (differs from `model` after fallbacks) */
+	byModel: Record<string, ModelUsage>;
+}
+
+/**
+ * Per-item details of a batch, in the same order as the results.
+ */
+export interface BatchItemDetails {
+	/** Whether each item was served from the response cache */
+	cacheHits?: Array<boolean>;
+	/** Model that served each item (defaults to the batch model) */
+	models?: Array<string | null | undefined>;
+	/** Whether each item was served by an offline batch job, and so is billed at batch rates */
+	offline?: Array<boolean>;
+	/** Certainty of each result between 0 and 1, for tools estimating it */
+	confidence?: Array<number | undefined>;
+	/** Probability of each possible result, for tools estimating it (e.g. Classifier from logprobs) */
+	distributions?: Array<Record<string, number> | undefined>;
+	/**
+	 * Calls of items answered by several samples (ensembles) or after falling back to other models,
+	 * counted instead of the item's usage
+	 */
+	calls?: Array<Array<ModelCall> | undefined>;
+	/**
+	 * Usage of failed offline batch attempts of items re-run in real time, billed at batch rates
+	 * on top of the item's usage
+	 */
+	failedOffline?: Array<TokenUsage | null | undefined>;
+}
+
+/**
+ * Sum costs, or null if any of them is unknown.
+ */
+export function sumCosts(costs: Array<UsageCost | null>): UsageCost | null {
+	if (costs.some((c) => c == null)) {
+		return null;
+	}
+	const sum = (cost: (c: UsageCost) => number) => costs.reduce((total, c) => total + cost(c!), 0);
+	return {
+		inputCost: sum((c) => c.inputCost),
+		outputCost: sum((c) => c.outputCost),
+		totalCost: sum((c) => c.totalCost),
+		breakdown: {
+			input: sum((c) => c.breakdown.input),
+			cacheRead: sum((c) => c.breakdown.cacheRead),
+			cacheWrite: sum((c) => c.breakdown.cacheWrite),
+			output: sum((c) => c.breakdown.output),
+			reasoning: sum((c) => c.breakdown.reasoning),
+		},
+		currency: 'USD',
+	};
 }
 
 /**
@@ -46,16 +168,22 @@ export class BatchResponse<T> implements Iterable<T> {
 	readonly results: ReadonlyArray<T>;
 	private readonly _tokenUsages: Array<TokenUsage | undefined> | null;
 	private readonly _model: string | null;
+	private readonly _pricing: ModelPricing | null;
+	private readonly _details: BatchItemDetails;
 
 	constructor(
 		results: T[],
 		tokenUsages?: Array<TokenUsage | null | undefined>,
-		model?: string
+		model?: string,
+		pricing?: ModelPricing,
+		details: BatchItemDetails = {},
 	) {
 		this.results = results;
 		// Normalize null to undefined for internal storage, or null if not provided
-		this._tokenUsages = tokenUsages ? tokenUsages.map(u => u ?? undefined) : null;
+		this._tokenUsages = tokenUsages ? tokenUsages.map((u) => u ?? undefined) : null;
 		this._model = model ?? null;
+		this._pricing = pricing ?? null;
+		this._details = details;
 	}
 
 	// Array-like interface
@@ -74,21 +202,44 @@ export class BatchResponse<T> implements Iterable<T> {
 
 	map<U>(fn: (value: T, index: number) => U): BatchResponse<U> {
 		const mapped = this.results.map((item, i) => fn(item, i));
-		return new BatchResponse(mapped, this._tokenUsages ?? undefined, this._model ?? undefined);
+		return new BatchResponse(
+			mapped,
+			this._tokenUsages ?? undefined,
+			this._model ?? undefined,
+			this._pricing ?? undefined,
+			this._details,
+		);
 	}
 
 	filter(fn: (value: T, index: number) => boolean): BatchResponse<T> {
 		const filtered: T[] = [];
 		const usages: Array<TokenUsage | undefined> | undefined = this._tokenUsages ? [] : undefined;
+		const { cacheHits, models, offline, confidence, distributions, calls, failedOffline } = this._details;
+		const details: BatchItemDetails = {
+			cacheHits: cacheHits ? [] : undefined,
+			models: models ? [] : undefined,
+			offline: offline ? [] : undefined,
+			confidence: confidence ? [] : undefined,
+			distributions: distributions ? [] : undefined,
+			calls: calls ? [] : undefined,
+			failedOffline: failedOffline ? [] : undefined,
+		};
 
 		this.results.forEach((item, i) => {
 			if (fn(item, i)) {
 				filtered.push(item);
 				usages?.push(this._tokenUsages![i]);
+				details.cacheHits?.push(cacheHits![i]);
+				details.models?.push(models![i]);
+				details.offline?.push(offline![i]);
+				details.confidence?.push(confidence![i]);
+				details.distributions?.push(distributions![i]);
+				details.calls?.push(calls![i]);
+				details.failedOffline?.push(failedOffline![i]);
 			}
 		});
 
-		return new BatchResponse(filtered, usages, this._model ?? undefined);
+		return new BatchResponse(filtered, usages, this._model ?? undefined, this._pricing ?? undefined, details);
 	}
 
 	forEach(fn: (value: T, index: number) => void): void {
@@ -126,7 +277,12 @@ export class BatchResponse<T> implements Iterable<T> {
 
 	/**
 	 * Get aggregated usage across all calls in this batch.
-	 * Cost is calculated lazily only if model and costCalculator were provided.
+	 * Cost is calculated lazily only if a model was provided, pricing each call with the
+	 * model that served it. Custom pricing, if given, applies to the batch model.
+	 * Tokens include calls served from the response cache, but their cost is excluded.
+	 * Items served by offline batch jobs, and failed offline attempts of re-run items, are priced at batch rates.
+	 * Items of ensembles count each of their samples' calls, and items that fell back to other models
+	 * the call on each model they tried.
 	 * Returns null if usage tracking was not enabled.
 	 */
 	usage(): AggregatedUsage | null {
@@ -134,22 +290,80 @@ export class BatchResponse<T> implements Iterable<T> {
 			return null;
 		}
 
-		const valid = this._tokenUsages.filter((u): u is TokenUsage => u !== undefined);
+		const empty: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+		const { cacheHits, models, offline, calls, failedOffline } = this._details;
 
-		const aggregatedTokens: TokenUsage = {
-			inputTokens: valid.reduce((sum, u) => sum + u.inputTokens, 0),
-			outputTokens: valid.reduce((sum, u) => sum + u.outputTokens, 0),
-			totalTokens: valid.reduce((sum, u) => sum + u.totalTokens, 0),
+		// Group calls by the model that served them
+		const groups = new Map<
+			string,
+			{ usages: Array<TokenUsage>; billed: Array<TokenUsage>; billedOffline: Array<TokenUsage> }
+		>();
+		const valid: Array<TokenUsage> = [];
+		let cacheHitCount = 0;
+
+		const addCall = (usage: TokenUsage, model: string | null, cacheHit: boolean, isOffline: boolean) => {
+			valid.push(usage);
+			if (cacheHit) {
+				cacheHitCount++;
+			}
+
+			if (model == null) {
+				return;
+			}
+			let group = groups.get(model);
+			if (!group) {
+				group = { usages: [], billed: [], billedOffline: [] };
+				groups.set(model, group);
+			}
+			group.usages.push(usage);
+			if (isOffline) {
+				group.billedOffline.push(usage);
+			} else if (!cacheHit) {
+				group.billed.push(usage);
+			}
 		};
 
+		this._tokenUsages.forEach((usage, i) => {
+			if (calls?.[i]) {
+				for (const call of calls[i]) {
+					if (call.usage) {
+						addCall(call.usage, call.model, call.cached, false);
+					}
+				}
+			} else if (usage !== undefined) {
+				addCall(usage, models?.[i] ?? this._model, cacheHits?.[i] ?? false, offline?.[i] ?? false);
+			}
+			if (failedOffline?.[i]) {
+				addCall(failedOffline[i]!, this._model, false, true);
+			}
+		});
+
+		const byModel: Record<string, ModelUsage> = {};
+		for (const [model, { usages, billed, billedOffline }] of groups) {
+			const pricing = model === this._model ? this._pricing ?? undefined : undefined;
+			const costs = [calculateCost(model, sumTokenUsage(billed) ?? empty, pricing)];
+			if (billedOffline.length > 0) {
+				const batchPricing = getBatchPricing(model, pricing);
+				costs.push(batchPricing ? calculateCost(model, sumTokenUsage(billedOffline)!, batchPricing) : null);
+			}
+			byModel[model] = {
+				tokens: sumTokenUsage(usages) ?? empty,
+				cost: sumCosts(costs),
+				callCount: usages.length,
+				cacheHits: usages.length - billed.length - billedOffline.length,
+			};
+		}
+
 		// Calculate cost if we have a model
-		const cost = this._model ? calculateCost(this._model, aggregatedTokens) : null;
+		const cost = this._model ? sumCosts(Object.values(byModel).map((u) => u.cost)) : null;
 
 		return {
-			tokens: aggregatedTokens,
+			tokens: sumTokenUsage(valid) ?? empty,
 			cost,
 			callCount: valid.length,
+			cacheHits: cacheHitCount,
 			model: this._model,
+			byModel,
 		};
 	}
 
@@ -160,6 +374,24 @@ export class BatchResponse<T> implements Iterable<T> {
 		return this._tokenUsages?.[index];
 	}
 
+	/**
+	 * Get the confidence of the result at an index (between 0 and 1), if the tool estimated it.
+	 *
+	 * @example
+	 * // Results to review by hand
+	 * const uncertain = results.filter((_, i) => (results.confidenceAt(i) ?? 1) < 0.6);
+	 */
+	confidenceAt(index: number): number | undefined {
+		return this._details.confidence?.[index];
+	}
+
+	/**
+	 * Get the probability of each possible result at an index, if the tool estimated it.
+	 */
+	distributionAt(index: number): Record<string, number> | undefined {
+		return this._details.distributions?.[index];
+	}
+
 	/**
 	 * Check if any usage info is available.
 	 */
@@ -167,3 +399,62 @@ export class BatchResponse<T> implements Iterable<T> {
 		return this._tokenUsages?.some((u) => u !== undefined) ?? false;
 	}
 }
+
+/**
+ * Tracks the cumulative cost of a batch's calls and aborts the batch once it exceeds a limit.
+ * Calls of models without known pricing can't be counted, which is logged once per model.
+ */
+export class CostGuard {
+	private spent = 0;
+	private readonly controller = new AbortController();
+	private readonly unpriced = new Set<string>();
+	/** Aborted once the limit is exceeded, or when the parent signal is aborted */
+	readonly signal: AbortSignal;
+
+	/**
+	 * @param maxCostUSD - Cost limit in USD, or undefined for no limit.
+	 * @param parent - Signal aborting the batch for other reasons.
+	 */
+	constructor(readonly maxCostUSD: number | undefined, parent?: AbortSignal) {
+		this.signal = parent ? AbortSignal.any([parent, this.controller.signal]) : this.controller.signal;
+	}
+
+	/** Cost of the calls counted so far in USD */
+	get spentUSD(): number {
+		return this.spent;
+	}
+
+	/** Whether the batch was stopped because of the limit */
+	get exceeded(): boolean {
+		return this.controller.signal.aborted;
+	}
+
+	/**
+	 * Count the cost of a call (skip calls served from the response cache).
+	 *
+	 * @param pricing - Custom pricing of the model.
+	 */
+	add(model: string, usage: TokenUsage | null | undefined, pricing?: ModelPricing): void {
+		if (this.maxCostUSD == null || usage == null || this.exceeded) {
+			return;
+		}
+
+		const cost = calculateCost(model, usage, pricing);
+		if (cost == null) {
+			if (!this.unpriced.has(model)) {
+				this.unpriced.add(model);
+				log.warn(`maxCostUSD can't account for calls of ${model}, which has no known pricing`);
+			}
+			return;
+		}
+
+		this.spent += cost.totalCost;
+		if (this.spent > this.maxCostUSD) {
+			const message = `Batch stopped after exceeding maxCostUSD of $${this.maxCostUSD} ($${
+				this.spent.toFixed(4)
+			} spent)`;
+			log.warn(message);
+			this.controller.abort(new Error(message));
+		}
+	}
+}
@@ -0,0 +1,90 @@
+/**
+ * Retry policies for LLM calls.
+ *
+ * A policy decides, based on the classified error, whether a failed call is
+ * retried and how long to wait before the next attempt.
+ */
+
+import type { LLMError, LLMErrorKind } from './providers/errors.ts';
+
+/**
+ * Decides whether and when to retry a failed LLM call.
+ */
+export interface RetryPolicy {
+	/** Whether to retry after the given failed attempt (0-based) */
+	shouldRetry(error: LLMError, attempt: number): boolean;
+	/** Delay in milliseconds before retrying after the given failed attempt (0-based) */
+	delayMs(error: LLMError, attempt: number): number;
+}
+
+/**
+ * Options for exponential backoff.
+ */
+export interface BackoffOptions {
+	/** Delay after the first failure (default: 1000) */
+	initialDelayMs?: number;
+	/** Upper bound of the exponential delay (default: 30000) */
+	maxDelayMs?: number;
+	/** Growth factor of the delay per attempt (default: 2) */
+	multiplier?: number;
+	/** Fraction of the delay that is randomized, from 0 to 1 (default: 0.5) */
+	jitter?: number;
+	/** Give up instead of waiting if the server asks to retry after longer than this (default: 60000) */
+	maxRetryAfterMs?: number;
+	/** Error kinds that are retried (default: RETRYABLE_ERROR_KINDS) */
+	retryOn?: ReadonlyArray<LLMErrorKind>;
+}
+
+/**
+ * Error kinds retried by default. Authentication, quota, invalid request,
+ * content filter and abort errors are fatal, since retrying can't fix them.
+ */
+export const RETRYABLE_ERROR_KINDS: ReadonlyArray<LLMErrorKind> = [
+	'rate_limit',
+	'server',
+	'timeout',
+	'network',
+	'schema_validation',
+	'unknown',
+];
+
+/**
+ * Create a policy retrying the given error kinds with exponential backoff and jitter.
+ * Server-requested delays (Retry-After) take precedence over the computed backoff.
+ * Schema validation errors are retried immediately, since the model is given
+ * feedback about its previous response instead.
+ */
+export function backoffPolicy({
+	initialDelayMs = 1000,
+	maxDelayMs = 30000,
+	multiplier = 2,
+	jitter = 0.5,
+	maxRetryAfterMs = 60000,
+	retryOn = RETRYABLE_ERROR_KINDS,
+}: BackoffOptions = {}): RetryPolicy {
+	return {
+		shouldRetry(error: LLMError): boolean {
+			if (!retryOn.includes(error.kind)) {
+				return false;
+			}
+			return error.retryAfterMs == null || error.retryAfterMs <= maxRetryAfterMs;
+		},
+
+		delayMs(error: LLMError, attempt: number): number {
+			if (error.kind === 'schema_validation') {
+				return 0;
+			}
+			if (error.retryAfterMs != null) {
+				return error.retryAfterMs;
+			}
+
+			const delay = Math.min(initialDelayMs * multiplier ** attempt, maxDelayMs);
+			return delay * (1 - jitter * Math.random());
+		},
+	};
+}
+
+/**
+ * Default policy: exponential backoff for transient errors, no retries for fatal ones.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = backoffPolicy();
@@ -1,5 +1,6 @@
 import { z } from '@zod/zod';
 
+import type { Conversation } from '../conversation.ts';
 import type { Brand } from './brand.schema.ts';
 import type { Funnel } from './funnel.schema.ts';
 import type { Persona } from './persona.schema.ts';
@@ -8,7 +9,7 @@ export const KeywordSchema = z.string().describe('A search keyword phrase');
 
 export const KeywordsResponseSchema = z.object({
 	keywords: z.array(KeywordSchema).describe('List of keyword phrases for the brand and sector'),
-	explanation: z.string().describe('Brief explanation of the generated keywords and the reasoning behind them')
+	explanation: z.string().describe('Brief explanation of the generated keywords and the reasoning behind them'),
 });
 
 export type Keyword = z.infer<typeof KeywordSchema>;
@@ -45,4 +46,9 @@ export interface KeywordsOptions {
 	personas?: Array<Persona> | null;
 	/** Marketing funnel with stages and categories. */
 	funnel?: Funnel | null;
+	/**
+	 * Ask within this conversation instead of a single call, so later requests (e.g. edits of the
+	 * returned keywords) see the earlier ones. The conversation's model is used instead of `model`.
+	 */
+	conversation?: Conversation | null;
 }
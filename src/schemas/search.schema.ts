@@ -21,6 +21,10 @@ export type SearchOptions = {
 	contextSize?: ContextSize;
 	reasoningEffort?: ReasoningEffort;
 	searchTool?: 'web_search' | 'web_search_preview';
+	/** Abort the in-flight request */
+	signal?: AbortSignal;
+	/** Timeout of each request in milliseconds */
+	timeoutMs?: number;
 };
 
 export type FormattedSearchOptions<T> = SearchOptions & {
@@ -0,0 +1,301 @@
+/**
+ * Prompt templates.
+ *
+ * Templates declare their variables, which are substituted in a single pass: values are
+ * inserted verbatim, even if they contain placeholders themselves (e.g. a record mentioning
+ * "{instructions}"). Rendering fails on missing or undeclared variables instead of sending
+ * prompts with unfilled placeholders. Named templates are kept in a registry by version,
+ * to inspect and hash the prompts tools send.
+ *
+ * Tools' prompts can be replaced through their configuration, or by prompt packs translating
+ * them into other languages.
+ */
+
+/** Placeholders are identifiers in braces, e.g. {record}; other braces (e.g. of JSON) are literal */
+const PLACEHOLDER = /\{([A-Za-z_]\w*)\}/g;
+
+/**
+ * Values of a template's variables.
+ */
+export type PromptValues<V extends string> = Record<V, string | number>;
+
+/**
+ * A template used undeclared variables, or was rendered with missing or extra values.
+ */
+export class PromptTemplateError extends Error {
+	/** Variables without a value (or declared variables the text doesn't use) */
+	readonly missing: Array<string>;
+	/** Values of undeclared variables (or placeholders of undeclared variables in the text) */
+	readonly extra: Array<string>;
+
+	constructor(message: string, missing: Array<string> = [], extra: Array<string> = []) {
+		super(message);
+		this.name = 'PromptTemplateError';
+		this.missing = missing;
+		this.extra = extra;
+	}
+}
+
+/**
+ * Names of the variables a template text uses, in order of first use.
+ */
+export function findPlaceholders(text: string): Array<string> {
+	return [...new Set(Array.from(text.matchAll(PLACEHOLDER), (match) => match[1]))];
+}
+
+/**
+ * Identification of a template in the prompt registry.
+ */
+export interface PromptTemplateInfo {
+	/** Registry name, e.g. 'classifier.single' */
+	name?: string;
+	/** Version of the named template, increased when its text changes (default: 1) */
+	version?: number;
+}
+
+/**
+ * A prompt text with declared variables.
+ *
+ * @example
+ * const greeting = new PromptTemplate('Hello {name}, you are {age}', ['name', 'age']);
+ * greeting.render({ name: '{age}', age: 30 }); // 'Hello {age}, you are 30'
+ */
+export class PromptTemplate<V extends string = string> {
+	readonly text: string;
+	/** Variables still to be given to render() */
+	readonly variables: ReadonlyArray<V>;
+	readonly name?: string;
+	readonly version: number;
+	/** Values bound by partial() */
+	private readonly bound: Readonly<Record<string, string | number>>;
+
+	/**
+	 * @param bound - Values of further variables, fixed for all renders (see partial()).
+	 * @throws PromptTemplateError if the text uses undeclared variables, or doesn't use declared ones.
+	 */
+	constructor(
+		text: string,
+		variables: ReadonlyArray<V>,
+		info: PromptTemplateInfo = {},
+		bound: Record<string, string | number> = {},
+	) {
+		const declared: ReadonlyArray<string> = [...variables, ...Object.keys(bound)];
+		const used = findPlaceholders(text);
+		const undeclared = used.filter((name) => !declared.includes(name));
+		const unused = declared.filter((name) => !used.includes(name));
+		const label = info.name ? `Prompt template ${info.name}` : 'Prompt template';
+
+		if (undeclared.length > 0) {
+			throw new PromptTemplateError(
+				`${label} uses undeclared variables: ${undeclared.join(', ')}`,
+				[],
+				undeclared,
+			);
+		}
+		if (unused.length > 0) {
+			throw new PromptTemplateError(`${label} doesn't use declared variables: ${unused.join(', ')}`, unused);
+		}
+
+		this.text = text;
+		this.variables = [...variables];
+		this.name = info.name;
+		this.version = info.version ?? 1;
+		this.bound = { ...bound };
+	}
+
+	/**
+	 * Fill in the variables in a single pass.
+	 *
+	 * @throws PromptTemplateError if a variable has no value, or a value has no variable.
+	 */
+	render(values: PromptValues<V>): string {
+		const given = Object.keys(values).filter((key) => values[key as V] !== undefined);
+		const missing = this.variables.filter((name) => values[name] == null);
+		const extra = given.filter((key) => !this.variables.includes(key as V));
+		const label = this.name ? `prompt template ${this.name}` : 'prompt template';
+
+		if (missing.length > 0 || extra.length > 0) {
+			const problems = [
+				missing.length > 0 ? `missing values for ${missing.join(', ')}` : null,
+				extra.length > 0 ? `unknown variables ${extra.join(', ')}` : null,
+			].filter((problem) => problem != null);
+			throw new PromptTemplateError(`Can't render ${label}: ${problems.join('; ')}`, missing, extra);
+		}
+
+		const all: Record<string, string | number> = { ...this.bound, ...values };
+		return this.text.replace(PLACEHOLDER, (_, name: string) => String(all[name]));
+	}
+
+	/**
+	 * Bind some of the variables, e.g. those fixed by a tool's configuration, and leave the
+	 * others to render(). Bound values are substituted along with the others, in a single pass.
+	 */
+	partial<K extends V>(values: PromptValues<K>): PromptTemplate<Exclude<V, K>> {
+		const names = Object.keys(values);
+		const unknown = names.filter((name) => !this.variables.includes(name as V));
+		if (unknown.length > 0) {
+			throw new PromptTemplateError(`Can't bind unknown variables: ${unknown.join(', ')}`, [], unknown);
+		}
+
+		return new PromptTemplate(
+			this.text,
+			this.variables.filter((name): name is Exclude<V, K> => !names.includes(name)),
+			{ name: this.name, version: this.version },
+			{ ...this.bound, ...values },
+		);
+	}
+
+	/**
+	 * SHA-256 hash of the template's text and variables, e.g. to tell which prompt produced a result.
+	 */
+	async hash(): Promise<string> {
+		const data = new TextEncoder().encode(JSON.stringify([this.text, findPlaceholders(this.text)]));
+		const digest = await crypto.subtle.digest('SHA-256', data);
+		return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+	}
+}
+
+// =============================================================================
+// Prompt registry
+// =============================================================================
+
+/** Registered templates by name, then version */
+const registry = new Map<string, Map<number, PromptTemplate>>();
+
+/**
+ * Create a named template and add it to the prompt registry.
+ *
+ * @throws PromptTemplateError if another text is registered under the same name and version.
+ */
+export function definePrompt<const V extends string>(
+	name: string,
+	text: string,
+	variables: ReadonlyArray<V>,
+	version = 1,
+): PromptTemplate<V> {
+	const template = new PromptTemplate(text, variables, { name, version });
+	const versions = registry.get(name) ?? new Map<number, PromptTemplate>();
+
+	const existing = versions.get(version);
+	if (existing != null && existing.text !== text) {
+		throw new PromptTemplateError(`Prompt template ${name} version ${version} is already defined differently`);
+	}
+
+	versions.set(version, template);
+	registry.set(name, versions);
+	return template;
+}
+
+/**
+ * Get a registered template, by default its latest version. Returns null if it doesn't exist.
+ */
+export function getPrompt(name: string, version?: number): PromptTemplate | null {
+	const versions = registry.get(name);
+	if (!versions) {
+		return null;
+	}
+	if (version != null) {
+		return versions.get(version) ?? null;
+	}
+	return versions.get(Math.max(...versions.keys())) ?? null;
+}
+
+/**
+ * All registered templates, by name and version.
+ */
+export function listPrompts(): Array<PromptTemplate> {
+	return [...registry.keys()].sort().flatMap((name) =>
+		[...registry.get(name)!.values()].sort((a, b) => a.version - b.version)
+	);
+}
+
+// =============================================================================
+// Prompt overrides and language packs
+// =============================================================================
+
+/** A tool's prompts: its system message (if any) and user message */
+export type PromptSlot = 'system' | 'user';
+
+/**
+ * How tools override their prompts.
+ */
+export interface PromptConfig {
+	/**
+	 * Texts replacing the tool's system or user prompt. They must use exactly the variables of
+	 * the prompt they replace, e.g. getPrompt('sentiment.user').variables.
+	 */
+	prompts?: Partial<Record<PromptSlot, string>>;
+	/**
+	 * Language of the prompt pack to use, e.g. 'es' (see definePromptPack()). Prompts missing
+	 * from the pack stay in English, and explicit prompts take precedence.
+	 */
+	promptLanguage?: string;
+}
+
+/** Prompt packs by language, each with texts by template name */
+const packs = new Map<string, Map<string, string>>();
+
+/**
+ * Add translations of named templates to the prompt pack of a language. Translations must
+ * use the same variables as the templates they translate.
+ *
+ * @example
+ * definePromptPack('es', {
+ * 	'summarizer.user': 'Resume el siguiente texto en unas {wordCount} palabras.\n\n# Texto\n\n{text}',
+ * });
+ * const summarizer = new Summarizer({ promptLanguage: 'es' }, { model: 'gpt-4.1-mini' });
+ *
+ * @throws PromptTemplateError if a translation doesn't match the variables of a registered template.
+ */
+export function definePromptPack(language: string, prompts: Record<string, string>): void {
+	const pack = packs.get(language.toLowerCase()) ?? new Map<string, string>();
+
+	for (const [name, text] of Object.entries(prompts)) {
+		const template = getPrompt(name);
+		if (template != null) {
+			new PromptTemplate(text, template.variables, { name: `${name} (${language})` });
+		}
+		pack.set(name, text);
+	}
+	packs.set(language.toLowerCase(), pack);
+}
+
+/** The pack of a language, or of its base language (e.g. 'es' for 'es-MX') */
+function findPack(language: string): Map<string, string> | null {
+	const code = language.toLowerCase();
+	return packs.get(code) ?? packs.get(code.split(/[-_]/)[0]) ?? null;
+}
+
+/**
+ * A tool's prompt templates, with those replaced by the configuration's prompts or prompt pack.
+ * Replacements keep the name and version of the template they replace.
+ *
+ * @throws PromptTemplateError if a prompt replaces a slot the tool doesn't have, or uses other
+ * variables than the template it replaces, or if there's no pack for the prompt language.
+ */
+export function resolvePrompts<T extends Partial<Record<PromptSlot, PromptTemplate<string>>>>(
+	templates: T,
+	config: PromptConfig,
+): T {
+	const { prompts = {}, promptLanguage } = config;
+
+	const unknown = Object.keys(prompts).filter((slot) => templates[slot as PromptSlot] == null);
+	if (unknown.length > 0) {
+		throw new PromptTemplateError(`The tool has no ${unknown.join(' or ')} prompt to replace`);
+	}
+
+	const pack = promptLanguage != null ? findPack(promptLanguage) : null;
+	if (promptLanguage != null && pack == null) {
+		throw new PromptTemplateError(`No prompt pack for language ${promptLanguage}`);
+	}
+
+	const resolved: Partial<Record<PromptSlot, PromptTemplate<string>>> = { ...templates };
+	for (const [slot, template] of Object.entries(templates) as Array<[PromptSlot, PromptTemplate<string>]>) {
+		const text = prompts[slot] ?? (template.name != null ? pack?.get(template.name) : undefined);
+		if (text != null) {
+			const { name, version } = template;
+			resolved[slot] = new PromptTemplate(text, template.variables, { name, version });
+		}
+	}
+	return resolved as T;
+}
@@ -6,9 +6,46 @@
  */
 
 import type { z } from '@zod/zod';
-import { askLLMSafe, type LLMResponse, type Message, type ProviderParams } from './llm.ts';
-import { mapParallel } from './helpers/async.ts';
-import { BatchResponse } from './response.ts';
+import {
+	askLLMSafe,
+	askLLMStream,
+	type LLMResponse,
+	type LLMStreamEvent,
+	type Message,
+	type ProviderParams,
+	type RetryPolicy,
+} from './llm.ts';
+import {
+	calculateCost,
+	getBatchPricing,
+	getProviderForModel,
+	type LLMProvider,
+	type ModelCall,
+	type ModelPricing,
+	type PromptBudgetReport,
+	ReplayProvider,
+	type TokenLogprob,
+} from './providers/index.ts';
+import { mapParallel, type ProgressCallback, ProgressTracker, sleep } from './helpers/async.ts';
+import {
+	budgetPrompt,
+	type BudgetStrategy,
+	estimatePromptTokens,
+	type FittedInput,
+	getPromptBudget,
+} from './budget.ts';
+import {
+	type BatchItemDetails,
+	BatchResponse,
+	CostGuard,
+	sumCosts,
+	sumTokenUsage,
+	type TokenUsage,
+	type UsageCost,
+} from './response.ts';
+import { type CombinedResult, ensembleModels, type EnsembleOptions } from './ensemble.ts';
+import type { ConfidenceAssessment } from './confidence.ts';
+import { emit, failSpan, setUsageAttributes, withSpan } from './observability.ts';
 
 /**
  * Configuration for LLM calls. Can be overridden per-invocation.
@@ -16,16 +53,153 @@ import { BatchResponse } from './response.ts';
 export interface ModelConfig {
 	/** The model to use */
 	model: string;
+	/** Models to fall back to, in order, when a call fails on the previous one (after retries) */
+	fallbackModels?: Array<string>;
 	/** Provider-specific parameters */
 	modelParams?: ProviderParams;
+	/** Base URL of an OpenAI-compatible server for self-hosted models */
+	baseURL?: string;
+	/** Custom pricing for models without bundled pricing data (USD per 1M tokens) */
+	pricing?: ModelPricing;
 	/** Maximum retry attempts (default: 3) */
 	maxRetries?: number;
+	/** Which errors to retry and how long to wait between attempts (default: DEFAULT_RETRY_POLICY) */
+	retryPolicy?: RetryPolicy;
 	/** Max concurrent requests for batch (default: 100) */
 	maxConcurrency?: number;
 	/** Enable cost tracking for batch (default: false) */
 	trackCost?: boolean;
 	/** Throw an error instead of returning null on failure (default: false) */
 	throwOnFailure?: boolean;
+	/** Use the response cache if one is configured (default: true). Set to false to bypass it. */
+	cache?: boolean;
+	/** Cancel calls, aborting in-flight requests. Batches return the results completed so far. */
+	signal?: AbortSignal;
+	/** Timeout of each request to the provider in milliseconds */
+	timeoutMs?: number;
+	/** How inputs exceeding the model's context window are cut (default: 'truncate') */
+	budgetStrategy?: BudgetStrategy;
+	/** Context window in tokens, for models without bundled model info */
+	contextLimit?: number;
+	/**
+	 * Stop a batch once the cumulative cost of its calls exceeds this many USD, returning the
+	 * results completed so far (null for the rest). Calls in flight are aborted.
+	 */
+	maxCostUSD?: number;
+	/**
+	 * Answer each input with several samples and combine their results, reporting the samples'
+	 * agreement as the response's confidence. Only for tools implementing combineSamples(),
+	 * e.g. Classifier, Labeler and Scorer. Doesn't apply to streams and offline batches.
+	 */
+	ensemble?: EnsembleOptions;
+	/** Called each time an input of a batch is done, with the batch's progress (see BatchProgress) */
+	onProgress?: ProgressCallback;
+}
+
+/**
+ * A result of Tool.batchStream, yielded as soon as its input is done.
+ */
+export interface ToolBatchItem<TResult> {
+	/** Position of the input */
+	index: number;
+	result: TResult;
+	usage: TokenUsage | null;
+	error: Error | null;
+}
+
+/**
+ * An offline batch job submitted by Tool.submitBatch. Plain data, so it can be stored
+ * (e.g. as JSON) and collected later, in another process.
+ */
+export interface ToolBatchJob<TInput> {
+	/** ID of the job at the provider */
+	id: string;
+	/** Model the job runs on */
+	model: string;
+	/** All inputs of the batch, in order */
+	inputs: Array<TInput>;
+	/** Positions of the inputs sent in the job (empty inputs are skipped) */
+	submitted: Array<number>;
+}
+
+/**
+ * Options of Tool.collect.
+ */
+export interface CollectOptions extends Partial<ModelConfig> {
+	/** Delay between checks of the job's status in milliseconds (default: 30000) */
+	pollIntervalMs?: number;
+}
+
+/**
+ * Options of Tool.estimateCost.
+ */
+export interface EstimateCostOptions extends Partial<ModelConfig> {
+	/** Expected output tokens per input (default: the tool's own estimate) */
+	outputTokens?: number;
+	/** Price the inputs at offline batch rates, as with submitBatch() (default: false) */
+	offline?: boolean;
+}
+
+/**
+ * Projected usage and cost of processing a batch of inputs.
+ */
+export interface CostEstimate {
+	model: string;
+	/** Number of calls that would be made (empty inputs are skipped) */
+	calls: number;
+	/** Estimated tokens over all calls */
+	usage: TokenUsage;
+	/** Projected cost, or null if the model has no known pricing */
+	cost: UsageCost | null;
+}
+
+/** Output tokens expected per call when the tool has no better estimate */
+export const DEFAULT_EXPECTED_OUTPUT_TOKENS = 256;
+
+/**
+ * Cost of the billed calls of an input (e.g. an ensemble's samples). Custom pricing applies to the tool's model.
+ */
+function callsCost(calls: Array<ModelCall>, model: string, pricing?: ModelPricing): UsageCost | null {
+	const billed = calls.filter((call) => !call.cached && call.usage != null);
+	if (billed.length === 0) {
+		return null;
+	}
+	return sumCosts(
+		billed.map((call) => calculateCost(call.model, call.usage!, call.model === model ? pricing : undefined)),
+	);
+}
+
+/**
+ * The calls made for a response: the samples of an ensemble, the calls on each model tried
+ * after a fallback, or the response's own call.
+ */
+function responseCalls(response: LLMResponse<unknown>, model: string): Array<ModelCall> {
+	return response.ensemble?.calls ?? response.calls ??
+		[{ model: response.model ?? model, usage: response.usage, cached: response.cached === true }];
+}
+
+/**
+ * Batch details with the calls of each result, if any response was made of several
+ * (ensembles and fallbacks), so each call is priced with the model that served it.
+ */
+function callDetails(responses: Array<LLMResponse<unknown>>): Pick<BatchItemDetails, 'calls'> {
+	return responses.some((r) => r.ensemble != null || r.calls != null)
+		? { calls: responses.map((r) => r.ensemble?.calls ?? r.calls) }
+		: {};
+}
+
+/**
+ * Batch details with the confidence and distribution of each result, if any response has them.
+ */
+function confidenceDetails(
+	responses: Array<LLMResponse<unknown>>,
+): Pick<BatchItemDetails, 'confidence' | 'distributions'> {
+	return {
+		...(responses.some((r) => r.confidence != null) ? { confidence: responses.map((r) => r.confidence) } : {}),
+		...(responses.some((r) => r.distribution != null)
+			? { distributions: responses.map((r) => r.distribution) }
+			: {}),
+	};
 }
 
 const DEFAULTS = {
@@ -33,6 +207,7 @@ const DEFAULTS = {
 	maxConcurrency: 100,
 	trackCost: false,
 	throwOnFailure: false,
+	budgetStrategy: 'truncate',
 } as const;
 
 /**
@@ -62,14 +237,105 @@ export abstract class Tool<TInput, TOutput, TResult = TOutput> {
 	/** Build the prompt from a single input
 	 * Make this as cheap as possible, as it's called on every invocation (row).
 	 * E.g. by preparing it in the constructor if it doesn't depend on input.
-	*/
+	 */
 	protected abstract prompt(input: TInput): string | Message[];
 
+	/**
+	 * Shrink the input so its prompt fits the model's context window.
+	 * Returns null by default, i.e. prompts are sent as is. Override in tools whose
+	 * inputs can outgrow the window, e.g. with fitRecords() or fitText().
+	 *
+	 * @param fits - Whether the prompt built from a candidate input fits the budget.
+	 */
+	protected fitInput(
+		_input: TInput,
+		_fits: (input: TInput) => boolean,
+		_strategy: BudgetStrategy,
+	): FittedInput<TInput> | null {
+		return null;
+	}
+
+	/** Build the prompt, cutting the input if it exceeds the budget of the configured models. */
+	private budgetedPrompt(
+		input: TInput,
+		config: Pick<ModelConfig, 'model' | 'fallbackModels' | 'modelParams' | 'budgetStrategy' | 'contextLimit'>,
+	): { prompt: string | Message[]; budget?: PromptBudgetReport } {
+		const { model, fallbackModels = [], modelParams, budgetStrategy = 'truncate', contextLimit } = config;
+		const budgetTokens = budgetStrategy === 'none'
+			? null
+			: getPromptBudget([model, ...fallbackModels], modelParams, contextLimit);
+
+		return budgetPrompt(
+			input,
+			(candidate) => this.prompt(candidate),
+			(candidate, fits) => this.fitInput(candidate, fits, budgetStrategy),
+			budgetTokens,
+		);
+	}
+
 	/** Extract final result from parsed output. Override to transform. */
 	protected extractResult(parsed: TOutput): TResult {
 		return parsed as unknown as TResult;
 	}
 
+	/**
+	 * Combine the results of an ensemble's samples (see ModelConfig.ensemble) into one.
+	 * Tools don't support ensembles by default. Override, e.g. with majorityVote() or
+	 * meanScore(), in tools whose results can be combined.
+	 */
+	protected combineSamples(_results: Array<TResult>): CombinedResult<TResult> {
+		throw new Error(`${this.constructor.name} does not support ensembles`);
+	}
+
+	/**
+	 * Number of alternatives per output token to request logprobs for, for tools estimating
+	 * confidence from them (see assessConfidence()). Returns 0 by default, i.e. none are requested.
+	 * Providers without logprobs ignore the request.
+	 */
+	protected topLogprobs(): number {
+		return 0;
+	}
+
+	/**
+	 * Estimate the confidence in the result of a single call, e.g. from the response's token
+	 * logprobs or a confidence the model reported in its output. Returns null by default,
+	 * i.e. results carry no confidence (except in ensemble mode).
+	 */
+	protected assessConfidence(
+		_result: TResult,
+		_parsed: TOutput,
+		_logprobs?: Array<TokenLogprob>,
+	): ConfidenceAssessment | null {
+		return null;
+	}
+
+	/**
+	 * The result to return given its confidence, from assessConfidence() or an ensemble's
+	 * agreement. Returns the result by default; override to abstain from uncertain results.
+	 */
+	protected abstain(result: TResult, _confidence: number): TResult {
+		return result;
+	}
+
+	/** Extract the result from parsed output, with its confidence if the tool estimates it */
+	private resultOf(
+		parsed: TOutput,
+		logprobs?: Array<TokenLogprob>,
+	): Pick<LLMResponse<TResult>, 'parsed' | 'confidence' | 'distribution'> {
+		const result = this.extractResult(parsed);
+		const assessment = this.assessConfidence(result, parsed, logprobs);
+		if (assessment == null) {
+			return { parsed: result };
+		}
+
+		const { confidence, distribution } = assessment;
+		return {
+			parsed: this.abstain(result, confidence),
+			confidence,
+			...(distribution ? { distribution } : {}),
+		};
+	}
+
 	/** Check if input should be skipped (returns null without LLM call) */
 	protected isEmpty(input: TInput): boolean {
 		if (input == null) return true;
@@ -78,28 +344,126 @@ export abstract class Tool<TInput, TOutput, TResult = TOutput> {
 		return false;
 	}
 
-	/** Process a single input */
+	/**
+	 * Process a single input.
+	 * Runs in a 'tool.invoke' span if a tracer is set, and is reported to the onToolInvoke hook.
+	 * In ensemble mode, samples of the input run concurrently.
+	 */
 	async invoke(input: TInput, options: Partial<ModelConfig> = {}): Promise<LLMResponse<TResult | null>> {
+		const { model, pricing, ensemble } = { ...this.modelConfig, ...options };
+		const tool = this.constructor.name;
+
+		if (ensemble && this.combineSamples === Tool.prototype.combineSamples) {
+			throw new Error(`${tool} does not support ensembles`);
+		}
 		if (this.isEmpty(input)) {
 			return { parsed: null, text: null, usage: null, error: null };
 		}
 
-		const { model, modelParams, maxRetries, throwOnFailure } = { ...DEFAULTS, ...this.modelConfig, ...options };
+		return await withSpan('tool.invoke', { 'cuery.tool': tool, 'gen_ai.request.model': model }, async (span) => {
+			const start = performance.now();
+			const event = { tool, model, usage: null, cost: null, cached: false };
+
+			try {
+				const response = ensemble
+					? await this.completeEnsemble(input, options, ensemble)
+					: await this.complete(input, options);
+				const cached = response.cached === true;
+				const servedBy = response.model ?? model;
+				const cost = callsCost(responseCalls(response, model), model, pricing);
+
+				emit('onToolInvoke', {
+					...event,
+					model: servedBy,
+					durationMs: performance.now() - start,
+					usage: response.usage,
+					cost,
+					cached,
+					error: response.error,
+				});
+				setUsageAttributes(span, response.usage, cost);
+				span?.setAttribute('cuery.cached', cached);
+				if (response.error != null) {
+					failSpan(span, response.error);
+				}
+				return response;
+			} catch (error) {
+				const failure = error instanceof Error ? error : new Error(String(error));
+				emit('onToolInvoke', { ...event, durationMs: performance.now() - start, error: failure });
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Process a single input without instrumentation.
+	 *
+	 * @param sample - Whether the call is a sample of an ensemble, whose confidence comes from the
+	 * samples' agreement instead of assessConfidence().
+	 */
+	private async complete(
+		input: TInput,
+		options: Partial<ModelConfig>,
+		sample = false,
+	): Promise<LLMResponse<TResult | null>> {
+		const {
+			model,
+			fallbackModels,
+			modelParams,
+			baseURL,
+			maxRetries,
+			retryPolicy,
+			throwOnFailure,
+			cache,
+			signal,
+			timeoutMs,
+			budgetStrategy,
+			contextLimit,
+			pricing,
+		} = {
+			...DEFAULTS,
+			...this.modelConfig,
+			...options,
+		};
+
+		const { prompt, budget } = this.budgetedPrompt(input, {
+			model,
+			fallbackModels,
+			modelParams,
+			budgetStrategy,
+			contextLimit,
+		});
 
 		const response = await askLLMSafe({
-			prompt: this.prompt(input),
+			prompt,
 			model,
+			fallbackModels,
+			baseURL,
 			schema: this.schema(),
 			params: modelParams,
 			maxRetries,
+			retryPolicy,
 			onError: 'return',
+			cache,
+			signal,
+			timeoutMs,
+			pricing,
+			...(!sample && this.topLogprobs() > 0 ? { logprobs: this.topLogprobs() } : {}),
 		});
 
 		if (response.error != null || response.parsed == null) {
 			if (throwOnFailure) {
 				throw response.error ?? new Error('LLM call failed to produce a result');
 			}
-			return { parsed: null, text: response.text, usage: response.usage, error: response.error };
+			return {
+				parsed: null,
+				text: response.text,
+				usage: response.usage,
+				error: response.error,
+				model: response.model,
+				...(response.calls ? { calls: response.calls } : {}),
+				...(budget ? { budget } : {}),
+			};
 		}
 
 		// Type assertion: when schema() returns null, askLLMSafe returns string,
@@ -107,29 +471,476 @@ export abstract class Tool<TInput, TOutput, TResult = TOutput> {
 		const parsed = response.parsed as TOutput;
 
 		return {
-			parsed: this.extractResult(parsed),
+			...(sample ? { parsed: this.extractResult(parsed) } : this.resultOf(parsed, response.logprobs)),
 			text: response.text,
 			usage: response.usage,
 			error: null,
+			model: response.model,
+			...(response.calls ? { calls: response.calls } : {}),
+			...(response.cached ? { cached: true } : {}),
+			...(budget ? { budget } : {}),
+		};
+	}
+
+	/** Sample an ensemble for an input and combine the results of the successful samples */
+	private async completeEnsemble(
+		input: TInput,
+		options: Partial<ModelConfig>,
+		ensemble: EnsembleOptions,
+	): Promise<LLMResponse<TResult | null>> {
+		const { model, modelParams, throwOnFailure, pricing } = { ...DEFAULTS, ...this.modelConfig, ...options };
+		const models = ensembleModels(ensemble, model);
+
+		// Repeated samples of a model bypass the response cache, which would answer them all alike
+		const responses = await Promise.all(
+			models.map((sampleModel, i) =>
+				this.complete(input, {
+					...options,
+					model: sampleModel,
+					modelParams: { ...modelParams, ...ensemble.modelParams },
+					pricing: sampleModel === model ? pricing : undefined,
+					throwOnFailure: false,
+					...(models.indexOf(sampleModel) < i ? { cache: false } : {}),
+				}, true)
+			),
+		);
+
+		const calls = responses.flatMap((r, i) => responseCalls(r, models[i]));
+		const usage = sumTokenUsage(responses.map((r) => r.usage));
+		const valid = responses.filter((r) => r.error == null && r.parsed != null);
+
+		if (valid.length === 0) {
+			const failure = responses[0];
+			if (throwOnFailure) {
+				throw failure.error ?? new Error('LLM call failed to produce a result');
+			}
+			return { ...failure, usage, model, ensemble: { samples: models.length, valid: 0, calls } };
+		}
+
+		const { result, confidence, stdDev } = this.combineSamples(valid.map((r) => r.parsed as TResult));
+
+		return {
+			parsed: this.abstain(result, confidence),
+			text: valid[0].text,
+			usage,
+			error: null,
+			model,
+			confidence,
+			ensemble: { samples: models.length, valid: valid.length, ...(stdDev != null ? { stdDev } : {}), calls },
+			...(valid[0].budget ? { budget: valid[0].budget } : {}),
+		};
+	}
+
+	/**
+	 * Process a single input, streaming text deltas and partial structured output.
+	 * The final 'done' event carries the same result invoke() would return.
+	 * Streams are not retried.
+	 */
+	async *invokeStream(
+		input: TInput,
+		options: Partial<ModelConfig> = {},
+	): AsyncGenerator<LLMStreamEvent<TOutput, TResult | null>> {
+		if (this.isEmpty(input)) {
+			yield { type: 'done', response: { parsed: null, text: null, usage: null, error: null } };
+			return;
+		}
+
+		const {
+			model,
+			modelParams,
+			baseURL,
+			throwOnFailure,
+			signal,
+			timeoutMs,
+			budgetStrategy,
+			contextLimit,
+			pricing,
+		} = {
+			...DEFAULTS,
+			...this.modelConfig,
+			...options,
+		};
+
+		const { prompt, budget } = this.budgetedPrompt(input, { model, modelParams, budgetStrategy, contextLimit });
+
+		const events = askLLMStream({
+			prompt,
+			model,
+			baseURL,
+			schema: this.schema(),
+			params: modelParams,
+			onError: 'return',
+			signal,
+			timeoutMs,
+			pricing,
+		});
+
+		for await (const event of events) {
+			if (event.type !== 'done') {
+				yield event;
+				continue;
+			}
+
+			const { response } = event;
+			if (response.error != null || response.parsed == null) {
+				if (throwOnFailure) {
+					throw response.error ?? new Error('LLM call failed to produce a result');
+				}
+				yield {
+					type: 'done',
+					response: {
+						parsed: null,
+						text: response.text,
+						usage: response.usage,
+						error: response.error,
+						...(budget ? { budget } : {}),
+					},
+				};
+				return;
+			}
+
+			yield {
+				type: 'done',
+				response: {
+					...this.resultOf(response.parsed),
+					text: response.text,
+					usage: response.usage,
+					error: null,
+					...(budget ? { budget } : {}),
+				},
+			};
+		}
+	}
+
+	/**
+	 * Invoke the inputs in parallel, passing each response to onItem as soon as it's done, and
+	 * reporting progress to `onProgress`. Stops early, without throwing, when `signal` is aborted
+	 * or the cost exceeds `maxCostUSD`.
+	 */
+	private async runBatch(
+		inputs: TInput[],
+		options: Partial<ModelConfig>,
+		onItem: (index: number, response: LLMResponse<TResult | null>) => void,
+	): Promise<void> {
+		const {
+			model,
+			fallbackModels,
+			modelParams,
+			baseURL,
+			pricing,
+			maxRetries,
+			retryPolicy,
+			maxConcurrency,
+			cache,
+			signal,
+			timeoutMs,
+			budgetStrategy,
+			contextLimit,
+			maxCostUSD,
+			ensemble,
+			onProgress,
+		} = {
+			...DEFAULTS,
+			...this.modelConfig,
+			...options,
 		};
+
+		const guard = new CostGuard(maxCostUSD, signal);
+		const progress = new ProgressTracker(inputs.length, onProgress);
+		try {
+			await mapParallel(
+				inputs,
+				maxConcurrency,
+				async (input, i) => {
+					progress.start();
+					let response: LLMResponse<TResult | null>;
+					try {
+						response = await this.invoke(input, {
+							model,
+							fallbackModels,
+							modelParams,
+							baseURL,
+							maxRetries,
+							retryPolicy,
+							cache,
+							signal: guard.signal,
+							timeoutMs,
+							budgetStrategy,
+							contextLimit,
+							ensemble,
+						});
+					} catch (error) {
+						progress.finish(true);
+						throw error;
+					}
+
+					const calls = responseCalls(response, model);
+					for (const call of calls.filter((call) => !call.cached)) {
+						guard.add(call.model, call.usage, call.model === model ? pricing : undefined);
+					}
+					progress.finish(response.error != null, callsCost(calls, model, pricing)?.totalCost);
+					onItem(i, response);
+				},
+				{ signal: guard.signal },
+			);
+		} catch (error) {
+			// On cancellation or when over budget, keep the results completed so far
+			if (!guard.signal.aborted) {
+				throw error;
+			}
+		}
 	}
 
-	/** Process multiple inputs with usage tracking */
+	/**
+	 * Process multiple inputs with usage tracking.
+	 * If `signal` is aborted, or the cost exceeds `maxCostUSD`, returns the results
+	 * completed so far (null for the rest).
+	 */
 	async batch(inputs: TInput[], options: Partial<ModelConfig> = {}): Promise<BatchResponse<TResult | null>> {
-		const { model, modelParams, maxRetries, maxConcurrency, trackCost } = {
+		const { model, pricing, trackCost } = { ...DEFAULTS, ...this.modelConfig, ...options };
+
+		const completed: Array<LLMResponse<TResult | null>> = [];
+		await this.runBatch(inputs, options, (i, response) => {
+			completed[i] = response;
+		});
+
+		const responses = inputs.map((_, i): LLMResponse<TResult | null> =>
+			completed[i] ?? { parsed: null, text: null, usage: null, error: null }
+		);
+
+		return new BatchResponse(
+			responses.map((r) => r.parsed),
+			trackCost ? responses.map((r) => r.usage) : undefined,
+			trackCost ? model : undefined,
+			trackCost ? pricing : undefined,
+			{
+				...(trackCost
+					? { cacheHits: responses.map((r) => r.cached === true), models: responses.map((r) => r.model) }
+					: {}),
+				...(trackCost ? callDetails(responses) : {}),
+				...confidenceDetails(responses),
+			},
+		);
+	}
+
+	/**
+	 * Process multiple inputs like batch(), yielding each result as soon as its input is done,
+	 * i.e. in order of completion rather than of the inputs. Ending the iteration early aborts
+	 * the calls in flight.
+	 *
+	 * @example
+	 * for await (const { index, result, error } of classifier.batchStream(rows, { onProgress })) {
+	 * 	await db.update(rows[index].id, { label: result, error: error?.message });
+	 * }
+	 */
+	async *batchStream(
+		inputs: TInput[],
+		options: Partial<ModelConfig> = {},
+	): AsyncGenerator<ToolBatchItem<TResult | null>> {
+		const { signal } = { ...this.modelConfig, ...options };
+		const controller = new AbortController();
+		const queue: Array<ToolBatchItem<TResult | null>> = [];
+		let wake: (() => void) | null = null;
+		let finished = false;
+
+		const run = this.runBatch(
+			inputs,
+			{ ...options, signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal },
+			(index, response) => {
+				queue.push({ index, result: response.parsed, usage: response.usage, error: response.error });
+				wake?.();
+			},
+		).finally(() => {
+			finished = true;
+			wake?.();
+		});
+		// Errors are thrown to the consumer once the queued results are yielded
+		run.catch(() => {});
+
+		try {
+			while (queue.length > 0 || !finished) {
+				if (queue.length > 0) {
+					yield queue.shift()!;
+				} else {
+					await new Promise<void>((resolve) => {
+						wake = resolve;
+					});
+					wake = null;
+				}
+			}
+			await run;
+		} finally {
+			// Stop the calls still running if the consumer ended the iteration early
+			controller.abort();
+			await run.catch(() => {});
+		}
+	}
+
+	/**
+	 * Expected number of output tokens for an input, used by estimateCost().
+	 * Returns DEFAULT_EXPECTED_OUTPUT_TOKENS by default; override in tools whose
+	 * output size is predictable from their input.
+	 */
+	protected expectedOutputTokens(_input: TInput): number {
+		return DEFAULT_EXPECTED_OUTPUT_TOKENS;
+	}
+
+	/**
+	 * Project the usage and cost of processing the inputs without calling the model.
+	 * Prompts are rendered (and budgeted) like in invoke(), and their tokens estimated
+	 * from their length. Retries, fallbacks and cache hits are not taken into account.
+	 * In ensemble mode, every sample counts as a call.
+	 */
+	estimateCost(inputs: TInput[], options: EstimateCostOptions = {}): CostEstimate {
+		const { outputTokens, offline = false, ...config } = options;
+		const { model, modelParams, pricing, budgetStrategy, contextLimit, ensemble } = {
+			...DEFAULTS,
+			...this.modelConfig,
+			...config,
+		};
+
+		// Usage of a single sample of each input
+		const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+		let calls = 0;
+
+		for (const input of inputs) {
+			if (this.isEmpty(input)) {
+				continue;
+			}
+			const { prompt } = this.budgetedPrompt(input, { model, modelParams, budgetStrategy, contextLimit });
+			calls++;
+			usage.inputTokens += estimatePromptTokens(prompt);
+			usage.outputTokens += outputTokens ?? this.expectedOutputTokens(input);
+		}
+		usage.totalTokens = usage.inputTokens + usage.outputTokens;
+
+		const sampleModels = ensemble ? ensembleModels(ensemble, model) : [model];
+		const cost = sumCosts(sampleModels.map((sampleModel) => {
+			const custom = sampleModel === model ? pricing : undefined;
+			const rates = offline ? getBatchPricing(sampleModel, custom) : custom;
+			return offline && rates == null ? null : calculateCost(sampleModel, usage, rates ?? undefined);
+		}));
+
+		const samples = sampleModels.length;
+		return {
+			model,
+			calls: calls * samples,
+			usage: {
+				inputTokens: usage.inputTokens * samples,
+				outputTokens: usage.outputTokens * samples,
+				totalTokens: usage.totalTokens * samples,
+			},
+			cost,
+		};
+	}
+
+	/** Get the provider of a model, checking that it supports offline batches (bypassing record/replay) */
+	private batchProvider(model: string, baseURL?: string): LLMProvider {
+		const resolved = getProviderForModel(model, undefined, baseURL);
+		const provider = resolved instanceof ReplayProvider ? resolved.unwrap() : resolved;
+		if (!provider.submitBatch || !provider.getBatchResults) {
+			throw new Error(`Provider '${provider.name}' does not support offline batches (model: ${model})`);
+		}
+		return provider;
+	}
+
+	/**
+	 * Submit inputs to the provider's offline batch API (OpenAI and Gemini), which processes
+	 * them within 24 hours at half price. Use collect() to wait for and retrieve the results.
+	 * Prompts are budgeted like in invoke(); fallback models, retries and the cache don't apply.
+	 */
+	async submitBatch(inputs: TInput[], options: Partial<ModelConfig> = {}): Promise<ToolBatchJob<TInput>> {
+		const { model, modelParams, baseURL, signal, budgetStrategy, contextLimit } = {
 			...DEFAULTS,
 			...this.modelConfig,
 			...options,
 		};
 
-		const responses = await mapParallel(inputs, maxConcurrency, (input) =>
-			this.invoke(input, { model, modelParams, maxRetries })
+		const provider = this.batchProvider(model, baseURL);
+		const submitted = inputs.flatMap((input, i) => (this.isEmpty(input) ? [] : [i]));
+
+		const requests = submitted.map((i): Message[] => {
+			const { prompt } = this.budgetedPrompt(inputs[i], { model, modelParams, budgetStrategy, contextLimit });
+			return typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+		});
+
+		const id = await provider.submitBatch!(requests, model, this.schema(), modelParams, { signal });
+
+		return { id, model, inputs, submitted };
+	}
+
+	/**
+	 * Wait for an offline batch job to finish and return its results.
+	 * Outputs are validated against the tool's schema, and failed items are re-run in real time
+	 * (with the usual retries and fallbacks). Aborting `signal` stops waiting, but not the job.
+	 * With `trackCost`, items served by the job are priced at batch rates, and so is the usage
+	 * of failed items' offline attempts, which is added to that of their re-runs.
+	 */
+	async collect(job: ToolBatchJob<TInput>, options: CollectOptions = {}): Promise<BatchResponse<TResult | null>> {
+		const { pollIntervalMs = 30_000, ...config } = options;
+		const { baseURL, pricing, maxConcurrency, trackCost, signal } = {
+			...DEFAULTS,
+			...this.modelConfig,
+			...config,
+		};
+
+		const provider = this.batchProvider(job.model, baseURL);
+		const schema = this.schema();
+
+		let results = await provider.getBatchResults!(job.id, job.submitted.length, schema, { signal });
+		while (results == null) {
+			await sleep(pollIntervalMs, signal);
+			results = await provider.getBatchResults!(job.id, job.submitted.length, schema, { signal });
+		}
+
+		const responses: Array<LLMResponse<TResult | null>> = job.inputs.map(() => (
+			{ parsed: null, text: null, usage: null, error: null }
+		));
+		const offline = job.inputs.map(() => false);
+		const failedOffline: Array<TokenUsage | null> = job.inputs.map(() => null);
+		const failed: Array<number> = [];
+
+		job.submitted.forEach((position, i) => {
+			const response = results[i];
+			if (response.error != null || response.parsed == null) {
+				failed.push(position);
+				failedOffline[position] = response.usage;
+				return;
+			}
+			responses[position] = {
+				...response,
+				...this.resultOf(response.parsed as TOutput, response.logprobs),
+				model: job.model,
+			};
+			offline[position] = true;
+		});
+
+		await mapParallel(
+			failed,
+			maxConcurrency,
+			async (position) => {
+				responses[position] = await this.invoke(job.inputs[position], { ...config, model: job.model });
+			},
+			{ signal },
 		);
 
 		return new BatchResponse(
 			responses.map((r) => r.parsed),
 			trackCost ? responses.map((r) => r.usage) : undefined,
-			trackCost ? model : undefined
+			trackCost ? job.model : undefined,
+			trackCost ? pricing : undefined,
+			{
+				...(trackCost
+					? {
+						cacheHits: responses.map((r) => r.cached === true),
+						models: responses.map((r) => r.model),
+						offline,
+						failedOffline,
+						...callDetails(responses),
+					}
+					: {}),
+				...confidenceDetails(responses),
+			},
 		);
 	}
 }
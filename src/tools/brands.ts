@@ -2,11 +2,12 @@ import { z } from '@zod/zod';
 import { mapParallel } from '../helpers/async.ts';
 import { askLLMSafe } from '../llm.ts';
 
-import type { CompetitorSearchOptions, BrandSearchOptions, BrandListResponse } from '../schemas/brand.schema.ts';
-import { BrandSchema, BrandListSchema, type Brand, type FlaggedBrand, type Product } from '../schemas/brand.schema.ts';
+import type { BrandListResponse, BrandSearchOptions, CompetitorSearchOptions } from '../schemas/brand.schema.ts';
+import { type Brand, BrandListSchema, BrandSchema, type FlaggedBrand, type Product } from '../schemas/brand.schema.ts';
 import { searchWithFormat } from './search.ts';
 import { dedent } from '../helpers/utils.ts';
 import { extractDomain } from '../helpers/urls.ts';
+import { definePrompt } from '../template.ts';
 import type { Entity } from './entities.ts';
 
 interface BrandContextOptions {
@@ -22,7 +23,7 @@ export function buildBrandContext({
 	brandDomain,
 	sector,
 	market,
-	briefing
+	briefing,
 }: BrandContextOptions): string {
 	let brandContext: string;
 	if (brandDomain) {
@@ -52,7 +53,9 @@ export type { BrandContextOptions };
 
 const DEFAULT_SEARCH_MODEL = 'gpt-4.1';
 
-const PORTFOLIO_KEYWORDS_PROMPT = dedent(`
+const PORTFOLIO_KEYWORDS_PROMPT = definePrompt(
+	'portfolioKeywords',
+	dedent(`
 Generate 5 Google search keywords that real users would type when researching this product or service.
 
 Product/Service: {product_name}
@@ -80,13 +83,17 @@ Requirements:
 - No brand names or specific product names
 
 What would someone in {market} naturally search when looking for products/services like {product_name}?
-`);
+`),
+	['product_name', 'category', 'sector', 'market', 'language'],
+);
 
 const PortfolioKeywordsSchema = z.object({
-	keywords: z.array(z.string()).describe('List of 5 seed keywords for the product or service.')
+	keywords: z.array(z.string()).describe('List of 5 seed keywords for the product or service.'),
 });
 
-const COMPETITORS_PROMPT = dedent(`
+const COMPETITORS_PROMPT = definePrompt(
+	'competitors',
+	dedent(`
 You are an expert in market analysis and competitive intelligence. Given the brand(s)
 information in the below section, find and return an exhaustive list of competitors. Consider
 competitors to be brands that offer similar products or services and target the same or similar
@@ -128,12 +135,18 @@ and what competitive landscape they represent.
 {context}
 
 {currentCompetitorsInfo}
-`);
-
-const STRICT_CLAUSE = 'Only consider as competitors those that do NOT belong to the same parent company as the original brand(s) (e.g. Fanta is NOT a competitor of Coca-Cola in this sense).';
-const NON_STRICT_CLAUSE = 'Consider all relevant competitors, including those from the same parent company (e.g. Fanta IS a competitor of Coca-Cola in this sense).';
-
-const CURRENT_DATA_CLAUSE = dedent(`
+`),
+	['strictness_clause', 'language', 'instructions', 'context', 'currentCompetitorsInfo'],
+);
+
+const STRICT_CLAUSE =
+	'Only consider as competitors those that do NOT belong to the same parent company as the original brand(s) (e.g. Fanta is NOT a competitor of Coca-Cola in this sense).';
+const NON_STRICT_CLAUSE =
+	'Consider all relevant competitors, including those from the same parent company (e.g. Fanta IS a competitor of Coca-Cola in this sense).';
+
+const CURRENT_DATA_CLAUSE = definePrompt(
+	'competitors.currentData',
+	dedent(`
 # Current Competitors Information
 
 The following is the current information the user has about competitors for the brand(s).
@@ -144,10 +157,13 @@ IMPORTANT: Unless the instructions explicitly specify to modify, replace, add, o
 from this list, you MUST return at least all the same competitors that are already present in the
 current data. If no modification instructions are provided, maintain the existing list and only add
 new competitors if they are relevant.
-`);
-
+`),
+	['currentData'],
+);
 
-const BRAND_PROMPT = dedent(`
+const BRAND_PROMPT = definePrompt(
+	'brandInfo',
+	dedent(`
 You are an expert in market analysis and competitive intelligence investigating the brand{brand_context}.
 Find out the following information about this brand:
 
@@ -169,14 +185,14 @@ Find out the following information about this brand:
 
 Return the answer as a JSON object with field values in the language "{language}".
 Always include "aliases", even when empty.
-`);
+`),
+	['brand_context', 'language'],
+);
 
 function ensureBrandAliases<T extends Brand>(brand: T): T & { aliases: Array<string> } {
 	return {
 		...brand,
-		aliases: Array.isArray(brand.aliases)
-			? brand.aliases
-			: []
+		aliases: Array.isArray(brand.aliases) ? brand.aliases : [],
 	};
 }
 
@@ -188,14 +204,15 @@ export async function generatePortfolioKeywords(
 	sector: string,
 	market: string,
 	language: string = 'en',
-	model: string = 'gpt-4.1'
+	model: string = 'gpt-4.1',
 ): Promise<Array<string>> {
-	const prompt = PORTFOLIO_KEYWORDS_PROMPT
-		.replace('{product_name}', product.name)
-		.replace('{category}', product.category || 'general')
-		.replaceAll('{sector}', sector)
-		.replaceAll('{market}', market)
-		.replaceAll('{language}', language);
+	const prompt = PORTFOLIO_KEYWORDS_PROMPT.render({
+		product_name: product.name,
+		category: product.category || 'general',
+		sector,
+		market,
+		language,
+	});
 
 	const { parsed } = await askLLMSafe({ prompt, model, schema: PortfolioKeywordsSchema });
 	if (!parsed) {
@@ -214,7 +231,7 @@ export async function enrichBrandPortfolioWithKeywords<T extends Brand>(
 	model: string = 'gpt-4.1',
 	maxConcurrency: number = 100,
 	sector?: string | null,
-	market?: string | null
+	market?: string | null,
 ): Promise<T> {
 	if (!brand.portfolio || brand.portfolio.length === 0) {
 		return brand;
@@ -229,7 +246,7 @@ export async function enrichBrandPortfolioWithKeywords<T extends Brand>(
 			sector,
 			market,
 			language,
-			model
+			model,
 		);
 		product.keywordSeeds = keywords;
 	});
@@ -237,7 +254,6 @@ export async function enrichBrandPortfolioWithKeywords<T extends Brand>(
 	return brand;
 }
 
-
 export async function generateCompetitorsInfo({
 	brand,
 	brandDomain,
@@ -253,9 +269,8 @@ export async function generateCompetitorsInfo({
 	useSearch = true,
 	countryISOCode = null,
 	contextSize = 'medium',
-	reasoningEffort = 'low'
+	reasoningEffort = 'low',
 }: CompetitorSearchOptions): Promise<BrandListResponse> {
-
 	if (!brand && !brandDomain) {
 		throw new Error('Either brand or brandDomain must be provided');
 	}
@@ -267,17 +282,18 @@ export async function generateCompetitorsInfo({
 		brandDomain,
 		sector,
 		market,
-		briefing
+		briefing,
 	});
 
-	const currentData = brands ? CURRENT_DATA_CLAUSE.replace('{currentData}', JSON.stringify(brands, null, 2)) : '';
+	const currentData = brands ? CURRENT_DATA_CLAUSE.render({ currentData: JSON.stringify(brands, null, 2) }) : '';
 
-	const formattedPrompt = COMPETITORS_PROMPT
-		.replace('{strictness_clause}', strictnessClause)
-		.replace('{instructions}', instructions || '')
-		.replace('{language}', userLanguage ?? language)
-		.replace('{context}', context)
-		.replace('{currentCompetitorsInfo}', currentData);
+	const formattedPrompt = COMPETITORS_PROMPT.render({
+		strictness_clause: strictnessClause,
+		instructions: instructions || '',
+		language: userLanguage ?? language,
+		context,
+		currentCompetitorsInfo: currentData,
+	});
 
 	const response = await searchWithFormat({
 		prompt: formattedPrompt,
@@ -286,7 +302,7 @@ export async function generateCompetitorsInfo({
 		responseSchema: BrandListSchema,
 		countryISOCode,
 		contextSize,
-		reasoningEffort
+		reasoningEffort,
 	});
 
 	// Make sure these are clean domains
@@ -301,12 +317,12 @@ export async function generateCompetitorsInfo({
 	const enrichedBrands = await mapParallel(
 		response.brands,
 		100,
-		async (brand) => enrichBrandPortfolioWithKeywords(brand, language, model, undefined, sector, market)
+		async (brand) => enrichBrandPortfolioWithKeywords(brand, language, model, undefined, sector, market),
 	);
 
 	return {
 		brands: enrichedBrands,
-		explanation: response.explanation
+		explanation: response.explanation,
 	};
 }
 
@@ -322,9 +338,8 @@ export async function generateBrandInfo({
 	useSearch = true,
 	countryISOCode = null,
 	contextSize = 'medium',
-	reasoningEffort = 'low'
+	reasoningEffort = 'low',
 }: BrandSearchOptions): Promise<Brand> {
-
 	if (!brand && !brandDomain) {
 		throw new Error('Either brand or brandDomain must be provided');
 	}
@@ -334,12 +349,10 @@ export async function generateBrandInfo({
 		brandDomain,
 		sector,
 		market,
-		briefing
+		briefing,
 	});
 
-	const prompt = BRAND_PROMPT
-		.replace('{brand_context}', brandContext)
-		.replace('{language}', userLanguage ?? language);
+	const prompt = BRAND_PROMPT.render({ brand_context: brandContext, language: userLanguage ?? language });
 
 	const brandInfo = await searchWithFormat({
 		prompt,
@@ -348,7 +361,7 @@ export async function generateBrandInfo({
 		countryISOCode: countryISOCode,
 		contextSize: contextSize,
 		reasoningEffort: reasoningEffort,
-		useSearch
+		useSearch,
 	});
 
 	const normalizedBrandInfo = ensureBrandAliases(brandInfo);
@@ -362,7 +375,7 @@ export async function generateBrandInfo({
 		model,
 		undefined,
 		sector,
-		market
+		market,
 	);
 
 	return enrichedBrand;
@@ -370,16 +383,16 @@ export async function generateBrandInfo({
 
 export function concatBrands(
 	ownBrands: Array<Brand>,
-	competitors: Array<Brand>
+	competitors: Array<Brand>,
 ): Array<FlaggedBrand> {
 	const ownBrandsWithFlag = ownBrands.map((brand) => ({
 		...ensureBrandAliases(brand),
-		isCompetitor: false
+		isCompetitor: false,
 	}));
 
 	const competitorsWithFlag = competitors.map((brand) => ({
 		...ensureBrandAliases(brand),
-		isCompetitor: true
+		isCompetitor: true,
 	}));
 
 	return [...ownBrandsWithFlag, ...competitorsWithFlag];
@@ -443,10 +456,10 @@ function createBrandMatchPattern(brandName: string): RegExp {
 	const normalized = normalizeBrandName(brandName);
 
 	// Split into words
-	const words = normalized.split(' ').filter(w => w.length > 0);
+	const words = normalized.split(' ').filter((w) => w.length > 0);
 
 	// Build pattern where each word can have flexible separators between them
-	const wordPatterns = words.map(word => {
+	const wordPatterns = words.map((word) => {
 		if (word === 'and') {
 			return '(?:&|and)?';
 		}
@@ -521,14 +534,14 @@ function normalizeTextForMatching(text: string): string {
 export function rankBrandsInText(
 	text: string,
 	brands: Array<FlaggedBrand>,
-	entities?: Array<Entity>
+	entities?: Array<Entity>,
 ): Array<string> {
 	const mentionedBrands: Array<{ name: string; position: number }> = [];
 
 	// Create a normalized version of text for pattern matching (expands CamelCase, etc.)
 	const normalizedText = normalizeTextForMatching(text);
 
-	const brandEntities = entities?.filter(entity => entity.type.toLowerCase() === 'brand') ?? [];
+	const brandEntities = entities?.filter((entity) => entity.type.toLowerCase() === 'brand') ?? [];
 
 	// Build a map from ultra-normalized brand token to the entity text variation (if any)
 	// Using createBrandMatchKey to handle cases like "acmeco" matching "Acme&Co".
@@ -563,12 +576,12 @@ export function rankBrandsInText(
 		let earliestPosition = Infinity;
 		const brandNameVariants = [
 			brand.shortName,
-			...(Array.isArray(brand.aliases) ? brand.aliases : [])
+			...(Array.isArray(brand.aliases) ? brand.aliases : []),
 		].filter((value): value is string => value != null && value.trim() !== '');
 		const normalizedBrandVariants = new Set<string>(
 			brandNameVariants
 				.map((value) => createBrandMatchKey(value))
-				.filter((value) => value.length > 0)
+				.filter((value) => value.length > 0),
 		);
 
 		// Check if there's a matching entity for this brand (shortName or alias key match)
@@ -606,7 +619,7 @@ export function rankBrandsInText(
 		if (earliestPosition !== Infinity) {
 			mentionedBrands.push({
 				name: brand.shortName,
-				position: earliestPosition
+				position: earliestPosition,
 			});
 		}
 	}
@@ -623,20 +636,20 @@ export function rankBrandsInText(
 		if (position !== -1) {
 			mentionedBrands.push({
 				name: entity.name,
-				position: position
+				position: position,
 			});
 		}
 	}
 
 	return mentionedBrands
 		.sort((a, b) => a.position - b.position)
-		.map(item => item.name);
+		.map((item) => item.name);
 }
 
 export async function rankBrandsInTexts(
 	texts: Array<string>,
 	brands: Array<FlaggedBrand>,
-	entities?: Array<Array<Entity>>
+	entities?: Array<Array<Entity>>,
 ): Promise<Array<Array<string>>> {
 	return texts.map((text, index) => rankBrandsInText(text, brands, entities?.[index]));
 }
@@ -1,8 +1,20 @@
 import { z } from '@zod/zod';
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import { dedent, formatRecordsAttrWise } from '../helpers/utils.ts';
-
-const PROMPT_TEMPLATE = dedent(`
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
+import { majorityLabels, majorityVote } from '../ensemble.ts';
+import {
+	type ConfidenceAssessment,
+	type ConfidenceOptions,
+	DEFAULT_UNCERTAIN_LABEL,
+	LABEL_TOP_LOGPROBS,
+	labelDistribution,
+} from '../confidence.ts';
+import type { TokenLogprob } from '../providers/types.ts';
+
+const PROMPT_TEMPLATE = definePrompt(
+	'classifier',
+	dedent(`
 # Instructions
 
 You're task is to classify the data record below into one of the following categories:
@@ -17,9 +29,13 @@ based on the content of the attributes.
 # Data Record
 
 {record}
-`);
+`),
+	['labels', 'instructions', 'record'],
+);
 
-const MULTI_LABEL_PROMPT_TEMPLATE = dedent(`
+const MULTI_LABEL_PROMPT_TEMPLATE = definePrompt(
+	'labeler',
+	dedent(`
 # Instructions
 
 You're task is to assign one or more labels to the data record below from the following options:
@@ -34,7 +50,9 @@ if it matches multiple categories. Assign all relevant labels that apply to the
 # Data Record
 
 {record}
-`);
+`),
+	['labels', 'instructions', 'record'],
+);
 
 /**
  * Formats a record object into a human-readable text representation.
@@ -67,16 +85,27 @@ function createLabelSchema(labels: Record<string, string>) {
 	if (entries.length === 1) {
 		const [label, description] = entries[0];
 		return z.object({
-			label: z.literal(label).describe(description)
+			label: z.literal(label).describe(description),
 		});
 	}
 
-	const literals = entries.map(([label, description]) =>
-		z.literal(label).describe(description)
-	) as [z.ZodLiteral<string>, z.ZodLiteral<string>, ...Array<z.ZodLiteral<string>>];
+	const literals = entries.map(([label, description]) => z.literal(label).describe(description)) as [
+		z.ZodLiteral<string>,
+		z.ZodLiteral<string>,
+		...Array<z.ZodLiteral<string>>,
+	];
 
 	return z.object({
-		label: z.union(literals)
+		label: z.union(literals),
+	});
+}
+
+/**
+ * Adds a verbalized confidence field to a label schema, after the label so it doesn't sway it.
+ */
+function withConfidence(schema: ReturnType<typeof createLabelSchema>) {
+	return schema.extend({
+		confidence: z.number().describe('Your confidence that the label is correct, from 0 (a guess) to 1 (certain)'),
 	});
 }
 
@@ -90,7 +119,7 @@ function createMultiLabelSchema(labels: Record<string, string>) {
 	return z.object({
 		labels: z.array(labelType)
 			.min(0)
-			.describe('Array of assigned labels')
+			.describe('Array of assigned labels'),
 	});
 }
 
@@ -98,7 +127,7 @@ function createMultiLabelSchema(labels: Record<string, string>) {
 // Classifier (single-label classification)
 // =============================================================================
 
-interface ClassifierConfig {
+interface ClassifierConfig extends ConfidenceOptions, PromptConfig {
 	/** Map of label names to descriptions */
 	labels: Record<string, string>;
 	/** Additional instructions for the classifier */
@@ -107,18 +136,33 @@ interface ClassifierConfig {
 
 /**
  * A tool that classifies records into one of the provided categories.
+ * In ensemble mode, returns the majority label, with the share of samples voting for it as confidence.
+ *
+ * With `confidence`, single calls also report a confidence, and the probability of each label if
+ * the provider returns logprobs (the model's own estimate otherwise). With `abstainBelow`, labels
+ * less confident than the threshold (including an ensemble's majority label) are replaced by
+ * `uncertainLabel`.
  */
-export class Classifier extends Tool<Record<string, unknown> | null, { label: string }, string> {
-	private readonly labelSchema: ReturnType<typeof createLabelSchema>;
-	private readonly promptTemplate: string;
+export class Classifier extends Tool<Record<string, unknown> | null, { label: string; confidence?: number }, string> {
+	private readonly labelSchema: z.ZodType<{ label: string; confidence?: number }>;
+	private readonly labels: Array<string>;
+	private readonly estimateConfidence: boolean;
+	private readonly abstainBelow?: number;
+	private readonly uncertainLabel: string;
+	private readonly promptTemplate: PromptTemplate<'record'>;
 
 	constructor(config: ClassifierConfig, modelConfig: ModelConfig) {
 		super(modelConfig);
-		const { labels, instructions = '' } = config;
-		this.labelSchema = createLabelSchema(labels);
-		this.promptTemplate = PROMPT_TEMPLATE
-			.replace('{labels}', formatLabels(labels))
-			.replace('{instructions}', instructions);
+		const { labels, instructions = '', confidence = false, abstainBelow, uncertainLabel } = config;
+		this.labels = Object.keys(labels);
+		this.estimateConfidence = confidence || abstainBelow != null;
+		this.abstainBelow = abstainBelow;
+		this.uncertainLabel = uncertainLabel ?? DEFAULT_UNCERTAIN_LABEL;
+		this.labelSchema = this.estimateConfidence
+			? withConfidence(createLabelSchema(labels))
+			: createLabelSchema(labels);
+		const { user } = resolvePrompts({ user: PROMPT_TEMPLATE }, config);
+		this.promptTemplate = user.partial({ labels: formatLabels(labels), instructions });
 	}
 
 	protected override schema() {
@@ -126,12 +170,43 @@ export class Classifier extends Tool<Record<string, unknown> | null, { label: st
 	}
 
 	protected prompt(record: Record<string, unknown> | null) {
-		return this.promptTemplate.replace('{record}', formatRecord(record!));
+		return this.promptTemplate.render({ record: formatRecord(record!) });
 	}
 
 	protected override extractResult(parsed: { label: string }) {
 		return parsed.label;
 	}
+
+	protected override combineSamples(results: Array<string>) {
+		return majorityVote(results);
+	}
+
+	protected override topLogprobs() {
+		return this.estimateConfidence ? LABEL_TOP_LOGPROBS : 0;
+	}
+
+	protected override assessConfidence(
+		label: string,
+		parsed: { label: string; confidence?: number },
+		logprobs?: Array<TokenLogprob>,
+	): ConfidenceAssessment | null {
+		if (!this.estimateConfidence) {
+			return null;
+		}
+
+		const distribution = logprobs ? labelDistribution(logprobs, this.labels) : null;
+		if (distribution) {
+			return { confidence: distribution[label] ?? 0, distribution };
+		}
+		if (parsed.confidence != null) {
+			return { confidence: Math.min(1, Math.max(0, parsed.confidence)) };
+		}
+		return null;
+	}
+
+	protected override abstain(label: string, confidence: number) {
+		return this.abstainBelow != null && confidence < this.abstainBelow ? this.uncertainLabel : label;
+	}
 }
 
 // =============================================================================
@@ -143,11 +218,16 @@ export class Classifier extends Tool<Record<string, unknown> | null, { label: st
  * These represent the core purposes of communication, writing, and rhetoric.
  */
 export const SPEECH_INTENT_LABELS: Record<string, string> = {
-	inform: 'Provides facts, data, and knowledge about a topic. Uses clear, objective language, numbers, dates, and evidence. Examples: news articles, encyclopedia entries, reports.',
-	persuade: 'Aims to influence the audience\'s point of view, convince them of an idea, or move them to action. Uses emotional appeals (pathos), logical reasoning (logos), and expert credibility (ethos). Examples: speeches, advertisements, editorials.',
-	entertain: 'Aims to amuse, provide enjoyment, or create a pleasant experience. Uses humor, suspense, vivid imagery, and engaging characters. Examples: novels, poems, stories, comics.',
-	educate: 'Aims to teach the audience, instruct them on how to do something, or increase their understanding. Uses step-by-step instructions, clear explanations, and breaks down complex topics. Examples: textbooks, tutorials, how-to guides.',
-	express_emotions: 'Shares personal feelings, evokes a specific mood, or connects emotionally with the reader. Uses vivid, emotive, or sensory language. Examples: diary entries, poetry, journals, personal essays.'
+	inform:
+		'Provides facts, data, and knowledge about a topic. Uses clear, objective language, numbers, dates, and evidence. Examples: news articles, encyclopedia entries, reports.',
+	persuade:
+		"Aims to influence the audience's point of view, convince them of an idea, or move them to action. Uses emotional appeals (pathos), logical reasoning (logos), and expert credibility (ethos). Examples: speeches, advertisements, editorials.",
+	entertain:
+		'Aims to amuse, provide enjoyment, or create a pleasant experience. Uses humor, suspense, vivid imagery, and engaging characters. Examples: novels, poems, stories, comics.',
+	educate:
+		'Aims to teach the audience, instruct them on how to do something, or increase their understanding. Uses step-by-step instructions, clear explanations, and breaks down complex topics. Examples: textbooks, tutorials, how-to guides.',
+	express_emotions:
+		'Shares personal feelings, evokes a specific mood, or connects emotionally with the reader. Uses vivid, emotive, or sensory language. Examples: diary entries, poetry, journals, personal essays.',
 };
 
 /**
@@ -162,7 +242,7 @@ If the text blends multiple purposes, identify the DOMINANT intent based on the
 /**
  * Configuration for the SpeechIntentClassifier tool.
  */
-export interface SpeechIntentClassifierConfig {
+export interface SpeechIntentClassifierConfig extends ConfidenceOptions, PromptConfig {
 	/** Additional instructions for the classifier */
 	instructions?: string;
 }
@@ -177,7 +257,7 @@ export class SpeechIntentClassifier extends Classifier {
 		const combinedInstructions = instructions
 			? `${SPEECH_INTENT_CLASSIFIER_INSTRUCTIONS}\n\n${instructions}`
 			: SPEECH_INTENT_CLASSIFIER_INSTRUCTIONS;
-		super({ labels: SPEECH_INTENT_LABELS, instructions: combinedInstructions }, modelConfig);
+		super({ ...config, labels: SPEECH_INTENT_LABELS, instructions: combinedInstructions }, modelConfig);
 	}
 }
 
@@ -191,13 +271,20 @@ export class SpeechIntentClassifier extends Classifier {
  */
 export const PLUTCHIK_EMOTION_LABELS: Record<string, string> = {
 	joy: 'A positive, high-energy state of pleasure, happiness, or contentment. Expressed through uplifting language, celebration, gratitude, or satisfaction.',
-	sadness: 'A low-energy state associated with loss, grief, disappointment, or melancholy. Expressed through somber tone, themes of loss, or expressions of sorrow.',
-	trust: 'A positive acceptance or affinity for others. Expressed through confidence, reliability, loyalty, or openness to connection.',
-	disgust: 'A feeling of revulsion, rejection, or strong disapproval. Expressed through aversion, contempt, or moral judgment.',
-	fear: 'An emotional response to danger, threat, or uncertainty. Expressed through anxiety, worry, caution, or alarm.',
-	anger: 'A high-arousal response to frustration, injustice, or provocation. Expressed through criticism, outrage, hostility, or aggression.',
-	surprise: 'A reaction to unexpected events or information. Expressed through astonishment, disbelief, or sudden realization.',
-	anticipation: 'Looking forward to, or preparing for, future events. Expressed through expectation, excitement, hope, or vigilance.'
+	sadness:
+		'A low-energy state associated with loss, grief, disappointment, or melancholy. Expressed through somber tone, themes of loss, or expressions of sorrow.',
+	trust:
+		'A positive acceptance or affinity for others. Expressed through confidence, reliability, loyalty, or openness to connection.',
+	disgust:
+		'A feeling of revulsion, rejection, or strong disapproval. Expressed through aversion, contempt, or moral judgment.',
+	fear:
+		'An emotional response to danger, threat, or uncertainty. Expressed through anxiety, worry, caution, or alarm.',
+	anger:
+		'A high-arousal response to frustration, injustice, or provocation. Expressed through criticism, outrage, hostility, or aggression.',
+	surprise:
+		'A reaction to unexpected events or information. Expressed through astonishment, disbelief, or sudden realization.',
+	anticipation:
+		'Looking forward to, or preparing for, future events. Expressed through expectation, excitement, hope, or vigilance.',
 };
 
 /**
@@ -212,7 +299,7 @@ If multiple emotions are present, choose the one that is most central to the tex
 /**
  * Configuration for the PlutchikEmotionClassifier tool.
  */
-export interface PlutchikEmotionClassifierConfig {
+export interface PlutchikEmotionClassifierConfig extends ConfidenceOptions, PromptConfig {
 	/** Additional instructions for the classifier */
 	instructions?: string;
 }
@@ -227,7 +314,7 @@ export class PlutchikEmotionClassifier extends Classifier {
 		const combinedInstructions = instructions
 			? `${PLUTCHIK_EMOTION_CLASSIFIER_INSTRUCTIONS}\n\n${instructions}`
 			: PLUTCHIK_EMOTION_CLASSIFIER_INSTRUCTIONS;
-		super({ labels: PLUTCHIK_EMOTION_LABELS, instructions: combinedInstructions }, modelConfig);
+		super({ ...config, labels: PLUTCHIK_EMOTION_LABELS, instructions: combinedInstructions }, modelConfig);
 	}
 }
 
@@ -238,7 +325,7 @@ export class PlutchikEmotionClassifier extends Classifier {
 /**
  * Configuration for the Labeler tool.
  */
-export interface LabelerConfig {
+export interface LabelerConfig extends PromptConfig {
 	/** Map of label names to descriptions */
 	labels: Record<string, string>;
 	/** Additional instructions for the labeler */
@@ -247,18 +334,18 @@ export interface LabelerConfig {
 
 /**
  * A tool that assigns one or more labels to records from provided options.
+ * In ensemble mode, returns the labels assigned by most samples (see majorityLabels()).
  */
 export class Labeler extends Tool<Record<string, unknown> | null, { labels: Array<string> }, Array<string>> {
 	private readonly multiLabelSchema: ReturnType<typeof createMultiLabelSchema>;
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'record'>;
 
 	constructor(config: LabelerConfig, modelConfig: ModelConfig) {
 		super(modelConfig);
 		const { labels, instructions = '' } = config;
 		this.multiLabelSchema = createMultiLabelSchema(labels);
-		this.promptTemplate = MULTI_LABEL_PROMPT_TEMPLATE
-			.replace('{labels}', formatLabels(labels))
-			.replace('{instructions}', instructions);
+		const { user } = resolvePrompts({ user: MULTI_LABEL_PROMPT_TEMPLATE }, config);
+		this.promptTemplate = user.partial({ labels: formatLabels(labels), instructions });
 	}
 
 	protected override schema() {
@@ -266,19 +353,25 @@ export class Labeler extends Tool<Record<string, unknown> | null, { labels: Arra
 	}
 
 	protected prompt(record: Record<string, unknown> | null) {
-		return this.promptTemplate.replace('{record}', formatRecord(record!));
+		return this.promptTemplate.render({ record: formatRecord(record!) });
 	}
 
 	protected override extractResult(parsed: { labels: Array<string> }) {
 		return parsed.labels;
 	}
+
+	protected override combineSamples(results: Array<Array<string>>) {
+		return majorityLabels(results);
+	}
 }
 
 // =============================================================================
 // LabelExtractor (extract classification labels from records)
 // =============================================================================
 
-const EXTRACT_LABELS_PROMPT = dedent(`
+const EXTRACT_LABELS_PROMPT = definePrompt(
+	'labelExtractor',
+	dedent(`
 # Instructions
 
 From the data records below, extract a flat list of classification labels.
@@ -303,19 +396,21 @@ unless the user provides different instructions below.
 # Data Records
 
 {records}
-`);
+`),
+	['n_labels', 'language', 'instructions', 'records'],
+);
 
 const ExtractedLabelsSchema = z.object({
 	labels: z.array(z.object({
 		name: z.string(),
-		description: z.string()
-	}))
+		description: z.string(),
+	})),
 });
 
 /**
  * Configuration for the LabelExtractor tool.
  */
-export interface LabelExtractorConfig {
+export interface LabelExtractorConfig extends PromptConfig {
 	/** Maximum number of labels to extract (default: 10) */
 	nLabels?: number;
 	/** Additional instructions for label extraction */
@@ -337,7 +432,7 @@ export class LabelExtractor extends Tool<
 	Record<string, string>
 > {
 	private readonly maxSamples: number;
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'records'>;
 
 	constructor(config: LabelExtractorConfig = {}, modelConfig: ModelConfig) {
 		super(modelConfig);
@@ -345,14 +440,12 @@ export class LabelExtractor extends Tool<
 			nLabels = 10,
 			instructions = '',
 			maxSamples = 500,
-			language = 'The same language as the records'
+			language = 'The same language as the records',
 		} = config;
 
 		this.maxSamples = maxSamples;
-		this.promptTemplate = EXTRACT_LABELS_PROMPT
-			.replace('{n_labels}', String(nLabels))
-			.replace('{instructions}', instructions)
-			.replace('{language}', language);
+		const { user } = resolvePrompts({ user: EXTRACT_LABELS_PROMPT }, config);
+		this.promptTemplate = user.partial({ n_labels: nLabels, instructions, language });
 	}
 
 	protected override schema() {
@@ -360,11 +453,9 @@ export class LabelExtractor extends Tool<
 	}
 
 	protected prompt(records: Array<Record<string, unknown>>) {
-		const sampledRecords = records.length > this.maxSamples
-			? records.slice(0, this.maxSamples)
-			: records;
+		const sampledRecords = records.length > this.maxSamples ? records.slice(0, this.maxSamples) : records;
 		const formattedRecords = formatRecordsAttrWise(sampledRecords);
-		return this.promptTemplate.replace('{records}', formattedRecords);
+		return this.promptTemplate.render({ records: formattedRecords });
 	}
 
 	protected override isEmpty(records: Array<Record<string, unknown>>): boolean {
@@ -372,8 +463,8 @@ export class LabelExtractor extends Tool<
 	}
 
 	protected override extractResult(
-		parsed: { labels: Array<{ name: string; description: string }> }
+		parsed: { labels: Array<{ name: string; description: string }> },
 	): Record<string, string> {
-		return Object.fromEntries(parsed.labels.map(l => [l.name, l.description]));
+		return Object.fromEntries(parsed.labels.map((l) => [l.name, l.description]));
 	}
 }
@@ -1,8 +1,13 @@
-import { Tool, type ModelConfig } from '../tool.ts';
-import { EntitiesSchema, type Entity, type Entities } from '../schemas/entity.schema.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
+import type { ContentPart, Message } from '../llm.ts';
+import { type Entities, EntitiesSchema, type Entity } from '../schemas/entity.schema.ts';
 import { dedent } from '../helpers/utils.ts';
+import { contentToText } from '../providers/content.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
-const PROMPT = dedent(`
+const PROMPT = definePrompt(
+	'entityExtractor',
+	dedent(`
 # Instructions
 
 From the Data Record section below extract entities in the following categories:
@@ -27,7 +32,9 @@ definitions include a "brand" category and a "product" category, the expected ou
 # Data Record
 
 {text}
-`);
+`),
+	['definitions', 'instructions', 'text'],
+);
 
 // =============================================================================
 // EntityExtractor
@@ -36,7 +43,7 @@ definitions include a "brand" category and a "product" category, the expected ou
 /**
  * Configuration for the EntityExtractor tool.
  */
-export interface EntityExtractorConfig {
+export interface EntityExtractorConfig extends PromptConfig {
 	/** Entity type definitions (string or map of type to description) */
 	entityDefinitions?: string | Record<string, string>;
 	/** Additional instructions */
@@ -45,36 +52,45 @@ export interface EntityExtractorConfig {
 
 /**
  * A tool that extracts entities from text.
+ * Input may also be a list of content parts, e.g. text plus product images,
+ * in which case images and files are attached to the prompt.
  */
-export class EntityExtractor extends Tool<string | null, Entities, Array<Entity>> {
-	private readonly promptTemplate: string;
+export class EntityExtractor extends Tool<string | Array<ContentPart> | null, Entities, Array<Entity>> {
+	private readonly promptTemplate: PromptTemplate<'text'>;
 
 	constructor(config: EntityExtractorConfig = {}, modelConfig: ModelConfig) {
 		super(modelConfig);
 		const { entityDefinitions = '', instructions = '' } = config;
 
-		const definitionsText =
-			typeof entityDefinitions === 'string'
-				? entityDefinitions
-				: Object.entries(entityDefinitions)
-						.map(([type, description]) => `- ${type}: ${description}`)
-						.join('\n');
+		const definitionsText = typeof entityDefinitions === 'string'
+			? entityDefinitions
+			: Object.entries(entityDefinitions)
+				.map(([type, description]) => `- ${type}: ${description}`)
+				.join('\n');
 
-		this.promptTemplate = PROMPT
-			.replace('{definitions}', definitionsText)
-			.replace('{instructions}', instructions);
+		const { user } = resolvePrompts({ user: PROMPT }, config);
+		this.promptTemplate = user.partial({ definitions: definitionsText, instructions });
 	}
 
 	protected override schema() {
 		return EntitiesSchema;
 	}
 
-	protected prompt(text: string | null) {
-		return this.promptTemplate.replace('{text}', text ?? '');
+	protected prompt(input: string | Array<ContentPart> | null): string | Message[] {
+		if (!Array.isArray(input)) {
+			return this.promptTemplate.render({ text: input ?? '' });
+		}
+
+		const media = input.filter((part) => part.type !== 'text');
+		const text = this.promptTemplate.render({ text: contentToText(input) });
+		return [{ role: 'user', content: [{ type: 'text', text }, ...media] }];
 	}
 
-	protected override isEmpty(text: string | null): boolean {
-		return text == null || text.trim() === '';
+	protected override isEmpty(input: string | Array<ContentPart> | null): boolean {
+		if (Array.isArray(input)) {
+			return input.every((part) => part.type === 'text' && part.text.trim() === '');
+		}
+		return input == null || input.trim() === '';
 	}
 
 	protected override extractResult(parsed: Entities): Array<Entity> {
@@ -97,13 +113,13 @@ export const COMMON_ENTITY_DEFINITIONS: Record<string, string> = {
 	brand: 'Brand names, trademarks',
 	date: 'Dates, time periods, years, seasons',
 	money: 'Monetary values, prices, currencies, financial amounts',
-	event: 'Events, conferences, meetings, holidays, incidents'
+	event: 'Events, conferences, meetings, holidays, incidents',
 };
 
 /**
  * Configuration for the CommonEntityExtractor tool.
  */
-export interface CommonEntityExtractorConfig {
+export interface CommonEntityExtractorConfig extends PromptConfig {
 	/** Additional entity definitions to merge with common ones */
 	additionalDefinitions?: Record<string, string>;
 	/** Entity types to exclude from common definitions */
@@ -118,22 +134,22 @@ export interface CommonEntityExtractorConfig {
  */
 export class CommonEntityExtractor extends EntityExtractor {
 	constructor(config: CommonEntityExtractorConfig = {}, modelConfig: ModelConfig) {
-		const { additionalDefinitions = {}, excludeTypes = [], instructions = '' } = config;
+		const { additionalDefinitions = {}, excludeTypes = [], instructions = '', ...promptConfig } = config;
 
 		// Filter out excluded types and merge with additional definitions
 		const filteredDefinitions = Object.fromEntries(
-			Object.entries(COMMON_ENTITY_DEFINITIONS).filter(([type]) => !excludeTypes.includes(type))
+			Object.entries(COMMON_ENTITY_DEFINITIONS).filter(([type]) => !excludeTypes.includes(type)),
 		);
 
 		const mergedDefinitions = {
 			...filteredDefinitions,
-			...additionalDefinitions
+			...additionalDefinitions,
 		};
 
-		super({ entityDefinitions: mergedDefinitions, instructions }, modelConfig);
+		super({ ...promptConfig, entityDefinitions: mergedDefinitions, instructions }, modelConfig);
 	}
 }
 
 // Re-export schema and types
-export type { Entity, Entities } from '../schemas/entity.schema.ts';
-export { EntitySchema, EntitiesSchema } from '../schemas/entity.schema.ts';
+export type { Entities, Entity } from '../schemas/entity.schema.ts';
+export { EntitiesSchema, EntitySchema } from '../schemas/entity.schema.ts';
@@ -2,8 +2,16 @@ import { mapParallel } from '../helpers/async.ts';
 import { askLLMSafe } from '../llm.ts';
 
 import type { FunnelOptions } from '../schemas/funnel.schema.ts';
-import { FunnelWithExplanationSchema, SeedsSchema, type Funnel, type FunnelStage, type FunnelCategory, type FunnelWithExplanation } from '../schemas/funnel.schema.ts';
+import {
+	type Funnel,
+	type FunnelCategory,
+	type FunnelStage,
+	type FunnelWithExplanation,
+	FunnelWithExplanationSchema,
+	SeedsSchema,
+} from '../schemas/funnel.schema.ts';
 import { dedent } from '../helpers/utils.ts';
+import { definePrompt } from '../template.ts';
 
 export { FunnelWithExplanationSchema };
 
@@ -15,7 +23,7 @@ export { FunnelWithExplanationSchema };
  * @yields A tuple of [stageName, stageGoal, categoryObject] where categoryObject can be modified in-place
  */
 export function* iterateFunnelCategories(
-	funnel: Funnel | FunnelStage[]
+	funnel: Funnel | FunnelStage[],
 ): Generator<[string, string, FunnelCategory]> {
 	const stages = Array.isArray(funnel) ? funnel : funnel.stages;
 
@@ -34,13 +42,13 @@ export function* iterateFunnelCategories(
  * @returns An array of topic objects with stage names as topics and category names as subtopics
  */
 export function funnelToTopics(
-	funnel: Funnel | FunnelStage[]
+	funnel: Funnel | FunnelStage[],
 ): Array<{ topic: string; subtopics: Array<string> }> {
 	const stages = Array.isArray(funnel) ? funnel : funnel.stages;
 
-	return stages.map(stage => ({
+	return stages.map((stage) => ({
 		topic: stage.stage,
-		subtopics: stage.categories.map(category => category.name)
+		subtopics: stage.categories.map((category) => category.name),
 	}));
 }
 
@@ -55,16 +63,16 @@ const GENERIC_FUNNEL = [
 				'keywordPatterns': ['questions', 'how-to', 'why', 'tips', 'guides'],
 				'keywordSeeds': [
 					'why does my back hurt when running',
-					'how to organize customer data'
+					'how to organize customer data',
 				],
-				'intent': 'Informational'
+				'intent': 'Informational',
 			},
 			{
 				'name': 'Category Education',
 				'description': 'Exploring broad product/service categories without specific brands.',
 				'keywordPatterns': ['types of', 'what is', 'overview', 'guide to'],
 				'keywordSeeds': ['types of running shoes', 'what is CRM software'],
-				'intent': 'Informational'
+				'intent': 'Informational',
 			},
 			{
 				'name': 'Trends & Inspiration',
@@ -74,15 +82,15 @@ const GENERIC_FUNNEL = [
 					'ideas',
 					'inspiration',
 					'popular',
-					'latest'
+					'latest',
 				],
 				'keywordSeeds': [
 					'latest running shoe trends 2025',
-					'popular small business tools'
+					'popular small business tools',
 				],
-				'intent': 'Informational'
-			}
-		]
+				'intent': 'Informational',
+			},
+		],
 	},
 	{
 		'stage': 'Consideration / Research',
@@ -95,42 +103,43 @@ const GENERIC_FUNNEL = [
 					'feature',
 					'specifications',
 					'capabilities',
-					'functions'
+					'functions',
 				],
 				'keywordSeeds': [
 					'running shoes with arch support',
-					'CRM with email automation'
+					'CRM with email automation',
 				],
-				'intent': 'Commercial / Research'
+				'intent': 'Commercial / Research',
 			},
 			{
 				'name': 'Comparisons',
 				'description': 'Directly comparing brands, products, or categories.',
 				'keywordPatterns': ['vs', 'comparison', 'alternatives', 'best of'],
 				'keywordSeeds': ['Nike vs Adidas', 'HubSpot vs Salesforce'],
-				'intent': 'Commercial / Research'
+				'intent': 'Commercial / Research',
 			},
 			{
 				'name': 'Suitability & Use Cases',
 				'description': 'Evaluating how well a solution fits specific needs or contexts.',
 				'keywordPatterns': ['best for', 'ideal for', 'use case', 'fit for'],
 				'keywordSeeds': ['best shoes for marathon training', 'CRM for freelancers'],
-				'intent': 'Commercial / Research'
+				'intent': 'Commercial / Research',
 			},
 			{
 				'name': 'Social Proof & Reviews',
-				'description': 'Looking for recommendations, opinions, ratings, testimonials. Often includes temporal modifiers like "2024".',
+				'description':
+					'Looking for recommendations, opinions, ratings, testimonials. Often includes temporal modifiers like "2024".',
 				'keywordPatterns': [
 					'review',
 					'rating',
 					'top-rated',
 					'best',
-					'customer feedback'
+					'customer feedback',
 				],
 				'keywordSeeds': ['best CRM software', 'best rated running shoes 2025', 'HubSpot reviews'],
-				'intent': 'Commercial / Research'
-			}
-		]
+				'intent': 'Commercial / Research',
+			},
+		],
 	},
 	{
 		'stage': 'Decision / Evaluation',
@@ -145,10 +154,10 @@ const GENERIC_FUNNEL = [
 					'cost',
 					'plan',
 					'tier',
-					'discount'
+					'discount',
 				],
 				'keywordSeeds': ['Nike Pegasus price', 'HubSpot CRM pricing tiers'],
-				'intent': 'Commercial / Research'
+				'intent': 'Commercial / Research',
 			},
 			{
 				'name': 'Availability & Location',
@@ -157,10 +166,10 @@ const GENERIC_FUNNEL = [
 					'buy near me',
 					'availability',
 					'store',
-					'online purchase'
+					'online purchase',
 				],
 				'keywordSeeds': ['buy running shoes near me', 'best CRM free trial'],
-				'intent': 'Commercial / Research'
+				'intent': 'Commercial / Research',
 			},
 			{
 				'name': 'Intent-to-Act Signals',
@@ -169,12 +178,12 @@ const GENERIC_FUNNEL = [
 					'sign up trial',
 					'get started demo',
 					'order sample',
-					'try now'
+					'try now',
 				],
 				'keywordSeeds': ['sign up for HubSpot demo', 'get started with CRM trial'],
-				'intent': 'Commercial / Research'
-			}
-		]
+				'intent': 'Commercial / Research',
+			},
+		],
 	},
 	{
 		'stage': 'Conversion / Action',
@@ -185,7 +194,7 @@ const GENERIC_FUNNEL = [
 				'description': 'Final action: completing a purchase, signing up, or starting a trial.',
 				'keywordPatterns': ['buy', 'checkout', 'signup', 'register', 'demo'],
 				'keywordSeeds': ['buy Nike Pegasus online', 'HubSpot CRM demo signup'],
-				'intent': 'Transactional'
+				'intent': 'Transactional',
 			},
 			{
 				'name': 'Immediate Offers & Promotions',
@@ -195,12 +204,12 @@ const GENERIC_FUNNEL = [
 					'promo code',
 					'deal',
 					'offer',
-					'coupon'
+					'coupon',
 				],
 				'keywordSeeds': ['Nike Pegasus 20% off', 'HubSpot CRM free trial code'],
-				'intent': 'Transactional'
-			}
-		]
+				'intent': 'Transactional',
+			},
+		],
 	},
 	{
 		'stage': 'Post-Purchase / Retention & Advocacy',
@@ -214,17 +223,17 @@ const GENERIC_FUNNEL = [
 					'tutorial',
 					'setup',
 					'guide',
-					'instructions'
+					'instructions',
 				],
 				'keywordSeeds': ['how to break in running shoes', 'HubSpot CRM tutorial'],
-				'intent': 'Retention / Post-Purchase'
+				'intent': 'Retention / Post-Purchase',
 			},
 			{
 				'name': 'Troubleshooting & Support',
 				'description': 'Fixing problems, maintenance, FAQs.',
 				'keywordPatterns': ['help', 'troubleshoot', 'issue', 'problem', 'FAQ'],
 				'keywordSeeds': ['Nike Pegasus sizing issues', 'HubSpot login help'],
-				'intent': 'Retention / Post-Purchase'
+				'intent': 'Retention / Post-Purchase',
 			},
 			{
 				'name': 'Upgrades & Add-ons',
@@ -233,13 +242,13 @@ const GENERIC_FUNNEL = [
 					'upgrade',
 					'add-on',
 					'extension',
-					'premium features'
+					'premium features',
 				],
 				'keywordSeeds': [
 					'best insoles for running shoes',
-					'HubSpot premium features'
+					'HubSpot premium features',
 				],
-				'intent': 'Retention / Post-Purchase'
+				'intent': 'Retention / Post-Purchase',
 			},
 			{
 				'name': 'Community & Advocacy',
@@ -249,20 +258,21 @@ const GENERIC_FUNNEL = [
 					'community',
 					'refer',
 					'share',
-					'testimonial'
+					'testimonial',
 				],
 				'keywordSeeds': [
 					'running shoe user forum',
-					'refer a friend HubSpot discount'
+					'refer a friend HubSpot discount',
 				],
-				'intent': 'Retention / Post-Purchase'
-			}
-		]
-	}
+				'intent': 'Retention / Post-Purchase',
+			},
+		],
+	},
 ];
 
-
-const CUSTOMIZE_PROMPT = dedent(`
+const CUSTOMIZE_PROMPT = definePrompt(
+	'customizeFunnel',
+	dedent(`
 Adapt this marketing funnel for sector '{sector}', market '{market}', language '{language}'.
 {briefing}
 
@@ -294,7 +304,9 @@ and what customer journey they represent.
 # Generic funnel structure
 
 {funnel}
-`);
+`),
+	['sector', 'market', 'language', 'briefing', 'userLanguage', 'instructions', 'funnel'],
+);
 /**
  * Customize a generic marketing funnel to a specific sector and market using an LLM.
  */
@@ -306,18 +318,19 @@ export async function customizeFunnel(
 	briefing: string | null = null,
 	instructions: string | null = null,
 	model: string = 'gpt-4.1',
-	funnel: Funnel | FunnelStage[] = { stages: GENERIC_FUNNEL }
+	funnel: Funnel | FunnelStage[] = { stages: GENERIC_FUNNEL },
 ): Promise<FunnelWithExplanation> {
 	const funnelData = Array.isArray(funnel) ? funnel : funnel.stages;
 
-	const prompt = CUSTOMIZE_PROMPT
-		.replace('{sector}', sector)
-		.replace('{briefing}', briefing || '')
-		.replace('{instructions}', instructions || '')
-		.replace('{market}', country)
-		.replace('{language}', language)
-		.replace('{userLanguage}', userLanguage ?? language)
-		.replace('{funnel}', JSON.stringify(funnelData, null, 2));
+	const prompt = CUSTOMIZE_PROMPT.render({
+		sector,
+		briefing: briefing || '',
+		instructions: instructions || '',
+		market: country,
+		language,
+		userLanguage: userLanguage ?? language,
+		funnel: JSON.stringify(funnelData, null, 2),
+	});
 
 	const { parsed } = await askLLMSafe({ prompt, model, schema: FunnelWithExplanationSchema });
 	if (!parsed) {
@@ -327,7 +340,9 @@ export async function customizeFunnel(
 	return parsed;
 }
 
-const GENERATE_SEEDS_PROMPT = dedent(`
+const GENERATE_SEEDS_PROMPT = definePrompt(
+	'funnelSeeds',
+	dedent(`
 Generate 3-10 Google search keywords that real users type when researching {sector} at this funnel stage.
 
 Stage: {stage} ({goal})
@@ -349,7 +364,9 @@ Requirements:
 - 5-10 keywords (more is better)
 
 What would someone in {market} naturally search when {description}?
-`);
+`),
+	['sector', 'stage', 'goal', 'category', 'description', 'intent', 'patterns', 'language', 'market'],
+);
 
 /**
  * Generate example seed keywords for a specific funnel category using an LLM.
@@ -361,18 +378,19 @@ export async function generateSeedKeywords(
 	sector: string,
 	language: string,
 	country: string = 'global',
-	model: string = 'gpt-4.1'
+	model: string = 'gpt-4.1',
 ): Promise<Array<string>> {
-	const prompt = GENERATE_SEEDS_PROMPT
-		.replace('{stage}', stage)
-		.replace('{goal}', goal)
-		.replace('{category}', category.name)
-		.replace('{description}', category.description)
-		.replace('{intent}', category.intent)
-		.replace('{patterns}', category.keywordPatterns.join(', '))
-		.replace('{sector}', sector)
-		.replace('{market}', country)
-		.replace('{language}', language);
+	const prompt = GENERATE_SEEDS_PROMPT.render({
+		stage,
+		goal,
+		category: category.name,
+		description: category.description,
+		intent: category.intent,
+		patterns: category.keywordPatterns.join(', '),
+		sector,
+		market: country,
+		language,
+	});
 
 	const { parsed } = await askLLMSafe({ prompt, model, schema: SeedsSchema });
 	if (!parsed) {
@@ -392,7 +410,7 @@ export async function reseedFunnel(
 	language: string,
 	country: string = 'global',
 	model: string = 'gpt-4.1',
-	maxConcurrency: number = 100
+	maxConcurrency: number = 100,
 ): Promise<FunnelWithExplanation> {
 	const categories: Array<[string, string, FunnelCategory]> = [];
 	for (const categoryTuple of iterateFunnelCategories(funnel)) {
@@ -407,7 +425,7 @@ export async function reseedFunnel(
 			sector,
 			language,
 			country,
-			model
+			model,
 		);
 		category.keywordSeeds = seeds;
 	});
@@ -431,9 +449,25 @@ export async function generateFunnel({
 	funnel,
 	briefing,
 	maxConcurrency,
-	instructions
+	instructions,
 }: FunnelOptions): Promise<FunnelWithExplanation> {
-	const customized = await customizeFunnel(sector, language, userLanguage, country || 'global', briefing, instructions, model || 'gpt-4.1', funnel || { stages: GENERIC_FUNNEL });
-	const reseeded = await reseedFunnel(customized, sector, language, country || 'global', model || 'gpt-4.1', maxConcurrency ?? 100);
+	const customized = await customizeFunnel(
+		sector,
+		language,
+		userLanguage,
+		country || 'global',
+		briefing,
+		instructions,
+		model || 'gpt-4.1',
+		funnel || { stages: GENERIC_FUNNEL },
+	);
+	const reseeded = await reseedFunnel(
+		customized,
+		sector,
+		language,
+		country || 'global',
+		model || 'gpt-4.1',
+		maxConcurrency ?? 100,
+	);
 	return reseeded;
 }
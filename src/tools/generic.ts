@@ -6,10 +6,13 @@
  */
 
 import { z } from '@zod/zod';
-import { mapParallel } from '../helpers/async.ts';
+import { mapParallel, type ProgressCallback, ProgressTracker } from '../helpers/async.ts';
 import { askLLMSafe, type LLMResponse, type ProviderParams } from '../llm.ts';
-import { BatchResponse } from '../response.ts';
+import { calculateCost } from '../providers/index.ts';
+import { BatchResponse, CostGuard } from '../response.ts';
 import { dedent } from '../helpers/utils.ts';
+import { budgetPrompt, type BudgetStrategy, fitRecords, getPromptBudget } from '../budget.ts';
+import { definePrompt } from '../template.ts';
 
 // Re-export for backwards compatibility
 export type AIParams = ProviderParams;
@@ -18,7 +21,9 @@ export type AIParams = ProviderParams;
 // Prompts
 // ============================================================================
 
-const GENERIC_PROMPT = dedent(`
+const GENERIC_PROMPT = definePrompt(
+	'generic',
+	dedent(`
 # Instructions
 
 {instructions}
@@ -26,9 +31,13 @@ const GENERIC_PROMPT = dedent(`
 # Data Record
 
 {record}
-`);
+`),
+	['instructions', 'record'],
+);
 
-const SCHEMA_GENERATION_SYSTEM_PROMPT = dedent(`
+const SCHEMA_GENERATION_SYSTEM_PROMPT = definePrompt(
+	'generateSchema.system',
+	dedent(`
 You are an expert at designing JSON schemas for structured data extraction from LLMs.
 
 Your role is to:
@@ -45,19 +54,27 @@ Schema design considerations:
 - Use consistent naming conventions (camelCase preferred)
 
 The "reasoning" field should contain your thought process behind the schema design,
-and the "jsonSchema" field should contain the complete JSON schema.
-`);
-
-const SCHEMA_GENERATION_PROMPT = dedent(`
+and the "jsonSchema" field should contain the complete JSON schema, serialized as a JSON string.
+`),
+	[],
+);
+
+const SCHEMA_GENERATION_PROMPT = definePrompt(
+	'generateSchema.user',
+	dedent(`
 Create a JSON schema for extracting information based on these instructions:
 
 {instructions}
 
 The schema will be used to validate LLM outputs when processing data records.
 Design a schema that captures all the information described in the instructions.
-`);
+`),
+	['instructions'],
+);
 
-const SCHEMA_CONVERSION_PROMPT = dedent(`
+const SCHEMA_CONVERSION_PROMPT = definePrompt(
+	'generateSchema.instructions',
+	dedent(`
 A user has provided instructions for a task that involves extracting information
 from data records. Your task is to translate these instructions into new instructions
 for generating a JSON schema that describes the information to extract.
@@ -79,7 +96,9 @@ formats that should be used.
 # User instruction
 
 {instructions}
-`);
+`),
+	['instructions'],
+);
 
 // ============================================================================
 // Schemas
@@ -90,7 +109,17 @@ formats that should be used.
  */
 const SchemaResponseSchema = z.object({
 	reasoning: z.string().describe('Brief explanation of schema design choices'),
-	jsonSchema: z.record(z.string(), z.unknown()).describe('Valid JSON schema as an object')
+	// Free-form objects can't be expressed in strict structured outputs, so the schema is sent as a string
+	jsonSchema: z.string()
+		.describe('Valid JSON schema, serialized as a JSON string')
+		.transform((text, ctx): Record<string, unknown> => {
+			try {
+				return JSON.parse(text);
+			} catch {
+				ctx.addIssue({ code: 'custom', message: 'jsonSchema is not valid JSON' });
+				return z.NEVER;
+			}
+		}),
 });
 
 export type SchemaResponse = z.infer<typeof SchemaResponseSchema>;
@@ -99,7 +128,7 @@ export type SchemaResponse = z.infer<typeof SchemaResponseSchema>;
  * Schema for the schema instruction conversion response.
  */
 const SchemaInstructionsSchema = z.object({
-	instructions: z.string().describe('Instructions for generating the JSON schema')
+	instructions: z.string().describe('Instructions for generating the JSON schema'),
 });
 
 // ============================================================================
@@ -136,11 +165,11 @@ export async function generateSchema({
 	instructions,
 	model = 'gpt-4.1',
 	modelParams = {},
-	maxRetries = 5
+	maxRetries = 5,
 }: GenerateSchemaOptions): Promise<SchemaResponse> {
 	const prompt = [
-		{ role: 'system' as const, content: SCHEMA_GENERATION_SYSTEM_PROMPT },
-		{ role: 'user' as const, content: SCHEMA_GENERATION_PROMPT.replace('{instructions}', instructions) }
+		{ role: 'system' as const, content: SCHEMA_GENERATION_SYSTEM_PROMPT.render({}) },
+		{ role: 'user' as const, content: SCHEMA_GENERATION_PROMPT.render({ instructions }) },
 	];
 
 	const { parsed, error } = await askLLMSafe({
@@ -167,9 +196,9 @@ async function convertToSchemaInstructions(
 	instructions: string,
 	model: string,
 	modelParams: ProviderParams,
-	maxRetries: number
+	maxRetries: number,
 ): Promise<string> {
-	const prompt = SCHEMA_CONVERSION_PROMPT.replace('{instructions}', instructions);
+	const prompt = SCHEMA_CONVERSION_PROMPT.render({ instructions });
 
 	const { parsed, error } = await askLLMSafe({
 		prompt,
@@ -197,6 +226,12 @@ interface BaseLLMOptions {
 	model?: string;
 	modelParams?: AIParams;
 	maxRetries?: number;
+	/** How records exceeding the model's context window are cut (default: 'truncate') */
+	budgetStrategy?: BudgetStrategy;
+	/** Context window in tokens, for models without bundled model info */
+	contextLimit?: number;
+	/** Cancel the calls */
+	signal?: AbortSignal;
 }
 
 export interface GenericOptions extends BaseLLMOptions {
@@ -209,6 +244,10 @@ export interface GenericBatchOptions extends BaseLLMOptions {
 	schema: Record<string, unknown>;
 	maxConcurrency?: number;
 	trackCost?: boolean;
+	/** Stop once the cumulative cost exceeds this many USD, returning the results completed so far */
+	maxCostUSD?: number;
+	/** Called each time a record is done, with the batch's progress */
+	onProgress?: ProgressCallback;
 }
 
 /**
@@ -221,16 +260,25 @@ export async function generic<T = Record<string, unknown>>({
 	schema,
 	model = 'gpt-4.1-mini',
 	modelParams = {},
-	maxRetries = 3
+	maxRetries = 3,
+	budgetStrategy = 'truncate',
+	contextLimit,
+	signal,
 }: GenericOptions): Promise<LLMResponse<T | null>> {
 	if (record == null || Object.keys(record).length === 0) {
 		return { parsed: null, text: null, usage: null, error: null };
 	}
 
 	const zodSchema = z.fromJSONSchema(schema);
-	const prompt = GENERIC_PROMPT
-		.replace('{instructions}', instructions)
-		.replace('{record}', formatRecord(record));
+	const { prompt, budget } = budgetPrompt(
+		record,
+		(candidate) => GENERIC_PROMPT.render({ instructions, record: formatRecord(candidate) }),
+		(candidate, fits) => {
+			const { input, cuts } = fitRecords([candidate], ([r]) => fits(r), budgetStrategy);
+			return { input: input[0], cuts };
+		},
+		budgetStrategy === 'none' ? null : getPromptBudget([model], modelParams, contextLimit),
+	);
 
 	const response = await askLLMSafe({
 		prompt,
@@ -239,18 +287,28 @@ export async function generic<T = Record<string, unknown>>({
 		params: modelParams,
 		maxRetries,
 		onError: 'return',
+		signal,
 	});
 
 	if (response.error || response.parsed == null) {
 		throw new Error(`Failed to process record: ${response.error?.message ?? 'Unknown error'}`);
 	}
 
-	return { parsed: response.parsed as T, text: response.text, usage: response.usage, error: null };
+	return {
+		parsed: response.parsed as T,
+		text: response.text,
+		usage: response.usage,
+		error: null,
+		...(response.cached ? { cached: true } : {}),
+		...(budget ? { budget } : {}),
+	};
 }
 
 /**
  * Processes multiple records using an LLM with a provided JSON schema.
  * Returns a BatchResponse with usage tracking.
+ * If `signal` is aborted, or the cost exceeds `maxCostUSD`, returns the results
+ * completed so far (null for the rest).
  */
 export async function genericBatch<T = Record<string, unknown>>({
 	records,
@@ -261,15 +319,63 @@ export async function genericBatch<T = Record<string, unknown>>({
 	maxRetries = 3,
 	maxConcurrency = 100,
 	trackCost = false,
+	budgetStrategy,
+	contextLimit,
+	signal,
+	maxCostUSD,
+	onProgress,
 }: GenericBatchOptions): Promise<BatchResponse<T | null>> {
-	const responses = await mapParallel(records, maxConcurrency, (record) =>
-		generic<T>({ record, instructions, schema, model, modelParams, maxRetries })
+	const guard = new CostGuard(maxCostUSD, signal);
+	const progress = new ProgressTracker(records.length, onProgress);
+	const completed: Array<LLMResponse<T | null>> = [];
+
+	try {
+		await mapParallel(records, maxConcurrency, async (record, i) => {
+			progress.start();
+			try {
+				completed[i] = await generic<T>({
+					record,
+					instructions,
+					schema,
+					model,
+					modelParams,
+					maxRetries,
+					budgetStrategy,
+					contextLimit,
+					signal: guard.signal,
+				});
+			} catch (error) {
+				progress.finish(true);
+				// Calls failing because the batch was stopped are left empty
+				if (guard.signal.aborted) {
+					return;
+				}
+				throw error;
+			}
+
+			const { usage, cached } = completed[i];
+			if (!cached) {
+				guard.add(model, usage);
+			}
+			progress.finish(false, !cached && usage ? calculateCost(model, usage)?.totalCost : undefined);
+		}, { signal: guard.signal });
+	} catch (error) {
+		// On cancellation or when over budget, keep the results completed so far
+		if (!guard.signal.aborted) {
+			throw error;
+		}
+	}
+
+	const responses = records.map((_, i): LLMResponse<T | null> =>
+		completed[i] ?? { parsed: null, text: null, usage: null, error: null }
 	);
 
 	return new BatchResponse(
-		responses.map(r => r.parsed),
-		trackCost ? responses.map(r => r.usage) : undefined,
-		trackCost ? model : undefined
+		responses.map((r) => r.parsed),
+		trackCost ? responses.map((r) => r.usage) : undefined,
+		trackCost ? model : undefined,
+		undefined,
+		trackCost ? { cacheHits: responses.map((r) => r.cached === true) } : undefined,
 	);
 }
 
@@ -293,13 +399,13 @@ async function resolveSchema(
 	taskInstructions: string,
 	model: string,
 	modelParams: ProviderParams,
-	maxRetries: number
+	maxRetries: number,
 ): Promise<ResolvedSchema> {
 	// Schema already provided as object
 	if (schemaOrInstructions != null && typeof schemaOrInstructions === 'object') {
 		return {
 			schema: schemaOrInstructions,
-			schemaReasoning: 'Schema was provided directly'
+			schemaReasoning: 'Schema was provided directly',
 		};
 	}
 
@@ -313,12 +419,12 @@ async function resolveSchema(
 		instructions: schemaInstructions,
 		model,
 		modelParams,
-		maxRetries
+		maxRetries,
 	});
 
 	return {
 		schema: schemaResponse.jsonSchema,
-		schemaReasoning: schemaResponse.reasoning
+		schemaReasoning: schemaResponse.reasoning,
 	};
 }
 
@@ -335,6 +441,8 @@ export interface AutoOptions extends BaseAutoOptions {
 export interface AutoBatchOptions extends BaseAutoOptions {
 	records: Array<Record<string, unknown> | null>;
 	maxConcurrency?: number;
+	/** Stop once the cumulative cost of processing the records exceeds this many USD */
+	maxCostUSD?: number;
 }
 
 /** Result from auto functions includes the resolved schema */
@@ -359,14 +467,17 @@ export async function auto<T = Record<string, unknown>>({
 	model = 'gpt-4.1-mini',
 	schemaModel = 'gpt-4.1',
 	modelParams = {},
-	maxRetries = 3
+	maxRetries = 3,
+	budgetStrategy,
+	contextLimit,
+	signal,
 }: AutoOptions): Promise<AutoResult<T | null>> {
 	const { schema, schemaReasoning } = await resolveSchema(
 		schemaOrInstructions,
 		instructions,
 		schemaModel,
 		modelParams,
-		maxRetries
+		maxRetries,
 	);
 
 	const response = await generic<T>({
@@ -375,7 +486,10 @@ export async function auto<T = Record<string, unknown>>({
 		schema,
 		model,
 		modelParams,
-		maxRetries
+		maxRetries,
+		budgetStrategy,
+		contextLimit,
+		signal,
 	});
 
 	return { data: response.parsed, schema, schemaReasoning };
@@ -403,14 +517,18 @@ export async function autoBatch<T = Record<string, unknown>>({
 	schemaModel = 'gpt-4.1',
 	modelParams = {},
 	maxRetries = 3,
-	maxConcurrency = 100
+	maxConcurrency = 100,
+	budgetStrategy,
+	contextLimit,
+	signal,
+	maxCostUSD,
 }: AutoBatchOptions): Promise<AutoBatchResult<T>> {
 	const { schema, schemaReasoning } = await resolveSchema(
 		schemaOrInstructions,
 		instructions,
 		schemaModel,
 		modelParams,
-		maxRetries
+		maxRetries,
 	);
 
 	const data = await genericBatch<T>({
@@ -420,7 +538,11 @@ export async function autoBatch<T = Record<string, unknown>>({
 		model,
 		modelParams,
 		maxRetries,
-		maxConcurrency
+		maxConcurrency,
+		budgetStrategy,
+		contextLimit,
+		signal,
+		maxCostUSD,
 	});
 
 	return { data, schema, schemaReasoning };
@@ -3,9 +3,10 @@ import { askLLMSafe } from '../llm.ts';
 
 import { buildBrandContext } from './brands.ts';
 import type { KeywordsOptions } from '../schemas/keyword.schema.ts';
-import { KeywordsResponseSchema, type KeywordsResponse } from '../schemas/keyword.schema.ts';
+import { type KeywordsResponse, KeywordsResponseSchema } from '../schemas/keyword.schema.ts';
 import { dedent } from '../helpers/utils.ts';
-import { keywords as getGoogleAdsKeywords, type KeywordRecord } from '../apis/googleAds/keywordPlanner.ts';
+import { definePrompt } from '../template.ts';
+import { type KeywordRecord, keywords as getGoogleAdsKeywords } from '../apis/googleAds/keywordPlanner.ts';
 
 export interface ExpandKeywordsParams {
 	seedKeywords: Array<string | Array<string>>;
@@ -29,7 +30,7 @@ export async function expandKeywords({
 	language = 'EN',
 	countryISOCode,
 	generateIdeasFromSeeds = false,
-	includeSeedKeywords = false
+	includeSeedKeywords = false,
 }: ExpandKeywordsParams): Promise<Array<Array<KeywordRecord>>> {
 	url = url?.trim();
 	language = language?.trim();
@@ -47,10 +48,10 @@ export async function expandKeywords({
 				language,
 				countryISOCode,
 				url: generateIdeasFromSeeds != null ? urlAsExpandRelevanceContext : undefined,
-				includeSeedKeywords
+				includeSeedKeywords,
 			});
 			expandedKeywords.push(keywordData);
-		}
+		},
 	);
 
 	const urlIdeasPromise = url
@@ -61,8 +62,8 @@ export async function expandKeywords({
 			maxIdeas: 10000,
 			language,
 			countryISOCode,
-			includeSeedKeywords
-		}).then(ideas => expandedKeywords.push(ideas))
+			includeSeedKeywords,
+		}).then((ideas) => expandedKeywords.push(ideas))
 		: Promise.resolve([]);
 
 	await Promise.all([keywordIdeasPromise, urlIdeasPromise]);
@@ -70,7 +71,9 @@ export async function expandKeywords({
 	return expandedKeywords;
 }
 
-const GENERATE_KEYWORDS_PROMPT = dedent(`
+const GENERATE_KEYWORDS_PROMPT = definePrompt(
+	'generateKeywords',
+	dedent(`
 You're a keyword research expert helping a brand in the {sector} sector targeting the {market} market.
 
 For context, the brand being analyzed is{brand_context}. Use this brand as context to better understand
@@ -115,9 +118,25 @@ based on the instructions.
 {instructions}
 
 {currentKeywordsInfo}
-`);
-
-const CURRENT_KEYWORDS_CLAUSE = dedent(`
+`),
+	[
+		'sector',
+		'market',
+		'brand_context',
+		'brandsInfo',
+		'personasInfo',
+		'funnelInfo',
+		'brand_exclusion',
+		'language',
+		'userLanguage',
+		'instructions',
+		'currentKeywordsInfo',
+	],
+);
+
+const CURRENT_KEYWORDS_CLAUSE = definePrompt(
+	'generateKeywords.currentData',
+	dedent(`
 # Current Custom Keywords
 
 The following is the current list of custom keywords the user has.
@@ -127,9 +146,13 @@ The following is the current list of custom keywords the user has.
 **CRITICAL**: Unless the instructions EXPLICITLY ask you to generate, add, create, or suggest NEW keywords,
 you MUST return EXACTLY the same keywords that are in the current data (possibly modified per instructions
 like filtering or removing). Do NOT automatically generate new keywords - only do so if explicitly requested.
-`);
+`),
+	['currentData'],
+);
 
-const BRANDS_CLAUSE = dedent(`
+const BRANDS_CLAUSE = definePrompt(
+	'generateKeywords.brands',
+	dedent(`
 # Brands Information (Reference Only)
 
 The following brands (including competitors) are relevant to this analysis:
@@ -139,9 +162,13 @@ The following brands (including competitors) are relevant to this analysis:
 Use this information to understand the competitive landscape and generate custom keywords that could help
 the brand compete effectively. Consider the products, services, and market positions of these brands.
 NOTE: Any "keywordSeeds" in the portfolio items are for reference only - do not include them directly in your output.
-`);
+`),
+	['brandsData'],
+);
 
-const PERSONAS_CLAUSE = dedent(`
+const PERSONAS_CLAUSE = definePrompt(
+	'generateKeywords.personas',
+	dedent(`
 # Customer Personas (Reference Only)
 
 The following customer personas represent the target audience:
@@ -151,9 +178,13 @@ The following customer personas represent the target audience:
 Generate custom keywords that these personas would naturally search for based on their characteristics,
 needs, and behaviors. Consider their language, expertise level, and search intent.
 NOTE: Any "keywordSeeds" in the personas are for reference only - do not include them directly in your output.
-`);
+`),
+	['personasData'],
+);
 
-const FUNNEL_CLAUSE = dedent(`
+const FUNNEL_CLAUSE = definePrompt(
+	'generateKeywords.funnel',
+	dedent(`
 # Marketing Funnel (Reference Only)
 
 The following marketing funnel defines the customer journey stages:
@@ -163,7 +194,9 @@ The following marketing funnel defines the customer journey stages:
 Generate custom keywords that cover different stages of this funnel, from awareness to conversion.
 Consider the goals and categories at each stage to ensure comprehensive keyword coverage.
 NOTE: Any "keywordSeeds" in the funnel categories are for reference only - do not include them directly in your output.
-`);
+`),
+	['funnelData'],
+);
 
 export async function generateKeywords({
 	sector,
@@ -178,7 +211,8 @@ export async function generateKeywords({
 	keywords = null,
 	brands = null,
 	personas = null,
-	funnel = null
+	funnel = null,
+	conversation = null,
 }: KeywordsOptions): Promise<KeywordsResponse> {
 	if (!brand && !brandDomain) {
 		throw new Error('Either brand or brandDomain must be provided');
@@ -189,7 +223,7 @@ export async function generateKeywords({
 		brandDomain,
 		sector,
 		market,
-		briefing
+		briefing,
 	});
 
 	let brandExclusion: string;
@@ -203,40 +237,37 @@ export async function generateKeywords({
 		brandExclusion = ` "${brand}"`;
 	}
 
-	const currentData = keywords && keywords.length > 0 ? CURRENT_KEYWORDS_CLAUSE.replace(
-		'{currentData}',
-		JSON.stringify({ keywords }, null, 2)
-	) : null;
-
-	const brandsInfo = brands && brands.length > 0 ? BRANDS_CLAUSE.replace(
-		'{brandsData}',
-		JSON.stringify(brands, null, 2)
-	) : null;
-
-	const personasInfo = personas && personas.length > 0 ? PERSONAS_CLAUSE.replace(
-		'{personasData}',
-		JSON.stringify(personas, null, 2)
-	) : null;
-
-	const funnelInfo = funnel != null ? FUNNEL_CLAUSE.replace(
-		'{funnelData}',
-		JSON.stringify(funnel, null, 2)
-	) : null;
-
-	const content = GENERATE_KEYWORDS_PROMPT
-		.replaceAll('{sector}', sector)
-		.replaceAll('{market}', market)
-		.replaceAll('{brand_context}', brandContext)
-		.replaceAll('{brand_exclusion}', brandExclusion)
-		.replaceAll('{language}', language)
-		.replaceAll('{userLanguage}', userLanguage ?? language)
-		.replaceAll('{instructions}', instructions || '')
-		.replaceAll('{currentKeywordsInfo}', currentData || '')
-		.replaceAll('{brandsInfo}', brandsInfo || '')
-		.replaceAll('{personasInfo}', personasInfo || '')
-		.replaceAll('{funnelInfo}', funnelInfo || '');
-
-	const { parsed } = await askLLMSafe({ prompt: content, model, schema: KeywordsResponseSchema });
+	const currentData = keywords && keywords.length > 0
+		? CURRENT_KEYWORDS_CLAUSE.render({ currentData: JSON.stringify({ keywords }, null, 2) })
+		: null;
+
+	const brandsInfo = brands && brands.length > 0
+		? BRANDS_CLAUSE.render({ brandsData: JSON.stringify(brands, null, 2) })
+		: null;
+
+	const personasInfo = personas && personas.length > 0
+		? PERSONAS_CLAUSE.render({ personasData: JSON.stringify(personas, null, 2) })
+		: null;
+
+	const funnelInfo = funnel != null ? FUNNEL_CLAUSE.render({ funnelData: JSON.stringify(funnel, null, 2) }) : null;
+
+	const content = GENERATE_KEYWORDS_PROMPT.render({
+		sector,
+		market,
+		brand_context: brandContext,
+		brand_exclusion: brandExclusion,
+		language,
+		userLanguage: userLanguage ?? language,
+		instructions: instructions || '',
+		currentKeywordsInfo: currentData || '',
+		brandsInfo: brandsInfo || '',
+		personasInfo: personasInfo || '',
+		funnelInfo: funnelInfo || '',
+	});
+
+	const { parsed } = conversation
+		? await conversation.ask(content, KeywordsResponseSchema)
+		: await askLLMSafe({ prompt: content, model, schema: KeywordsResponseSchema });
 	if (!parsed) {
 		throw new Error('Failed to parse response from LLM');
 	}
@@ -1,10 +1,13 @@
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import { buildBrandContext } from './brands.ts';
 import type { Persona, PersonasResponse } from '../schemas/persona.schema.ts';
 import { PersonasResponseSchema } from '../schemas/persona.schema.ts';
 import { dedent } from '../helpers/utils.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
-const PROMPT = dedent(`
+const PROMPT = definePrompt(
+	'personaGenerator',
+	dedent(`
 You're a marketing expert identifying typical profiles/personas of people searching
 for brands, products or services. Generate {count} detailed customer personas for a brand
 in the {sector} sector targeting the {market} market.
@@ -35,9 +38,23 @@ customer segments they represent.
 {instructions}
 
 {currentPersonasInfo}
-`);
-
-const CURRENT_DATA_CLAUSE = dedent(`
+`),
+	[
+		'count',
+		'sector',
+		'market',
+		'brand_context',
+		'brand_exclusion',
+		'language',
+		'userLanguage',
+		'instructions',
+		'currentPersonasInfo',
+	],
+);
+
+const CURRENT_DATA_CLAUSE = definePrompt(
+	'personaGenerator.currentData',
+	dedent(`
 # Current Personas Information
 
 The following is the current information the user has about personas for the brand(s).
@@ -48,7 +65,9 @@ IMPORTANT: Unless the instructions explicitly specify to modify, replace, add, o
 from this list, you MUST return at least all the same competitors that are already present in the
 current data. If no modification instructions are provided, maintain the existing list and only add
 new competitors if they are relevant.
-`);
+`),
+	['currentData'],
+);
 
 // =============================================================================
 // PersonaGenerator
@@ -57,7 +76,7 @@ new competitors if they are relevant.
 /**
  * Configuration for the PersonaGenerator tool.
  */
-export interface PersonaGeneratorConfig {
+export interface PersonaGeneratorConfig extends PromptConfig {
 	/** Industry sector the brand operates in */
 	sector: string;
 	/** Geographical market or region */
@@ -82,7 +101,7 @@ export interface PersonaGeneratorConfig {
  * A tool that generates customer personas for a brand.
  */
 export class PersonaGenerator extends Tool<Array<Persona> | null, PersonasResponse, PersonasResponse> {
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'currentPersonasInfo'>;
 
 	constructor(config: PersonaGeneratorConfig, modelConfig: ModelConfig) {
 		super(modelConfig);
@@ -95,7 +114,7 @@ export class PersonaGenerator extends Tool<Array<Persona> | null, PersonasRespon
 			userLanguage = null,
 			count = 5,
 			briefing,
-			instructions
+			instructions,
 		} = config;
 
 		if (!brand && !brandDomain) {
@@ -107,7 +126,7 @@ export class PersonaGenerator extends Tool<Array<Persona> | null, PersonasRespon
 			brandDomain,
 			sector,
 			market,
-			briefing
+			briefing,
 		});
 
 		let brandExclusion: string;
@@ -121,15 +140,17 @@ export class PersonaGenerator extends Tool<Array<Persona> | null, PersonasRespon
 			brandExclusion = ` "${brand}"`;
 		}
 
-		this.promptTemplate = PROMPT
-			.replace('{count}', count.toString())
-			.replaceAll('{sector}', sector)
-			.replaceAll('{market}', market)
-			.replaceAll('{brand_context}', brandContext)
-			.replaceAll('{brand_exclusion}', brandExclusion)
-			.replaceAll('{language}', language)
-			.replaceAll('{userLanguage}', userLanguage ?? language)
-			.replaceAll('{instructions}', instructions || '');
+		const { user } = resolvePrompts({ user: PROMPT }, config);
+		this.promptTemplate = user.partial({
+			count,
+			sector,
+			market,
+			brand_context: brandContext,
+			brand_exclusion: brandExclusion,
+			language,
+			userLanguage: userLanguage ?? language,
+			instructions: instructions || '',
+		});
 	}
 
 	protected override schema() {
@@ -138,13 +159,10 @@ export class PersonaGenerator extends Tool<Array<Persona> | null, PersonasRespon
 
 	protected prompt(existingPersonas: Array<Persona> | null): string {
 		const currentData = existingPersonas && existingPersonas.length > 0
-			? CURRENT_DATA_CLAUSE.replace(
-					'{currentData}',
-					JSON.stringify({ personas: existingPersonas }, null, 2)
-				)
+			? CURRENT_DATA_CLAUSE.render({ currentData: JSON.stringify({ personas: existingPersonas }, null, 2) })
 			: '';
 
-		return this.promptTemplate.replace('{currentPersonasInfo}', currentData);
+		return this.promptTemplate.render({ currentPersonasInfo: currentData });
 	}
 
 	protected override isEmpty(_input: Array<Persona> | null): boolean {
@@ -159,12 +177,12 @@ export class PersonaGenerator extends Tool<Array<Persona> | null, PersonasRespon
 	override batch(): never {
 		throw new Error(
 			'PersonaGenerator.batch() is not supported. ' +
-			'This tool generates personas for a specific brand context. ' +
-			'Use invoke() instead.'
+				'This tool generates personas for a specific brand context. ' +
+				'Use invoke() instead.',
 		);
 	}
 }
 
 // Re-export types
-export type { Persona, PersonasResponse, PersonasOptions } from '../schemas/persona.schema.ts';
+export type { Persona, PersonasOptions, PersonasResponse } from '../schemas/persona.schema.ts';
 export { PersonaSchema, PersonasResponseSchema } from '../schemas/persona.schema.ts';
@@ -1,16 +1,19 @@
 import type { z } from '@zod/zod';
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import type { Message } from '../llm.ts';
 import {
-	PromptListSchema,
-	PromptListResponseSchema,
+	type PromptIntent,
 	type PromptList,
 	type PromptListResponse,
-	type PromptIntent
+	PromptListResponseSchema,
+	PromptListSchema,
 } from '../schemas/prompt.schema.ts';
 import { dedent } from '../helpers/utils.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
-const PROMPT_SYSTEM = dedent(`
+const PROMPT_SYSTEM = definePrompt(
+	'promptGenerator.system',
+	dedent(`
 You generate realistic natural-language prompts for AI visibility testing with LLM search engines.
 
 Follow the user's instructions exactly and only use the context they provide.
@@ -28,15 +31,21 @@ Quality rules:
 - If topics or personas are provided, use them as context to shape prompts (but do not output them).
 - Avoid brand names unless the instructions explicitly include them.
 - Keep prompts focused on the topic and avoid hallucinated claims.
-`);
+`),
+	['min', 'max'],
+);
 
-const PROMPT_USER = dedent(`
+const PROMPT_USER = definePrompt(
+	'promptGenerator.user',
+	dedent(`
 # Instructions
 
 {instructions}
-`);
+`),
+	['instructions'],
+);
 
-export interface PromptGeneratorConfig {
+export interface PromptGeneratorConfig extends PromptConfig {
 	/** Minimum number of prompts to generate (default: 5) */
 	minPrompts?: number;
 	/** Maximum number of prompts to generate (default: 100) */
@@ -59,6 +68,7 @@ export interface PromptGeneratorConfig {
  */
 export class PromptGenerator extends Tool<string | null, PromptListResponse, PromptList> {
 	private readonly systemPrompt: string;
+	private readonly userPrompt: PromptTemplate<'instructions'>;
 	private readonly contextBlocks: string;
 	private readonly responseSchema: z.ZodType<PromptListResponse>;
 
@@ -71,7 +81,7 @@ export class PromptGenerator extends Tool<string | null, PromptListResponse, Pro
 			topics,
 			personas,
 			intents,
-			instructions
+			instructions,
 		} = config;
 
 		if (minPrompts < 0) {
@@ -119,11 +129,11 @@ export class PromptGenerator extends Tool<string | null, PromptListResponse, Pro
 		}
 
 		this.contextBlocks = contextParts.join('\n\n');
-		this.systemPrompt = PROMPT_SYSTEM
-			.replace('{min}', String(minPrompts))
-			.replace('{max}', String(maxPrompts));
+		const { system, user } = resolvePrompts({ system: PROMPT_SYSTEM, user: PROMPT_USER }, config);
+		this.systemPrompt = system.render({ min: minPrompts, max: maxPrompts });
+		this.userPrompt = user;
 		this.responseSchema = PromptListResponseSchema.extend({
-			prompts: PromptListSchema.min(minPrompts).max(maxPrompts)
+			prompts: PromptListSchema.min(minPrompts).max(maxPrompts),
 		});
 	}
 
@@ -132,10 +142,10 @@ export class PromptGenerator extends Tool<string | null, PromptListResponse, Pro
 	}
 
 	protected prompt(instructions: string | null): Message[] {
-		const userPrompt = PROMPT_USER.replace('{instructions}', instructions ?? '');
+		const userPrompt = this.userPrompt.render({ instructions: instructions ?? '' });
 		return [
 			{ role: 'system', content: this.systemPrompt },
-			{ role: 'user', content: this.contextBlocks ? `${userPrompt}\n\n${this.contextBlocks}` : userPrompt }
+			{ role: 'user', content: this.contextBlocks ? `${userPrompt}\n\n${this.contextBlocks}` : userPrompt },
 		];
 	}
 
@@ -148,10 +158,10 @@ export class PromptGenerator extends Tool<string | null, PromptListResponse, Pro
 	}
 }
 
-export type { PromptList, PromptListResponse, PromptIdea, PromptIntent } from '../schemas/prompt.schema.ts';
+export type { PromptIdea, PromptIntent, PromptList, PromptListResponse } from '../schemas/prompt.schema.ts';
 export {
-	PromptListSchema,
-	PromptListResponseSchema,
 	PromptIdeaSchema,
-	PromptIntentSchema
+	PromptIntentSchema,
+	PromptListResponseSchema,
+	PromptListSchema,
 } from '../schemas/prompt.schema.ts';
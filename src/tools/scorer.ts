@@ -1,8 +1,12 @@
 import { z } from '@zod/zod';
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import { dedent } from '../helpers/utils.ts';
+import { meanScore } from '../ensemble.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
-const PROMPT = dedent(`
+const PROMPT = definePrompt(
+	'scorer',
+	dedent(`
 # Instructions
 
 Assign a {name} ({type} score between {min} and {max}) to the data record below.
@@ -15,7 +19,9 @@ based on the content of the attributes.
 # Data Record
 
 {record}
-`);
+`),
+	['name', 'type', 'min', 'max', 'description', 'record'],
+);
 
 type ScoreSchema = z.ZodObject<{ value: z.ZodNumber }>;
 
@@ -26,7 +32,7 @@ function makeScoreSchema(
 	type: 'integer' | 'number',
 	min: number,
 	max: number,
-	description: string
+	description: string,
 ): ScoreSchema {
 	let schema: z.ZodNumber;
 	if (type === 'integer') {
@@ -43,7 +49,7 @@ function makeScoreSchema(
 /**
  * Configuration for the Scorer tool.
  */
-export interface ScorerConfig {
+export interface ScorerConfig extends PromptConfig {
 	name: string;
 	description: string;
 	type: 'integer' | 'number';
@@ -53,21 +59,21 @@ export interface ScorerConfig {
 
 /**
  * A tool that scores records based on configured criteria.
+ * In ensemble mode, returns the mean score (rounded for integer scores) and its standard deviation
+ * (see meanScore()).
  */
 export class Scorer extends Tool<Record<string, unknown> | null, { value: number }, number> {
 	private readonly scoreSchema: ScoreSchema;
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'record'>;
+	private readonly config: ScorerConfig;
 
 	constructor(config: ScorerConfig, modelConfig: ModelConfig) {
 		super(modelConfig);
+		this.config = config;
 		const { name, description, type, min, max } = config;
 		this.scoreSchema = makeScoreSchema(type, min, max, description);
-		this.promptTemplate = PROMPT
-			.replace('{name}', name)
-			.replace('{type}', type)
-			.replace('{min}', min.toString())
-			.replace('{max}', max.toString())
-			.replace('{description}', description);
+		const { user } = resolvePrompts({ user: PROMPT }, config);
+		this.promptTemplate = user.partial({ name, type, min, max, description });
 	}
 
 	protected override schema() {
@@ -75,10 +81,15 @@ export class Scorer extends Tool<Record<string, unknown> | null, { value: number
 	}
 
 	protected prompt(record: Record<string, unknown> | null) {
-		return this.promptTemplate.replace('{record}', JSON.stringify(record, null, 2));
+		return this.promptTemplate.render({ record: JSON.stringify(record, null, 2) });
 	}
 
 	protected override extractResult(parsed: { value: number }) {
 		return parsed.value;
 	}
+
+	protected override combineSamples(results: Array<number>) {
+		const { min, max, type } = this.config;
+		return meanScore(results, min, max, type === 'integer');
+	}
 }
@@ -1,11 +1,17 @@
 import OpenAI from '@openai/openai';
-import { mapParallel } from '../helpers/async.ts';
+import { mapParallel, withTimeout } from '../helpers/async.ts';
 import { askLLMSafe } from '../llm.ts';
 
-import type { BatchSearchOptions, FormattedSearchOptions, SearchOptions, SearchResult } from '../schemas/search.schema.ts';
+import type {
+	BatchSearchOptions,
+	FormattedSearchOptions,
+	SearchOptions,
+	SearchResult,
+} from '../schemas/search.schema.ts';
 import type { Source } from '../schemas/sources.schema.ts';
 import { extractDomain } from '../helpers/urls.ts';
 import { dedent } from '../helpers/utils.ts';
+import { definePrompt } from '../template.ts';
 
 // OpenAI-specific types for web search with raw output
 type OpenAIParams = Omit<OpenAI.Responses.ResponseCreateParams, 'model' | 'input' | 'text'>;
@@ -15,14 +21,8 @@ type OpenAIOutput = Array<OpenAI.Responses.ResponseOutputItem>;
 let openaiClient: OpenAI | null = null;
 function getOpenAIClient(): OpenAI {
 	if (!openaiClient) {
-		const fetchOptions: Record<string, unknown> = {};
-		const abortSignal = (globalThis as Record<string, unknown>).abortSignal;
-		if (abortSignal) {
-			fetchOptions.signal = abortSignal;
-		}
 		openaiClient = new OpenAI({
 			apiKey: Deno.env.get('OPENAI_API_KEY'),
-			fetchOptions,
 		});
 	}
 	return openaiClient;
@@ -43,7 +43,9 @@ export async function searchOpenAI({
 	countryISOCode = null,
 	contextSize = 'low',
 	reasoningEffort = 'low',
-	searchTool = 'web_search'
+	searchTool = 'web_search',
+	signal,
+	timeoutMs,
 }: SearchOptions): Promise<SearchResult> {
 	const params: OpenAIParams = {};
 
@@ -55,7 +57,7 @@ export async function searchOpenAI({
 		params.tools = [{
 			type: searchTool,
 			search_context_size: contextSize,
-			...(countryISOCode ? { user_location: { type: 'approximate', country: countryISOCode } } : {})
+			...(countryISOCode ? { user_location: { type: 'approximate', country: countryISOCode } } : {}),
 		}];
 		params.tool_choice = 'required';
 	}
@@ -66,7 +68,7 @@ export async function searchOpenAI({
 		model,
 		input: [{ role: 'user', content: prompt }],
 		stream: false,
-	});
+	}, { signal: withTimeout(signal, timeoutMs).signal });
 
 	if (!response.output) {
 		throw new Error('No output from OpenAI');
@@ -82,9 +84,9 @@ function validateOpenAI(response: OpenAIOutput): SearchResult {
 	let sources: Array<Source> = [];
 
 	// Filter out reasoning elements and find relevant elements
-	const relevantElements = response.filter(item => item.type !== 'reasoning');
-	const messageElement = relevantElements.find(item => item.type === 'message');
-	const hasWebSearch = relevantElements.some(item => item.type === 'web_search_call');
+	const relevantElements = response.filter((item) => item.type !== 'reasoning');
+	const messageElement = relevantElements.find((item) => item.type === 'message');
+	const hasWebSearch = relevantElements.some((item) => item.type === 'web_search_call');
 
 	if (!messageElement) {
 		throw new Error('No message element found in response');
@@ -108,21 +110,23 @@ function validateOpenAI(response: OpenAIOutput): SearchResult {
 	// Extract sources from annotations if web search was used
 	if (hasWebSearch && content.annotations) {
 		sources = content.annotations
-			.filter(ann => ann.type === 'url_citation')
-			.map(ann => ({
+			.filter((ann) => ann.type === 'url_citation')
+			.map((ann) => ({
 				title: ann.title,
 				url: ann.url,
-				domain: extractDomain(ann.url)
+				domain: extractDomain(ann.url),
 			}));
 	}
 
 	return {
 		answer,
-		sources
+		sources,
 	};
 }
 
-const FORMATTED_SEARCH_PROMPT = dedent(`
+const FORMATTED_SEARCH_PROMPT = definePrompt(
+	'searchWithFormat',
+	dedent(`
 Based on the following search results, please format the information according
 to the requested structure:
 
@@ -139,7 +143,9 @@ to the requested structure:
 {sources}
 
 Please extract and format the relevant information from these search results as a JSON object.
-`);
+`),
+	['prompt', 'answer', 'sources'],
+);
 
 /**
  * Perform a web search using searchOpenAI and return structured response.
@@ -157,28 +163,34 @@ export async function searchWithFormat<T>({
 	useSearch = true,
 	countryISOCode = null,
 	contextSize = 'medium',
-	reasoningEffort = 'low'
+	reasoningEffort = 'low',
+	signal,
+	timeoutMs,
 }: FormattedSearchOptions<T>): Promise<T> {
-
 	const searchResult = await searchOpenAI({
 		prompt,
 		model,
 		useSearch,
 		countryISOCode,
 		contextSize,
-		reasoningEffort
+		reasoningEffort,
+		signal,
+		timeoutMs,
 	});
 
 	const sources = searchResult.sources
 		.map((source: { title: string; url: string }) => `- ${source.title}: ${source.url}`)
 		.join('\n');
 
-	const formattedPrompt = FORMATTED_SEARCH_PROMPT
-		.replace('{prompt}', prompt)
-		.replace('{answer}', searchResult.answer)
-		.replace('{sources}', sources);
+	const formattedPrompt = FORMATTED_SEARCH_PROMPT.render({ prompt, answer: searchResult.answer, sources });
 
-	const { parsed } = await askLLMSafe({ prompt: formattedPrompt, model: 'gpt-4.1-mini', schema: responseSchema });
+	const { parsed } = await askLLMSafe({
+		prompt: formattedPrompt,
+		model: 'gpt-4.1-mini',
+		schema: responseSchema,
+		signal,
+		timeoutMs,
+	});
 	if (!parsed) {
 		throw new Error('Failed to parse structured response from LLM');
 	}
@@ -196,18 +208,24 @@ export function searchBatch({
 	countryISOCode = null,
 	contextSize = 'medium',
 	reasoningEffort = 'low',
-	maxConcurrency = 100
+	maxConcurrency = 100,
+	signal,
+	timeoutMs,
 }: BatchSearchOptions): Promise<Array<SearchResult>> {
 	return mapParallel(
 		prompts,
 		maxConcurrency,
-		prompt => searchOpenAI({
-			prompt,
-			model,
-			useSearch,
-			countryISOCode: countryISOCode,
-			contextSize: contextSize,
-			reasoningEffort: reasoningEffort
-		})
+		(prompt) =>
+			searchOpenAI({
+				prompt,
+				model,
+				useSearch,
+				countryISOCode: countryISOCode,
+				contextSize: contextSize,
+				reasoningEffort: reasoningEffort,
+				signal,
+				timeoutMs,
+			}),
+		{ signal },
 	);
 }
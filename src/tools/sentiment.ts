@@ -4,6 +4,9 @@ import type { BrandContext, Product } from '../schemas/brand.schema.ts';
 import { type ABSentiment, type ABSentiments, ABSentimentsSchema } from '../schemas/sentiment.schema.ts';
 import { type ModelConfig, Tool } from '../tool.ts';
 import { Classifier } from './classifier.ts';
+import type { ConfidenceOptions } from '../confidence.ts';
+import { log } from '../observability.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
 /**
  * Formats a portfolio array as a comma-separated list of product/service names.
@@ -15,7 +18,9 @@ function formatPortfolio(portfolio: Array<Product>): string {
 		.join(', ');
 }
 
-const ABS_PROMPT_SYSTEM = dedent(`
+const ABS_PROMPT_SYSTEM = definePrompt(
+	'sentiment.system',
+	dedent(`
 You're an expert in Aspect-Based Sentiment Analysis. Your task involves identifying specific
 entities mentioned in a text (e.g. a person, product, service, or experience) and determining the
 polarity of the sentiment expressed toward each.
@@ -54,17 +59,23 @@ considered a sentiment. Look for explicit expressions of positive or negative fe
 adjectives or adverbs that indicate a sentiment.
 
 {instructions}
-`);
+`),
+	['instructions'],
+);
 
-const ABS_PROMPT_USER = dedent(`
+const ABS_PROMPT_USER = definePrompt(
+	'sentiment.user',
+	dedent(`
 Return the entities and their sentiments with reasons from the following text section.
 
 # Text
 
 {text}
-`);
+`),
+	['text'],
+);
 
-export interface SentimentExtractorConfig {
+export interface SentimentExtractorConfig extends PromptConfig {
 	/** Additional instructions for sentiment extraction */
 	instructions?: string;
 	/** Brand context for focused analysis */
@@ -76,6 +87,7 @@ export interface SentimentExtractorConfig {
  */
 export class SentimentExtractor extends Tool<string | null, ABSentiments, Array<ABSentiment>> {
 	private readonly systemPrompt: string;
+	private readonly userPrompt: PromptTemplate<'text'>;
 
 	constructor(config: SentimentExtractorConfig = {}, modelConfig: ModelConfig) {
 		super(modelConfig);
@@ -84,9 +96,7 @@ export class SentimentExtractor extends Tool<string | null, ABSentiments, Array<
 		const brandInstructions = brand
 			? (() => {
 				const portfolio = formatPortfolio(brand.portfolio);
-				const portfolioText = portfolio
-					? ` or its products/services (${portfolio})`
-					: '';
+				const portfolioText = portfolio ? ` or its products/services (${portfolio})` : '';
 				return dedent(`
 					When an aspect relates specifically to "${brand.shortName}"${portfolioText}, set the "context" field to "${brand.shortName}".
 					If it relates to a different brand/entity, use that brand/entity as the "context" exactly as implied by the input, or null if unclear.
@@ -98,7 +108,9 @@ export class SentimentExtractor extends Tool<string | null, ABSentiments, Array<
 			: '';
 
 		const combinedInstructions = [instructions, brandInstructions].filter(Boolean).join('\n\n');
-		this.systemPrompt = ABS_PROMPT_SYSTEM.replace('{instructions}', combinedInstructions);
+		const { system, user } = resolvePrompts({ system: ABS_PROMPT_SYSTEM, user: ABS_PROMPT_USER }, config);
+		this.systemPrompt = system.render({ instructions: combinedInstructions });
+		this.userPrompt = user;
 	}
 
 	protected override schema() {
@@ -106,7 +118,7 @@ export class SentimentExtractor extends Tool<string | null, ABSentiments, Array<
 	}
 
 	protected prompt(text: string | null): Message[] {
-		const userPrompt = ABS_PROMPT_USER.replace('{text}', text ?? '');
+		const userPrompt = this.userPrompt.render({ text: text ?? '' });
 		return [
 			{ role: 'system', content: this.systemPrompt },
 			{ role: 'user', content: userPrompt },
@@ -135,14 +147,14 @@ export class SentimentExtractor extends Tool<string | null, ABSentiments, Array<
 			const validatedResult = response.parsed.filter((sentiment) => {
 				// Check that quote is non-empty and not just whitespace
 				if (!sentiment.quote || sentiment.quote.trim().length === 0) {
-					console.warn(
+					log.warn(
 						`Empty or whitespace-only quote for aspect "${sentiment.aspect}"`,
 					);
 					return false;
 				}
 				// Check that quote is a substring of the input
 				if (!input.includes(sentiment.quote)) {
-					console.warn(
+					log.warn(
 						`Quote not found in text: "${sentiment.quote}" for aspect "${sentiment.aspect}"`,
 					);
 					return false;
@@ -185,7 +197,7 @@ Consider both explicit sentiment expressions and implicit tone.
 /**
  * Configuration for the SentimentPolarityClassifier tool.
  */
-export interface SentimentPolarityClassifierConfig {
+export interface SentimentPolarityClassifierConfig extends ConfidenceOptions, PromptConfig {
 	/** Additional instructions for the classifier */
 	instructions?: string;
 }
@@ -199,7 +211,7 @@ export class SentimentPolarityClassifier extends Classifier {
 		const combinedInstructions = instructions
 			? `${SENTIMENT_POLARITY_INSTRUCTIONS}\n\n${instructions}`
 			: SENTIMENT_POLARITY_INSTRUCTIONS;
-		super({ labels: SENTIMENT_POLARITY_LABELS, instructions: combinedInstructions }, modelConfig);
+		super({ ...config, labels: SENTIMENT_POLARITY_LABELS, instructions: combinedInstructions }, modelConfig);
 	}
 }
 
@@ -1,11 +1,12 @@
 import { createBrandMatchKey } from './brands.ts';
 import type { FlaggedBrand } from '../schemas/brand.schema.ts';
 import type { CategorizedSource, EnrichedSource, Source } from '../schemas/sources.schema.ts';
-import { TopicAssigner, toTopics, type TopicLabel } from './topics.ts';
+import { TopicAssigner, type TopicLabel, toTopics } from './topics.ts';
 import type { ProviderParams } from '../llm.ts';
 import type { Entity } from './entities.ts';
+import { log } from '../observability.ts';
 
-export type { Source, EnrichedSource, CategorizedSource } from '../schemas/sources.schema.ts';
+export type { CategorizedSource, EnrichedSource, Source } from '../schemas/sources.schema.ts';
 
 /**
  * Checks if brand or competitor is mentioned in the source title or URL.
@@ -13,7 +14,7 @@ export type { Source, EnrichedSource, CategorizedSource } from '../schemas/sourc
 export function enrichSource(
 	source: Source,
 	brands: Array<FlaggedBrand>,
-	entities: Array<Entity> = []
+	entities: Array<Entity> = [],
 ): EnrichedSource {
 	const mentionedBrandsMap = new Map<string, string>(); // norm -> display
 	const mentionedCompetitorsMap = new Map<string, string>(); // norm -> display
@@ -65,8 +66,9 @@ export function enrichSource(
 		const entityNameLower = entity.name.toLowerCase();
 		const isMentioned = title.includes(entityNameLower) || url.includes(entityNameLower);
 		const normEntity = createBrandMatchKey(entity.name);
-		const displayName = normEntity && brandDisplayByNorm.get(normEntity) ?
-			brandDisplayByNorm.get(normEntity)! : entity.name;
+		const displayName = normEntity && brandDisplayByNorm.get(normEntity)
+			? brandDisplayByNorm.get(normEntity)!
+			: entity.name;
 		if (isMentioned) {
 			if (normEntity && !mentionedCompetitorsMap.has(normEntity)) {
 				// keep a readable display while deduping on normalized form
@@ -80,17 +82,17 @@ export function enrichSource(
 		mentionedBrands: Array.from(mentionedBrandsMap.values()),
 		mentionedCompetitors: Array.from(mentionedCompetitorsMap.values()),
 		linkedBrand,
-		linkedCompetitor
+		linkedCompetitor,
 	};
 }
 
 export async function enrichSources(
 	sources: Array<Array<Source> | null>,
 	brands: Array<FlaggedBrand>,
-	entities: Array<Array<Entity>> = []
+	entities: Array<Array<Entity>> = [],
 ): Promise<Array<Array<EnrichedSource>>> {
 	return sources.map((sourceList, index) =>
-		sourceList == null ? [] : sourceList.map(source => enrichSource(source, brands, entities[index] ?? []))
+		sourceList == null ? [] : sourceList.map((source) => enrichSource(source, brands, entities[index] ?? []))
 	);
 }
 
@@ -98,7 +100,7 @@ export async function enrichSources(
  * Ranks brand mentions in an array of enriched sources.
  */
 export function rankBrandsInSourceArray(
-	sources: Array<EnrichedSource>
+	sources: Array<EnrichedSource>,
 ): { mentionedBrands: Array<string>; linkedBrands: Array<string> } {
 	const rankedMentions: Array<{ name: string; position: number }> = [];
 	const rankedLinks: Array<{ name: string; position: number }> = [];
@@ -107,24 +109,24 @@ export function rankBrandsInSourceArray(
 
 	sources.forEach((source, sourceIndex) => {
 		// Process mentioned brands (both brands and competitors)
-		source.mentionedBrands.forEach(brandName => {
+		source.mentionedBrands.forEach((brandName) => {
 			const norm = createBrandMatchKey(brandName);
 			if (norm && !seenMentions.has(norm)) {
 				seenMentions.add(norm);
 				rankedMentions.push({
 					name: brandName,
-					position: sourceIndex
+					position: sourceIndex,
 				});
 			}
 		});
 
-		source.mentionedCompetitors.forEach(competitorName => {
+		source.mentionedCompetitors.forEach((competitorName) => {
 			const norm = createBrandMatchKey(competitorName);
 			if (norm && !seenMentions.has(norm)) {
 				seenMentions.add(norm);
 				rankedMentions.push({
 					name: competitorName,
-					position: sourceIndex
+					position: sourceIndex,
 				});
 			}
 		});
@@ -136,7 +138,7 @@ export function rankBrandsInSourceArray(
 				seenLinks.add(norm);
 				rankedLinks.push({
 					name: source.linkedBrand,
-					position: sourceIndex
+					position: sourceIndex,
 				});
 			}
 		}
@@ -147,7 +149,7 @@ export function rankBrandsInSourceArray(
 				seenLinks.add(norm);
 				rankedLinks.push({
 					name: source.linkedCompetitor,
-					position: sourceIndex
+					position: sourceIndex,
 				});
 			}
 		}
@@ -156,17 +158,16 @@ export function rankBrandsInSourceArray(
 	return {
 		mentionedBrands: rankedMentions
 			.sort((a, b) => a.position - b.position)
-			.map(item => item.name),
+			.map((item) => item.name),
 		linkedBrands: rankedLinks
 			.sort((a, b) => a.position - b.position)
-			.map(item => item.name)
+			.map((item) => item.name),
 	};
 }
 
 export function rankedBrandsInSources(
-	sources: Array<Array<EnrichedSource>>
-): { mentionedBrands: Array<Array<string>>, linkedBrands: Array<Array<string>> } {
-
+	sources: Array<Array<EnrichedSource>>,
+): { mentionedBrands: Array<Array<string>>; linkedBrands: Array<Array<string>> } {
 	const allMentioned: Array<Array<string>> = [];
 	const allLinked: Array<Array<string>> = [];
 	for (const sourceList of sources) {
@@ -177,7 +178,7 @@ export function rankedBrandsInSources(
 
 	return {
 		mentionedBrands: allMentioned,
-		linkedBrands: allLinked
+		linkedBrands: allLinked,
 	};
 }
 
@@ -186,7 +187,7 @@ export function rankedBrandsInSources(
  */
 export function collectURLs(
 	sourceLists: Array<Array<Source>>,
-	domains: boolean = false
+	domains: boolean = false,
 ): Array<string> {
 	const collected = new Set<string>();
 
@@ -195,7 +196,7 @@ export function collectURLs(
 		for (const source of sources) {
 			const value = domains ? source.domain : source.url;
 			if (value.length > 400) {
-				console.warn(`Skipping overly long ${domains ? 'domain' : 'URL'}: ${value}`);
+				log.warn(`Skipping overly long ${domains ? 'domain' : 'URL'}: ${value}`);
 				continue;
 			}
 			collected.add(value);
@@ -205,7 +206,6 @@ export function collectURLs(
 	return Array.from(collected);
 }
 
-
 const WEB_TAXONOMY = {
 	'Authority & Ownership': [
 		'Brand / Corporate Site',
@@ -213,26 +213,26 @@ const WEB_TAXONOMY = {
 		'Government / Public Sector',
 		'Education / Academic',
 		'Non-Profit / NGO',
-		'Religious / Faith-Based'
+		'Religious / Faith-Based',
 	],
 	'News & Media': [
 		'Mainstream News Outlet',
 		'Trade / Niche Publication',
 		'Local / Regional News',
-		'Press Release Distribution'
+		'Press Release Distribution',
 	],
 	'Reference & Knowledge': [
 		'Encyclopedic Reference',
 		'Data / Statistics Portal',
 		'Guides & Tutorials',
-		'Educational Content Hub'
+		'Educational Content Hub',
 	],
 	'Content & Community': [
 		'Blog',
 		'Forum / Message Board',
 		'Social Network',
 		'Aggregator / Q&A Platform',
-		'User Review Site'
+		'User Review Site',
 	],
 	'Commercial': [
 		'E-Commerce / Retailer',
@@ -240,7 +240,7 @@ const WEB_TAXONOMY = {
 		'Affiliate / Comparison Site',
 		'Classifieds / Listings',
 		'Travel / Booking Platform',
-		'Job Board / Recruitment'
+		'Job Board / Recruitment',
 	],
 	'Professional & B2B': [
 		'Consultancy / Agency',
@@ -249,19 +249,19 @@ const WEB_TAXONOMY = {
 		'B2B Marketplace / Vendor Directory',
 		'Technology Documentation (APIs, GitHub, OSS)',
 		'Online Tool / Calculator',
-		'Tech Blog / Knowledge Hub'
+		'Tech Blog / Knowledge Hub',
 	],
 	'Lifestyle & Entertainment': [
 		'Streaming Platform',
 		'Sports Site / Gaming Site',
 		'Lifestyle & Culture (Food, Fashion, Travel, Hobbies)',
-		'Events & Ticketing'
+		'Events & Ticketing',
 	],
 	'Low-Value / Edge Cases': [
 		'Parked / Placeholder Domain',
 		'Spam / Low-Quality SEO Site',
-		'Personal / Portfolio Site'
-	]
+		'Personal / Portfolio Site',
+	],
 };
 
 const WEB_TAXONOMY_TOPICS = toTopics(WEB_TAXONOMY);
@@ -273,11 +273,11 @@ export async function classifyURLs(
 	urls: Array<string>,
 	model: string = 'gpt-5.1',
 	modelParams: ProviderParams = { reasoning: { effort: 'none' } },
-	maxConcurrency: number = 100
+	maxConcurrency: number = 100,
 ): Promise<Record<string, TopicLabel | null>> {
 	const assigner = new TopicAssigner(
 		{ taxonomy: WEB_TAXONOMY_TOPICS },
-		{ model, modelParams, maxConcurrency }
+		{ model, modelParams, maxConcurrency },
 	);
 
 	const results = await assigner.batch(urls);
@@ -298,7 +298,7 @@ export async function makeCategoryMapper(
 	domains: boolean = false,
 	model: string = 'gpt-5.1',
 	modelParams: ProviderParams = { reasoning: { effort: 'none' } },
-	maxConcurrency: number = 100
+	maxConcurrency: number = 100,
 ): Promise<Record<string, TopicLabel | null>> {
 	const urls = collectURLs(sourceLists, domains);
 	const categoryMapping = await classifyURLs(urls, model, modelParams, maxConcurrency);
@@ -313,7 +313,7 @@ export async function categorizeSources(
 	domains: boolean = false,
 	model: string = 'gpt-5.1',
 	modelParams: ProviderParams = { reasoning: { effort: 'none' } },
-	maxConcurrency: number = 100
+	maxConcurrency: number = 100,
 ): Promise<Array<Array<CategorizedSource>>> {
 	const categoryMapper = await makeCategoryMapper(sourceLists, domains, model, modelParams, maxConcurrency);
 
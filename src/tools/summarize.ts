@@ -1,9 +1,13 @@
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import type { Message } from '../llm.ts';
-import { SummarySchema, type Summary } from '../schemas/summary.schema.ts';
+import { type BudgetStrategy, type FittedInput, fitText } from '../budget.ts';
+import { type Summary, SummarySchema } from '../schemas/summary.schema.ts';
 import { dedent } from '../helpers/utils.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
-const SUMMARIZE_PROMPT_SYSTEM = dedent(`
+const SUMMARIZE_PROMPT_SYSTEM = definePrompt(
+	'summarizer.system',
+	dedent(`
 You are an expert at summarizing text. Your task is to condense the given text while preserving
 the most important information, key points, and main ideas.
 
@@ -15,17 +19,23 @@ Guidelines:
 5. Target approximately {wordCount} words (some variance is acceptable)
 
 {instructions}
-`);
+`),
+	['wordCount', 'instructions'],
+);
 
-const SUMMARIZE_PROMPT_USER = dedent(`
+const SUMMARIZE_PROMPT_USER = definePrompt(
+	'summarizer.user',
+	dedent(`
 Summarize the following text to approximately {wordCount} words.
 
 # Text
 
 {text}
-`);
+`),
+	['wordCount', 'text'],
+);
 
-export interface SummarizerConfig {
+export interface SummarizerConfig extends PromptConfig {
 	/** Target word count for the summary (default: 100) */
 	targetWordCount?: number;
 	/** Additional instructions for summarization */
@@ -37,16 +47,16 @@ export interface SummarizerConfig {
  */
 export class Summarizer extends Tool<string | null, Summary, string> {
 	private readonly systemPrompt: string;
-	private readonly targetWordCount: number;
+	private readonly userPrompt: PromptTemplate<'text'>;
 
 	constructor(config: SummarizerConfig = {}, modelConfig: ModelConfig) {
 		super(modelConfig);
 		const { targetWordCount = 100, instructions = '' } = config;
 
-		this.targetWordCount = targetWordCount;
-		this.systemPrompt = SUMMARIZE_PROMPT_SYSTEM
-			.replace('{wordCount}', String(targetWordCount))
-			.replace('{instructions}', instructions);
+		const templates = { system: SUMMARIZE_PROMPT_SYSTEM, user: SUMMARIZE_PROMPT_USER };
+		const { system, user } = resolvePrompts(templates, config);
+		this.systemPrompt = system.render({ wordCount: targetWordCount, instructions });
+		this.userPrompt = user.partial({ wordCount: targetWordCount });
 	}
 
 	protected override schema() {
@@ -54,15 +64,22 @@ export class Summarizer extends Tool<string | null, Summary, string> {
 	}
 
 	protected prompt(text: string | null): Message[] {
-		const userPrompt = SUMMARIZE_PROMPT_USER
-			.replace('{wordCount}', String(this.targetWordCount))
-			.replace('{text}', text ?? '');
+		const userPrompt = this.userPrompt.render({ text: text ?? '' });
 		return [
 			{ role: 'system', content: this.systemPrompt },
-			{ role: 'user', content: userPrompt }
+			{ role: 'user', content: userPrompt },
 		];
 	}
 
+	/** Truncates the end of texts exceeding the context window. */
+	protected override fitInput(
+		text: string | null,
+		fits: (text: string | null) => boolean,
+		_strategy: BudgetStrategy,
+	): FittedInput<string | null> {
+		return fitText(text ?? '', fits);
+	}
+
 	protected override isEmpty(text: string | null): boolean {
 		return text == null || text.trim() === '';
 	}
@@ -1,18 +1,15 @@
 /* eslint no-console: ["warn", { allow: ["log", "warn", "error"] }] */
 import { z } from '@zod/zod';
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import type { Message } from '../llm.ts';
+import { type BudgetStrategy, fitRecords, type FittedInput } from '../budget.ts';
 
-import {
-	TopicSchema,
-	type TopicType,
-	type TaxonomyType,
-	type TopicLabel
-} from '../schemas/topics.schema.ts';
+import { type TaxonomyType, type TopicLabel, TopicSchema, type TopicType } from '../schemas/topics.schema.ts';
 import { dedent, formatRecordsAttrWise } from '../helpers/utils.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
 // Re-export types from topics.schema.ts
-export type { TopicType, TaxonomyType, TopicLabel };
+export type { TaxonomyType, TopicLabel, TopicType };
 
 // =============================================================================
 // Helper Functions
@@ -39,9 +36,9 @@ function levenshteinDistance(a: string, b: string): number {
 		for (let j = 1; j <= b.length; j++) {
 			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
 			matrix[i][j] = Math.min(
-				matrix[i - 1][j] + 1,        // deletion
-				matrix[i][j - 1] + 1,        // insertion
-				matrix[i - 1][j - 1] + cost  // substitution
+				matrix[i - 1][j] + 1, // deletion
+				matrix[i][j - 1] + 1, // insertion
+				matrix[i - 1][j - 1] + cost, // substitution
 			);
 		}
 	}
@@ -77,8 +74,10 @@ function validateSubtopics(topic: string, subtopics: Array<string>): Array<strin
 			// Check for permutations of words
 			const stWords = new Set(st.split(' '));
 			const otherWords = new Set(other.split(' '));
-			if (stWords.size === otherWords.size &&
-				[...stWords].every(word => otherWords.has(word))) {
+			if (
+				stWords.size === otherWords.size &&
+				[...stWords].every((word) => otherWords.has(word))
+			) {
 				errors.push(`Subtopic '${st}' is a duplicate (permutation) of subtopic '${other}'.`);
 			}
 		}
@@ -101,7 +100,7 @@ export const Topic = TopicSchema.superRefine(({ topic, subtopics }, ctx) => {
 		ctx.addIssue({
 			code: 'custom',
 			message: error,
-			path: ['subtopics']
+			path: ['subtopics'],
 		});
 	}
 });
@@ -110,14 +109,14 @@ export const Topic = TopicSchema.superRefine(({ topic, subtopics }, ctx) => {
  * Taxonomy schema WITHOUT validation for fallback parsing
  */
 export const TaxonomyBase = z.object({
-	topics: z.array(TopicSchema)
+	topics: z.array(TopicSchema),
 });
 
 /**
  * Taxonomy schema with topic validation
  */
 export const Taxonomy = z.object({
-	topics: z.array(Topic)
+	topics: z.array(Topic),
 });
 
 /**
@@ -127,7 +126,7 @@ export const Taxonomy = z.object({
 export function toTopics(taxonomy: Record<string, Array<string>>): Array<{ topic: string; subtopics: Array<string> }> {
 	return Object.entries(taxonomy).map(([topic, subtopics]) => ({
 		topic,
-		subtopics
+		subtopics,
 	}));
 }
 
@@ -136,21 +135,21 @@ export function toTopics(taxonomy: Record<string, Array<string>>): Array<{ topic
  * Validates that subtopic belongs to the correct topic
  */
 export function createLabelSchema(taxonomy: TaxonomyType) {
-	const topicNames = taxonomy.topics.map(t => t.topic);
-	const allSubtopics = taxonomy.topics.flatMap(t => t.subtopics);
+	const topicNames = taxonomy.topics.map((t) => t.topic);
+	const allSubtopics = taxonomy.topics.flatMap((t) => t.subtopics);
 
 	return z.object({
 		topic: z.enum(topicNames as [string, ...Array<string>]),
-		subtopic: z.enum(allSubtopics as [string, ...Array<string>])
+		subtopic: z.enum(allSubtopics as [string, ...Array<string>]),
 	}).superRefine((data, ctx) => {
-		const topicEntry = taxonomy.topics.find(t => t.topic === data.topic);
+		const topicEntry = taxonomy.topics.find((t) => t.topic === data.topic);
 		const allowedSubtopics = topicEntry?.subtopics || [];
 		if (!allowedSubtopics.includes(data.subtopic)) {
 			ctx.addIssue({
 				code: 'custom',
 				message: `Subtopic '${data.subtopic}' is not a valid subtopic for topic '${data.topic}'. ` +
 					`Allowed subtopics are: ${allowedSubtopics.join(', ')}.`,
-				path: ['subtopic']
+				path: ['subtopic'],
 			});
 		}
 	});
@@ -160,7 +159,9 @@ export function createLabelSchema(taxonomy: TaxonomyType) {
 // TopicExtractor
 // =============================================================================
 
-const TOPICS_PROMPT = dedent(`
+const TOPICS_PROMPT = definePrompt(
+	'topicExtractor',
+	dedent(`
 # Instructions
 
 From the data records below, extract a two-level nested list of topics.
@@ -183,9 +184,11 @@ The taxonomy should follow the MECE framework (Mutually Exclusive, Collectively
 # Data Records
 
 {records}
-`);
+`),
+	['n_topics', 'n_subtopics', 'language', 'instructions', 'records'],
+);
 
-export interface TopicExtractorConfig {
+export interface TopicExtractorConfig extends PromptConfig {
 	/** Maximum number of top-level topics (default: 10) */
 	nTopics?: number;
 	/** Maximum number of subtopics per topic (default: 5) */
@@ -207,7 +210,7 @@ export class TopicExtractor extends Tool<
 	TaxonomyType
 > {
 	private readonly maxSamples: number;
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'records'>;
 
 	constructor(config: TopicExtractorConfig = {}, modelConfig: ModelConfig) {
 		super(modelConfig);
@@ -216,15 +219,17 @@ export class TopicExtractor extends Tool<
 			nSubtopics = 5,
 			instructions = '',
 			maxSamples = 500,
-			language = 'The same language as the records'
+			language = 'The same language as the records',
 		} = config;
 
 		this.maxSamples = maxSamples;
-		this.promptTemplate = TOPICS_PROMPT
-			.replace('{n_topics}', String(nTopics))
-			.replace('{n_subtopics}', String(nSubtopics))
-			.replace('{instructions}', instructions)
-			.replace('{language}', language);
+		const { user } = resolvePrompts({ user: TOPICS_PROMPT }, config);
+		this.promptTemplate = user.partial({
+			n_topics: nTopics,
+			n_subtopics: nSubtopics,
+			instructions,
+			language,
+		});
 	}
 
 	protected override schema() {
@@ -232,11 +237,18 @@ export class TopicExtractor extends Tool<
 	}
 
 	protected prompt(records: Array<Record<string, unknown>>) {
-		const sampledRecords = records.length > this.maxSamples
-			? records.slice(0, this.maxSamples)
-			: records;
+		const sampledRecords = records.length > this.maxSamples ? records.slice(0, this.maxSamples) : records;
 		const formattedRecords = formatRecordsAttrWise(sampledRecords);
-		return this.promptTemplate.replace('{records}', formattedRecords);
+		return this.promptTemplate.render({ records: formattedRecords });
+	}
+
+	/** Truncates or drops fields of the sampled records, then drops records, to fit the context window. */
+	protected override fitInput(
+		records: Array<Record<string, unknown>>,
+		fits: (records: Array<Record<string, unknown>>) => boolean,
+		strategy: BudgetStrategy,
+	): FittedInput<Array<Record<string, unknown>>> {
+		return fitRecords(records.slice(0, this.maxSamples), fits, strategy);
 	}
 
 	protected override isEmpty(records: Array<Record<string, unknown>>): boolean {
@@ -250,8 +262,8 @@ export class TopicExtractor extends Tool<
 	override batch(): never {
 		throw new Error(
 			'TopicExtractor.batch() is not supported. ' +
-			'This tool extracts a single taxonomy from many records (aggregation). ' +
-			'Use invoke() with all records instead.'
+				'This tool extracts a single taxonomy from many records (aggregation). ' +
+				'Use invoke() with all records instead.',
 		);
 	}
 }
@@ -260,7 +272,9 @@ export class TopicExtractor extends Tool<
 // TopicAssigner
 // =============================================================================
 
-const LABEL_PROMPT_SYSTEM = dedent(`
+const LABEL_PROMPT_SYSTEM = definePrompt(
+	'topicAssigner.system',
+	dedent(`
 You're task is to use the following hierarchy of topics and subtopics (in json format),
 to assign the correct topic and subtopic to each text in the input.
 You cannot invent new topics or subtopics.
@@ -269,20 +283,26 @@ You cannot assign a subtopic that does not belong to the assigned topic.
 # Topics
 
 {taxonomy}
-`);
+`),
+	['taxonomy'],
+);
 
-const LABEL_PROMPT_USER = dedent(`
+const LABEL_PROMPT_USER = definePrompt(
+	'topicAssigner.user',
+	dedent(`
 Assign the correct topic and subtopic to the following text.
 
 # Text
 
 {text}
-`);
+`),
+	['text'],
+);
 
 /**
  * Configuration for the TopicAssigner tool.
  */
-export interface TopicAssignerConfig {
+export interface TopicAssignerConfig extends PromptConfig {
 	taxonomy: TaxonomyType | Array<TopicType>;
 }
 
@@ -292,22 +312,20 @@ export interface TopicAssignerConfig {
 export class TopicAssigner extends Tool<string | null, TopicLabel, TopicLabel> {
 	private readonly labelSchema: z.ZodType<TopicLabel>;
 	private readonly systemPrompt: string;
+	private readonly userPrompt: PromptTemplate<'text'>;
 
 	constructor(config: TopicAssignerConfig, modelConfig: ModelConfig) {
 		super(modelConfig);
 		const { taxonomy } = config;
 
 		// Normalize taxonomy to TaxonomyType
-		const normalizedTaxonomy: TaxonomyType = Array.isArray(taxonomy)
-			? { topics: taxonomy }
-			: taxonomy;
+		const normalizedTaxonomy: TaxonomyType = Array.isArray(taxonomy) ? { topics: taxonomy } : taxonomy;
 
 		// Build schema and system prompt once in constructor
 		this.labelSchema = createLabelSchema(normalizedTaxonomy);
-		this.systemPrompt = LABEL_PROMPT_SYSTEM.replace(
-			'{taxonomy}',
-			JSON.stringify(normalizedTaxonomy, null, 2)
-		);
+		const { system, user } = resolvePrompts({ system: LABEL_PROMPT_SYSTEM, user: LABEL_PROMPT_USER }, config);
+		this.systemPrompt = system.render({ taxonomy: JSON.stringify(normalizedTaxonomy, null, 2) });
+		this.userPrompt = user;
 	}
 
 	protected override schema() {
@@ -315,10 +333,10 @@ export class TopicAssigner extends Tool<string | null, TopicLabel, TopicLabel> {
 	}
 
 	protected prompt(text: string | null): Message[] {
-		const userPrompt = LABEL_PROMPT_USER.replace('{text}', text ?? '');
+		const userPrompt = this.userPrompt.render({ text: text ?? '' });
 		return [
 			{ role: 'system', content: this.systemPrompt },
-			{ role: 'user', content: userPrompt }
+			{ role: 'user', content: userPrompt },
 		];
 	}
 
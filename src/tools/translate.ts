@@ -1,8 +1,11 @@
-import { Tool, type ModelConfig } from '../tool.ts';
+import { type ModelConfig, Tool } from '../tool.ts';
 import { dedent } from '../helpers/utils.ts';
 import type { BrandContext } from '../schemas/brand.schema.ts';
+import { definePrompt, type PromptConfig, type PromptTemplate, resolvePrompts } from '../template.ts';
 
-const TRANSLATE_PROMPT = dedent(`
+const TRANSLATE_PROMPT = definePrompt(
+	'keywordTranslator',
+	dedent(`
 You are an expert in understanding search intent and conversational AI interactions.
 
 Convert the following Google search keyword into an equivalent natural language prompt that
@@ -45,9 +48,11 @@ You will receive brand context (sector, country). Follow these rules strictly:
 - Country: {country}
 
 Return only the converted prompt, nothing else.
-`);
+`),
+	['language', 'instructions', 'keyword', 'sector', 'country'],
+);
 
-export interface KeywordTranslatorConfig {
+export interface KeywordTranslatorConfig extends PromptConfig {
 	/** Brand context for disambiguation */
 	brandContext: BrandContext;
 	/** Language for the output prompt (default: 'en') */
@@ -61,23 +66,25 @@ export interface KeywordTranslatorConfig {
  * Uses raw text mode (no schema) since the output is plain text.
  */
 export class KeywordTranslator extends Tool<string | null, string, string> {
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'keyword'>;
 
 	constructor(config: KeywordTranslatorConfig, modelConfig: ModelConfig) {
 		super(modelConfig);
 		const { brandContext, language = 'en', instructions = '' } = config;
 
-		this.promptTemplate = TRANSLATE_PROMPT
-			.replace('{language}', language)
-			.replace('{sector}', brandContext.sector)
-			.replace('{country}', brandContext.country)
-			.replace('{instructions}', instructions);
+		const { user } = resolvePrompts({ user: TRANSLATE_PROMPT }, config);
+		this.promptTemplate = user.partial({
+			language,
+			sector: brandContext.sector,
+			country: brandContext.country,
+			instructions,
+		});
 	}
 
 	// No schema() override - uses default null for raw text mode
 
 	protected prompt(keyword: string | null) {
-		return this.promptTemplate.replace('{keyword}', keyword ?? '');
+		return this.promptTemplate.render({ keyword: keyword ?? '' });
 	}
 
 	protected override isEmpty(keyword: string | null): boolean {
@@ -89,7 +96,9 @@ export class KeywordTranslator extends Tool<string | null, string, string> {
 // PromptToKeyword (LLM prompt → keyword)
 // =============================================================================
 
-const REVERSE_TRANSLATE_PROMPT = dedent(`
+const REVERSE_TRANSLATE_PROMPT = definePrompt(
+	'promptToKeyword',
+	dedent(`
 You are an expert in understanding search intent.
 
 Convert the following natural language prompt into an equivalent Google search keyword.
@@ -116,9 +125,11 @@ Otherwise, Google keyword planner will not accept it.
 {prompt}
 
 Return only the keyword, nothing else.
-`);
+`),
+	['language', 'prompt'],
+);
 
-export interface PromptToKeywordConfig {
+export interface PromptToKeywordConfig extends PromptConfig {
 	/** Language for the output keyword (default: 'en') */
 	language?: string;
 }
@@ -128,19 +139,20 @@ export interface PromptToKeywordConfig {
  * Uses raw text mode (no schema) since the output is plain text.
  */
 export class PromptToKeyword extends Tool<string | null, string, string> {
-	private readonly promptTemplate: string;
+	private readonly promptTemplate: PromptTemplate<'prompt'>;
 
 	constructor(config: PromptToKeywordConfig = {}, modelConfig: ModelConfig) {
 		super(modelConfig);
 		const { language = 'en' } = config;
 
-		this.promptTemplate = REVERSE_TRANSLATE_PROMPT.replace('{language}', language);
+		const { user } = resolvePrompts({ user: REVERSE_TRANSLATE_PROMPT }, config);
+		this.promptTemplate = user.partial({ language });
 	}
 
 	// No schema() override - uses default null for raw text mode
 
 	protected prompt(text: string | null) {
-		return this.promptTemplate.replace('{prompt}', text ?? '');
+		return this.promptTemplate.render({ prompt: text ?? '' });
 	}
 
 	protected override isEmpty(text: string | null): boolean {
@@ -0,0 +1,226 @@
+import { assertEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import { askLLMSafe, type FilePart, type LLMError, type Message } from '../src/llm.ts';
+import { AnthropicProvider, registerProvider, SchemaValidationError } from '../src/providers/index.ts';
+
+/**
+ * Replace fetch with a stub capturing the request body and answering with a fixed Messages API response.
+ */
+function stubFetch(answer: Record<string, unknown>): { bodies: Array<Record<string, unknown>>; restore: () => void } {
+	const original = globalThis.fetch;
+	const bodies: Array<Record<string, unknown>> = [];
+
+	globalThis.fetch = (_input: RequestInfo | URL, init?: RequestInit) => {
+		bodies.push(JSON.parse(String(init?.body)));
+		return Promise.resolve(Response.json({
+			id: 'msg_1',
+			type: 'message',
+			role: 'assistant',
+			model: 'claude-sonnet-4-5',
+			stop_reason: 'end_turn',
+			stop_sequence: null,
+			usage: { input_tokens: 10, output_tokens: 5 },
+			...answer,
+		}));
+	};
+
+	return { bodies, restore: () => globalThis.fetch = original };
+}
+
+const schema = z.object({ label: z.string() });
+
+Deno.test('AnthropicProvider - sends system messages as the system prompt and forces the response tool', async () => {
+	const { bodies, restore } = stubFetch({
+		content: [{ type: 'tool_use', id: 'toolu_1', name: 'response', input: { label: 'Technology' } }],
+		stop_reason: 'tool_use',
+	});
+
+	try {
+		const provider = new AnthropicProvider('sk-test');
+		const response = await provider.complete(
+			[
+				{ role: 'system', content: 'You are a classifier.' },
+				{ role: 'user', content: 'Classify: laptops' },
+				{ role: 'system', content: 'Answer in English.' },
+			],
+			'claude-sonnet-4-5',
+			schema,
+		);
+
+		assertEquals(response.parsed, { label: 'Technology' });
+		assertEquals(response.text, '{"label":"Technology"}');
+		assertEquals(bodies[0].system, 'You are a classifier.\n\nAnswer in English.');
+		assertEquals(bodies[0].messages, [{ role: 'user', content: 'Classify: laptops' }]);
+		assertEquals(bodies[0].tool_choice, { type: 'tool', name: 'response' });
+		assertEquals((bodies[0].tools as Array<{ name: string }>).map((tool) => tool.name), ['response']);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test('AnthropicProvider - reports a schema error when the response tool is not called', async () => {
+	const { restore } = stubFetch({ content: [{ type: 'text', text: 'Technology' }] });
+
+	try {
+		const provider = new AnthropicProvider('sk-test');
+		const response = await provider.complete(
+			[{ role: 'user', content: 'Classify: laptops' }],
+			'claude-sonnet-4-5',
+			schema,
+		);
+
+		assertEquals(response.parsed, null);
+		assertEquals(response.error instanceof SchemaValidationError, true);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test('AnthropicProvider - maps tool calls and sends tool results back in user turns', async () => {
+	const { bodies, restore } = stubFetch({
+		content: [
+			{ type: 'text', text: 'Let me check.' },
+			{ type: 'tool_use', id: 'toolu_2', name: 'get_volume', input: { keyword: 'shoes' } },
+		],
+		stop_reason: 'tool_use',
+	});
+	const tools = [{
+		name: 'get_volume',
+		description: 'Search volume of a keyword',
+		parameters: z.object({ keyword: z.string() }),
+	}];
+
+	try {
+		const provider = new AnthropicProvider('sk-test');
+		const response = await provider.complete(
+			[
+				{ role: 'user', content: 'How popular are shoes?' },
+				{
+					role: 'assistant',
+					content: '',
+					toolCalls: [{ id: 'toolu_1', name: 'get_volume', arguments: { keyword: 'boots' } }],
+				},
+				{ role: 'tool', toolCallId: 'toolu_1', content: '1000' },
+			],
+			'claude-sonnet-4-5',
+			schema,
+			undefined,
+			tools,
+		);
+
+		assertEquals(response.parsed, null);
+		assertEquals(response.text, 'Let me check.');
+		assertEquals(response.toolCalls, [{ id: 'toolu_2', name: 'get_volume', arguments: { keyword: 'shoes' } }]);
+
+		assertEquals(bodies[0].tool_choice, { type: 'any' });
+		assertEquals((bodies[0].tools as Array<{ name: string }>).map((tool) => tool.name), ['get_volume', 'response']);
+		assertEquals(bodies[0].messages, [
+			{ role: 'user', content: 'How popular are shoes?' },
+			{
+				role: 'assistant',
+				content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_volume', input: { keyword: 'boots' } }],
+			},
+			{ role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '1000' }] },
+		]);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test('AnthropicProvider - counts cache reads and writes as input tokens', async () => {
+	const { restore } = stubFetch({
+		content: [{ type: 'text', text: 'Hello' }],
+		usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 100, cache_creation_input_tokens: 20 },
+	});
+
+	try {
+		const provider = new AnthropicProvider('sk-test');
+		const response = await provider.complete([{ role: 'user', content: 'Hi' }], 'claude-sonnet-4-5', null);
+
+		assertEquals(response.parsed, 'Hello');
+		assertEquals(response.usage, {
+			inputTokens: 130,
+			outputTokens: 5,
+			totalTokens: 135,
+			cachedInputTokens: 100,
+			cacheWriteInputTokens: 20,
+		});
+	} finally {
+		restore();
+	}
+});
+
+Deno.test('AnthropicProvider - sends inline text files as plain text documents', async () => {
+	const { bodies, restore } = stubFetch({ content: [{ type: 'text', text: 'Two rows' }] });
+
+	try {
+		const provider = new AnthropicProvider('sk-test');
+		const response = await provider.complete(
+			[{
+				role: 'user',
+				content: [
+					{ type: 'text', text: 'Summarize this file' },
+					{ type: 'file', data: btoa('name,price\nmug,5'), mimeType: 'text/csv', filename: 'prices.csv' },
+				],
+			}],
+			'claude-sonnet-4-5',
+			null,
+		);
+
+		assertEquals(response.text, 'Two rows');
+		const [message] = bodies[0].messages as Array<{ content: Array<Record<string, unknown>> }>;
+		assertEquals(message.content[1], {
+			type: 'document',
+			source: { type: 'text', media_type: 'text/plain', data: 'name,price\nmug,5' },
+			title: 'prices.csv',
+		});
+	} finally {
+		restore();
+	}
+});
+
+Deno.test('AnthropicProvider - rejects unusable files without retrying', async () => {
+	const { bodies, restore } = stubFetch({ content: [] });
+	let calls = 0;
+	const provider = new AnthropicProvider('sk-test');
+	const unregister = registerProvider('claude-test-', () => ({
+		name: provider.name,
+		complete<T>(messages: Array<Message>, model: string, schema: z.ZodType<T> | null) {
+			calls++;
+			return provider.complete(messages, model, schema);
+		},
+	}));
+	const files: Array<FilePart> = [
+		{ type: 'file', data: 'UEsDBA==', mimeType: 'application/zip' },
+		{ type: 'file', data: 'not base64!', mimeType: 'text/plain' },
+		{ type: 'file', data: 'JVBERi0=' },
+	];
+
+	try {
+		const errors = [];
+		for (const file of files) {
+			calls = 0;
+			const response = await askLLMSafe({
+				prompt: [{ role: 'user', content: [file] }],
+				model: 'claude-test-model',
+				onError: 'return',
+			});
+			errors.push([(response.error as LLMError).kind, response.error?.message, calls]);
+		}
+
+		assertEquals(bodies.length, 0);
+		assertEquals(errors, [
+			[
+				'invalid_request',
+				"Anthropic doesn't support files of type 'application/zip' (only PDFs and text files)",
+				1,
+			],
+			['invalid_request', 'Text file data is not valid base64', 1],
+			['invalid_request', 'A mimeType is required for base64 file content', 1],
+		]);
+	} finally {
+		unregister();
+		restore();
+	}
+});
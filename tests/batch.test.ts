@@ -0,0 +1,211 @@
+import { assertAlmostEquals, assertEquals, assertRejects } from '@std/assert';
+import { z } from '@zod/zod';
+
+import type { LLMProvider, LLMResponse, Message } from '../src/llm.ts';
+import { OpenAIProvider, registerProvider, setReplayOptions } from '../src/providers/index.ts';
+import { SchemaValidationError } from '../src/providers/errors.ts';
+import { Tool } from '../src/tool.ts';
+
+const schema = z.object({ label: z.string() });
+
+/**
+ * Replace fetch with a stub emulating the OpenAI Files and Batches endpoints.
+ */
+function stubOpenAIBatches(outputLines: Array<unknown>): { uploads: Array<string>; restore: () => void } {
+	const original = globalThis.fetch;
+	const uploads: Array<string> = [];
+
+	globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+		const url = String(input instanceof Request ? input.url : input);
+		const method = init?.method ?? 'GET';
+
+		if (url.endsWith('/files') && method === 'POST') {
+			const file = (init?.body as FormData).get('file') as File;
+			uploads.push(await file.text());
+			return Response.json({ id: 'file-in', object: 'file', purpose: 'batch' });
+		}
+		if (url.endsWith('/batches') && method === 'POST') {
+			return Response.json({ id: 'batch_1', object: 'batch', status: 'validating' });
+		}
+		if (url.endsWith('/batches/batch_1')) {
+			return Response.json({ id: 'batch_1', object: 'batch', status: 'completed', output_file_id: 'file-out' });
+		}
+		if (url.endsWith('/files/file-out/content')) {
+			return new Response(outputLines.map((line) => JSON.stringify(line)).join('\n'));
+		}
+		return new Response('Not found', { status: 404 });
+	};
+
+	return { uploads, restore: () => globalThis.fetch = original };
+}
+
+function outputLine(id: number, text: string) {
+	return {
+		custom_id: String(id),
+		response: {
+			status_code: 200,
+			body: {
+				output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text }] }],
+				usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+			},
+		},
+		error: null,
+	};
+}
+
+Deno.test('OpenAIProvider - submits batch requests as JSONL and parses their outputs', async () => {
+	const { uploads, restore } = stubOpenAIBatches([
+		outputLine(1, 'not json'),
+		outputLine(0, '{"label":"Technology"}'),
+	]);
+
+	try {
+		const provider = new OpenAIProvider('sk-test');
+		const requests: Array<Message[]> = [
+			[{ role: 'user', content: 'Classify: laptops' }],
+			[{ role: 'user', content: 'Classify: apples' }],
+			[{ role: 'user', content: 'Classify: cars' }],
+		];
+
+		const jobId = await provider.submitBatch(requests, 'gpt-4.1-mini', schema, { temperature: 0 });
+		const results = await provider.getBatchResults(jobId, 3, schema);
+
+		const lines = uploads[0].split('\n').map((line) => JSON.parse(line));
+		assertEquals(jobId, 'batch_1');
+		assertEquals(lines.map((line) => line.custom_id), ['0', '1', '2']);
+		assertEquals(lines[0].url, '/v1/responses');
+		assertEquals(lines[0].body.temperature, 0);
+		assertEquals(lines[0].body.text.format.type, 'json_schema');
+
+		assertEquals(results?.[0].parsed, { label: 'Technology' });
+		assertEquals(results?.[0].usage, { inputTokens: 10, outputTokens: 5, totalTokens: 15 });
+		assertEquals(results?.[1].error instanceof SchemaValidationError, true);
+		assertEquals(results?.[2].error?.message, 'No result in batch job batch_1 (status: completed)');
+	} finally {
+		restore();
+	}
+});
+
+/**
+ * Fake provider with an offline batch API answering with labels derived from the prompts.
+ * The batch fails the prompts containing 'fail' (billing their input), which then succeed in real time.
+ */
+class FakeBatchProvider implements LLMProvider {
+	readonly name = 'fake-batch';
+	submitted: Array<Message[]> = [];
+	polls = 0;
+	realtimeCalls = 0;
+
+	complete<T>(messages: Message[]): Promise<LLMResponse<T>> {
+		this.realtimeCalls++;
+		return Promise.resolve(this.answer(messages));
+	}
+
+	submitBatch(requests: Array<Message[]>): Promise<string> {
+		this.submitted = requests;
+		return Promise.resolve('job-1');
+	}
+
+	getBatchResults<T>(_jobId: string, count: number): Promise<Array<LLMResponse<T>> | null> {
+		if (this.polls++ < 1) {
+			return Promise.resolve(null);
+		}
+		return Promise.resolve(
+			this.submitted.slice(0, count).map((messages) => {
+				const prompt = String(messages[0].content);
+				return prompt.includes('fail')
+					? {
+						parsed: null,
+						text: null,
+						usage: { inputTokens: 500_000, outputTokens: 0, totalTokens: 500_000 },
+						error: new Error('Batch item failed'),
+					}
+					: this.answer<T>(messages);
+			}),
+		);
+	}
+
+	private answer<T>(messages: Message[]): LLMResponse<T> {
+		const label = String(messages[0].content).replace('Label: ', '').toUpperCase();
+		return {
+			parsed: { label } as T,
+			text: JSON.stringify({ label }),
+			usage: { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 },
+			error: null,
+		};
+	}
+}
+
+class LabelTool extends Tool<string, { label: string }, string> {
+	protected override schema() {
+		return schema;
+	}
+
+	protected prompt(input: string): string {
+		return `Label: ${input}`;
+	}
+
+	protected override extractResult(parsed: { label: string }): string {
+		return parsed.label;
+	}
+}
+
+Deno.test('Tool.collect - returns batch results, re-running failures in real time', async () => {
+	const provider = new FakeBatchProvider();
+	const unregister = registerProvider('fake-batch-', () => provider);
+
+	try {
+		const tool = new LabelTool({ model: 'fake-batch-model', pricing: { input: 2, output: 0 } });
+		const job = await tool.submitBatch(['a', '', 'fail', 'b']);
+
+		assertEquals(job.submitted, [0, 2, 3]);
+		assertEquals(JSON.parse(JSON.stringify(job)), job);
+
+		const results = await tool.collect(job, { pollIntervalMs: 0, trackCost: true });
+
+		assertEquals(results.toArray(), ['A', null, 'FAIL', 'B']);
+		assertEquals(provider.polls, 2);
+		assertEquals(provider.realtimeCalls, 1);
+
+		// Two items and the failed attempt at batch rates (half price), one re-run at the regular rate
+		assertAlmostEquals(results.usage()!.cost!.totalCost, 2 * 1 + 0.5 + 2);
+		assertEquals(results.filter((label) => label === 'FAIL').usage()!.tokens.totalTokens, 1_500_000);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Tool.submitBatch - sends batches to the wrapped provider when record/replay is enabled', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+	const provider = new FakeBatchProvider();
+	const unregister = registerProvider('fake-batch-', () => provider);
+	setReplayOptions({ cassettePath, mode: 'auto' });
+
+	try {
+		const tool = new LabelTool({ model: 'fake-batch-model' });
+		const job = await tool.submitBatch(['a', 'b']);
+		const results = await tool.collect(job, { pollIntervalMs: 0 });
+
+		assertEquals(results.toArray(), ['A', 'B']);
+		assertEquals(provider.realtimeCalls, 0);
+	} finally {
+		setReplayOptions(null);
+		unregister();
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('Tool.submitBatch - rejects providers without a batch API', async () => {
+	const unregister = registerProvider('no-batch-', () => ({
+		name: 'no-batch',
+		complete: () => Promise.reject(new Error('unused')),
+	}));
+
+	try {
+		const tool = new LabelTool({ model: 'no-batch-model' });
+		await assertRejects(() => tool.submitBatch(['a']), Error, 'does not support offline batches');
+	} finally {
+		unregister();
+	}
+});
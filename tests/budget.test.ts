@@ -0,0 +1,89 @@
+import { assertEquals } from '@std/assert';
+
+import { estimateTokens, fitRecords, fitText, getPromptBudget } from '../src/budget.ts';
+import type { LLMProvider, LLMResponse, Message } from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { TopicExtractor } from '../src/tools/topics.ts';
+
+/** Whether the JSON of the records is at most the given length */
+const maxLength = (chars: number) => (records: unknown) => JSON.stringify(records).length <= chars;
+
+Deno.test('estimateTokens - counts ~4 characters per token and one per CJK character', () => {
+	assertEquals(estimateTokens('a'.repeat(400)), 100);
+	assertEquals(estimateTokens('日本語'), 3);
+});
+
+Deno.test('getPromptBudget - reserves output tokens and a safety margin', () => {
+	assertEquals(getPromptBudget(['unknown-model']), null);
+	assertEquals(getPromptBudget(['unknown-model'], {}, 10_000), Math.floor((10_000 - 4096) * 0.9));
+	assertEquals(getPromptBudget(['unknown-model'], { max_tokens: 1000 }, 10_000), 8100);
+});
+
+Deno.test('fitRecords - truncates the longest values before dropping records', () => {
+	const records = [
+		{ title: 'First', body: 'x'.repeat(1000) },
+		{ title: 'Second', body: 'y'.repeat(1000) },
+	];
+
+	const { input, cuts } = fitRecords(records, maxLength(1200), 'truncate');
+
+	assertEquals(input.length, 2);
+	assertEquals((input[0].body as string).length, 501);
+	assertEquals(cuts.truncatedFields, ['body']);
+	assertEquals(cuts.droppedRecords, 0);
+});
+
+Deno.test('fitRecords - drops the largest fields, then trailing records', () => {
+	const records = [
+		{ id: 1, body: 'x'.repeat(1000) },
+		{ id: 2, body: 'y'.repeat(1000) },
+		{ id: 3, body: 'z'.repeat(1000) },
+	];
+
+	const { input, cuts } = fitRecords(records, maxLength(20), 'drop');
+
+	assertEquals(cuts.droppedFields, ['body']);
+	assertEquals(cuts.droppedRecords, 1);
+	assertEquals(input.map((r) => r.id), [1, 2]);
+});
+
+Deno.test('fitText - keeps the longest prefix that fits', () => {
+	const { input, cuts } = fitText('x'.repeat(1000), (text) => text.length <= 301);
+
+	assertEquals(input, 'x'.repeat(300) + '…');
+	assertEquals(cuts.truncatedText, true);
+});
+
+/**
+ * Fake provider returning a fixed taxonomy and recording the prompts it receives.
+ */
+class TaxonomyModel implements LLMProvider {
+	readonly name = 'fake';
+	prompts: Array<string> = [];
+
+	complete<T>(messages: Message[]): Promise<LLMResponse<T>> {
+		this.prompts.push(String(messages[0].content));
+		const taxonomy = { topics: [{ topic: 'Electronics', subtopics: ['Laptops', 'Phones'] }] };
+		return Promise.resolve({ parsed: taxonomy as T, text: JSON.stringify(taxonomy), usage: null, error: null });
+	}
+}
+
+Deno.test('TopicExtractor - cuts records to the context window and reports it', async () => {
+	const model = new TaxonomyModel();
+	const unregister = registerProvider('budget-test', () => model);
+
+	try {
+		const records = Array.from({ length: 50 }, (_, i) => ({ text: `Review ${i}: ${'great laptop '.repeat(100)}` }));
+		const extractor = new TopicExtractor({}, { model: 'budget-test-model', contextLimit: 6000, maxRetries: 0 });
+
+		const response = await extractor.invoke(records);
+
+		assertEquals(response.parsed?.topics[0].topic, 'Electronics');
+		assertEquals(response.budget?.truncatedFields, ['text']);
+		assertEquals(response.budget!.fittedTokens <= response.budget!.budgetTokens, true);
+		assertEquals(response.budget!.estimatedTokens > response.budget!.budgetTokens, true);
+		assertEquals(estimateTokens(model.prompts[0]), response.budget?.fittedTokens);
+	} finally {
+		unregister();
+	}
+});
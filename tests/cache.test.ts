@@ -0,0 +1,138 @@
+import { assertEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import type { LLMProvider, LLMResponse, Message } from '../src/llm.ts';
+import { CachedProvider, FileSystemCache, MemoryCache, type ResponseCache } from '../src/providers/index.ts';
+import { setLogger } from '../src/observability.ts';
+import { BatchResponse } from '../src/response.ts';
+
+/**
+ * Fake provider returning a fixed structured response and counting calls.
+ */
+class FakeProvider implements LLMProvider {
+	readonly name = 'fake';
+	calls = 0;
+
+	constructor(private readonly output: unknown, private readonly error: Error | null = null) {}
+
+	complete<T>(_messages: Message[], _model: string): Promise<LLMResponse<T>> {
+		this.calls++;
+		return Promise.resolve({
+			parsed: this.error ? null : this.output as T,
+			text: JSON.stringify(this.output),
+			usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+			error: this.error,
+		});
+	}
+}
+
+const schema = z.object({ label: z.string() });
+const messages: Array<Message> = [{ role: 'user', content: 'Classify this' }];
+
+Deno.test('CachedProvider - serves identical requests from the cache', async () => {
+	const fake = new FakeProvider({ label: 'Technology' });
+	const provider = new CachedProvider(fake, { store: new MemoryCache() });
+
+	const first = await provider.complete(messages, 'gpt-4.1-mini', schema, { temperature: 0 });
+	const second = await provider.complete(messages, 'gpt-4.1-mini', schema, { temperature: 0 });
+
+	assertEquals(fake.calls, 1);
+	assertEquals(first.cached, undefined);
+	assertEquals(second.cached, true);
+	assertEquals(second.parsed, { label: 'Technology' });
+	assertEquals(second.usage, first.usage);
+
+	await provider.complete(messages, 'gpt-4.1-mini', schema, { temperature: 1 });
+	assertEquals(fake.calls, 2);
+});
+
+Deno.test('CachedProvider - keys requests on the provider and server they go to', async () => {
+	const fake = new FakeProvider({ label: 'Technology' });
+	const store = new MemoryCache();
+	const provider = 'openai-compatible';
+	const local = new CachedProvider(fake, { store }, { provider, baseURL: 'http://localhost:8000/v1' });
+	const remote = new CachedProvider(fake, { store }, { provider, baseURL: 'http://gpu:8000/v1' });
+
+	await local.complete(messages, 'local/qwen3-8b', schema);
+	await local.complete(messages, 'local/qwen3-8b', schema);
+	await remote.complete(messages, 'local/qwen3-8b', schema);
+	await new CachedProvider(fake, { store }).complete(messages, 'local/qwen3-8b', schema);
+
+	assertEquals(fake.calls, 3);
+});
+
+Deno.test('CachedProvider - does not cache failed responses', async () => {
+	const fake = new FakeProvider({ label: 'x' }, new Error('Rate limited'));
+	const provider = new CachedProvider(fake, { store: new MemoryCache() });
+
+	await provider.complete(messages, 'gpt-4.1-mini', schema);
+	await provider.complete(messages, 'gpt-4.1-mini', schema);
+
+	assertEquals(fake.calls, 2);
+});
+
+Deno.test('CachedProvider - treats store errors as misses and still returns responses', async () => {
+	const fake = new FakeProvider({ label: 'Technology' });
+	const failing: ResponseCache = {
+		get: () => Promise.reject(new Error('Disk unavailable')),
+		set: () => Promise.reject(new Error('Value too large')),
+	};
+	const warnings: Array<string> = [];
+	setLogger({ debug() {}, info() {}, warn: (message: string) => warnings.push(message), error() {} });
+
+	try {
+		const provider = new CachedProvider(fake, { store: failing });
+		const response = await provider.complete(messages, 'gpt-4.1-mini', schema);
+
+		assertEquals(response.parsed, { label: 'Technology' });
+		assertEquals(response.error, null);
+		assertEquals(fake.calls, 1);
+		assertEquals(warnings.length, 2);
+	} finally {
+		setLogger(null);
+	}
+});
+
+Deno.test('CachedProvider - expires entries after their TTL', async () => {
+	const fake = new FakeProvider({ label: 'Technology' });
+	const provider = new CachedProvider(fake, { store: new MemoryCache(), ttlMs: 20 });
+
+	await provider.complete(messages, 'gpt-4.1-mini', schema);
+	await provider.complete(messages, 'gpt-4.1-mini', schema);
+	assertEquals(fake.calls, 1);
+
+	await new Promise((resolve) => setTimeout(resolve, 30));
+	await provider.complete(messages, 'gpt-4.1-mini', schema);
+	assertEquals(fake.calls, 2);
+});
+
+Deno.test('FileSystemCache - persists entries across instances', async () => {
+	const directory = await Deno.makeTempDir();
+
+	try {
+		const fake = new FakeProvider({ label: 'Technology' });
+		await new CachedProvider(fake, { store: new FileSystemCache(directory) })
+			.complete(messages, 'gpt-4.1-mini', schema);
+
+		const response = await new CachedProvider(fake, { store: new FileSystemCache(directory) })
+			.complete(messages, 'gpt-4.1-mini', schema);
+
+		assertEquals(fake.calls, 1);
+		assertEquals(response.cached, true);
+		assertEquals(response.parsed, { label: 'Technology' });
+	} finally {
+		await Deno.remove(directory, { recursive: true });
+	}
+});
+
+Deno.test('BatchResponse.usage - excludes cache hits from cost', () => {
+	const usage = { inputTokens: 1_000_000, outputTokens: 500_000, totalTokens: 1_500_000 };
+	const batch = new BatchResponse(['a', 'b'], [usage, usage], 'local/qwen3-8b', { input: 1, output: 2 }, {
+		cacheHits: [false, true],
+	});
+
+	assertEquals(batch.usage()?.cost?.totalCost, 2);
+	assertEquals(batch.usage()?.cacheHits, 1);
+	assertEquals(batch.usage()?.tokens.totalTokens, 3_000_000);
+	assertEquals(batch.filter((r) => r === 'b').usage()?.cost?.totalCost, 0);
+});
@@ -0,0 +1,151 @@
+import { assertAlmostEquals, assertEquals } from '@std/assert';
+
+import { labelDistribution } from '../src/confidence.ts';
+import type { LLMProvider, LLMResponse, RequestOptions, TokenLogprob } from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { Classifier } from '../src/tools/classifier.ts';
+import { SentimentPolarityClassifier } from '../src/tools/sentiment.ts';
+
+/** A token chosen with probability p, among alternatives with their probabilities */
+function token(text: string, p: number, alternatives: Record<string, number> = {}): TokenLogprob {
+	return {
+		token: text,
+		logprob: Math.log(p),
+		topLogprobs: [[text, p] as const, ...Object.entries(alternatives)].map(([t, q]) => ({
+			token: t,
+			logprob: Math.log(q),
+		})),
+	};
+}
+
+const labels = { Positive: 'Good things', Negative: 'Bad things', Neutral: 'Neither' };
+
+/** Tokens of {"label":"Negative","confidence":0.9}, chosen over Positive and Neutral */
+const negativeTokens = [
+	token('{"', 1),
+	token('label', 1),
+	token('":"', 1),
+	token('Ne', 0.5, { Positive: 0.4, foo: 0.1 }),
+	token('gative', 0.8, { utral: 0.2 }),
+	token('","', 1),
+	token('confidence', 1),
+	token('":', 1),
+	token('0.9', 1),
+	token('}', 1),
+];
+
+Deno.test('labelDistribution - splits shared tokens by the probability of the rest of the label', () => {
+	const distribution = labelDistribution(negativeTokens, Object.keys(labels))!;
+
+	// Negative: 0.5 * 0.8, Neutral: 0.5 * 0.2, Positive: 0.4, normalized over the labels
+	assertAlmostEquals(distribution.Negative, 0.4 / 0.9);
+	assertAlmostEquals(distribution.Neutral, 0.1 / 0.9);
+	assertAlmostEquals(distribution.Positive, 0.4 / 0.9);
+});
+
+Deno.test('labelDistribution - matches tokens spanning the opening quote, or no label at all', () => {
+	const tokens = [token('{"label":"', 1), token('Positive', 0.7, { Negative: 0.2, Neutral: 0.1 }), token('"}', 1)];
+	assertAlmostEquals(labelDistribution(tokens, ['Positive', 'Negative'])!.Positive, 0.7 / 0.9);
+
+	const spanning = [token('{"label', 1), token('":"Pos', 0.9, { '":"Neg': 0.1 }), token('itive"}', 1)];
+	assertAlmostEquals(labelDistribution(spanning, ['Positive', 'Negative'])!.Negative, 0.1);
+
+	assertEquals(labelDistribution(tokens, ['Other']), null);
+	assertEquals(labelDistribution([token('Positive', 1)], ['Positive']), null);
+});
+
+/** Fake provider answering with the given response, recording the logprobs requested */
+function fixedProvider(response: Partial<LLMResponse<unknown>>, requested: Array<number | undefined>): LLMProvider {
+	return {
+		name: 'fixed',
+		complete<T>(
+			_messages: unknown,
+			_model: string,
+			_schema: unknown,
+			_params?: unknown,
+			_tools?: unknown,
+			options?: RequestOptions,
+		): Promise<LLMResponse<T>> {
+			requested.push(options?.logprobs);
+			return Promise.resolve({ text: null, usage: null, error: null, ...response } as LLMResponse<T>);
+		},
+	};
+}
+
+Deno.test('Classifier - reports label probabilities from logprobs and abstains below the threshold', async () => {
+	const requested: Array<number | undefined> = [];
+	const unregister = registerProvider(
+		'logprobs-',
+		() => fixedProvider({ parsed: { label: 'Negative', confidence: 0.9 }, logprobs: negativeTokens }, requested),
+	);
+
+	try {
+		const classifier = new Classifier({ labels, confidence: true }, { model: 'logprobs-model' });
+		const response = await classifier.invoke({ text: 'Meh' });
+
+		assertEquals(response.parsed, 'Negative');
+		assertAlmostEquals(response.confidence!, 0.4 / 0.9);
+		assertAlmostEquals(response.distribution!.Positive, 0.4 / 0.9);
+		assertEquals(requested, [10]);
+
+		const abstaining = new Classifier({ labels, abstainBelow: 0.5 }, { model: 'logprobs-model' });
+		const results = await abstaining.batch([{ text: 'Meh' }, null]);
+
+		assertEquals(results.toArray(), ['uncertain', null]);
+		assertAlmostEquals(results.confidenceAt(0)!, 0.4 / 0.9);
+		assertAlmostEquals(results.distributionAt(0)!.Neutral, 0.1 / 0.9);
+		assertEquals(results.distributionAt(1), undefined);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Classifier - falls back to the confidence the model reports without logprobs', async () => {
+	const requested: Array<number | undefined> = [];
+	const unregister = registerProvider(
+		'verbal-',
+		() => fixedProvider({ parsed: { label: 'Positive', confidence: 0.4 } }, requested),
+	);
+
+	try {
+		const classifier = new Classifier(
+			{ labels, abstainBelow: 0.6, uncertainLabel: 'review' },
+			{ model: 'verbal-model' },
+		);
+		const response = await classifier.invoke({ text: 'Nice, I guess' });
+
+		assertEquals(response.parsed, 'review');
+		assertEquals(response.confidence, 0.4);
+		assertEquals(response.distribution, undefined);
+
+		// Without confidence options, no confidence is estimated or requested
+		const plain = await new Classifier({ labels }, { model: 'verbal-model' }).invoke({ text: 'Nice' });
+		assertEquals(plain.parsed, 'Positive');
+		assertEquals(plain.confidence, undefined);
+		assertEquals(requested, [10, undefined]);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('SentimentPolarityClassifier - abstains below the confidence threshold', async () => {
+	const requested: Array<number | undefined> = [];
+	const unregister = registerProvider(
+		'polarity-',
+		() => fixedProvider({ parsed: { label: 'positive', confidence: 0.55 } }, requested),
+	);
+
+	try {
+		const classifier = new SentimentPolarityClassifier({ abstainBelow: 0.7 }, { model: 'polarity-model' });
+		const response = await classifier.invoke({ text: 'It was fine' });
+
+		assertEquals(response.parsed, 'uncertain');
+		assertEquals(response.confidence, 0.55);
+
+		const confident = new SentimentPolarityClassifier({ confidence: true }, { model: 'polarity-model' });
+		assertEquals((await confident.invoke({ text: 'It was fine' })).parsed, 'positive');
+		assertEquals(requested, [10, 10]);
+	} finally {
+		unregister();
+	}
+});
@@ -0,0 +1,43 @@
+import { assertEquals, assertThrows } from '@std/assert';
+
+import { contentToText, isMultimodal, toInlineData, toURL } from '../src/providers/content.ts';
+import { LLMError } from '../src/providers/errors.ts';
+
+Deno.test('contentToText - joins text parts and ignores media', () => {
+	assertEquals(contentToText('plain'), 'plain');
+	assertEquals(
+		contentToText([
+			{ type: 'text', text: 'first' },
+			{ type: 'image', url: 'https://example.com/a.png' },
+			{ type: 'text', text: 'second' },
+		]),
+		'first\n\nsecond',
+	);
+});
+
+Deno.test('isMultimodal - detects non-text parts', () => {
+	assertEquals(isMultimodal('plain'), false);
+	assertEquals(isMultimodal([{ type: 'text', text: 'only text' }]), false);
+	assertEquals(isMultimodal([{ type: 'file', data: 'JVBERi0=', mimeType: 'application/pdf' }]), true);
+});
+
+Deno.test('toInlineData - resolves base64 data and data URLs', () => {
+	assertEquals(toInlineData({ type: 'image', data: 'iVBORw0=', mimeType: 'image/png' }), {
+		mimeType: 'image/png',
+		data: 'iVBORw0=',
+	});
+	assertEquals(toInlineData({ type: 'image', url: 'data:image/jpeg;base64,/9j/4AAQ' }), {
+		mimeType: 'image/jpeg',
+		data: '/9j/4AAQ',
+	});
+	assertEquals(toInlineData({ type: 'image', url: 'https://example.com/a.png' }), null);
+	assertThrows(() => toInlineData({ type: 'image', data: 'iVBORw0=' }), LLMError, 'mimeType');
+});
+
+Deno.test('toURL - builds data URLs from base64 data', () => {
+	assertEquals(
+		toURL({ type: 'file', data: 'JVBERi0=', mimeType: 'application/pdf' }),
+		'data:application/pdf;base64,JVBERi0=',
+	);
+	assertEquals(toURL({ type: 'image', url: 'https://example.com/a.png' }), 'https://example.com/a.png');
+});
@@ -0,0 +1,195 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { z } from '@zod/zod';
+
+import { Conversation } from '../src/conversation.ts';
+import type { LLMProvider, LLMResponse, Message } from '../src/llm.ts';
+import { contentToText } from '../src/providers/content.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { generateKeywords } from '../src/tools/keywords.ts';
+
+/**
+ * Fake provider answering each call with the next of the given answers, recording the
+ * messages it was sent. Each call costs $1 at { input: 1, output: 0 } pricing.
+ */
+function scriptedProvider(answers: Array<unknown>, sent: Array<Array<Message>>): LLMProvider {
+	return {
+		name: 'scripted',
+		complete<T>(messages: Array<Message>): Promise<LLMResponse<T>> {
+			sent.push(messages);
+			const answer = answers[sent.length - 1];
+			if (answer instanceof Error) {
+				return Promise.resolve({ parsed: null, text: null, usage: null, error: answer });
+			}
+			return Promise.resolve({
+				parsed: answer as T,
+				text: typeof answer === 'string' ? answer : JSON.stringify(answer),
+				usage: { inputTokens: 1_000_000, outputTokens: 10, totalTokens: 1_000_010 },
+				error: null,
+			});
+		},
+	};
+}
+
+/** Roles and text of messages, for comparison */
+function transcript(messages: Array<Message>): Array<string> {
+	return messages.map((message) => `${message.role}: ${contentToText(message.content)}`);
+}
+
+const pricing = { input: 1, output: 0 };
+
+Deno.test('Conversation - sends the history with follow-ups using different schemas', async () => {
+	const sent: Array<Array<Message>> = [];
+	const answers = [{ brands: ['Nike', 'Adidas'] }, { count: 2 }];
+	const unregister = registerProvider('chat-', () => scriptedProvider(answers, sent));
+
+	try {
+		const chat = new Conversation({ model: 'chat-model', system: 'Be brief.', pricing, maxRetries: 0 });
+
+		const brands = await chat.ask('Which brands sell running shoes?', z.object({ brands: z.array(z.string()) }));
+		assertEquals(brands.parsed, { brands: ['Nike', 'Adidas'] });
+
+		const count = await chat.ask('How many are there?', z.object({ count: z.number() }));
+		assertEquals(count.parsed, { count: 2 });
+
+		assertEquals(transcript(sent[1]), [
+			'system: Be brief.',
+			'user: Which brands sell running shoes?',
+			'assistant: {"brands":["Nike","Adidas"]}',
+			'user: How many are there?',
+		]);
+		assertEquals(chat.calls(), 2);
+		assertEquals(chat.usage()?.outputTokens, 20);
+		assertEquals(chat.cost()?.totalCost, 2);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Conversation - leaves the history unchanged when an ask fails', async () => {
+	const sent: Array<Array<Message>> = [];
+	const unregister = registerProvider('chat-', () => scriptedProvider(['Hi', new Error('Boom')], sent));
+
+	try {
+		const chat = new Conversation({ model: 'chat-model', maxRetries: 0 });
+		await chat.ask('Hello');
+		await assertRejects(() => chat.ask('Again'), Error, 'Boom');
+
+		assertEquals(transcript(chat.messages()), ['user: Hello', 'assistant: Hi']);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Conversation - drops or summarizes the oldest turns to fit the context window', async () => {
+	const long = 'x'.repeat(200);
+	const unregister = registerProvider('chat-', () => scriptedProvider(['First answer', 'Second answer'], []));
+
+	// ~50 tokens per question, with room for one of them: (110 - 10 output tokens) * 90%
+	const options = { model: 'chat-model', contextLimit: 110, params: { max_tokens: 10 }, maxRetries: 0 };
+
+	try {
+		const trimmed = new Conversation({ ...options, pricing });
+		await trimmed.ask(`1 ${long}`);
+		await trimmed.ask(`2 ${long}`);
+		assertEquals(transcript(trimmed.messages()), [`user: 2 ${long}`, 'assistant: Second answer']);
+	} finally {
+		unregister();
+	}
+
+	const sent: Array<Array<Message>> = [];
+	const answers = ['First answer', 'They asked about x', 'Second answer'];
+	const unregisterSummary = registerProvider('chat-', () => scriptedProvider(answers, sent));
+	try {
+		const summarized = new Conversation({ ...options, historyStrategy: 'summarize' });
+		await summarized.ask(`1 ${long}`);
+		await summarized.ask(`2 ${long}`);
+
+		// The second ask dropped the first turn, summarizing it before answering
+		assertEquals(contentToText(sent[1][0].content).includes(`user: 1 ${long}`), true);
+		assertEquals(transcript(summarized.messages()), [
+			'system: # Summary of the earlier conversation\n\nThey asked about x',
+			`user: 2 ${long}`,
+			'assistant: Second answer',
+		]);
+		assertEquals(summarized.calls(), 3);
+	} finally {
+		unregisterSummary();
+	}
+});
+
+Deno.test('Conversation - keeps turns dropped to make room when the ask fails', async () => {
+	const long = 'x'.repeat(200);
+	const sent: Array<Array<Message>> = [];
+	const answers = ['First answer', 'They asked about x', new Error('Boom')];
+	const unregister = registerProvider('chat-', () => scriptedProvider(answers, sent));
+
+	try {
+		const chat = new Conversation({
+			model: 'chat-model',
+			contextLimit: 110,
+			params: { max_tokens: 10 },
+			maxRetries: 0,
+			historyStrategy: 'summarize',
+		});
+		await chat.ask(`1 ${long}`);
+		await assertRejects(() => chat.ask(`2 ${long}`), Error, 'Boom');
+
+		assertEquals(sent.length, 3);
+		assertEquals(transcript(chat.messages()), [`user: 1 ${long}`, 'assistant: First answer']);
+		assertEquals(chat.toJSON().summary, undefined);
+		assertEquals(chat.calls(), 3);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Conversation - resumes from its serialized state', async () => {
+	const sent: Array<Array<Message>> = [];
+	const unregister = registerProvider('chat-', () => scriptedProvider(['Hi', 'Still here'], sent));
+
+	try {
+		const chat = new Conversation({ model: 'chat-model', system: 'Be brief.', pricing });
+		await chat.ask('Hello');
+
+		const state = JSON.parse(JSON.stringify(chat));
+		const resumed = Conversation.resume(state, { model: 'chat-model', pricing });
+		await resumed.ask('Are you there?');
+
+		assertEquals(transcript(sent[1]), [
+			'system: Be brief.',
+			'user: Hello',
+			'assistant: Hi',
+			'user: Are you there?',
+		]);
+		assertEquals(resumed.calls(), 2);
+		assertEquals(resumed.cost()?.totalCost, 2);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('generateKeywords - edits keywords within a conversation', async () => {
+	const sent: Array<Array<Message>> = [];
+	const answers = [
+		{ keywords: ['running shoes', 'nike running shoes'], explanation: 'Ideas' },
+		{ keywords: ['running shoes'], explanation: 'Removed branded keywords' },
+	];
+	const unregister = registerProvider('chat-', () => scriptedProvider(answers, sent));
+
+	try {
+		const conversation = new Conversation({ model: 'chat-model' });
+		const options = { sector: 'running shoes', market: 'Spain', brand: 'Acme', conversation };
+
+		const first = await generateKeywords(options);
+		const second = await generateKeywords({
+			...options,
+			keywords: first.keywords,
+			instructions: 'Remove branded keywords',
+		});
+
+		assertEquals(second.keywords, ['running shoes']);
+		assertEquals(sent[1].map((message) => message.role), ['user', 'assistant', 'user']);
+	} finally {
+		unregister();
+	}
+});
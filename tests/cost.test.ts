@@ -0,0 +1,106 @@
+import { assertAlmostEquals, assertEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import type { LLMProvider, LLMResponse } from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { setLogger } from '../src/observability.ts';
+import { DEFAULT_EXPECTED_OUTPUT_TOKENS, Tool } from '../src/tool.ts';
+import { genericBatch } from '../src/tools/generic.ts';
+
+/**
+ * Fake provider where every call costs $1 at { input: 1, output: 0 } pricing.
+ */
+class PricedProvider implements LLMProvider {
+	readonly name = 'priced';
+	calls = 0;
+
+	complete<T>(): Promise<LLMResponse<T>> {
+		this.calls++;
+		return Promise.resolve({
+			parsed: { label: 'ok' } as T,
+			text: '{"label":"ok"}',
+			usage: { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 },
+			error: null,
+		});
+	}
+}
+
+class LabelTool extends Tool<string, { label: string }, string> {
+	private readonly outputSchema = z.object({ label: z.string() });
+
+	protected override schema() {
+		return this.outputSchema;
+	}
+
+	protected prompt(input: string): string {
+		return `Label: ${input}`;
+	}
+
+	protected override extractResult(parsed: { label: string }): string {
+		return parsed.label;
+	}
+}
+
+const pricing = { input: 1, output: 0 };
+const quiet = { debug() {}, info() {}, warn() {}, error() {} };
+
+Deno.test('Tool.batch - stops once the cost exceeds maxCostUSD', async () => {
+	const provider = new PricedProvider();
+	const unregister = registerProvider('priced-', () => provider);
+	setLogger(quiet);
+
+	try {
+		const tool = new LabelTool({ model: 'priced-model', pricing, maxConcurrency: 1, trackCost: true });
+		const results = await tool.batch(['a', 'b', 'c', 'd', 'e'], { maxCostUSD: 2.5 });
+
+		assertEquals(results.toArray(), ['ok', 'ok', 'ok', null, null]);
+		assertEquals(provider.calls, 3);
+		assertEquals(results.usage()?.cost?.totalCost, 3);
+	} finally {
+		setLogger(null);
+		unregister();
+	}
+});
+
+Deno.test('genericBatch - ignores maxCostUSD for models without pricing', async () => {
+	const provider = new PricedProvider();
+	const unregister = registerProvider('priced-', () => provider);
+	setLogger(quiet);
+
+	try {
+		const records = [{ id: 1 }, { id: 2 }, { id: 3 }];
+		const unlimited = await genericBatch({
+			records,
+			instructions: 'Label the record',
+			schema: { type: 'object', properties: { label: { type: 'string' } }, required: ['label'] },
+			model: 'priced-model',
+			maxConcurrency: 1,
+			maxCostUSD: 0.5,
+		});
+
+		assertEquals(unlimited.toArray().length, 3);
+		assertEquals(provider.calls, 3);
+	} finally {
+		setLogger(null);
+		unregister();
+	}
+});
+
+Deno.test('Tool.estimateCost - projects tokens and cost from the rendered prompts', () => {
+	const tool = new LabelTool({ model: 'local/qwen3-8b', pricing: { input: 1_000_000, output: 2_000_000 } });
+	const estimate = tool.estimateCost(['a'.repeat(393), '', 'b'.repeat(393)]);
+
+	// 'Label: ' plus 393 characters is 100 tokens
+	assertEquals(estimate.calls, 2);
+	assertEquals(estimate.usage, {
+		inputTokens: 200,
+		outputTokens: 2 * DEFAULT_EXPECTED_OUTPUT_TOKENS,
+		totalTokens: 200 + 2 * DEFAULT_EXPECTED_OUTPUT_TOKENS,
+	});
+	assertAlmostEquals(estimate.cost!.totalCost, 200 + 4 * DEFAULT_EXPECTED_OUTPUT_TOKENS);
+
+	const offline = tool.estimateCost(['a'.repeat(393)], { outputTokens: 50, offline: true });
+	assertAlmostEquals(offline.cost!.totalCost, (100 + 2 * 50) / 2);
+
+	assertEquals(new LabelTool({ model: 'local/qwen3-8b' }).estimateCost(['a']).cost, null);
+});
@@ -0,0 +1,114 @@
+import { assertAlmostEquals, assertEquals, assertRejects } from '@std/assert';
+
+import { majorityLabels, majorityVote, meanScore } from '../src/ensemble.ts';
+import type { LLMProvider, LLMResponse } from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { Classifier } from '../src/tools/classifier.ts';
+import { Scorer } from '../src/tools/scorer.ts';
+import { Summarizer } from '../src/tools/summarize.ts';
+
+Deno.test('majorityVote - picks the most frequent result, ties going to the first', () => {
+	assertEquals(majorityVote(['a', 'b', 'b', 'c']), { result: 'b', confidence: 0.5 });
+	assertEquals(majorityVote(['a', 'b']), { result: 'a', confidence: 0.5 });
+});
+
+Deno.test('majorityLabels - keeps labels assigned by more than half of the samples', () => {
+	const { result, confidence } = majorityLabels([['a', 'b'], ['a'], ['a', 'c']]);
+
+	assertEquals(result, ['a']);
+	// Agreement on a: 3/3, on b and c: 2/3
+	assertAlmostEquals(confidence, (1 + 2 / 3 + 2 / 3) / 3);
+	assertEquals(majorityLabels([[], []]), { result: [], confidence: 1 });
+});
+
+Deno.test('meanScore - averages scores, with confidence from their spread', () => {
+	assertEquals(meanScore([2, 4], 0, 10), { result: 3, confidence: 0.8, stdDev: 1 });
+	assertEquals(meanScore([1, 2], 1, 5, true).result, 2);
+	assertEquals(meanScore([0, 10], 0, 10).confidence, 0);
+});
+
+/**
+ * Fake provider answering 'Positive' on models ending in '-pos', and 'Negative' otherwise.
+ * Each call costs $1 at { input: 1, output: 0 } pricing.
+ */
+function labelProvider(calls: Array<string>): LLMProvider {
+	return {
+		name: 'vote',
+		complete<T>(_messages: unknown, model: string): Promise<LLMResponse<T>> {
+			calls.push(model);
+			const label = model.endsWith('-pos') ? 'Positive' : 'Negative';
+			return Promise.resolve({
+				parsed: { label } as T,
+				text: JSON.stringify({ label }),
+				usage: { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 },
+				error: null,
+			});
+		},
+	};
+}
+
+const labels = { Positive: 'Good things', Negative: 'Bad things' };
+
+Deno.test('Classifier - ensembles return the majority label and the agreement', async () => {
+	const calls: Array<string> = [];
+	const unregister = registerProvider('vote-', () => labelProvider(calls));
+
+	try {
+		const classifier = new Classifier({ labels }, {
+			model: 'vote-pos',
+			pricing: { input: 1, output: 0 },
+			ensemble: { models: ['vote-pos', 'vote-neg', 'vote-pos'] },
+		});
+
+		const response = await classifier.invoke({ text: 'Great' });
+		assertEquals(response.parsed, 'Positive');
+		assertAlmostEquals(response.confidence!, 2 / 3);
+		assertEquals(response.ensemble?.samples, 3);
+		assertEquals(response.ensemble?.valid, 3);
+		assertEquals(calls.toSorted(), ['vote-neg', 'vote-pos', 'vote-pos']);
+
+		const results = await classifier.batch([{ text: 'Great' }, null], {
+			ensemble: { samples: 4, models: ['vote-pos', 'vote-neg'] },
+			trackCost: true,
+		});
+		assertEquals(results.toArray(), ['Positive', null]);
+		assertEquals(results.confidenceAt(0), 0.5);
+		assertEquals(results.confidenceAt(1), undefined);
+
+		// Each sample is a call; vote-neg has no pricing
+		const usage = results.usage()!;
+		assertEquals(usage.callCount, 4);
+		assertEquals(usage.byModel['vote-pos'].cost?.totalCost, 2);
+		assertEquals(usage.byModel['vote-neg'].cost, null);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Scorer - ensembles return the mean score', async () => {
+	let call = 0;
+	const unregister = registerProvider('score-', () => ({
+		name: 'score',
+		complete: <T>(): Promise<LLMResponse<T>> =>
+			Promise.resolve({ parsed: { value: [2, 4, 9][call++ % 3] } as T, text: null, usage: null, error: null }),
+	}));
+
+	try {
+		const scorer = new Scorer(
+			{ name: 'quality', description: 'Quality', type: 'integer', min: 0, max: 10 },
+			{ model: 'score-model', ensemble: { samples: 3 } },
+		);
+		const response = await scorer.invoke({ text: 'Fine' });
+
+		assertEquals(response.parsed, 5);
+		assertAlmostEquals(response.ensemble!.stdDev!, Math.sqrt(26 / 3));
+		assertEquals(scorer.estimateCost([{ text: 'Fine' }], { model: 'local/qwen3-8b' }).calls, 3);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Tool - rejects ensembles in tools that cannot combine results', async () => {
+	const summarizer = new Summarizer({}, { model: 'gpt-4.1-mini', ensemble: { samples: 3 } });
+	await assertRejects(() => summarizer.invoke('Some text'), Error, 'Summarizer does not support ensembles');
+});
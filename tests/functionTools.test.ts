@@ -0,0 +1,134 @@
+import { assertEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import {
+	askLLMSafe,
+	defineFunctionTool,
+	type LLMProvider,
+	type LLMResponse,
+	type Message,
+	type ToolDefinition,
+} from '../src/llm.ts';
+import { getRequestTarget, ReplayProvider, setReplayOptions } from '../src/providers/index.ts';
+
+/**
+ * Fake provider that requests a weather lookup, then answers once it sees the result.
+ */
+class WeatherModel implements LLMProvider {
+	readonly name = 'fake';
+
+	complete<T>(messages: Message[], _model: string): Promise<LLMResponse<T>> {
+		const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+		const result = messages.find((m) => m.role === 'tool');
+
+		if (!result) {
+			return Promise.resolve({
+				parsed: null,
+				text: null,
+				usage,
+				error: null,
+				toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Madrid' } }],
+			});
+		}
+
+		const answer = { summary: `Weather: ${result.content}` };
+		return Promise.resolve({ parsed: answer as T, text: JSON.stringify(answer), usage, error: null });
+	}
+}
+
+const getWeather = defineFunctionTool({
+	name: 'get_weather',
+	description: 'Get the current weather in a city',
+	parameters: z.object({ city: z.string() }),
+	handler: ({ city }) => ({ city, celsius: 21 }),
+});
+
+const schema = z.object({ summary: z.string() });
+const prompt: Array<Message> = [{ role: 'user', content: 'What is the weather in Madrid?' }];
+
+Deno.test('askLLMSafe - runs requested function calls and returns the final answer', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	try {
+		// Record both steps of the conversation the loop is expected to produce
+		const definitions: Array<ToolDefinition> = [
+			{ name: getWeather.name, description: getWeather.description, parameters: getWeather.parameters },
+		];
+		const target = getRequestTarget('gpt-4.1-mini');
+		const recorder = new ReplayProvider(new WeatherModel(), { cassettePath, mode: 'record' }, target);
+		const first = await recorder.complete(prompt, 'gpt-4.1-mini', schema, undefined, definitions);
+		await recorder.complete(
+			[
+				...prompt,
+				{ role: 'assistant', content: '', toolCalls: first.toolCalls },
+				{
+					role: 'tool',
+					content: JSON.stringify({ city: 'Madrid', celsius: 21 }),
+					toolCallId: 'call_1',
+					toolName: 'get_weather',
+				},
+			],
+			'gpt-4.1-mini',
+			schema,
+			undefined,
+			definitions,
+		);
+
+		setReplayOptions({ cassettePath, mode: 'replay' });
+
+		const response = await askLLMSafe({
+			prompt,
+			model: 'gpt-4.1-mini',
+			schema,
+			tools: [getWeather],
+			maxRetries: 0,
+		});
+
+		assertEquals(response.parsed, { summary: 'Weather: {"city":"Madrid","celsius":21}' });
+		assertEquals(response.toolTrace, [
+			{
+				id: 'call_1',
+				name: 'get_weather',
+				arguments: { city: 'Madrid' },
+				result: { city: 'Madrid', celsius: 21 },
+				error: null,
+			},
+		]);
+		assertEquals(response.usage, { inputTokens: 20, outputTokens: 10, totalTokens: 30 });
+	} finally {
+		setReplayOptions(null);
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('askLLMSafe - stops after maxSteps of function calling', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	try {
+		const definitions: Array<ToolDefinition> = [{ name: 'get_weather', parameters: getWeather.parameters }];
+		const target = getRequestTarget('gpt-4.1-mini');
+		const recorder = new ReplayProvider(new WeatherModel(), { cassettePath, mode: 'record' }, target);
+		await recorder.complete(prompt, 'gpt-4.1-mini', schema, undefined, definitions);
+
+		setReplayOptions({ cassettePath, mode: 'replay' });
+
+		const response = await askLLMSafe({
+			prompt,
+			model: 'gpt-4.1-mini',
+			schema,
+			tools: [{ ...getWeather, description: undefined }],
+			maxSteps: 1,
+			maxRetries: 0,
+			onError: 'return',
+		});
+
+		assertEquals(response.parsed, null);
+		assertEquals(response.error?.message, 'No final answer after 1 steps of function calling');
+		assertEquals(response.toolTrace?.length, 1);
+	} finally {
+		setReplayOptions(null);
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
@@ -0,0 +1,94 @@
+import { assertEquals, assertRejects, assertThrows } from '@std/assert';
+import { z } from '@zod/zod';
+
+import type { Message } from '../src/llm.ts';
+import { ContentFilterError, GoogleProvider } from '../src/providers/index.ts';
+
+/**
+ * Replace fetch with a stub capturing the request body and answering with a fixed Gemini response.
+ */
+function stubFetch(answer: unknown): { bodies: Array<Record<string, unknown>>; restore: () => void } {
+	const original = globalThis.fetch;
+	const bodies: Array<Record<string, unknown>> = [];
+
+	globalThis.fetch = (_input: RequestInfo | URL, init?: RequestInit) => {
+		bodies.push(JSON.parse(String(init?.body)));
+		return Promise.resolve(Response.json({
+			candidates: [{
+				content: { role: 'model', parts: [{ text: JSON.stringify(answer) }] },
+				finishReason: 'STOP',
+			}],
+			usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+		}));
+	};
+
+	return { bodies, restore: () => globalThis.fetch = original };
+}
+
+Deno.test('GoogleProvider - sends system messages as the system instruction', async () => {
+	const { bodies, restore } = stubFetch({ label: 'Technology' });
+
+	try {
+		const provider = new GoogleProvider('test-key');
+		const response = await provider.complete(
+			[
+				{ role: 'system', content: 'You are a classifier.' },
+				{ role: 'user', content: 'Classify: laptops' },
+			],
+			'gemini-2.5-flash',
+			z.object({ label: z.string() }),
+		);
+
+		assertEquals(response.parsed, { label: 'Technology' });
+		assertEquals(bodies[0].systemInstruction, { parts: [{ text: 'You are a classifier.' }], role: 'user' });
+		assertEquals(bodies[0].contents, [{ role: 'user', parts: [{ text: 'Classify: laptops' }] }]);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test('GoogleProvider - requires a project in Vertex AI mode', () => {
+	const project = Deno.env.get('GOOGLE_CLOUD_PROJECT');
+	Deno.env.delete('GOOGLE_CLOUD_PROJECT');
+
+	try {
+		assertThrows(() => new GoogleProvider({ vertexai: true }), Error, 'GOOGLE_CLOUD_PROJECT');
+	} finally {
+		if (project != null) {
+			Deno.env.set('GOOGLE_CLOUD_PROJECT', project);
+		}
+	}
+});
+
+Deno.test('GoogleProvider - raises a content filter error when a stream is blocked', async () => {
+	const original = globalThis.fetch;
+	const chunks = [
+		{ candidates: [{ content: { role: 'model', parts: [{ text: 'Once upon' }] } }] },
+		{ candidates: [{ content: { role: 'model', parts: [{ text: ' a time' }] }, finishReason: 'SAFETY' }] },
+	];
+	globalThis.fetch = () =>
+		Promise.resolve(
+			new Response(chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join(''), {
+				headers: { 'Content-Type': 'text/event-stream' },
+			}),
+		);
+
+	try {
+		const provider = new GoogleProvider('test-key');
+		const messages: Array<Message> = [{ role: 'user', content: 'Tell a story' }];
+		const deltas: Array<string> = [];
+
+		await assertRejects(
+			async () => {
+				for await (const delta of provider.stream(messages, 'gemini-2.5-flash', null)) {
+					deltas.push(delta);
+				}
+			},
+			ContentFilterError,
+			'SAFETY',
+		);
+		assertEquals(deltas, ['Once upon']);
+	} finally {
+		globalThis.fetch = original;
+	}
+});
@@ -0,0 +1,295 @@
+import { assertEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import {
+	askLLMSafe,
+	askLLMStream,
+	backoffPolicy,
+	type LLMProvider,
+	type LLMResponse,
+	type Message,
+} from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { withRetries } from '../src/helpers/async.ts';
+import { Tool } from '../src/tool.ts';
+import {
+	type Logger,
+	setLogger,
+	setObservabilityHooks,
+	setTracer,
+	type SpanAttributeValue,
+	type Tracer,
+	type TraceSpan,
+} from '../src/observability.ts';
+
+/**
+ * Fake provider failing a given number of times before answering.
+ */
+class FlakyProvider implements LLMProvider {
+	readonly name = 'flaky';
+	calls = 0;
+
+	constructor(private readonly failures: number) {}
+
+	complete<T>(_messages: Message[], _model: string): Promise<LLMResponse<T>> {
+		const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: 2_000_000 };
+		if (this.calls++ < this.failures) {
+			return Promise.resolve({ parsed: null, text: null, usage, error: new Error('Internal server error') });
+		}
+		return Promise.resolve({ parsed: { label: 'ok' } as T, text: '{"label":"ok"}', usage, error: null });
+	}
+}
+
+class LabelTool extends Tool<string, { label: string }, string> {
+	private readonly outputSchema = z.object({ label: z.string() });
+
+	protected override schema() {
+		return this.outputSchema;
+	}
+
+	protected prompt(input: string): string {
+		return `Label: ${input}`;
+	}
+
+	protected override extractResult(parsed: { label: string }): string {
+		return parsed.label;
+	}
+}
+
+interface RecordedSpan {
+	name: string;
+	attributes: Record<string, SpanAttributeValue>;
+	status?: number;
+	exceptions: Array<Error>;
+	ended: boolean;
+}
+
+/**
+ * Tracer recording spans in memory.
+ */
+function recordingTracer(spans: Array<RecordedSpan>): Tracer {
+	return {
+		startActiveSpan(name, options, fn) {
+			const recorded: RecordedSpan = {
+				name,
+				attributes: { ...options.attributes },
+				exceptions: [],
+				ended: false,
+			};
+			spans.push(recorded);
+			const span: TraceSpan = {
+				setAttribute: (key, value) => (recorded.attributes[key] = value),
+				recordException: (exception) => recorded.exceptions.push(exception),
+				setStatus: ({ code }) => (recorded.status = code),
+				end: () => (recorded.ended = true),
+			};
+			return fn(span) as ReturnType<typeof fn>;
+		},
+	};
+}
+
+const noDelay = backoffPolicy({ initialDelayMs: 0, jitter: 0 });
+
+Deno.test('hooks - report request attempts, retries and responses', async () => {
+	const provider = new FlakyProvider(1);
+	const unregister = registerProvider('flaky-', () => provider);
+	const events: Array<string> = [];
+	let cost: number | undefined;
+
+	setObservabilityHooks({
+		onRequestStart: (e) => events.push(`start:${e.attempt}`),
+		onRetry: (e) => events.push(`retry:${e.attempt}:${e.error.kind}`),
+		onError: (e) => events.push(`error:${e.attempt}`),
+		onResponse: (e) => {
+			events.push(`response:${e.attempt}:${e.provider}`);
+			cost = e.cost?.totalCost;
+		},
+	});
+	setLogger({ debug() {}, info() {}, warn() {}, error() {} });
+
+	try {
+		const response = await askLLMSafe({
+			prompt: 'Classify this',
+			model: 'flaky-model',
+			schema: z.object({ label: z.string() }),
+			retryPolicy: noDelay,
+		});
+
+		assertEquals(response.parsed, { label: 'ok' });
+		assertEquals(events, ['start:0', 'error:0', 'retry:0:unknown', 'start:1', 'response:1:flaky']);
+		assertEquals(cost, undefined);
+	} finally {
+		setObservabilityHooks(null);
+		setLogger(null);
+		unregister();
+	}
+});
+
+Deno.test('hooks - exceptions thrown by hooks are logged and ignored', async () => {
+	const unregister = registerProvider('flaky-', () => new FlakyProvider(0));
+	const warnings: Array<string> = [];
+	const logger: Logger = { debug() {}, info() {}, warn: (message) => warnings.push(message), error() {} };
+
+	setObservabilityHooks({
+		onResponse() {
+			throw new Error('broken hook');
+		},
+	});
+	setLogger(logger);
+
+	try {
+		const response = await askLLMSafe({ prompt: 'Classify this', model: 'flaky-model' });
+		assertEquals(response.error, null);
+		assertEquals(warnings, ['Observability hook onResponse failed:']);
+	} finally {
+		setObservabilityHooks(null);
+		setLogger(null);
+		unregister();
+	}
+});
+
+Deno.test('tracer - wraps Tool.invoke and provider calls in spans', async () => {
+	const unregister = registerProvider('flaky-', () => new FlakyProvider(0));
+	const spans: Array<RecordedSpan> = [];
+	const invocations: Array<string> = [];
+
+	setTracer(recordingTracer(spans));
+	setObservabilityHooks({
+		onToolInvoke: (e) => invocations.push(`${e.tool}:${e.model}:${e.cost?.totalCost}`),
+	});
+
+	try {
+		const tool = new LabelTool({ model: 'flaky-model', pricing: { input: 1, output: 2 } });
+		const response = await tool.invoke('text');
+
+		assertEquals(response.parsed, 'ok');
+		assertEquals(spans.map((s) => s.name), ['tool.invoke', 'llm.complete']);
+		assertEquals(spans.every((s) => s.ended), true);
+		assertEquals(spans[0].attributes['cuery.tool'], 'LabelTool');
+		assertEquals(spans[0].attributes['cuery.cost_usd'], 3);
+		assertEquals(spans[1].attributes['gen_ai.request.model'], 'flaky-model');
+		assertEquals(spans[1].attributes['gen_ai.system'], 'flaky');
+		assertEquals(spans[1].attributes['gen_ai.usage.output_tokens'], 1_000_000);
+		assertEquals(invocations, ['LabelTool:flaky-model:3']);
+	} finally {
+		setTracer(null);
+		setObservabilityHooks(null);
+		unregister();
+	}
+});
+
+Deno.test("Tool.invoke - prices fallback calls without the primary model's custom pricing", async () => {
+	const unregisterPrimary = registerProvider('outage-', () => new FlakyProvider(Infinity));
+	const unregisterFallback = registerProvider('flaky-', () => new FlakyProvider(0));
+	const invocations: Array<string> = [];
+
+	setObservabilityHooks({
+		onToolInvoke: (e) => invocations.push(`${e.model}:${e.cost?.totalCost ?? null}`),
+	});
+	setLogger({ debug() {}, info() {}, warn() {}, error() {} });
+
+	try {
+		const tool = new LabelTool({
+			model: 'outage-model',
+			fallbackModels: ['flaky-model'],
+			maxRetries: 0,
+			pricing: { input: 1, output: 2 },
+		});
+		const response = await tool.invoke('text');
+
+		assertEquals(response.parsed, 'ok');
+		assertEquals(invocations, ['flaky-model:null']);
+	} finally {
+		setObservabilityHooks(null);
+		setLogger(null);
+		unregisterFallback();
+		unregisterPrimary();
+	}
+});
+
+Deno.test('hooks - price responses with the custom pricing of the primary model', async () => {
+	const unregisterPrimary = registerProvider('flaky-', () => new FlakyProvider(0));
+	const unregisterStream = registerProvider('streaming-', () => ({
+		name: 'streaming',
+		complete: () => Promise.reject(new Error('Not used')),
+		async *stream() {
+			yield 'Hello';
+			return { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 };
+		},
+	}));
+	const costs: Array<string> = [];
+	setObservabilityHooks({ onResponse: (e) => costs.push(`${e.model}:${e.cost?.totalCost ?? null}`) });
+	const pricing = { input: 1, output: 2 };
+
+	try {
+		await askLLMSafe({ prompt: 'Classify this', model: 'flaky-model', pricing });
+		for await (const _ of askLLMStream({ prompt: 'Greet', model: 'streaming-model', pricing })) {
+			// Consume the stream
+		}
+
+		assertEquals(costs, ['flaky-model:3', 'streaming-model:1']);
+	} finally {
+		setObservabilityHooks(null);
+		unregisterStream();
+		unregisterPrimary();
+	}
+});
+
+Deno.test('tracer - marks failed HTTP requests and reports retries', async () => {
+	const spans: Array<RecordedSpan> = [];
+	const retries: Array<number | undefined> = [];
+
+	setTracer(recordingTracer(spans));
+	setObservabilityHooks({ onHttpRetry: (e) => retries.push(e.status) });
+
+	try {
+		let calls = 0;
+		const response = await withRetries(
+			() => Promise.resolve(new Response(null, { status: ++calls === 1 ? 429 : 200 })),
+			{ initialDelay: 0 },
+		);
+		assertEquals(response.status, 200);
+		assertEquals(retries, [429]);
+		assertEquals(spans[0].attributes['cuery.attempt'], 1);
+
+		await withRetries(() => Promise.reject(new Error('offline')), { maxRetries: 0 }).catch(() => {});
+		assertEquals(spans[1].status, 2);
+		assertEquals(spans[1].exceptions.length, 1);
+	} finally {
+		setTracer(null);
+		setObservabilityHooks(null);
+	}
+});
+
+Deno.test('askLLMStream - closes the provider stream when the consumer stops early', async () => {
+	let closed = false;
+	const provider: LLMProvider = {
+		name: 'streaming',
+		complete: () => Promise.reject(new Error('Not used')),
+		async *stream() {
+			try {
+				yield 'Hello';
+				yield ' world';
+				return null;
+			} finally {
+				closed = true;
+			}
+		},
+	};
+	const unregister = registerProvider('streaming-', () => provider);
+	const errors: Array<string> = [];
+	setObservabilityHooks({ onError: (e) => errors.push(e.error.kind) });
+
+	try {
+		for await (const event of askLLMStream({ prompt: 'Greet', model: 'streaming-model' })) {
+			assertEquals(event, { type: 'delta', text: 'Hello' });
+			break;
+		}
+
+		assertEquals(closed, true);
+		assertEquals(errors, ['aborted']);
+	} finally {
+		setObservabilityHooks(null);
+		unregister();
+	}
+});
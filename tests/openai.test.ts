@@ -0,0 +1,103 @@
+import { assertEquals } from '@std/assert';
+
+import { askLLMStream, type LLMError } from '../src/llm.ts';
+import { OpenAIProvider } from '../src/providers/index.ts';
+
+/**
+ * Replace fetch with a stub streaming the given Responses API events.
+ */
+function stubStream(events: Array<Record<string, unknown>>): () => void {
+	const original = globalThis.fetch;
+
+	globalThis.fetch = () =>
+		Promise.resolve(
+			new Response(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''), {
+				headers: { 'Content-Type': 'text/event-stream' },
+			}),
+		);
+
+	return () => globalThis.fetch = original;
+}
+
+/** Kind and message of the error ending a stream */
+async function streamError(): Promise<[string, string]> {
+	const provider = new OpenAIProvider('sk-test');
+	try {
+		for await (const _ of provider.stream([{ role: 'user', content: 'Hi' }], 'gpt-4.1-mini', null)) {
+			// Consume the stream
+		}
+	} catch (error) {
+		return [(error as LLMError).kind, (error as LLMError).message];
+	}
+	throw new Error('The stream did not fail');
+}
+
+Deno.test('askLLMStream - closes the provider stream when the consumer stops early', async () => {
+	const original = globalThis.fetch;
+	const originalKey = Deno.env.get('OPENAI_API_KEY');
+	let cancelled = false;
+
+	globalThis.fetch = () => {
+		const delta = { type: 'response.output_text.delta', delta: 'Once upon' };
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(
+					new TextEncoder().encode(`event: ${delta.type}\ndata: ${JSON.stringify(delta)}\n\n`),
+				);
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+		return Promise.resolve(new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }));
+	};
+	Deno.env.set('OPENAI_API_KEY', 'sk-test');
+
+	try {
+		for await (const event of askLLMStream({ prompt: 'Tell a story', model: 'gpt-4.1-mini' })) {
+			assertEquals(event, { type: 'delta', text: 'Once upon' });
+			break;
+		}
+
+		assertEquals(cancelled, true);
+	} finally {
+		globalThis.fetch = original;
+		if (originalKey == null) {
+			Deno.env.delete('OPENAI_API_KEY');
+		} else {
+			Deno.env.set('OPENAI_API_KEY', originalKey);
+		}
+	}
+});
+
+Deno.test('OpenAIProvider - classifies failed streams by their error code', async () => {
+	const failed = (code: string) => ({
+		type: 'response.failed',
+		response: { id: 'resp_1', status: 'failed', error: { code, message: `Failed with ${code}` } },
+	});
+	const cases = [
+		failed('server_error'),
+		failed('rate_limit_exceeded'),
+		failed('invalid_image_url'),
+		{ type: 'error', code: 'insufficient_quota', message: 'Out of credits', param: null },
+		{ type: 'error', code: null, message: 'Something odd', param: null },
+	];
+
+	const errors = [];
+	for (const event of cases) {
+		const restore = stubStream([event]);
+		try {
+			errors.push(await streamError());
+		} finally {
+			restore();
+		}
+	}
+
+	assertEquals(errors, [
+		['server', 'Failed with server_error'],
+		['rate_limit', 'Failed with rate_limit_exceeded'],
+		['invalid_request', 'Failed with invalid_image_url'],
+		['quota', 'Out of credits'],
+		['unknown', 'Something odd'],
+	]);
+});
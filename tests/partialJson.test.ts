@@ -0,0 +1,33 @@
+import { assertEquals } from '@std/assert';
+
+import { parsePartialJSON } from '../src/helpers/partialJson.ts';
+
+Deno.test('parsePartialJSON - parses complete JSON', () => {
+	assertEquals(parsePartialJSON('{"label": "Technology"}'), { label: 'Technology' });
+});
+
+Deno.test('parsePartialJSON - returns undefined when nothing can be parsed yet', () => {
+	assertEquals(parsePartialJSON(''), undefined);
+	assertEquals(parsePartialJSON('   '), undefined);
+});
+
+Deno.test('parsePartialJSON - closes open strings, arrays and objects', () => {
+	assertEquals(parsePartialJSON('{"summary": "The quick br'), { summary: 'The quick br' });
+	assertEquals(parsePartialJSON('{"topics": [{"topic": "AI", "subtopics": ["LLMs", "Age'), {
+		topics: [{ topic: 'AI', subtopics: ['LLMs', 'Age'] }],
+	});
+});
+
+Deno.test('parsePartialJSON - drops incomplete keys, values and literals', () => {
+	assertEquals(parsePartialJSON('{"a": 1, "b'), { a: 1 });
+	assertEquals(parsePartialJSON('{"a": 1, "b":'), { a: 1, b: null });
+	assertEquals(parsePartialJSON('{"a": 1, "b": tr'), { a: 1 });
+	assertEquals(parsePartialJSON('{"a": [1, 2,'), { a: [1, 2] });
+	assertEquals(parsePartialJSON('{"a": -'), {});
+});
+
+Deno.test('parsePartialJSON - handles escapes inside strings', () => {
+	assertEquals(parsePartialJSON('{"text": "say \\"hi\\" {not json'), { text: 'say "hi" {not json' });
+	assertEquals(parsePartialJSON('{"text": "line\\'), { text: 'line' });
+	assertEquals(parsePartialJSON('{"text": "caf\\u00'), { text: 'caf' });
+});
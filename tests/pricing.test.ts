@@ -0,0 +1,88 @@
+import { assertAlmostEquals, assertEquals } from '@std/assert';
+
+import { calculateCost } from '../src/providers/pricing.ts';
+import { BatchResponse } from '../src/response.ts';
+
+const usage = { inputTokens: 1_000_000, outputTokens: 500_000, totalTokens: 1_500_000 };
+
+Deno.test('calculateCost - returns null for unknown models without custom pricing', () => {
+	assertEquals(calculateCost('local/qwen3-8b', usage), null);
+});
+
+Deno.test('calculateCost - uses custom pricing when provided', () => {
+	const cost = calculateCost('local/qwen3-8b', usage, { input: 0.2, output: 0.4 });
+
+	assertEquals(cost, {
+		inputCost: 0.2,
+		outputCost: 0.2,
+		totalCost: 0.4,
+		breakdown: { input: 0.2, cacheRead: 0, cacheWrite: 0, output: 0.2, reasoning: 0 },
+		currency: 'USD',
+	});
+});
+
+Deno.test('calculateCost - prices cached input and reasoning tokens at their own rates', () => {
+	const detailed = { ...usage, cachedInputTokens: 500_000, reasoningTokens: 250_000 };
+	const cost = calculateCost('local/qwen3-8b', detailed, { input: 2, output: 8, cacheRead: 0.5, reasoning: 4 });
+
+	assertEquals(cost?.breakdown, { input: 1, cacheRead: 0.25, cacheWrite: 0, output: 2, reasoning: 1 });
+	assertEquals(cost?.inputCost, 1.25);
+	assertEquals(cost?.outputCost, 3);
+
+	// Without specific rates, the regular input and output rates apply
+	assertEquals(calculateCost('local/qwen3-8b', detailed, { input: 2, output: 8 })?.totalCost, 6);
+});
+
+Deno.test('BatchResponse.usage - aggregates cached and reasoning tokens', () => {
+	const batch = new BatchResponse(
+		['a', 'b'],
+		[{ ...usage, cachedInputTokens: 200_000, reasoningTokens: 100_000 }, usage],
+		'local/qwen3-8b',
+		{ input: 1, output: 2, cacheRead: 0.5 },
+	);
+
+	const aggregated = batch.usage();
+	assertEquals(aggregated?.tokens.cachedInputTokens, 200_000);
+	assertEquals(aggregated?.tokens.reasoningTokens, 100_000);
+	assertEquals(aggregated?.tokens.cacheWriteInputTokens, undefined);
+	assertEquals(aggregated?.cost?.breakdown.cacheRead, 0.1);
+	assertAlmostEquals(aggregated!.cost!.totalCost, 3.9);
+});
+
+Deno.test('BatchResponse.usage - prices with custom pricing', () => {
+	const batch = new BatchResponse(['a', 'b'], [usage, usage], 'local/qwen3-8b', { input: 1, output: 2 });
+
+	assertEquals(batch.usage()?.cost?.totalCost, 4);
+	assertEquals(batch.filter((r) => r === 'a').usage()?.cost?.totalCost, 2);
+});
+
+Deno.test('BatchResponse.usage - prices each item with the model that served it', () => {
+	const batch = new BatchResponse(['a', 'b', 'c'], [usage, usage, usage], 'local/qwen3-8b', { input: 1, output: 2 }, {
+		models: ['local/qwen3-8b', 'local/llama-3-8b', undefined],
+	});
+
+	const aggregated = batch.usage();
+	assertEquals(aggregated?.byModel['local/qwen3-8b'].cost?.totalCost, 4);
+	assertEquals(aggregated?.byModel['local/llama-3-8b'].callCount, 1);
+	assertEquals(aggregated?.byModel['local/llama-3-8b'].cost, null);
+	// Unknown pricing for any serving model makes the total unknown
+	assertEquals(aggregated?.cost, null);
+	assertEquals(batch.filter((r) => r !== 'b').usage()?.cost?.totalCost, 4);
+});
+
+Deno.test('BatchResponse.usage - prices the calls of items that fell back with their models', () => {
+	const calls = [
+		{ model: 'local/qwen3-8b', usage, cached: false },
+		{ model: 'local/llama-3-8b', usage, cached: false },
+	];
+	const batch = new BatchResponse(['a', 'b'], [usage, usage], 'local/llama-3-8b', { input: 1, output: 2 }, {
+		models: ['local/llama-3-8b', 'local/llama-3-8b'],
+		calls: [undefined, calls],
+	});
+
+	const aggregated = batch.usage();
+	assertEquals(aggregated?.callCount, 3);
+	assertEquals(aggregated?.byModel['local/llama-3-8b'].cost?.totalCost, 4);
+	assertEquals(aggregated?.byModel['local/qwen3-8b'].callCount, 1);
+	assertEquals(batch.filter((r) => r === 'a').usage()?.cost?.totalCost, 2);
+});
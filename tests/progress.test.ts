@@ -0,0 +1,149 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { z } from '@zod/zod';
+
+import { type BatchProgress, mapParallel } from '../src/helpers/async.ts';
+import type { LLMProvider, LLMResponse, Message, RequestOptions } from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import { contentToText } from '../src/providers/content.ts';
+import { Tool } from '../src/tool.ts';
+import { genericBatch } from '../src/tools/generic.ts';
+
+/**
+ * Fake provider labeling each input with its text after a delay of 10ms times its last digit,
+ * failing for inputs containing 'fail'. Every call costs $1 at { input: 1, output: 0 } pricing.
+ */
+function delayedProvider(calls: Array<string>): LLMProvider {
+	return {
+		name: 'delayed',
+		async complete<T>(
+			messages: Array<Message>,
+			_model: string,
+			_schema: unknown,
+			_params?: unknown,
+			_tools?: unknown,
+			options?: RequestOptions,
+		): Promise<LLMResponse<T>> {
+			const text = contentToText(messages[messages.length - 1].content).replace('Label: ', '');
+			calls.push(text);
+			await new Promise((resolve) => setTimeout(resolve, 10 * Number(text.match(/(\d)\D*$/)?.[1] ?? 0)));
+
+			const usage = { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 };
+			if (options?.signal?.aborted) {
+				return { parsed: null, text: null, usage: null, error: new Error('Aborted') };
+			}
+			if (text.includes('fail')) {
+				return { parsed: null, text: null, usage, error: new Error(`Failed ${text}`) };
+			}
+			return { parsed: { label: text } as T, text, usage, error: null };
+		},
+	};
+}
+
+class LabelTool extends Tool<string, { label: string }, string> {
+	private readonly outputSchema = z.object({ label: z.string() });
+
+	protected override schema() {
+		return this.outputSchema;
+	}
+
+	protected prompt(input: string): string {
+		return `Label: ${input}`;
+	}
+
+	protected override extractResult(parsed: { label: string }): string {
+		return parsed.label;
+	}
+}
+
+const pricing = { input: 1, output: 0 };
+
+Deno.test('Tool.batchStream - yields results as they complete, with progress', async () => {
+	const unregister = registerProvider('delayed-', () => delayedProvider([]));
+
+	try {
+		const tool = new LabelTool({ model: 'delayed-model', pricing, maxRetries: 0 });
+		const progress: Array<BatchProgress> = [];
+		const items = [];
+		for await (const item of tool.batchStream(['a3', 'fail1', 'c2'], { onProgress: (p) => progress.push(p) })) {
+			items.push(item);
+		}
+
+		assertEquals(items.map(({ index, result }) => [index, result]), [[1, null], [2, 'c2'], [0, 'a3']]);
+		assertEquals(items[0].error?.message, 'Failed fail1');
+		assertEquals(items[1].usage?.inputTokens, 1_000_000);
+
+		assertEquals(progress.map(({ completed, failed, inFlight }) => [completed, failed, inFlight]), [
+			[0, 1, 2],
+			[1, 1, 1],
+			[2, 1, 0],
+		]);
+		assertEquals(progress.map((p) => p.costUSD), [1, 2, 3]);
+		assertEquals(progress[2].etaMs, 0);
+		assertEquals(progress[0].etaMs! > 0, true);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Tool.batchStream - aborts the remaining calls when the iteration ends early', async () => {
+	const calls: Array<string> = [];
+	const unregister = registerProvider('delayed-', () => delayedProvider(calls));
+
+	try {
+		const tool = new LabelTool({ model: 'delayed-model', maxConcurrency: 1, maxRetries: 0 });
+		for await (const item of tool.batchStream(['a1', 'b1', 'c1', 'd1'])) {
+			assertEquals(item.result, 'a1');
+			break;
+		}
+		assertEquals(calls.length <= 2, true);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('Tool.batch - reports progress and keeps the order of the inputs', async () => {
+	const unregister = registerProvider('delayed-', () => delayedProvider([]));
+
+	try {
+		const tool = new LabelTool({ model: 'delayed-model', maxRetries: 0 });
+		const progress: Array<BatchProgress> = [];
+		const results = await tool.batch(['a2', 'b1'], { onProgress: (p) => progress.push(p) });
+
+		assertEquals(results.toArray(), ['a2', 'b1']);
+		assertEquals(progress.map((p) => [p.completed, p.total, p.costUSD]), [[1, 2, null], [2, 2, null]]);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('mapParallel - reports progress, counting throwing callbacks as failed', async () => {
+	const progress: Array<BatchProgress> = [];
+	const onProgress = (p: BatchProgress) => progress.push(p);
+
+	await mapParallel([1, 2, 3], 1, (item) => Promise.resolve(item * 2), { onProgress });
+	assertEquals(progress.map((p) => [p.completed, p.total, p.costUSD]), [[1, 3, null], [2, 3, null], [3, 3, null]]);
+
+	progress.length = 0;
+	await assertRejects(() => mapParallel([1], 1, () => Promise.reject(new Error('Boom')), { onProgress }));
+	assertEquals(progress.map((p) => [p.completed, p.failed, p.inFlight]), [[0, 1, 0]]);
+});
+
+Deno.test('genericBatch - reports progress', async () => {
+	const unregister = registerProvider('delayed-', () => delayedProvider([]));
+
+	try {
+		const progress: Array<BatchProgress> = [];
+		await genericBatch({
+			records: [{ id: 'a1' }, { id: 'b1' }],
+			instructions: 'Label the record',
+			schema: { type: 'object', properties: { label: { type: 'string' } }, required: ['label'] },
+			model: 'delayed-model',
+			maxConcurrency: 1,
+			onProgress: (p) => progress.push(p),
+		});
+
+		assertEquals(progress.map((p) => [p.completed, p.failed, p.total]), [[1, 0, 2], [2, 0, 2]]);
+	} finally {
+		unregister();
+	}
+});
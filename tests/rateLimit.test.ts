@@ -0,0 +1,115 @@
+import { assertEquals, assertRejects, assertStrictEquals } from '@std/assert';
+
+import { askLLMSafe, type LLMProvider, type LLMResponse } from '../src/llm.ts';
+import {
+	getRateLimiter,
+	RateLimiter,
+	registerProvider,
+	setRateLimits,
+	setReplayOptions,
+} from '../src/providers/index.ts';
+
+// 60,000 tokens per minute refill one token per millisecond
+const TPM = 60_000;
+
+async function elapsed(fn: () => Promise<unknown>): Promise<number> {
+	const start = performance.now();
+	await fn();
+	return performance.now() - start;
+}
+
+Deno.test('RateLimiter - waits until the token budget refills', async () => {
+	const limiter = new RateLimiter({ tokensPerMinute: TPM });
+
+	assertEquals(await elapsed(() => limiter.acquire(TPM)) < 20, true);
+	assertEquals(await elapsed(() => limiter.acquire(40)) >= 30, true);
+});
+
+Deno.test('RateLimiter - corrects reservations with the reported usage', async () => {
+	const limiter = new RateLimiter({ tokensPerMinute: TPM });
+
+	await limiter.acquire(TPM);
+	limiter.settle(TPM, { inputTokens: 20_000, outputTokens: 10_000, totalTokens: 30_000 });
+
+	assertEquals(await elapsed(() => limiter.acquire(20_000)) < 20, true);
+});
+
+Deno.test('RateLimiter - stops waiting when aborted', async () => {
+	const limiter = new RateLimiter({ requestsPerMinute: 1 });
+	await limiter.acquire(0);
+
+	const controller = new AbortController();
+	setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+	await assertRejects(() => limiter.acquire(0, controller.signal), Error, 'cancelled');
+	// Later requests are not blocked by the aborted one
+	await assertRejects(() => limiter.acquire(0, AbortSignal.abort(new Error('again'))), Error, 'again');
+});
+
+Deno.test('getRateLimiter - model limits take precedence over provider limits', () => {
+	setRateLimits({ openai: { requestsPerMinute: 500 }, 'openai/gpt-4.1': { requestsPerMinute: 100 } });
+
+	try {
+		assertEquals(getRateLimiter('openai', 'gpt-4.1')?.limit.requestsPerMinute, 100);
+		assertEquals(getRateLimiter('openai', 'gpt-4.1-mini')?.limit.requestsPerMinute, 500);
+		assertStrictEquals(getRateLimiter('openai', 'gpt-4.1-mini'), getRateLimiter('openai', 'gpt-4.1-mini'));
+		assertEquals(getRateLimiter('google', 'gemini-2.5-flash'), null);
+	} finally {
+		setRateLimits(null);
+	}
+
+	assertEquals(getRateLimiter('openai', 'gpt-4.1'), null);
+});
+
+Deno.test('askLLMSafe - shares the rate limit between calls', async () => {
+	// Each call reports slightly more than the whole per-minute budget
+	const provider: LLMProvider = {
+		name: 'limited',
+		complete: <T>(): Promise<LLMResponse<T>> =>
+			Promise.resolve({
+				parsed: 'ok' as T,
+				text: 'ok',
+				usage: { inputTokens: TPM, outputTokens: 30, totalTokens: TPM + 30 },
+				error: null,
+			}),
+	};
+	const unregister = registerProvider('limited-', () => provider);
+	setRateLimits({ limited: { tokensPerMinute: TPM } });
+
+	try {
+		assertEquals(await elapsed(() => askLLMSafe({ prompt: 'Hi', model: 'limited-model' })) < 20, true);
+		assertEquals(await elapsed(() => askLLMSafe({ prompt: 'Hi', model: 'limited-model' })) >= 20, true);
+	} finally {
+		setRateLimits(null);
+		unregister();
+	}
+});
+
+Deno.test('askLLMSafe - applies rate limits of the recorded provider, but not to replayed responses', async () => {
+	const provider: LLMProvider = {
+		name: 'limited',
+		complete: <T>(): Promise<LLMResponse<T>> =>
+			Promise.resolve({
+				parsed: 'ok' as T,
+				text: 'ok',
+				usage: { inputTokens: TPM, outputTokens: 30, totalTokens: TPM + 30 },
+				error: null,
+			}),
+	};
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+	const unregister = registerProvider('limited-', () => provider);
+	setRateLimits({ limited: { tokensPerMinute: TPM } });
+	setReplayOptions({ cassettePath, mode: 'auto' });
+
+	try {
+		assertEquals(await elapsed(() => askLLMSafe({ prompt: 'Hi', model: 'limited-model' })) < 20, true);
+		assertEquals(await elapsed(() => askLLMSafe({ prompt: 'Hi', model: 'limited-model' })) < 20, true);
+		assertEquals(await elapsed(() => askLLMSafe({ prompt: 'Hello', model: 'limited-model' })) >= 20, true);
+	} finally {
+		setReplayOptions(null);
+		setRateLimits(null);
+		unregister();
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
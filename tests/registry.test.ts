@@ -0,0 +1,104 @@
+import { assertEquals, assertStrictEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import { askLLMSafe, type LLMProvider, type LLMResponse, type Message } from '../src/llm.ts';
+import {
+	getProvider,
+	getProviderForModel,
+	getRequestTarget,
+	type LLMError,
+	OpenAIProvider,
+	registerProvider,
+} from '../src/providers/index.ts';
+
+/**
+ * Fake provider answering with a fixed label.
+ */
+class EchoProvider implements LLMProvider {
+	readonly name = 'echo';
+
+	constructor(readonly apiKey?: string) {}
+
+	complete<T>(_messages: Message[], model: string): Promise<LLMResponse<T>> {
+		const output = { label: model };
+		return Promise.resolve({
+			parsed: output as T,
+			text: JSON.stringify(output),
+			usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+			error: null,
+		});
+	}
+}
+
+Deno.test('registerProvider - serves matching models from the registered provider', async () => {
+	const unregister = registerProvider('echo-', ({ apiKey }) => new EchoProvider(apiKey));
+
+	try {
+		const response = await askLLMSafe({
+			prompt: 'Classify this',
+			model: 'echo-large',
+			schema: z.object({ label: z.string() }),
+			maxRetries: 0,
+		});
+
+		assertEquals(response.parsed, { label: 'echo-large' });
+		assertEquals(getProviderForModel('ECHO-small').name, 'echo');
+		assertEquals(getProvider('echo-').name, 'echo');
+	} finally {
+		unregister();
+	}
+
+	assertEquals(getProviderForModel('echo-large', 'sk-test').name, 'openai');
+});
+
+Deno.test('registerProvider - later registrations take precedence', () => {
+	const unregisterFirst = registerProvider(/^custom/, () => new EchoProvider('first'));
+	const unregisterSecond = registerProvider((modelId) => modelId === 'custom-2', () => new EchoProvider('second'));
+
+	try {
+		assertEquals((getProviderForModel('custom-1') as EchoProvider).apiKey, 'first');
+		assertEquals((getProviderForModel('custom-2') as EchoProvider).apiKey, 'second');
+	} finally {
+		unregisterSecond();
+		unregisterFirst();
+	}
+});
+
+Deno.test('getProviderForModel - reuses provider instances per API key', () => {
+	const provider = getProviderForModel('gpt-4.1-mini', 'sk-test-1');
+
+	assertStrictEquals(getProviderForModel('gpt-4.1', 'sk-test-1'), provider);
+	assertStrictEquals(getProvider('openai', 'sk-test-1'), provider);
+	assertEquals(provider instanceof OpenAIProvider, true);
+	assertEquals(getProviderForModel('gpt-4.1', 'sk-test-2') === provider, false);
+});
+
+Deno.test('getRequestTarget - names the provider and server serving a model', () => {
+	const unregister = registerProvider('echo-', () => new EchoProvider());
+
+	try {
+		assertEquals(getRequestTarget('echo-large'), { provider: 'echo-' });
+		assertEquals(getRequestTarget('claude-sonnet-4-5'), { provider: 'anthropic' });
+		assertEquals(getRequestTarget('qwen3-8b', 'http://localhost:8000/v1'), {
+			provider: 'openai-compatible',
+			baseURL: 'http://localhost:8000/v1',
+		});
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('askLLMSafe - returns an invalid request error for local models without a base URL', async () => {
+	const baseURL = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+	Deno.env.delete('OPENAI_COMPATIBLE_BASE_URL');
+
+	try {
+		const response = await askLLMSafe({ prompt: 'Hi', model: 'local/qwen3-8b', onError: 'return', cache: false });
+
+		assertEquals((response.error as LLMError).kind, 'invalid_request');
+	} finally {
+		if (baseURL != null) {
+			Deno.env.set('OPENAI_COMPATIBLE_BASE_URL', baseURL);
+		}
+	}
+});
@@ -0,0 +1,169 @@
+import { assertEquals } from '@std/assert';
+import { z } from '@zod/zod';
+
+import { askLLMSafe, type LLMProvider, type LLMResponse, type Message } from '../src/llm.ts';
+import {
+	getRequestTarget,
+	LLMError,
+	ReplayMissError,
+	ReplayProvider,
+	setReplayOptions,
+} from '../src/providers/index.ts';
+import { Classifier } from '../src/tools/classifier.ts';
+
+/**
+ * Fake provider returning a fixed structured response and counting calls.
+ */
+class FakeProvider implements LLMProvider {
+	readonly name = 'fake';
+	calls = 0;
+
+	constructor(private readonly output: unknown) {}
+
+	complete<T>(_messages: Message[], _model: string): Promise<LLMResponse<T>> {
+		this.calls++;
+		return Promise.resolve({
+			parsed: this.output as T,
+			text: JSON.stringify(this.output),
+			usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+			error: null,
+		});
+	}
+}
+
+const schema = z.object({ label: z.string() });
+const messages: Array<Message> = [{ role: 'user', content: 'Classify this' }];
+
+Deno.test('ReplayProvider - records a response and replays it without calling the provider', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	try {
+		const fake = new FakeProvider({ label: 'Technology' });
+		const recorder = new ReplayProvider(fake, { cassettePath, mode: 'record' });
+		const recorded = await recorder.complete(messages, 'gpt-4.1-mini', schema);
+		assertEquals(fake.calls, 1);
+
+		const replayer = new ReplayProvider(() => {
+			throw new Error('Provider should not be created in replay mode');
+		}, { cassettePath, mode: 'replay' });
+		const replayed = await replayer.complete(messages, 'gpt-4.1-mini', schema);
+
+		assertEquals(replayed, recorded);
+	} finally {
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('ReplayProvider - keys requests on model, messages, schema and params', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	try {
+		const fake = new FakeProvider({ label: 'Technology' });
+		const provider = new ReplayProvider(fake, { cassettePath, mode: 'auto' });
+
+		await provider.complete(messages, 'gpt-4.1-mini', schema, { temperature: 0, top_p: 1 });
+		await provider.complete(messages, 'gpt-4.1-mini', schema, { top_p: 1, temperature: 0 });
+		assertEquals(fake.calls, 1);
+
+		await provider.complete(messages, 'gpt-4.1', schema, { temperature: 0, top_p: 1 });
+		await provider.complete(messages, 'gpt-4.1-mini', null, { temperature: 0, top_p: 1 });
+		assertEquals(fake.calls, 3);
+	} finally {
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('ReplayProvider - keys requests on the provider they go to', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	try {
+		const fake = new FakeProvider({ label: 'Technology' });
+		await new ReplayProvider(fake, { cassettePath, mode: 'record' }, { provider: 'openai' })
+			.complete(messages, 'gpt-4.1-mini', schema);
+
+		const other = new ReplayProvider(fake, { cassettePath, mode: 'replay' }, { provider: 'azure' });
+		const response = await other.complete(messages, 'gpt-4.1-mini', schema);
+
+		assertEquals(response.error instanceof ReplayMissError, true);
+	} finally {
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('ReplayProvider - records fatal errors but not transient ones', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	let calls = 0;
+	const errors = [new LLMError('rate_limit', 'Too many requests'), new LLMError('invalid_request', 'Bad model')];
+	const failing: LLMProvider = {
+		name: 'failing',
+		complete<T>(): Promise<LLMResponse<T>> {
+			return Promise.resolve({ parsed: null, text: null, usage: null, error: errors[calls++] });
+		},
+	};
+
+	try {
+		const provider = new ReplayProvider(failing, { cassettePath, mode: 'auto' });
+
+		assertEquals((await provider.complete(messages, 'gpt-4.1-mini', schema)).error?.message, 'Too many requests');
+		assertEquals((await provider.complete(messages, 'gpt-4.1-mini', schema)).error?.message, 'Bad model');
+		assertEquals(calls, 2);
+
+		const replayed = await provider.complete(messages, 'gpt-4.1-mini', schema);
+		assertEquals(calls, 2);
+		assertEquals((replayed.error as LLMError).kind, 'invalid_request');
+	} finally {
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('ReplayProvider - returns ReplayMissError for unrecorded requests in replay mode', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	const provider = new ReplayProvider(new FakeProvider({ label: 'x' }), { cassettePath, mode: 'replay' });
+	const response = await provider.complete(messages, 'gpt-4.1-mini', schema);
+
+	assertEquals(response.parsed, null);
+	assertEquals(response.error instanceof ReplayMissError, true);
+});
+
+Deno.test('setReplayOptions - askLLMSafe and tools replay through the registry', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	const classifier = new Classifier({ labels: { Technology: 'Tech', Sports: 'Sports' } }, { model: 'gpt-4.1-mini' });
+	const record = { text: 'New JavaScript framework released' };
+
+	try {
+		// Record via a wrapped fake provider, using the same prompt the tool builds
+		const prompt = (classifier as unknown as { prompt(r: unknown): string }).prompt(record);
+		const toolSchema = (classifier as unknown as { schema(): z.ZodType }).schema();
+		const recorder = new ReplayProvider(
+			new FakeProvider({ label: 'Technology' }),
+			{ cassettePath, mode: 'record' },
+			getRequestTarget('gpt-4.1-mini'),
+		);
+		await recorder.complete([{ role: 'user', content: prompt }], 'gpt-4.1-mini', toolSchema);
+
+		setReplayOptions({ cassettePath, mode: 'replay' });
+
+		const response = await classifier.invoke(record);
+		assertEquals(response.parsed, 'Technology');
+
+		const missing = await askLLMSafe({
+			prompt: 'Not recorded',
+			model: 'gpt-4.1-mini',
+			maxRetries: 0,
+			onError: 'return',
+		});
+		assertEquals(missing.error instanceof ReplayMissError, true);
+	} finally {
+		setReplayOptions(null);
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
@@ -0,0 +1,234 @@
+import { assertEquals, assertInstanceOf, assertRejects } from '@std/assert';
+import { z } from '@zod/zod';
+
+import {
+	askLLMSafe,
+	AuthenticationError,
+	backoffPolicy,
+	LLMError,
+	type LLMProvider,
+	type LLMResponse,
+	type Message,
+	RateLimitError,
+	SchemaValidationError,
+	TimeoutError,
+} from '../src/llm.ts';
+import { mapParallel, withRetries } from '../src/helpers/async.ts';
+import {
+	classifyError,
+	getRequestTarget,
+	registerProvider,
+	ReplayProvider,
+	setReplayOptions,
+} from '../src/providers/index.ts';
+
+/**
+ * Error shaped like the API errors of the OpenAI and Anthropic SDKs.
+ */
+class FakeAPIError extends Error {
+	constructor(readonly status: number, message: string, readonly headers = new Headers(), readonly code?: string) {
+		super(message);
+	}
+}
+
+Deno.test('classifyError - maps HTTP statuses to error kinds', () => {
+	assertInstanceOf(classifyError(new FakeAPIError(429, 'Too many requests')), RateLimitError);
+	assertInstanceOf(classifyError(new FakeAPIError(401, 'Invalid API key')), AuthenticationError);
+	assertInstanceOf(classifyError(new FakeAPIError(408, 'Request timeout')), TimeoutError);
+	assertEquals(classifyError(new FakeAPIError(503, 'Overloaded')).kind, 'server');
+	assertEquals(classifyError(new FakeAPIError(400, 'Bad request')).kind, 'invalid_request');
+	assertEquals(classifyError(new FakeAPIError(429, 'Quota', new Headers(), 'insufficient_quota')).kind, 'quota');
+	assertEquals(classifyError(new TypeError('fetch failed')).kind, 'network');
+	assertEquals(classifyError(new Error('Something odd')).kind, 'unknown');
+});
+
+Deno.test('classifyError - reads Retry-After headers and Gemini retry delays', () => {
+	const headers = new Headers({ 'retry-after': '7' });
+	assertEquals(classifyError(new FakeAPIError(429, 'Slow down', headers)).retryAfterMs, 7000);
+
+	const msHeaders = new Headers({ 'retry-after-ms': '250', 'retry-after': '7' });
+	assertEquals(classifyError(new FakeAPIError(429, 'Slow down', msHeaders)).retryAfterMs, 250);
+
+	const gemini = new FakeAPIError(429, '{"error":{"details":[{"retryDelay": "17s"}]}}');
+	assertEquals(classifyError(gemini).retryAfterMs, 17000);
+});
+
+Deno.test('classifyError - returns classified errors unchanged', () => {
+	const error = new SchemaValidationError('Invalid output');
+	assertEquals(classifyError(error), error);
+	assertEquals(error.kind, 'schema_validation');
+});
+
+Deno.test('backoffPolicy - retries transient errors only', () => {
+	const policy = backoffPolicy();
+
+	assertEquals(policy.shouldRetry(new RateLimitError('Too many requests'), 0), true);
+	assertEquals(policy.shouldRetry(new LLMError('server', 'Overloaded'), 0), true);
+	assertEquals(policy.shouldRetry(new AuthenticationError('Invalid API key'), 0), false);
+	assertEquals(policy.shouldRetry(new LLMError('content_filter', 'Blocked'), 0), false);
+	assertEquals(policy.shouldRetry(new RateLimitError('Daily limit', { retryAfterMs: 3_600_000 }), 0), false);
+});
+
+Deno.test('backoffPolicy - grows delays exponentially with jitter and honors Retry-After', () => {
+	const policy = backoffPolicy({ initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2, jitter: 0.5 });
+	const error = new LLMError('server', 'Overloaded');
+
+	for (const [attempt, max] of [[0, 100], [1, 200], [2, 400], [5, 1000]]) {
+		const delay = policy.delayMs(error, attempt);
+		assertEquals(delay > max / 2 - 1e-9 && delay <= max, true, `attempt ${attempt}: ${delay}`);
+	}
+
+	assertEquals(policy.delayMs(new RateLimitError('Slow down', { retryAfterMs: 1500 }), 0), 1500);
+	assertEquals(policy.delayMs(new SchemaValidationError('Invalid output'), 3), 0);
+});
+
+/**
+ * Fake provider that fails with a server error for one model and answers for others.
+ */
+class OutageProvider implements LLMProvider {
+	readonly name = 'fake';
+
+	constructor(private readonly failingModel: string) {}
+
+	complete<T>(_messages: Message[], model: string): Promise<LLMResponse<T>> {
+		if (model === this.failingModel) {
+			return Promise.resolve({ parsed: null, text: null, usage: null, error: new LLMError('server', 'Outage') });
+		}
+		const output = { label: 'Technology' };
+		return Promise.resolve({
+			parsed: output as T,
+			text: JSON.stringify(output),
+			usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+			error: null,
+		});
+	}
+}
+
+Deno.test('askLLMSafe - falls back to the next model and records which one served the call', async () => {
+	const cassettePath = await Deno.makeTempFile({ suffix: '.json' });
+	await Deno.remove(cassettePath);
+
+	const schema = z.object({ label: z.string() });
+	const prompt: Array<Message> = [{ role: 'user', content: 'Classify this' }];
+
+	try {
+		for (const model of ['gpt-4.1-mini', 'gemini-2.5-flash']) {
+			const recorder = new ReplayProvider(
+				new OutageProvider('gpt-4.1-mini'),
+				{ cassettePath, mode: 'record' },
+				getRequestTarget(model),
+			);
+			await recorder.complete(prompt, model, schema);
+		}
+
+		setReplayOptions({ cassettePath, mode: 'replay' });
+
+		const response = await askLLMSafe({
+			prompt,
+			model: 'gpt-4.1-mini',
+			fallbackModels: ['gemini-2.5-flash'],
+			schema,
+			maxRetries: 0,
+		});
+
+		assertEquals(response.parsed, { label: 'Technology' });
+		assertEquals(response.model, 'gemini-2.5-flash');
+		assertEquals(response.calls?.map((call) => call.model), ['gpt-4.1-mini', 'gemini-2.5-flash']);
+	} finally {
+		setReplayOptions(null);
+		await Deno.remove(cassettePath).catch(() => {});
+	}
+});
+
+Deno.test('askLLMSafe - counts the usage of failed attempts and of the models fallen back from', async () => {
+	const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+	let fallbackCalls = 0;
+	const unregister = registerProvider('usage-', () => ({
+		name: 'fake',
+		complete<T>(_messages: Message[], model: string): Promise<LLMResponse<T>> {
+			if (model === 'usage-primary') {
+				return Promise.resolve({ parsed: null, text: null, usage, error: new LLMError('server', 'Outage') });
+			}
+			if (fallbackCalls++ === 0) {
+				return Promise.resolve({
+					parsed: null,
+					text: '{}',
+					usage,
+					error: new SchemaValidationError('No label'),
+				});
+			}
+			return Promise.resolve({
+				parsed: { label: 'Technology' } as T,
+				text: '{"label":"Technology"}',
+				usage,
+				error: null,
+			});
+		},
+	}));
+
+	try {
+		const response = await askLLMSafe({
+			prompt: 'Classify this',
+			model: 'usage-primary',
+			fallbackModels: ['usage-fallback'],
+			schema: z.object({ label: z.string() }),
+			maxRetries: 1,
+			retryPolicy: backoffPolicy({ initialDelayMs: 0 }),
+		});
+
+		const twice = { inputTokens: 20, outputTokens: 10, totalTokens: 30 };
+		assertEquals(response.parsed, { label: 'Technology' });
+		assertEquals(response.usage, { inputTokens: 40, outputTokens: 20, totalTokens: 60 });
+		assertEquals(response.calls, [
+			{ model: 'usage-primary', usage: twice, cached: false },
+			{ model: 'usage-fallback', usage: twice, cached: false },
+		]);
+	} finally {
+		unregister();
+	}
+});
+
+Deno.test('withRetries - stops waiting for retries when aborted', async () => {
+	const controller = new AbortController();
+	let attempts = 0;
+
+	const pending = withRetries(() => {
+		attempts++;
+		setTimeout(() => controller.abort(), 10);
+		return Promise.resolve(new Response(null, { status: 429 }));
+	}, { initialDelay: 60_000, signal: controller.signal });
+
+	await assertRejects(() => pending);
+	assertEquals(attempts, 1);
+});
+
+Deno.test('withRetries - retries attempts that time out', async () => {
+	let attempts = 0;
+
+	const response = await withRetries((signal) => {
+		attempts++;
+		if (attempts > 1) {
+			return Promise.resolve(new Response('ok'));
+		}
+		return new Promise((_, reject) => signal?.addEventListener('abort', () => reject(signal.reason)));
+	}, { initialDelay: 0, timeoutMs: 10 });
+
+	assertEquals(await response.text(), 'ok');
+	assertEquals(attempts, 2);
+});
+
+Deno.test('mapParallel - stops starting new items when aborted', async () => {
+	const controller = new AbortController();
+	const started: Array<number> = [];
+
+	await assertRejects(() =>
+		mapParallel([1, 2, 3, 4, 5], 1, (item) => {
+			started.push(item);
+			if (item === 2) {
+				controller.abort();
+			}
+			return Promise.resolve(item);
+		}, { signal: controller.signal })
+	);
+	assertEquals(started, [1, 2]);
+});
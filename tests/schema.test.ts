@@ -0,0 +1,105 @@
+import { assertEquals, assertInstanceOf, assertThrows } from '@std/assert';
+import { z } from '@zod/zod';
+
+import { UnsupportedSchemaError } from '../src/providers/errors.ts';
+import { decodeStructuredOutput, findSchemaIssues, toCompatibleSchema } from '../src/providers/schema.ts';
+
+const Product = z.object({
+	name: z.string(),
+	brand: z.string().optional().describe('Brand name, if mentioned'),
+	color: z.string().nullable().optional(),
+	stock: z.number().default(0),
+	scores: z.record(z.string(), z.number()),
+	tags: z.array(z.object({ label: z.string(), note: z.string().optional() })),
+});
+
+Deno.test('toCompatibleSchema - OpenAI gets required nullable fields and records as key/value pairs', () => {
+	const { jsonSchema } = toCompatibleSchema(Product, 'openai');
+	const properties = jsonSchema.properties as Record<string, Record<string, unknown>>;
+
+	assertEquals(jsonSchema.required, ['name', 'brand', 'color', 'stock', 'scores', 'tags']);
+	assertEquals(jsonSchema.additionalProperties, false);
+	assertEquals(properties.brand.description, 'Brand name, if mentioned');
+	assertEquals(properties.scores, {
+		type: 'array',
+		items: {
+			type: 'object',
+			properties: { key: { type: 'string' }, value: { type: 'number' } },
+			required: ['key', 'value'],
+			additionalProperties: false,
+		},
+	});
+});
+
+Deno.test('toCompatibleSchema - converts wire values back to the original schema', () => {
+	const compatible = toCompatibleSchema(Product, 'openai');
+
+	const parsed = compatible.parse({
+		name: 'Laptop',
+		brand: null,
+		color: null,
+		stock: null,
+		scores: [{ key: 'price', value: 4 }, { key: 'quality', value: 5 }],
+		tags: [{ label: 'tech', note: null }],
+	});
+
+	assertEquals(parsed, {
+		name: 'Laptop',
+		color: null,
+		stock: 0,
+		scores: { price: 4, quality: 5 },
+		tags: [{ label: 'tech' }],
+	});
+	assertEquals(compatible.safeParse({ name: 'Laptop', scores: 'none', tags: [] }).success, false);
+});
+
+Deno.test('toCompatibleSchema - keeps optional fields for Gemini and records for Anthropic', () => {
+	const gemini = toCompatibleSchema(Product, 'gemini').jsonSchema;
+	assertEquals(gemini.required, ['name', 'scores', 'tags']);
+	assertEquals((gemini.properties as Record<string, { type: string }>).scores.type, 'array');
+
+	const anthropic = toCompatibleSchema(Product, 'anthropic').jsonSchema;
+	assertEquals((anthropic.properties as Record<string, unknown>).scores, {
+		type: 'object',
+		propertyNames: { type: 'string' },
+		additionalProperties: { type: 'number' },
+	});
+	assertEquals(toCompatibleSchema(Product, 'anthropic').parse({ name: 'A', scores: { x: 1 }, tags: [] }).stock, 0);
+});
+
+Deno.test('toCompatibleSchema - reports unsupported constructs before sending', () => {
+	const schema = z.object({
+		when: z.date(),
+		items: z.array(z.object({ extra: z.unknown(), pair: z.tuple([z.string(), z.number()]) })),
+	});
+
+	assertEquals(findSchemaIssues(schema, 'openai').map((issue) => issue.path), ['when', 'items[].extra']);
+	assertEquals(findSchemaIssues(schema, 'gemini').map((issue) => issue.path), [
+		'when',
+		'items[].extra',
+		'items[].pair',
+	]);
+	assertEquals(findSchemaIssues(schema.omit({ when: true }), 'anthropic'), []);
+
+	const error = assertThrows(() => toCompatibleSchema(schema, 'openai'));
+	assertInstanceOf(error, UnsupportedSchemaError);
+	assertEquals(error.kind, 'invalid_request');
+	assertEquals(error.message.includes('when: dates (z.date) are not supported'), true);
+});
+
+Deno.test('toCompatibleSchema - sends the input of transforms and applies them when parsing', () => {
+	const schema = z.object({ words: z.string().transform((text) => text.split(' ')) });
+	const compatible = toCompatibleSchema(schema, 'openai');
+
+	assertEquals((compatible.jsonSchema.properties as Record<string, unknown>).words, { type: 'string' });
+	assertEquals(compatible.parse({ words: 'a b' }), { words: ['a', 'b'] });
+});
+
+Deno.test('decodeStructuredOutput - decodes partial objects without validating them', () => {
+	const partial = decodeStructuredOutput(Product, {
+		name: 'Lap',
+		brand: null,
+		scores: [{ key: 'price', value: 4 }, {}],
+	});
+	assertEquals(partial, { name: 'Lap', scores: { price: 4 } });
+});
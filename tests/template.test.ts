@@ -0,0 +1,134 @@
+import { assertEquals, assertNotEquals, assertThrows } from '@std/assert';
+
+import {
+	definePrompt,
+	definePromptPack,
+	getPrompt,
+	listPrompts,
+	PromptTemplate,
+	PromptTemplateError,
+	resolvePrompts,
+} from '../src/template.ts';
+import type { LLMProvider, LLMResponse, Message } from '../src/llm.ts';
+import { registerProvider } from '../src/providers/index.ts';
+import '../src/tools/classifier.ts';
+import { Summarizer } from '../src/tools/summarize.ts';
+
+Deno.test('PromptTemplate - substitutes all occurrences in a single pass', () => {
+	const template = new PromptTemplate('Classify {record} for {product}. Again: {record}', ['record', 'product']);
+
+	// Values mentioning placeholders are inserted verbatim, and JSON braces stay literal
+	const rendered = template.render({ record: '{product} {"a": 1}', product: 'shoes' });
+	assertEquals(rendered, 'Classify {product} {"a": 1} for shoes. Again: {product} {"a": 1}');
+	assertEquals(new PromptTemplate('Return {"label": "x"}', []).render({}), 'Return {"label": "x"}');
+});
+
+Deno.test('PromptTemplate - rejects missing and unknown values', () => {
+	const template = new PromptTemplate('Summarize {text} in {words} words', ['text', 'words'], { name: 'summary' });
+
+	const error = assertThrows(
+		() => template.render({ text: 'Hi', extra: 'x' } as unknown as { text: string; words: number }),
+		PromptTemplateError,
+	) as PromptTemplateError;
+	assertEquals(error.missing, ['words']);
+	assertEquals(error.extra, ['extra']);
+	assertEquals(
+		error.message,
+		"Can't render prompt template summary: missing values for words; unknown variables extra",
+	);
+});
+
+Deno.test('PromptTemplate - rejects texts not matching the declared variables', () => {
+	const undeclared = assertThrows(
+		() => new PromptTemplate('Hi {name}', []),
+		PromptTemplateError,
+	) as PromptTemplateError;
+	assertEquals(undeclared.extra, ['name']);
+
+	const unused = assertThrows(() => new PromptTemplate('Hi', ['name']), PromptTemplateError) as PromptTemplateError;
+	assertEquals(unused.missing, ['name']);
+});
+
+Deno.test('PromptTemplate - binds variables with partial()', () => {
+	const template = new PromptTemplate('Translate {text} into {language}', ['text', 'language']);
+	const spanish = template.partial({ language: 'Spanish' });
+
+	assertEquals(spanish.variables, ['text']);
+	assertEquals(spanish.render({ text: '{language}' }), 'Translate {language} into Spanish');
+	assertThrows(() => spanish.render({ text: 'Hi', language: 'German' } as { text: string }), PromptTemplateError);
+	assertThrows(() => template.partial({ tone: 'formal' } as unknown as { text: string }), PromptTemplateError);
+});
+
+Deno.test('definePrompt - registers versions of named templates', async () => {
+	const v1 = definePrompt('test.greeting', 'Hello {name}', ['name']);
+	const v2 = definePrompt('test.greeting', 'Hi {name}!', ['name'], 2);
+
+	assertEquals(getPrompt('test.greeting'), v2);
+	assertEquals(getPrompt('test.greeting', 1), v1);
+	assertEquals(getPrompt('test.greeting', 3), null);
+	assertEquals(getPrompt('test.missing'), null);
+
+	// Redefining the same text is fine, changing it requires a new version
+	assertEquals(definePrompt('test.greeting', 'Hello {name}', ['name']).text, v1.text);
+	assertThrows(() => definePrompt('test.greeting', 'Hey {name}', ['name']), PromptTemplateError);
+
+	assertEquals(await v1.hash(), await new PromptTemplate('Hello {name}', ['name']).hash());
+	assertNotEquals(await v1.hash(), await v2.hash());
+
+	// Tools register their prompts when loaded
+	const names = listPrompts().map((template) => template.name);
+	assertEquals(names.includes('classifier'), true);
+	assertEquals(names.indexOf('test.greeting') < names.lastIndexOf('test.greeting'), true);
+});
+
+Deno.test('resolvePrompts - replaces templates by configured prompts, then by prompt packs', () => {
+	const system = definePrompt('test.system', 'Answer in {words} words', ['words']);
+	const user = definePrompt('test.user', 'Question: {question}', ['question']);
+	definePromptPack('xx', { 'test.system': 'Responde en {words} palabras' });
+
+	const translated = resolvePrompts({ system, user }, { promptLanguage: 'xx-YY' });
+	assertEquals(translated.system.render({ words: 5 }), 'Responde en 5 palabras');
+	assertEquals(translated.user, user);
+
+	const config = { prompts: { system: 'Max {words}' }, promptLanguage: 'xx' };
+	const overridden = resolvePrompts({ system, user }, config);
+	assertEquals(overridden.system.render({ words: 5 }), 'Max 5');
+	assertEquals(overridden.system.name, 'test.system');
+
+	assertThrows(() => resolvePrompts({ user }, { prompts: { system: 'Be brief' } }), PromptTemplateError);
+	assertThrows(() => resolvePrompts({ user }, { prompts: { user: 'Question: {q}' } }), PromptTemplateError);
+	assertThrows(() => resolvePrompts({ user }, { promptLanguage: 'zz' }), PromptTemplateError);
+	assertThrows(() => definePromptPack('xx', { 'test.user': 'Pregunta' }), PromptTemplateError);
+});
+
+Deno.test('Summarizer - sends overridden and translated prompts', async () => {
+	const sent: Array<Array<Message>> = [];
+	const provider: LLMProvider = {
+		name: 'recording',
+		complete<T>(messages: Array<Message>): Promise<LLMResponse<T>> {
+			sent.push(messages);
+			return Promise.resolve({ parsed: { summary: 'Short' } as T, text: null, usage: null, error: null });
+		},
+	};
+	const unregister = registerProvider('prompts-', () => provider);
+	definePromptPack('xx', { 'summarizer.user': 'Resume en {wordCount} palabras:\n\n{text}' });
+
+	try {
+		const summarizer = new Summarizer(
+			{
+				targetWordCount: 20,
+				promptLanguage: 'xx',
+				prompts: { system: 'Summarize. {instructions} ({wordCount})' },
+			},
+			{ model: 'prompts-model' },
+		);
+		await summarizer.invoke('Some long text');
+
+		assertEquals(sent[0], [
+			{ role: 'system', content: 'Summarize.  (20)' },
+			{ role: 'user', content: 'Resume en 20 palabras:\n\nSome long text' },
+		]);
+	} finally {
+		unregister();
+	}
+});